@@ -0,0 +1,17 @@
+#!/usr/bin/env npx tsx
+/**
+ * Klados Registration Script
+ *
+ * Creates or updates this worker's klados, deploying it along the way.
+ * Each environment profile (see arke-profiles) has its own state file.
+ *
+ * Usage:
+ *   ARKE_USER_KEY=uk_... npx tsx scripts/register.ts                   # dev profile (test network)
+ *   ARKE_USER_KEY=uk_... npx tsx scripts/register.ts --profile staging # Any named profile
+ *   ARKE_USER_KEY=uk_... npx tsx scripts/register.ts --profile prod    # Main network (or --production)
+ *   ARKE_USER_KEY=uk_... npx tsx scripts/register.ts --dry-run         # Preview only
+ */
+
+import { kladosRegisterCommand } from 'arke-cli';
+
+kladosRegisterCommand(process.argv.slice(2));
@@ -0,0 +1,16 @@
+#!/usr/bin/env npx tsx
+/**
+ * Rotate API Key Script
+ *
+ * Creates a new API key, pushes it to Cloudflare, and optionally revokes the old one.
+ *
+ * Usage:
+ *   ARKE_USER_KEY=uk_... npx tsx scripts/rotate-key.ts                   # dev profile (test network)
+ *   ARKE_USER_KEY=uk_... npx tsx scripts/rotate-key.ts --profile staging # Any named profile
+ *   ARKE_USER_KEY=uk_... npx tsx scripts/rotate-key.ts --profile prod    # Main network (or --production)
+ *   ARKE_USER_KEY=uk_... npx tsx scripts/rotate-key.ts --revoke-old      # Revoke old key
+ */
+
+import { kladosRotateKeyCommand } from 'arke-cli';
+
+kladosRotateKeyCommand(process.argv.slice(2));
@@ -0,0 +1,135 @@
+/**
+ * Gather barrier bookkeeping
+ *
+ * The barrier lives on the scatter's klados log as relationships:
+ * - one `gather_arrival` per branch that reached the gather step
+ * - one `gather_result` pointing at the aggregate, once it exists
+ *
+ * Arrivals are appended with compare-and-swap writes, so their order is the
+ * order the writes landed in. The branch whose arrival fills the last
+ * expected slot closes the barrier.
+ */
+
+import type { GatherArrival, GatherResultProperties, LogEntryData } from './types';
+
+export const ARRIVAL_PREDICATE = 'gather_arrival';
+export const RESULT_PREDICATE = 'gather_result';
+
+/**
+ * A relationship as returned on an entity
+ */
+export interface Relationship {
+  predicate: string;
+  peer: string;
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Read `log_data.entry` from a klados log's properties
+ */
+export function logEntryOf(properties: Record<string, unknown>): LogEntryData {
+  const logData = properties.log_data as { entry?: LogEntryData } | undefined;
+  return logData?.entry ?? {};
+}
+
+/**
+ * Whether a log handed its outputs off with a scatter
+ */
+export function isFanOut(entry: LogEntryData): boolean {
+  return entry.handoffs?.some((h) => h.type === 'scatter') ?? false;
+}
+
+/**
+ * Number of branches a scatter started, or undefined while its handoffs
+ * haven't been recorded yet
+ *
+ * Counts the dispatched invocations, so outputs routed to `done` aren't
+ * waited for. Delegated scatters list no invocations, so every output is
+ * expected instead.
+ */
+export function expectedArrivals(entry: LogEntryData): number | undefined {
+  const handoffs = entry.handoffs;
+  if (!handoffs || handoffs.length === 0) return undefined;
+
+  if (handoffs.some((h) => h.delegated)) {
+    return entry.outputs?.length;
+  }
+  return handoffs.reduce((sum, h) => sum + (h.invocations?.length ?? 0), 0);
+}
+
+/**
+ * Key identifying one branch's arrival
+ *
+ * A redelivered request has the same parent log and targets, so it maps to
+ * the same key. Branches scattered straight into the gather share a parent
+ * log but have different targets.
+ */
+export function arrivalKey(fromLog: string, outputs: string[]): string {
+  return `${fromLog}:${outputs.join(',')}`;
+}
+
+/**
+ * Whether relationship properties are a well-formed arrival
+ */
+export function isGatherArrival(
+  properties: Record<string, unknown> | undefined
+): properties is Record<string, unknown> & GatherArrival {
+  return (
+    properties !== undefined &&
+    typeof properties.key === 'string' &&
+    typeof properties.step === 'string' &&
+    typeof properties.from_log === 'string' &&
+    Array.isArray(properties.outputs) &&
+    properties.outputs.every((output) => typeof output === 'string')
+  );
+}
+
+/**
+ * Arrivals for a gather step, in the order they were recorded
+ *
+ * A key recorded twice (a redelivery racing the original) counts once, at
+ * its first position. Malformed arrivals are skipped.
+ */
+export function arrivalsFor(relationships: Relationship[], step: string): GatherArrival[] {
+  const seen = new Set<string>();
+  const arrivals: GatherArrival[] = [];
+
+  for (const rel of relationships) {
+    const arrival = rel.properties;
+    if (rel.predicate !== ARRIVAL_PREDICATE || !isGatherArrival(arrival)) continue;
+    if (arrival.step !== step || seen.has(arrival.key)) continue;
+    seen.add(arrival.key);
+    arrivals.push({ key: arrival.key, step: arrival.step, from_log: arrival.from_log, outputs: arrival.outputs });
+  }
+
+  return arrivals;
+}
+
+/**
+ * The aggregate already created for a gather step, if any
+ */
+export function findResult(relationships: Relationship[], step: string): string | undefined {
+  return relationships.find((r) => r.predicate === RESULT_PREDICATE && r.properties?.step === step)?.peer;
+}
+
+/**
+ * Build the aggregate's properties from the recorded arrivals
+ */
+export function buildGatherResult(
+  arrivals: GatherArrival[],
+  context: { step: string; jobId: string; fanOutLog: string; agentId: string }
+): GatherResultProperties {
+  const outputs = [...new Set(arrivals.flatMap((a) => a.outputs))];
+
+  return {
+    label: `Gather of ${arrivals.length} ${context.step} branches`,
+    step: context.step,
+    job_id: context.jobId,
+    fan_out_log: context.fanOutLog,
+    item_count: arrivals.length,
+    items: arrivals.map((a) => ({ from_log: a.from_log, outputs: a.outputs })),
+    outputs,
+    gathered_by: context.agentId,
+    gathered_at: new Date().toISOString(),
+  };
+}
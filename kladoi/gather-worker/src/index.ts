@@ -0,0 +1,19 @@
+/**
+ * Gather Worker - Joins the branches of a scatter back into one step
+ *
+ * This worker:
+ * 1. Is invoked once per scatter branch (e.g. { pass: "gather" })
+ * 2. Records the branch's arrival on the scatter's klados log
+ * 3. When the last branch arrives, creates one gather_result entity
+ *    listing every branch's outputs and returns it as the only output
+ *
+ * Earlier arrivals return no outputs, so the step after the gather runs
+ * once per scatter.
+ *
+ * The routes and job lifecycle come from createKladosWorker (klados-worker).
+ */
+
+import { createKladosWorker } from 'klados-worker';
+import { processJob } from './job';
+
+export default createKladosWorker({ processJob });
@@ -0,0 +1,290 @@
+/**
+ * Gather Worker - Job Processing Logic
+ *
+ * This worker is a barrier for the branches of a scatter. Each branch hands
+ * off to it once (e.g. `scatter → stamp → { pass: "gather" }`); the worker
+ * finds the scatter that started the branch by walking the klados logs'
+ * `received.from_logs` links, and records the branch's arrival on the
+ * scatter's log.
+ *
+ * The scatter's recorded handoffs say how many branches to expect. The
+ * branch that fills the last slot creates one `gather_result` entity listing
+ * every branch's outputs and returns it; every other branch returns no
+ * outputs, so the workflow continues once per scatter.
+ *
+ * Redelivered requests find their arrival already recorded and don't count
+ * twice. Used for map-reduce shaped workflows.
+ */
+
+import type { KladosJob } from '@arke-institute/rhiza';
+import { updateWithCas, isCasConflict, type CasSnapshot, type CasRetryOptions } from 'klados-runtime';
+import {
+  ARRIVAL_PREDICATE,
+  RESULT_PREDICATE,
+  arrivalKey,
+  arrivalsFor,
+  buildGatherResult,
+  expectedArrivals,
+  findResult,
+  isFanOut,
+  logEntryOf,
+  type Relationship,
+} from './gather';
+import type { GatherArrival, LogEntryData } from './types';
+
+/** How many logs to walk up looking for the scatter */
+const MAX_FAN_OUT_DEPTH = 20;
+
+/** Polls for a log's handoffs, which are recorded after it hands off */
+const HANDOFF_WAIT_ATTEMPTS = 6;
+const HANDOFF_WAIT_BASE_MS = 250;
+
+/**
+ * Process a job by recording this branch's arrival at the gather
+ *
+ * @param job - The KladosJob instance
+ * @returns The gather_result entity ID for the last branch, otherwise nothing
+ */
+export async function processJob(job: KladosJob): Promise<string[]> {
+  const step = job.request.rhiza?.path?.at(-1);
+  const fromLog = job.request.rhiza?.parent_logs?.[0];
+  if (!step || !fromLog) {
+    throw new Error('Gather worker must run as a workflow step that follows a scatter');
+  }
+
+  const outputs = job.request.target_entities?.length
+    ? job.request.target_entities
+    : job.request.target_entity
+      ? [job.request.target_entity]
+      : [];
+  if (outputs.length === 0) {
+    throw new Error('Gather worker received no target entities');
+  }
+
+  job.log.info('Gather worker starting', { step, fromLog, outputs: outputs.length });
+
+  const { logId: fanOutLog, expected } = await findFanOut(job, fromLog);
+  job.log.info('Found scatter', { fanOutLog, expected });
+
+  // Append the arrival with a compare-and-swap loop, so concurrent branches
+  // each land in their own slot
+  const key = arrivalKey(fromLog, outputs);
+  let arrivals: GatherArrival[] = [];
+
+  await updateWithCas(
+    {
+      read: () => readRelationships(job, fanOutLog),
+      write: async ({ tip, value }) => {
+        arrivals = arrivalsFor(value, step);
+        if (arrivals.some((a) => a.key === key)) return { ok: true };
+
+        const arrival: GatherArrival = { key, step, from_log: fromLog, outputs };
+        arrivals = [...arrivals, arrival];
+
+        return addRelationship(job, fanOutLog, tip, {
+          predicate: ARRIVAL_PREDICATE,
+          peer: outputs[0],
+          properties: { ...arrival },
+        });
+      },
+    },
+    retryOptions(job, 'Arrival')
+  );
+
+  const position = arrivals.findIndex((a) => a.key === key) + 1;
+
+  if (position < expected) {
+    job.log.success('Arrival recorded, waiting for other branches', { position, expected });
+    return [];
+  }
+  if (position > expected) {
+    job.log.info('Arrived after the gather closed, ignoring', { position, expected });
+    job.log.success('Job completed');
+    return [];
+  }
+
+  const resultId = await closeGather(job, fanOutLog, step, arrivals.slice(0, expected));
+
+  job.log.success('Gather complete', { result: resultId, item_count: expected });
+  return [resultId];
+}
+
+/**
+ * Walk up from the log that handed off to this step to the nearest scatter
+ *
+ * @returns The scatter's log ID and the number of branches it started
+ */
+async function findFanOut(job: KladosJob, fromLog: string): Promise<{ logId: string; expected: number }> {
+  let logId = fromLog;
+
+  for (let depth = 0; depth < MAX_FAN_OUT_DEPTH; depth++) {
+    const entry = await readHandedOffEntry(job, logId);
+
+    if (isFanOut(entry)) {
+      const expected = expectedArrivals(entry);
+      if (!expected) {
+        throw new Error(`Scatter log ${logId} started no branches`);
+      }
+      return { logId, expected };
+    }
+
+    const parent = entry.received?.from_logs?.[0];
+    if (!parent) break;
+    logId = parent;
+  }
+
+  throw new Error(`No scatter found above log ${fromLog}: a gather step must follow a scatter`);
+}
+
+/**
+ * Read a log's entry once its handoffs are recorded
+ *
+ * Every log above this step has already handed off, but the orchestrator
+ * may not have written the handoffs back to it yet. A log that still has
+ * none after the wait fails the job: read as a non-scatter, it would send
+ * the walk past a nested scatter to the one above it.
+ */
+async function readHandedOffEntry(job: KladosJob, logId: string): Promise<LogEntryData> {
+  for (let attempt = 0; ; attempt++) {
+    const { data: log, error } = await job.client.api.GET('/entities/{id}', {
+      params: { path: { id: logId } },
+    });
+
+    if (error || !log) {
+      throw new Error(`Failed to fetch klados log: ${logId}`);
+    }
+
+    const entry = logEntryOf(log.properties);
+    if (entry.handoffs?.length) {
+      return entry;
+    }
+    if (attempt + 1 >= HANDOFF_WAIT_ATTEMPTS) {
+      throw new Error(`Handoffs of klados log ${logId} were not recorded after ${HANDOFF_WAIT_ATTEMPTS} reads`);
+    }
+
+    const delayMs = HANDOFF_WAIT_BASE_MS * 2 ** attempt;
+    job.log.info('Handoffs not recorded yet, waiting', { logId, attempt: attempt + 1, delayMs });
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+}
+
+/**
+ * Create the aggregate and record it on the scatter's log
+ *
+ * If a concurrent redelivery of the closing branch recorded its aggregate
+ * first, that one wins and is returned.
+ *
+ * @returns The gather_result entity ID recorded on the scatter's log
+ */
+async function closeGather(
+  job: KladosJob,
+  fanOutLog: string,
+  step: string,
+  arrivals: GatherArrival[]
+): Promise<string> {
+  const { value: current } = await readRelationships(job, fanOutLog);
+  const existing = findResult(current, step);
+  if (existing) {
+    job.log.info('Gather result already recorded, returning it', { result: existing });
+    return existing;
+  }
+
+  const properties = buildGatherResult(arrivals, {
+    step,
+    jobId: job.request.job_id,
+    fanOutLog,
+    agentId: job.config.agentId,
+  });
+
+  const { data: result, error: createError } = await job.client.api.POST('/entities', {
+    body: {
+      type: 'gather_result',
+      collection: job.request.target_collection,
+      properties: { ...properties },
+      relationships: properties.outputs.map((peer) => ({ predicate: 'gathered', peer })),
+    },
+  });
+
+  if (createError || !result) {
+    throw new Error(`Failed to create gather result: ${JSON.stringify(createError)}`);
+  }
+
+  job.log.info('Created gather result', { result: result.id, outputs: properties.outputs.length });
+
+  let recorded = result.id;
+  await updateWithCas(
+    {
+      read: () => readRelationships(job, fanOutLog),
+      write: async ({ tip, value }) => {
+        const prior = findResult(value, step);
+        if (prior) {
+          recorded = prior;
+          job.log.info('Gather result already recorded by a concurrent delivery', {
+            recorded_result: prior,
+            duplicate_result: result.id,
+          });
+          return { ok: true };
+        }
+
+        return addRelationship(job, fanOutLog, tip, {
+          predicate: RESULT_PREDICATE,
+          peer: result.id,
+          properties: { step },
+        });
+      },
+    },
+    retryOptions(job, 'Result link')
+  );
+
+  return recorded;
+}
+
+/**
+ * Read an entity's tip and relationships for a CAS update
+ *
+ * The tip is read before the entity: if a write lands in between, the PUT
+ * fails the tip check and is retried rather than acting on stale arrivals.
+ */
+async function readRelationships(job: KladosJob, entityId: string): Promise<CasSnapshot<Relationship[]>> {
+  const { data: tipData, error: tipError } = await job.client.api.GET('/entities/{id}/tip', {
+    params: { path: { id: entityId } },
+  });
+
+  if (tipError || !tipData) {
+    throw new Error(`Failed to get entity tip: ${entityId}`);
+  }
+
+  const { data: entity, error: fetchError } = await job.client.api.GET('/entities/{id}', {
+    params: { path: { id: entityId } },
+  });
+
+  if (fetchError || !entity) {
+    throw new Error(`Failed to fetch entity: ${entityId}`);
+  }
+
+  return { tip: tipData.cid, value: (entity.relationships ?? []) as Relationship[] };
+}
+
+/**
+ * Add one relationship guarded by `expect_tip`
+ */
+async function addRelationship(job: KladosJob, entityId: string, tip: string, relationship: Relationship) {
+  const { error, response } = await job.client.api.PUT('/entities/{id}', {
+    params: { path: { id: entityId } },
+    body: {
+      expect_tip: tip,
+      relationships_add: [relationship],
+    },
+  });
+
+  if (!error) return { ok: true } as const;
+  return { ok: false, conflict: isCasConflict(response.status), error } as const;
+}
+
+function retryOptions(job: KladosJob, label: string): CasRetryOptions {
+  return {
+    onConflict: ({ attempt, delayMs }) => {
+      job.log.info(`${label} conflicted with a concurrent update, retrying`, { attempt, delayMs });
+    },
+  };
+}
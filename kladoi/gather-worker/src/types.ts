@@ -0,0 +1,67 @@
+/**
+ * Type definitions for the klados worker
+ */
+
+/**
+ * The parts of a klados log's `log_data.entry` the gather barrier reads
+ */
+export interface LogEntryData {
+  /** What the logged invocation received, including the logs that handed off to it */
+  received?: {
+    target_entity?: string;
+    target_entities?: string[];
+    from_logs?: string[];
+  };
+
+  outputs?: unknown[];
+
+  handoffs?: Array<{
+    type?: string;
+    target?: string;
+
+    /** Large scatters are dispatched by the scatter utility and list no invocations */
+    delegated?: boolean;
+    invocations?: unknown[];
+  }>;
+}
+
+/**
+ * A branch's arrival, stored as the properties of a `gather_arrival`
+ * relationship on the scatter's klados log
+ */
+export interface GatherArrival {
+  /** Identifies the branch across redeliveries */
+  key: string;
+
+  /** Rhiza step name of the gather */
+  step: string;
+
+  /** The branch log that handed off to the gather */
+  from_log: string;
+
+  /** Entities the branch passed to the gather */
+  outputs: string[];
+}
+
+/**
+ * Properties of the aggregate entity created when the last branch arrives
+ */
+export interface GatherResultProperties {
+  label: string;
+  step: string;
+  job_id: string;
+
+  /** The klados log of the scatter whose branches were gathered */
+  fan_out_log: string;
+
+  item_count: number;
+
+  /** One item per branch, in arrival order */
+  items: Array<{ from_log: string; outputs: string[] }>;
+
+  /** Every branch's outputs, flattened and de-duplicated */
+  outputs: string[];
+
+  gathered_by: string;
+  gathered_at: string;
+}
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the gather barrier bookkeeping
+ *
+ * Covers expected branch counts, arrival ordering and the aggregate shape.
+ * These run without any environment variables or network access.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ARRIVAL_PREDICATE,
+  RESULT_PREDICATE,
+  arrivalKey,
+  arrivalsFor,
+  buildGatherResult,
+  expectedArrivals,
+  findResult,
+  isFanOut,
+  type Relationship,
+} from '../src/gather';
+import type { GatherArrival } from '../src/types';
+
+function arrival(fromLog: string, outputs: string[], step = 'gather'): GatherArrival {
+  return { key: arrivalKey(fromLog, outputs), step, from_log: fromLog, outputs };
+}
+
+function arrivalRel(a: GatherArrival): Relationship {
+  return { predicate: ARRIVAL_PREDICATE, peer: a.outputs[0], properties: { ...a } };
+}
+
+describe('expected arrivals', () => {
+  it('should count dispatched invocations across handoffs', () => {
+    const entry = {
+      outputs: ['a', 'b', 'c', 'd'],
+      handoffs: [{ type: 'scatter', target: 'stamp', invocations: [{}, {}, {}] }],
+    };
+
+    expect(isFanOut(entry)).toBe(true);
+    expect(expectedArrivals(entry)).toBe(3);
+  });
+
+  it('should expect every output for delegated scatters', () => {
+    expect(
+      expectedArrivals({ outputs: ['a', 'b', 'c'], handoffs: [{ type: 'scatter', delegated: true }] })
+    ).toBe(3);
+  });
+
+  it('should be unknown until handoffs are recorded', () => {
+    expect(expectedArrivals({ outputs: ['a'] })).toBeUndefined();
+    expect(isFanOut({ outputs: ['a'] })).toBe(false);
+    expect(isFanOut({ handoffs: [{ type: 'pass', invocations: [{}] }] })).toBe(false);
+  });
+});
+
+describe('arrivals', () => {
+  it('should keep arrivals for the step in recorded order, once per key', () => {
+    const first = arrival('log_a', ['e1']);
+    const second = arrival('log_b', ['e2', 'r2']);
+    const other = arrival('log_c', ['e3'], 'other_gather');
+
+    const relationships: Relationship[] = [
+      { predicate: 'has_copy', peer: 'e1' },
+      arrivalRel(first),
+      arrivalRel(other),
+      arrivalRel(second),
+      arrivalRel(first),
+    ];
+
+    expect(arrivalsFor(relationships, 'gather')).toEqual([first, second]);
+    expect(arrivalsFor(relationships, 'other_gather')).toEqual([other]);
+  });
+
+  it('should skip malformed arrivals', () => {
+    const valid = arrival('log_a', ['e1']);
+    const relationships: Relationship[] = [
+      { predicate: ARRIVAL_PREDICATE, peer: 'e0' },
+      { predicate: ARRIVAL_PREDICATE, peer: 'e0', properties: { ...valid, key: 7 } },
+      { predicate: ARRIVAL_PREDICATE, peer: 'e0', properties: { ...valid, key: 'k2', outputs: 'e0' } },
+      { predicate: ARRIVAL_PREDICATE, peer: 'e0', properties: { ...valid, key: 'k3', outputs: ['e0', 3] } },
+      { predicate: ARRIVAL_PREDICATE, peer: 'e0', properties: { key: 'k4', step: 'gather', outputs: ['e0'] } },
+      arrivalRel(valid),
+    ];
+
+    expect(arrivalsFor(relationships, 'gather')).toEqual([valid]);
+  });
+
+  it('should tell branches apart by parent log and targets', () => {
+    expect(arrivalKey('log_a', ['e1'])).not.toBe(arrivalKey('log_b', ['e1']));
+    expect(arrivalKey('log_scatter', ['e1'])).not.toBe(arrivalKey('log_scatter', ['e2']));
+  });
+
+  it('should find the result recorded for a step', () => {
+    const relationships: Relationship[] = [
+      { predicate: RESULT_PREDICATE, peer: 'result_other', properties: { step: 'other' } },
+      { predicate: RESULT_PREDICATE, peer: 'result_1', properties: { step: 'gather' } },
+    ];
+
+    expect(findResult(relationships, 'gather')).toBe('result_1');
+    expect(findResult(relationships, 'missing')).toBeUndefined();
+  });
+});
+
+describe('gather result', () => {
+  it('should list every branch and the de-duplicated outputs', () => {
+    const result = buildGatherResult([arrival('log_a', ['e1', 'r1']), arrival('log_b', ['e2', 'r1'])], {
+      step: 'gather',
+      jobId: 'job_1',
+      fanOutLog: 'log_scatter',
+      agentId: 'klados_gather',
+    });
+
+    expect(result).toMatchObject({
+      label: 'Gather of 2 gather branches',
+      step: 'gather',
+      job_id: 'job_1',
+      fan_out_log: 'log_scatter',
+      item_count: 2,
+      items: [
+        { from_log: 'log_a', outputs: ['e1', 'r1'] },
+        { from_log: 'log_b', outputs: ['e2', 'r1'] },
+      ],
+      outputs: ['e1', 'r1', 'e2'],
+      gathered_by: 'klados_gather',
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Offline Test for Gather Worker
+ *
+ * Runs the worker's Hono app in-process against the fake Arke API. The
+ * scatter and branch klados logs a real workflow would leave behind are
+ * written straight into the fake's store, then the gather step is
+ * dispatched once per branch, in sequence, concurrently and redelivered.
+ *
+ * Usage:
+ *   npm test
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createFakeArke, type FakeArke, type FakeEntity } from 'fake-arke';
+import app from '../src/index';
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('gather-worker (offline)', () => {
+  let fake: FakeArke;
+  let restoreFetch: () => void;
+  let kladosId: string;
+  let targetCollection: string;
+
+  beforeAll(() => {
+    fake = createFakeArke();
+    restoreFetch = fake.install();
+
+    kladosId = fake.registerKlados({ label: 'Gather Worker', worker: app });
+    targetCollection = fake.store.create({ type: 'collection' }).id;
+  });
+
+  afterAll(() => {
+    restoreFetch();
+  });
+
+  /**
+   * The logs of `scatter → stamp` with `count` branches, as the orchestrator
+   * leaves them before the stamps hand off to the gather
+   */
+  function scatterRun(count: number) {
+    const jobId = `job_gather_${fake.store.list().length}`;
+    const jobCollection = fake.store.create({ type: 'collection' }).id;
+    const items = Array.from({ length: count }, () =>
+      fake.store.create({ type: 'test_entity', collection: targetCollection }).id
+    );
+
+    const scatterLog = fake.store.create({
+      type: 'klados_log',
+      collection: jobCollection,
+      properties: {
+        klados_id: 'klados_scatter',
+        status: 'done',
+        log_data: {
+          entry: {
+            outputs: items,
+            handoffs: [{ type: 'scatter', target: 'stamp', invocations: items.map((id) => ({ request: { target_entity: id } })) }],
+          },
+        },
+      },
+    });
+
+    const branches = items.map((item) =>
+      fake.store.create({
+        type: 'klados_log',
+        collection: jobCollection,
+        properties: {
+          klados_id: 'klados_stamp',
+          status: 'done',
+          log_data: {
+            entry: {
+              received: { target_entity: item, from_logs: [scatterLog.id] },
+              outputs: [item],
+              handoffs: [{ type: 'pass', target: 'gather', invocations: [{}] }],
+            },
+          },
+        },
+      })
+    );
+
+    const gatherRequest = (branch: FakeEntity, index: number) => ({
+      job_id: jobId,
+      target_entity: items[index],
+      target_collection: targetCollection,
+      job_collection: jobCollection,
+      api_base: fake.baseUrl,
+      network: 'test',
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+      rhiza: { id: 'rhiza_map_reduce', path: ['scatter', 'stamp', 'gather'], parent_logs: [branch.id] },
+    });
+
+    return { jobCollection, scatterLog, branches, items, requests: branches.map(gatherRequest) };
+  }
+
+  function gatherOutputs(jobCollection: string): unknown[][] {
+    return fake
+      .logs(jobCollection)
+      .filter((l) => l.properties.klados_id === kladosId)
+      .map((l) => (l.properties.log_data as { entry?: { outputs?: unknown[] } }).entry?.outputs ?? []);
+  }
+
+  function results(scatterLogId: string): FakeEntity[] {
+    return fake.store.list({ type: 'gather_result' }).filter((r) => r.properties.fan_out_log === scatterLogId);
+  }
+
+  // ==========================================================================
+  // Tests
+  // ==========================================================================
+
+  it('should emit one aggregate when the last branch arrives', async () => {
+    const run = scatterRun(3);
+
+    for (const request of run.requests) {
+      await fake.dispatch(kladosId, request);
+      await fake.idle();
+    }
+
+    expect(fake.backgroundErrors).toEqual([]);
+
+    const [result] = results(run.scatterLog.id);
+    expect(gatherOutputs(run.jobCollection)).toEqual([[], [], [result.id]]);
+    expect(result.properties).toMatchObject({
+      step: 'gather',
+      item_count: 3,
+      outputs: run.items,
+      items: run.branches.map((b, i) => ({ from_log: b.id, outputs: [run.items[i]] })),
+    });
+    expect(result.relationships.map((r) => r.peer)).toEqual(run.items);
+
+    const predicates = fake.store.get(run.scatterLog.id).relationships.map((r) => r.predicate);
+    expect(predicates).toEqual(['gather_arrival', 'gather_arrival', 'gather_arrival', 'gather_result']);
+  });
+
+  it('should close exactly once when branches arrive concurrently', async () => {
+    const run = scatterRun(5);
+
+    await Promise.all(run.requests.map((request) => fake.dispatch(kladosId, request)));
+    await fake.idle();
+
+    expect(fake.backgroundErrors).toEqual([]);
+    expect(results(run.scatterLog.id)).toHaveLength(1);
+    expect(gatherOutputs(run.jobCollection).filter((o) => o.length > 0)).toHaveLength(1);
+  });
+
+  it('should not count a redelivered branch twice', async () => {
+    const run = scatterRun(2);
+
+    await fake.dispatch(kladosId, run.requests[0]);
+    await fake.idle();
+    await fake.dispatch(kladosId, run.requests[0]);
+    await fake.idle();
+    expect(results(run.scatterLog.id)).toHaveLength(0);
+
+    await fake.dispatch(kladosId, run.requests[1]);
+    await fake.idle();
+    await fake.dispatch(kladosId, run.requests[1]);
+    await fake.idle();
+
+    const [result] = results(run.scatterLog.id);
+    expect(results(run.scatterLog.id)).toHaveLength(1);
+    expect(gatherOutputs(run.jobCollection)).toEqual([[], [], [result.id], [result.id]]);
+  });
+
+  it('should only wait for branches the scatter dispatched', async () => {
+    const run = scatterRun(3);
+
+    // Route the last item to done: the scatter dispatched two branches
+    const logData = run.scatterLog.properties.log_data as { entry: { handoffs: Array<{ invocations: unknown[] }> } };
+    logData.entry.handoffs[0].invocations.pop();
+    fake.store.update(run.scatterLog.id, { properties: { log_data: logData } });
+
+    await fake.dispatch(kladosId, run.requests[0]);
+    await fake.dispatch(kladosId, run.requests[1]);
+    await fake.idle();
+
+    expect(results(run.scatterLog.id)[0].properties.item_count).toBe(2);
+  });
+
+  it('should fail rather than walk past a log whose handoffs are not recorded', async () => {
+    const run = scatterRun(2);
+
+    // A nested scatter between the outer scatter and the branch, still
+    // without its handoffs: the gather must not bind to the outer scatter
+    const inner = fake.store.create({
+      type: 'klados_log',
+      collection: run.jobCollection,
+      properties: {
+        klados_id: 'klados_scatter',
+        status: 'done',
+        log_data: { entry: { received: { from_logs: [run.scatterLog.id] }, outputs: run.items } },
+      },
+    });
+    const branch = fake.store.create({
+      type: 'klados_log',
+      collection: run.jobCollection,
+      properties: {
+        klados_id: 'klados_stamp',
+        status: 'done',
+        log_data: {
+          entry: {
+            received: { target_entity: run.items[0], from_logs: [inner.id] },
+            outputs: [run.items[0]],
+            handoffs: [{ type: 'pass', target: 'gather', invocations: [{}] }],
+          },
+        },
+      },
+    });
+
+    await fake.dispatch(kladosId, {
+      ...run.requests[0],
+      rhiza: { id: 'rhiza_map_reduce', path: ['scatter', 'scatter', 'stamp', 'gather'], parent_logs: [branch.id] },
+    });
+    await fake.idle();
+
+    const gatherLog = fake.logs(run.jobCollection).find((l) => l.properties.klados_id === kladosId);
+    expect(gatherLog?.properties.status).toBe('error');
+    expect(fake.store.get(run.scatterLog.id).relationships).toEqual([]);
+  }, 15_000);
+
+  it('should fail when no scatter precedes the gather', async () => {
+    const jobCollection = fake.store.create({ type: 'collection' }).id;
+    const entity = fake.store.create({ type: 'test_entity', collection: targetCollection });
+    const passLog = fake.store.create({
+      type: 'klados_log',
+      collection: jobCollection,
+      properties: {
+        klados_id: 'klados_stamp',
+        status: 'done',
+        log_data: { entry: { outputs: [entity.id], handoffs: [{ type: 'pass', target: 'gather', invocations: [{}] }] } },
+      },
+    });
+
+    await fake.dispatch(kladosId, {
+      job_id: 'job_no_scatter',
+      target_entity: entity.id,
+      target_collection: targetCollection,
+      job_collection: jobCollection,
+      api_base: fake.baseUrl,
+      network: 'test',
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+      rhiza: { id: 'rhiza_no_scatter', path: ['stamp', 'gather'], parent_logs: [passLog.id] },
+    });
+    await fake.idle();
+
+    const gatherLog = fake.logs(jobCollection).find((l) => l.properties.klados_id === kladosId);
+    expect(gatherLog?.properties.status).toBe('error');
+  });
+});
@@ -1,73 +1,168 @@
 /**
  * Scatter Worker - Job Processing Logic
  *
- * This worker creates N copies of an entity for scatter testing.
- * Each copy is a new entity with a copy_index property.
+ * This worker produces the items a scatter handoff fans out over. The
+ * source is selected through the job input (see ScatterInput):
+ * - `copies` (default) - creates N copies of the target entity, each with a
+ *   copy_index property, in checkpointed pages a later invocation can resume
+ * - `relationships` - the peers of the target's relationships with a predicate
+ * - `collection` - the members of a collection
+ * - `search` - the entities matching a type/collection query
  *
- * Used for E2E testing of scatter/gather workflows.
- *
- * Supports `mix_entity_class: true` to assign alternating entity_class
- * values for testing per-item routing in rhiza workflows.
+ * Each output's routing properties come from the input's routing rules
+ * (see routing.ts), so per-item `route` rules in rhiza workflows can be
+ * driven by data. `mix_entity_class: true` on the target (or
+ * `entity_class: true` in the input) is shorthand for entity_class routing.
  *
  * Supports `use_existing_copies: true` to use pre-created copies instead
  * of creating new ones (useful for stress testing without hitting worker limits).
  */
 
 import type { KladosJob, Output } from '@arke-institute/rhiza';
+import {
+  updateWithCas,
+  isCasConflict,
+  runPool,
+  retryAfterMs,
+  type PoolAttemptResult,
+  type PoolOptions,
+} from 'klados-runtime';
+import { DEFAULT_CONCURRENCY, legacyRouting, parseScatterInput, resolveScatterPlan, selectItems } from './source';
+import { classify, needsProperties } from './routing';
+import {
+  SCATTER_PROGRESS_KEY,
+  buildProgress,
+  linkedCopies,
+  missingIndices,
+  resolveRun,
+  toPages,
+  type CopyRelationship,
+} from './progress';
+import type { CopyFailure, RoutingRule, RoutingValue, ScatterPlan, ScatterProgress } from './types';
 
 /** Default number of copies to create */
 const DEFAULT_COPY_COUNT = 3;
 
-/** Batch size for concurrent entity creation/fetching */
-const BATCH_SIZE = 20;
 
 /**
- * Process a job by creating N copies of the target entity
- *
- * The number of copies is configurable via the target entity's `copy_count` property.
- * Defaults to 3 if not specified.
- *
- * When `mix_entity_class: true` is set on the target entity, copies will be
- * assigned alternating entity_class values ('canonical' for even indices,
- * 'mention' for odd indices) for testing per-item routing.
+ * Process a job by producing the items to scatter over
  *
- * When `use_existing_copies: true` is set, the worker will read existing
- * `has_copy` relationships instead of creating new entities. This is useful
- * for stress testing with many copies without hitting worker CPU limits.
+ * Without input the worker creates copies of the target, or passes
+ * target_entities through when it received several.
  *
  * @param job - The KladosJob instance
  * @returns Array of outputs (entity IDs or OutputItems with routing properties)
  */
 export async function processJob(job: KladosJob): Promise<Output[]> {
+  // Reject bad options before fetching the target or creating any copy
+  const input = parseScatterInput(job.request.input);
+
   // Check if we received multiple target entities (cardinality: many)
   // This is the preferred way to pass entities - via target_entities
-  if (job.request.target_entities?.length) {
-    return await processMultipleTargets(job);
+  if (!input.source && job.request.target_entities?.length) {
+    return await processMultipleTargets(job, input.routing);
   }
 
   // Fallback: single target_entity (backward compat with cardinality: one)
-  const target = await job.fetchTarget();
-
-  // Check if we should use existing copies instead of creating new ones
-  const useExistingCopies = target.properties.use_existing_copies === true;
-
-  // Read mix_entity_class flag for per-item routing tests
-  const mixEntityClass = target.properties.mix_entity_class === true;
+  const target = job.request.target_entity ? await job.fetchTarget() : undefined;
+  const plan = resolveScatterPlan(input, {
+    target,
+    targetCollection: job.request.target_collection,
+  });
 
   job.log.info('Scatter worker starting (single target mode)', {
     target: job.request.target_entity,
-    useExistingCopies,
-    mixEntityClass,
+    source: plan.source,
     isWorkflow: job.isWorkflow,
   });
 
-  // Use existing copies mode - read from has_copy relationships
-  if (useExistingCopies) {
-    return await processExistingCopies(job, target, mixEntityClass);
+  if (plan.source === 'copies') {
+    return await createCopies(job, target!, plan);
   }
 
+  const ids = await readSourceIds(job, plan, target?.id);
+  const { items, truncated } = selectItems(ids, { exclude: target ? [target.id] : [], limit: plan.limit });
+
+  if (truncated) {
+    // Only cut the fan-out short when the input asked for a limit
+    if (input.limit === undefined) {
+      throw new Error(
+        `Scatter source "${plan.source}" has more than ${plan.limit} items; ` +
+          `set input.limit to scatter over the first ${plan.limit}`
+      );
+    }
+    job.log.info('Scatter limited by input.limit', { source: plan.source, limit: plan.limit });
+  }
+
+  if (items.length === 0) {
+    job.log.info('No items found to scatter over', { source: plan.source });
+    return [];
+  }
+
+  return await scatterOver(job, items, plan);
+}
+
+/**
+ * Create N copies of the target entity, in checkpointed pages
+ *
+ * The number of copies is configurable via the target entity's `copy_count` property.
+ * Defaults to 3 if not specified.
+ *
+ * When `mix_entity_class: true` is set on the target entity, copies will be
+ * assigned alternating entity_class values ('canonical' for even indices,
+ * 'mention' for odd indices) for testing per-item routing.
+ *
+ * Each page of copies is linked to the original with `has_copy`
+ * relationships in the same write as the run's checkpoint, so a job that
+ * stops part way loses at most the page in flight. After
+ * `maxPerInvocation` copies the job invokes the klados again on the same
+ * target and finishes without outputs; the continuation resumes the run, and
+ * the invocation that links the last copy returns every copy as outputs.
+ * Inside a workflow the continuation couldn't hand its outputs on, so a run
+ * that needs one fails before creating anything.
+ *
+ * Copies that still fail after their retries are handled by the plan's
+ * failure policy (see ScatterFailurePolicy). Created copies are always
+ * linked before the policy acts, so a failure never leaves unlinked copies.
+ */
+async function createCopies(
+  job: KladosJob,
+  target: { id: string; type: string; properties: Record<string, unknown> },
+  plan: Extract<ScatterPlan, { source: 'copies' }>,
+): Promise<Output[]> {
+  // Read mix_entity_class flag for per-item routing tests
+  const mixEntityClass = target.properties.mix_entity_class === true;
+
   // Read copy_count from target properties, default to 3
-  const numCopies = (target.properties.copy_count as number) || DEFAULT_COPY_COUNT;
+  const requestedCopies = (target.properties.copy_count as number) || DEFAULT_COPY_COUNT;
+
+  // Fetch the target entity again to get relationships (fetchTarget doesn't include them)
+  const { data: entityWithRels, error: fetchError } = await job.client.api.GET('/entities/{id}', {
+    params: { path: { id: target.id } },
+  });
+
+  if (fetchError || !entityWithRels) {
+    throw new Error(`Failed to fetch target entity with relationships: ${target.id}`);
+  }
+
+  const { runId, total: numCopies, resumed, failed: settled } = resolveRun(
+    entityWithRels.properties[SCATTER_PROGRESS_KEY],
+    job.request.job_id,
+    requestedCopies,
+  );
+  const linked = linkedCopies((entityWithRels.relationships ?? []) as CopyRelationship[], runId);
+
+  // A continuation is a plain invocation, so inside a workflow its outputs
+  // would never reach the next step: refuse a run that can't finish here
+  const remaining = numCopies - linked.size - settled.length;
+  if (job.isWorkflow && remaining > plan.maxPerInvocation) {
+    throw new Error(
+      `Scatter needs ${remaining} more copies but input.max_per_invocation is ${plan.maxPerInvocation}; ` +
+        `a workflow step can't resume in a later invocation, so raise max_per_invocation or lower copy_count`
+    );
+  }
+
+  const pages = toPages(missingIndices(linked, numCopies, plan.maxPerInvocation, settled), plan.pageSize);
 
   job.log.info('Fetched target entity', {
     id: target.id,
@@ -75,118 +170,403 @@ export async function processJob(job: KladosJob): Promise<Output[]> {
     label: target.properties.label,
     requestedCopies: target.properties.copy_count,
     mixEntityClass,
+    runId,
+    resumed,
+    alreadyLinked: linked.size,
+    onFailure: plan.onFailure,
   });
 
-  // Create N copies of the entity in parallel batches
-  // Track both ID and entity_class for routing
-  const copies: Array<{ id: string; entity_class?: string }> = [];
-
-  for (let batchStart = 0; batchStart < numCopies; batchStart += BATCH_SIZE) {
-    const batchEnd = Math.min(batchStart + BATCH_SIZE, numCopies);
-    const batchPromises: Promise<{ id: string; entity_class?: string }>[] = [];
-
-    for (let i = batchStart; i < batchEnd; i++) {
-      const copyLabel = `${target.properties.label || 'Entity'} - Copy ${i + 1}`;
-
-      // Assign entity_class for routing tests: even = canonical, odd = mention
-      const entityClass = mixEntityClass
-        ? (i % 2 === 0 ? 'canonical' : 'mention')
-        : undefined;
-
-      // Create copy in the target collection with relationship back to original
-      const promise = job.client.api.POST('/entities', {
-        body: {
-          type: target.type,
-          collection: job.request.target_collection,
-          properties: {
-            ...target.properties,
-            label: copyLabel,
-            copy_index: i,
-            copy_total: numCopies,
-            source_entity: target.id,
-            created_by: job.config.agentId,
-            created_at: new Date().toISOString(),
-            // Add entity_class for routing tests
-            ...(entityClass && { entity_class: entityClass }),
-          },
-          // Relationship from copy to original
-          relationships: [
-            {
-              predicate: 'copy_of',
-              peer: target.id,
-              peer_type: target.type,
-              peer_label: target.properties.label as string,
-            },
-          ],
-        },
-      }).then(({ data, error }) => {
-        if (error || !data) {
-          throw new Error(`Failed to create copy ${i + 1}: ${JSON.stringify(error)}`);
-        }
-        return { id: data.id, entity_class: entityClass };
-      });
+  // Copies carry the original's properties, minus the worker's own checkpoint
+  const { [SCATTER_PROGRESS_KEY]: _progress, ...copyProperties } = target.properties;
 
-      batchPromises.push(promise);
+  // Indices given up on under best_effort, including those from earlier invocations
+  const givenUp = [...settled];
+  const failures: CopyFailure[] = [];
+
+  for (const [pageIndex, page] of pages.entries()) {
+    const created = await createPage(job, target, copyProperties, page, numCopies, mixEntityClass, plan);
+    failures.push(...created.failures);
+
+    for (const copy of created.copies) {
+      linked.set(copy.index, copy.id);
+    }
+    if (plan.onFailure === 'best_effort') {
+      givenUp.push(...created.failures.map((f) => f.copy_index));
     }
 
-    // Wait for this batch to complete
-    const batchResults = await Promise.all(batchPromises);
-    copies.push(...batchResults);
+    await linkPage(job, target, created.copies, buildProgress(runId, numCopies, linked.size, givenUp));
 
-    job.log.info(`Created batch ${Math.floor(batchStart / BATCH_SIZE) + 1}`, {
-      batchStart,
-      batchEnd,
-      totalCreated: copies.length,
+    job.log.info(`Linked page ${pageIndex + 1} of ${pages.length}`, {
+      pageSize: page.length,
+      failed: created.failures.length,
+      totalLinked: linked.size,
+      numCopies,
     });
-  }
 
-  // Update original entity to point to all copies
-  // First get the current tip for CAS
-  const { data: tipData, error: tipError } = await job.client.api.GET('/entities/{id}/tip', {
-    params: { path: { id: target.id } },
-  });
+    if (created.failures.length > 0 && plan.onFailure !== 'best_effort') break;
+  }
 
-  if (tipError || !tipData) {
-    job.log.info('Failed to get tip for original entity', { error: tipError });
-  } else {
-    const { error: updateError } = await job.client.api.PUT('/entities/{id}', {
-      params: { path: { id: target.id } },
-      body: {
-        expect_tip: tipData.cid,
-        relationships_add: copies.map((copy, i) => ({
-          predicate: 'has_copy',
-          peer: copy.id,
-          peer_type: target.type,
-          peer_label: `${target.properties.label || 'Entity'} - Copy ${i + 1}`,
-        })),
-      },
+  if (failures.length > 0) {
+    // Record exactly which copies failed, for downstream steps and cleanup
+    job.log.info('Copies failed to create', {
+      policy: plan.onFailure,
+      failures,
     });
 
-    if (updateError) {
-      job.log.info('Failed to add has_copy relationships to original', { error: updateError });
-      // Don't fail the job - copies were created successfully
+    if (plan.onFailure === 'compensate') {
+      const deleted = await compensate(job, target, linked);
+      throw new Error(
+        `Failed to create ${failures.length} of ${numCopies} copies; ` +
+          `deleted the ${deleted} copies this run created`
+      );
+    }
+
+    if (plan.onFailure === 'fail_fast') {
+      throw new Error(
+        `Failed to create ${failures.length} copies (indices ${failures.map((f) => f.copy_index).join(', ')}); ` +
+          `linked ${linked.size} of ${numCopies}, invoke the scatter on ${target.id} again to resume`
+      );
     }
   }
 
+  if (linked.size + givenUp.length < numCopies) {
+    await resumeLater(job, target.id, { linked: linked.size, numCopies });
+    return [];
+  }
+
   // NOTE: numCopies intentionally removed to test framework's automatic output tracking
+  const copyIds = Array.from(linked.keys()).sort((a, b) => a - b).map((i) => linked.get(i)!);
   job.log.success('Scatter complete', {
-    copyIds: copies.map(c => c.id),
+    copyIds,
+    failedIndices: givenUp,
     mixEntityClass,
   });
 
   // Return outputs - either simple IDs or OutputItems with routing properties
-  // When mix_entity_class is true, return objects for per-item routing
-  const outputs: Output[] = copies.map(copy => {
-    if (copy.entity_class) {
-      return {
-        entity_id: copy.id,
-        entity_class: copy.entity_class,
-      };
+  const outputs: Output[] = [];
+  for (let i = 0; i < numCopies; i++) {
+    const id = linked.get(i);
+    if (id) {
+      const properties = copyItemProperties(target, copyProperties, i, numCopies, mixEntityClass);
+      outputs.push(toOutput(id, classify(plan.routing, { id, index: i, properties })));
+    } else if (plan.emitFailed) {
+      // best_effort: the copy was given up on. Emit the original, marked so a
+      // route rule can send it to cleanup instead of the next step
+      outputs.push({ entity_id: target.id, scatter_status: 'failed', copy_index: i });
     }
-    return copy.id;
+  }
+  return outputs;
+}
+
+/**
+ * Invoke this klados again on the same target to continue a paused run
+ *
+ * The run's checkpoint is on the target, so the new job resumes it (see
+ * resolveRun) instead of starting over. It shares this job's collection and
+ * input, and the job that links the last copy returns every copy.
+ */
+async function resumeLater(
+  job: KladosJob,
+  targetId: string,
+  progress: { linked: number; numCopies: number },
+): Promise<void> {
+  const { data, error } = await job.client.api.POST('/kladoi/{id}/invoke', {
+    params: { path: { id: job.config.agentId } },
+    body: {
+      target_entity: targetId,
+      target_collection: job.request.target_collection,
+      job_collection: job.request.job_collection,
+      input: job.request.input,
+      confirm: true,
+    },
   });
 
-  return outputs;
+  if (error || !data) {
+    throw new Error(
+      `Scatter paused after linking ${progress.linked} of ${progress.numCopies} copies and failed to ` +
+        `re-invoke itself: ${JSON.stringify(error)}; invoke the scatter on ${targetId} again to resume`
+    );
+  }
+
+  job.log.info('Scatter paused, invoked a continuation to resume', {
+    ...progress,
+    continuation: data.job_id,
+  });
+}
+
+/**
+ * Create one page of copies through the concurrency pool
+ *
+ * A copy that still fails after its retries is left out of the page and
+ * reported, for the failure policy to handle. Creates are only retried on
+ * 429: after a 5xx or a dropped connection the copy may exist anyway, and a
+ * retry would leave it behind as an unlinked duplicate.
+ */
+async function createPage(
+  job: KladosJob,
+  target: { id: string; type: string; properties: Record<string, unknown> },
+  copyProperties: Record<string, unknown>,
+  indices: number[],
+  numCopies: number,
+  mixEntityClass: boolean,
+  plan: { concurrency: number },
+): Promise<{ copies: Array<{ id: string; index: number }>; failures: CopyFailure[] }> {
+  const { results } = await runPool(indices, async (i) => {
+    // Create copy in the target collection with relationship back to original
+    const created = await job.client.api.POST('/entities', {
+      body: {
+        type: target.type,
+        collection: job.request.target_collection,
+        properties: {
+          ...copyItemProperties(target, copyProperties, i, numCopies, mixEntityClass),
+          created_by: job.config.agentId,
+          created_at: new Date().toISOString(),
+        },
+        // Relationship from copy to original
+        relationships: [
+          {
+            predicate: 'copy_of',
+            peer: target.id,
+            peer_type: target.type,
+            peer_label: target.properties.label as string,
+          },
+        ],
+      },
+    }).catch((thrown: unknown) => ({ thrown }));
+
+    if ('thrown' in created) {
+      const message = created.thrown instanceof Error ? created.thrown.message : String(created.thrown);
+      return { ok: false, error: message, retryable: false };
+    }
+
+    const { data, error, response } = created;
+    if (error || !data) {
+      return { ...poolFailure(response, error), retryable: response.status === 429 };
+    }
+    return { ok: true, value: { id: data.id, index: i } };
+  }, poolOptions(job, plan));
+
+  return {
+    copies: results.flatMap((result) => (result.ok ? [result.value] : [])),
+    failures: results.flatMap((result, n) =>
+      result.ok
+        ? []
+        : [{
+            copy_index: indices[n],
+            status: result.status,
+            attempts: result.attempts,
+            error: JSON.stringify(result.error),
+          }]
+    ),
+  };
+}
+
+/**
+ * Link a page of copies to the original and checkpoint the run
+ *
+ * relationships_add is additive and the checkpoint is a single top-level
+ * property, so on a tip conflict we only need a fresh tip to retry.
+ */
+async function linkPage(
+  job: KladosJob,
+  target: { id: string; type: string; properties: Record<string, unknown> },
+  copies: Array<{ id: string; index: number }>,
+  progress: ScatterProgress,
+): Promise<void> {
+  await updateWithCas(
+    {
+      read: async () => {
+        const { data: tipData, error: tipError } = await job.client.api.GET('/entities/{id}/tip', {
+          params: { path: { id: target.id } },
+        });
+
+        if (tipError || !tipData) {
+          throw new Error(`Failed to get tip for original entity: ${JSON.stringify(tipError)}`);
+        }
+
+        return { tip: tipData.cid, value: null };
+      },
+      write: async ({ tip }) => {
+        const { error, response } = await job.client.api.PUT('/entities/{id}', {
+          params: { path: { id: target.id } },
+          body: {
+            expect_tip: tip,
+            properties: { [SCATTER_PROGRESS_KEY]: progress },
+            relationships_add: copies.map((copy) => ({
+              predicate: 'has_copy',
+              peer: copy.id,
+              peer_type: target.type,
+              peer_label: copyLabel(target, copy.index),
+              properties: { job_id: progress.job_id, copy_index: copy.index },
+            })),
+          },
+        });
+
+        if (!error) return { ok: true };
+        return { ok: false, conflict: isCasConflict(response.status), error };
+      },
+    },
+    {
+      onConflict: ({ attempt, delayMs }) => {
+        job.log.info('has_copy update conflicted, retrying', { attempt, delayMs });
+      },
+    }
+  );
+}
+
+/**
+ * Undo a run: delete every copy it created and drop its checkpoint
+ *
+ * The has_copy relationships and checkpoint are removed in one write, so
+ * the next invocation starts a fresh run. Copies that can't be deleted
+ * keep their relationship and the checkpoint stays, so they can still be
+ * found for cleanup and a resumed run reuses them.
+ *
+ * @returns The number of copies deleted
+ */
+async function compensate(
+  job: KladosJob,
+  target: { id: string },
+  linked: Map<number, string>,
+): Promise<number> {
+  const copyIds = Array.from(linked.values());
+
+  const { results, failed } = await runPool(copyIds, async (id) => {
+    const { error, response } = await job.client.api.DELETE('/entities/{id}', {
+      params: { path: { id } },
+    });
+
+    if (error) return poolFailure(response, error);
+    return { ok: true, value: id };
+  }, poolOptions(job, { concurrency: DEFAULT_CONCURRENCY }));
+
+  const deleted = results.flatMap((result) => (result.ok ? [result.value] : []));
+  if (failed > 0) {
+    job.log.info('Failed to delete some copies during compensation', {
+      failed,
+      remaining: copyIds.filter((id) => !deleted.includes(id)),
+    });
+  }
+
+  await updateWithCas(
+    {
+      read: async () => {
+        const { data: tipData, error: tipError } = await job.client.api.GET('/entities/{id}/tip', {
+          params: { path: { id: target.id } },
+        });
+
+        if (tipError || !tipData) {
+          throw new Error(`Failed to get tip for original entity: ${JSON.stringify(tipError)}`);
+        }
+
+        return { tip: tipData.cid, value: null };
+      },
+      write: async ({ tip }) => {
+        const { error, response } = await job.client.api.PUT('/entities/{id}', {
+          params: { path: { id: target.id } },
+          body: {
+            expect_tip: tip,
+            ...(failed === 0 && { properties_remove: [SCATTER_PROGRESS_KEY] }),
+            relationships_remove: deleted.map((peer) => ({ predicate: 'has_copy', peer })),
+          },
+        });
+
+        if (!error) return { ok: true };
+        return { ok: false, conflict: isCasConflict(response.status), error };
+      },
+    },
+    {
+      onConflict: ({ attempt, delayMs }) => {
+        job.log.info('has_copy removal conflicted, retrying', { attempt, delayMs });
+      },
+    }
+  );
+
+  job.log.info('Compensated failed scatter', { deleted: deleted.length });
+  return deleted.length;
+}
+
+function copyLabel(target: { properties: Record<string, unknown> }, index: number): string {
+  return `${target.properties.label || 'Entity'} - Copy ${index + 1}`;
+}
+
+/**
+ * The properties a copy is created with, apart from its timestamps
+ *
+ * Deterministic per index, so outputs of copies created by an earlier
+ * invocation are classified without fetching them.
+ */
+function copyItemProperties(
+  target: { id: string; properties: Record<string, unknown> },
+  copyProperties: Record<string, unknown>,
+  index: number,
+  numCopies: number,
+  mixEntityClass: boolean,
+): Record<string, unknown> {
+  return {
+    ...copyProperties,
+    label: copyLabel(target, index),
+    copy_index: index,
+    copy_total: numCopies,
+    source_entity: target.id,
+    // Add entity_class for routing tests: even = canonical, odd = mention
+    ...(mixEntityClass && { entity_class: index % 2 === 0 ? 'canonical' : 'mention' }),
+  };
+}
+
+/**
+ * Read the candidate item IDs for a source other than copies
+ *
+ * Listings ask for two extra entries: the scatter's own target may be
+ * among them and is dropped afterwards, and one more shows whether the
+ * listing had more items than the limit.
+ */
+async function readSourceIds(
+  job: KladosJob,
+  plan: Exclude<ScatterPlan, { source: 'copies' }>,
+  targetId: string | undefined,
+): Promise<string[]> {
+  if (plan.source === 'relationships') {
+    // Fetch the target entity again to get relationships (fetchTarget doesn't include them)
+    const { data: entityWithRels, error: fetchError } = await job.client.api.GET('/entities/{id}', {
+      params: { path: { id: targetId! } },
+    });
+
+    if (fetchError || !entityWithRels) {
+      throw new Error(`Failed to fetch target entity with relationships: ${targetId}`);
+    }
+
+    return (entityWithRels.relationships ?? [])
+      .filter(r => r.predicate === plan.predicate)
+      .map(r => r.peer);
+  }
+
+  if (plan.source === 'collection') {
+    const { data, error } = await job.client.api.GET('/collections/{id}/entities', {
+      params: {
+        path: { id: plan.collection! },
+        query: { type: plan.type, limit: plan.limit + 2 },
+      },
+    });
+
+    if (error || !data) {
+      throw new Error(`Failed to list collection ${plan.collection}: ${JSON.stringify(error)}`);
+    }
+
+    return (data.entities as Array<{ id: string }>).map(e => e.id);
+  }
+
+  const { data, error } = await job.client.api.GET('/entities', {
+    params: {
+      query: { type: plan.type, collection: plan.collection, limit: plan.limit + 2 },
+    },
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to search entities: ${JSON.stringify(error)}`);
+  }
+
+  return (data.entities as Array<{ id: string }>).map(e => e.id);
 }
 
 /**
@@ -196,10 +576,11 @@ export async function processJob(job: KladosJob): Promise<Output[]> {
  * target_entities field (cardinality: many), it fetches each one and
  * passes them through as outputs - scattering them to the next step.
  *
- * Supports mix_entity_class via individual entity properties.
+ * Routes by each entity's own entity_class unless routing rules are given.
  */
-async function processMultipleTargets(job: KladosJob): Promise<Output[]> {
+async function processMultipleTargets(job: KladosJob, routing?: RoutingRule[]): Promise<Output[]> {
   const targets = await job.fetchTargets();
+  const rules = routing ?? legacyRouting('relationships');
 
   job.log.info('Scatter worker starting (multiple targets mode)', {
     targetCount: targets.length,
@@ -208,16 +589,9 @@ async function processMultipleTargets(job: KladosJob): Promise<Output[]> {
   });
 
   // Build outputs from the target entities
-  const outputs: Output[] = targets.map(target => {
-    const entityClass = target.properties.entity_class as string | undefined;
-    if (entityClass) {
-      return {
-        entity_id: target.id,
-        entity_class: entityClass,
-      };
-    }
-    return target.id;
-  });
+  const outputs: Output[] = targets.map((target, index) =>
+    toOutput(target.id, classify(rules, { id: target.id, index, properties: target.properties })),
+  );
 
   job.log.success('Scatter complete (multiple targets)', {
     outputCount: outputs.length,
@@ -228,95 +602,89 @@ async function processMultipleTargets(job: KladosJob): Promise<Output[]> {
 }
 
 /**
- * Process existing copies instead of creating new ones
+ * Scatter over existing entities
  *
- * Reads `has_copy` relationships from the target entity and fetches
- * each copy to get its entity_class property for routing.
+ * When the routing rules read item properties, each item is fetched
+ * through the pool first; otherwise the rules run on the IDs alone.
  *
  * @param job - The KladosJob instance
- * @param target - The target entity (properties only)
- * @param mixEntityClass - Whether to include entity_class in outputs
+ * @param ids - The item IDs, already de-duplicated and limited
+ * @param plan - The resolved fan-out plan
  * @returns Array of outputs
  */
-async function processExistingCopies(
+async function scatterOver(
   job: KladosJob,
-  target: { id: string; type: string; properties: Record<string, unknown> },
-  mixEntityClass: boolean,
+  ids: string[],
+  plan: Exclude<ScatterPlan, { source: 'copies' }>,
 ): Promise<Output[]> {
-  // Fetch the target entity again to get relationships (fetchTarget doesn't include them)
-  const { data: entityWithRels, error: fetchError } = await job.client.api.GET('/entities/{id}', {
-    params: { path: { id: target.id } },
-  });
+  const fetchItems = needsProperties(plan.routing);
 
-  if (fetchError || !entityWithRels) {
-    throw new Error(`Failed to fetch target entity with relationships: ${target.id}`);
-  }
-
-  // Get has_copy relationships from target
-  const copyRelationships = entityWithRels.relationships?.filter(r => r.predicate === 'has_copy') || [];
+  job.log.info('Using existing entities', {
+    source: plan.source,
+    itemCount: ids.length,
+    routing: plan.routing.map(rule => rule.property),
+    fetchItems,
+  });
 
-  if (copyRelationships.length === 0) {
-    job.log.info('No existing copies found', { targetId: target.id });
-    return [];
+  if (!fetchItems) {
+    job.log.success('Scatter complete (using existing entities)', { itemIds: ids });
+    return ids.map((id, index) => toOutput(id, classify(plan.routing, { id, index })));
   }
 
-  job.log.info('Using existing copies', {
-    targetId: target.id,
-    copyCount: copyRelationships.length,  // renamed from numCopies to test framework
-    mixEntityClass,
-  });
+  // Fetch each entity through the pool to get the properties the rules read
+  const { results, failed } = await runPool(ids, async (id) => {
+    const { data, error, response } = await job.client.api.GET('/entities/{id}', {
+      params: { path: { id } },
+    });
 
-  // Fetch each copy entity in batches to get entity_class property
-  const copies: Array<{ id: string; entity_class?: string }> = [];
+    if (error || !data) {
+      return poolFailure(response, error);
+    }
+    return { ok: true, value: { id: data.id, properties: data.properties as Record<string, unknown> } };
+  }, poolOptions(job, plan));
 
-  for (let batchStart = 0; batchStart < copyRelationships.length; batchStart += BATCH_SIZE) {
-    const batchEnd = Math.min(batchStart + BATCH_SIZE, copyRelationships.length);
-    const batchPromises: Promise<{ id: string; entity_class?: string }>[] = [];
+  if (failed > 0) {
+    const errors = results.flatMap((result) => (result.ok ? [] : [result.error]));
+    throw new Error(`Failed to fetch ${failed} of ${ids.length} items: ${JSON.stringify(errors[0])}`);
+  }
 
-    for (let i = batchStart; i < batchEnd; i++) {
-      const rel = copyRelationships[i];
-      const promise = job.client.api.GET('/entities/{id}', {
-        params: { path: { id: rel.peer } },
-      }).then(({ data, error }) => {
-        if (error || !data) {
-          throw new Error(`Failed to fetch copy ${rel.peer}: ${JSON.stringify(error)}`);
-        }
-        return {
-          id: data.id,
-          entity_class: mixEntityClass ? (data.properties.entity_class as string | undefined) : undefined,
-        };
-      });
+  const items = results.flatMap((result) => (result.ok ? [result.value] : []));
 
-      batchPromises.push(promise);
-    }
+  job.log.success('Scatter complete (using existing entities)', {
+    itemIds: items.map(c => c.id),
+  });
 
-    // Wait for this batch to complete
-    const batchResults = await Promise.all(batchPromises);
-    copies.push(...batchResults);
+  return items.map((item, index) => toOutput(item.id, classify(plan.routing, { ...item, index })));
+}
 
-    job.log.info(`Fetched batch ${Math.floor(batchStart / BATCH_SIZE) + 1}`, {
-      batchStart,
-      batchEnd,
-      totalFetched: copies.length,
-    });
+/**
+ * Return an output - either a simple ID or an OutputItem with routing properties
+ */
+function toOutput(id: string, routing: Record<string, RoutingValue>): Output {
+  if (Object.keys(routing).length === 0) {
+    return id;
   }
+  return { entity_id: id, ...routing };
+}
 
-  // NOTE: numCopies intentionally removed to test framework's automatic output tracking
-  job.log.success('Scatter complete (using existing copies)', {
-    copyIds: copies.map(c => c.id),
-    mixEntityClass,
-  });
-
-  // Return outputs - either simple IDs or OutputItems with routing properties
-  const outputs: Output[] = copies.map(copy => {
-    if (copy.entity_class) {
-      return {
-        entity_id: copy.id,
-        entity_class: copy.entity_class,
-      };
-    }
-    return copy.id;
-  });
+/**
+ * Pool settings for the job's API calls, logging retries and window changes
+ */
+function poolOptions(job: KladosJob, plan: { concurrency: number }): PoolOptions {
+  return {
+    maxConcurrency: plan.concurrency,
+    onRetry: ({ index, attempt, delayMs, status }) => {
+      job.log.info('Request failed, retrying', { index, attempt, delayMs, status });
+    },
+    onConcurrencyChange: ({ from, to }) => {
+      if (to < from) job.log.info('API pushed back, reducing concurrency', { from, to });
+    },
+  };
+}
 
-  return outputs;
+/**
+ * A failed API call as a pool attempt, keeping the status and Retry-After
+ */
+function poolFailure(response: Response, error: unknown): PoolAttemptResult<never> {
+  return { ok: false, status: response.status, error, retryAfterMs: retryAfterMs(response.headers.get('Retry-After')) };
 }
@@ -0,0 +1,135 @@
+/**
+ * Scatter Worker - Copy Run Checkpoints
+ *
+ * Large copy counts are created in pages. After each page the copies are
+ * linked to the target with `has_copy` relationships tagged with the run's
+ * job_id and copy_index, in the same write that updates the run's
+ * `scatter_progress` checkpoint. A paused or redelivered job rebuilds its
+ * progress from those relationships and only creates the missing copies.
+ * Copies a best_effort run gave up on are listed in the checkpoint, so they
+ * aren't retried once the run is complete.
+ *
+ * This module only reads and builds those values; job.ts does the writes.
+ */
+
+import type { ScatterProgress } from './types';
+
+/** Target property holding the checkpoint of the latest copy run */
+export const SCATTER_PROGRESS_KEY = 'scatter_progress';
+
+/**
+ * Properties of a relationship, as far as the checkpoint reads them
+ */
+export interface CopyRelationship {
+  predicate: string;
+  peer: string;
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Pick the run a job works on
+ *
+ * An unfinished run is resumed by any job, so invoking the scatter again
+ * on the same target continues where a paused one stopped. A finished run
+ * is only reused by the job that started it (a redelivery); other jobs
+ * start a fresh run.
+ *
+ * @param progress - The target's current `scatter_progress`, if any
+ * @param jobId - The current job
+ * @param total - Copies requested by the target's copy_count
+ */
+export function resolveRun(
+  progress: unknown,
+  jobId: string,
+  total: number
+): { runId: string; total: number; resumed: boolean; failed: number[] } {
+  if (isProgress(progress) && (progress.job_id === jobId || !progress.complete)) {
+    return { runId: progress.job_id, total: progress.total, resumed: true, failed: progress.failed ?? [] };
+  }
+  return { runId: jobId, total, resumed: false, failed: [] };
+}
+
+/**
+ * Collect the copies a run has linked, by copy_index
+ *
+ * If concurrent deliveries both created a copy for an index, the first
+ * linked one wins.
+ */
+export function linkedCopies(relationships: CopyRelationship[], runId: string): Map<number, string> {
+  const copies = new Map<number, string>();
+
+  for (const rel of relationships) {
+    const index = rel.properties?.copy_index;
+    if (
+      rel.predicate === 'has_copy' &&
+      rel.properties?.job_id === runId &&
+      typeof index === 'number' &&
+      !copies.has(index)
+    ) {
+      copies.set(index, rel.peer);
+    }
+  }
+
+  return copies;
+}
+
+/**
+ * The copy indices still to create, in order, up to this invocation's budget
+ *
+ * @param settled - Indices given up on, which are not retried
+ */
+export function missingIndices(
+  linked: Map<number, string>,
+  total: number,
+  budget: number,
+  settled: number[] = []
+): number[] {
+  const skip = new Set(settled);
+  const missing: number[] = [];
+  for (let i = 0; i < total && missing.length < budget; i++) {
+    if (!linked.has(i) && !skip.has(i)) missing.push(i);
+  }
+  return missing;
+}
+
+/**
+ * Split indices into pages of at most `size`
+ */
+export function toPages(indices: number[], size: number): number[][] {
+  const pages: number[][] = [];
+  for (let start = 0; start < indices.length; start += size) {
+    pages.push(indices.slice(start, start + size));
+  }
+  return pages;
+}
+
+/**
+ * Build the checkpoint written with a page of links
+ *
+ * @param failed - Indices given up on; they count towards completion
+ */
+export function buildProgress(
+  runId: string,
+  total: number,
+  linked: number,
+  failed: number[] = []
+): ScatterProgress {
+  return {
+    job_id: runId,
+    total,
+    linked,
+    ...(failed.length > 0 && { failed }),
+    complete: linked + failed.length >= total,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+function isProgress(value: unknown): value is ScatterProgress {
+  if (typeof value !== 'object' || value === null) return false;
+  const progress = value as Record<string, unknown>;
+  return (
+    typeof progress.job_id === 'string' &&
+    typeof progress.total === 'number' &&
+    typeof progress.complete === 'boolean'
+  );
+}
@@ -0,0 +1,248 @@
+/**
+ * Scatter Worker - Routing Classifier
+ *
+ * Computes the routing properties attached to each output, so `route` rules
+ * in a rhiza flow (e.g. `{ "where": { "property": "entity_class", ... } }`)
+ * can be driven by data instead of index parity. Each rule sets one
+ * property:
+ * - `copy` - a property of the item, by dotted path
+ * - `cases` - the value of the first case whose condition matches the item,
+ *   in the same condition language as route rules (see klados-runtime)
+ * - `hash` - a stable bucket number from a hash of the item ID (or a property)
+ * - `split` - a weighted pseudo-random choice, stable per item
+ * - `alternate` - values assigned round-robin by item position
+ */
+
+import { conditionIssues, matchesCondition, readPath } from 'klados-runtime';
+import type { RoutingRule, RoutingValue } from './types';
+
+/**
+ * An item being classified
+ */
+export interface RoutingItem {
+  /** Entity ID */
+  id: string;
+
+  /** Position of the item among the scatter's outputs */
+  index: number;
+
+  /** Item properties, when the rules need them */
+  properties?: Record<string, unknown>;
+}
+
+/** Rule kinds, exactly one of which each rule sets */
+const RULE_KINDS = ['copy', 'cases', 'hash', 'split', 'alternate'] as const;
+
+/** Output fields the worker sets itself */
+const RESERVED_ROUTING_PROPERTIES = ['entity_id', 'scatter_status', 'copy_index'];
+
+const MAX_HASH_BUCKETS = 1000;
+
+/**
+ * Validate routing rules, appending every problem to `issues`
+ */
+export function validateRoutingRules(value: unknown, path: string, issues: string[]): void {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array`);
+    return;
+  }
+
+  const seen = new Set<string>();
+
+  value.forEach((rule, i) => {
+    const rulePath = `${path}[${i}]`;
+    if (!isPlainObject(rule)) {
+      issues.push(`${rulePath} must be an object`);
+      return;
+    }
+
+    if (typeof rule.property !== 'string' || rule.property.trim() === '') {
+      issues.push(`${rulePath}.property must be a non-empty string`);
+    } else if (RESERVED_ROUTING_PROPERTIES.includes(rule.property)) {
+      issues.push(`${rulePath}.property "${rule.property}" is reserved`);
+    } else if (seen.has(rule.property)) {
+      issues.push(`${rulePath}.property "${rule.property}" is set by an earlier rule`);
+    } else {
+      seen.add(rule.property);
+    }
+
+    const kinds = RULE_KINDS.filter((kind) => rule[kind] !== undefined);
+    if (kinds.length !== 1) {
+      issues.push(`${rulePath} must set exactly one of ${RULE_KINDS.join(', ')}`);
+    }
+
+    for (const key of Object.keys(rule)) {
+      if (key !== 'property' && key !== 'default' && !(RULE_KINDS as readonly string[]).includes(key)) {
+        issues.push(`${rulePath}.${key} is not a recognised option`);
+      }
+    }
+
+    if (rule.default !== undefined) {
+      if (rule.cases === undefined) {
+        issues.push(`${rulePath}.default only applies to cases`);
+      } else {
+        validateValue(rule.default, `${rulePath}.default`, issues);
+      }
+    }
+
+    if (rule.copy !== undefined) validatePath(rule.copy, `${rulePath}.copy`, issues);
+    if (rule.cases !== undefined) validateCases(rule.cases, `${rulePath}.cases`, issues);
+    if (rule.hash !== undefined) validateHash(rule.hash, `${rulePath}.hash`, issues);
+    if (rule.split !== undefined) validateSplit(rule.split, `${rulePath}.split`, issues);
+    if (rule.alternate !== undefined) validateAlternate(rule.alternate, `${rulePath}.alternate`, issues);
+  });
+}
+
+/**
+ * Whether any rule reads item properties, so existing items must be fetched
+ */
+export function needsProperties(rules: RoutingRule[]): boolean {
+  return rules.some(
+    (rule) => rule.copy !== undefined || rule.cases !== undefined || rule.hash?.key !== undefined
+  );
+}
+
+/**
+ * Compute an item's routing properties
+ *
+ * Rules whose value is undefined (a missing property, no matching case
+ * without a default) set nothing.
+ */
+export function classify(rules: RoutingRule[], item: RoutingItem): Record<string, RoutingValue> {
+  const routing: Record<string, RoutingValue> = {};
+
+  for (const rule of rules) {
+    const value = evaluate(rule, item);
+    if (value !== undefined) {
+      routing[rule.property] = value;
+    }
+  }
+
+  return routing;
+}
+
+/**
+ * A stable 32-bit FNV-1a hash, so buckets and splits survive redelivery
+ */
+export function stableHash(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function evaluate(rule: RoutingRule, item: RoutingItem): RoutingValue | undefined {
+  if (rule.copy !== undefined) {
+    const value = readPath(item.properties ?? {}, rule.copy);
+    return isRoutingValue(value) ? value : undefined;
+  }
+
+  if (rule.cases !== undefined) {
+    const match = rule.cases.find((c) => matchesCondition(c.where, item.properties));
+    return match ? match.value : rule.default;
+  }
+
+  if (rule.hash !== undefined) {
+    const key = rule.hash.key === undefined ? item.id : readPath(item.properties ?? {}, rule.hash.key);
+    if (key === undefined) return undefined;
+    return stableHash(String(key)) % rule.hash.buckets;
+  }
+
+  if (rule.split !== undefined) {
+    const entries = Object.entries(rule.split);
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    // Seed with the property name so two splits on one item are independent
+    let point = (stableHash(`${rule.property}:${item.id}`) / 2 ** 32) * total;
+    for (const [value, weight] of entries) {
+      if (point < weight) return value;
+      point -= weight;
+    }
+    return entries[entries.length - 1][0];
+  }
+
+  if (rule.alternate !== undefined) {
+    return rule.alternate[item.index % rule.alternate.length];
+  }
+
+  return undefined;
+}
+
+// =============================================================================
+// Validation helpers
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRoutingValue(value: unknown): value is RoutingValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function validateValue(value: unknown, path: string, issues: string[]): void {
+  if (!isRoutingValue(value)) {
+    issues.push(`${path} must be a string, number, boolean or null`);
+  }
+}
+
+function validatePath(value: unknown, path: string, issues: string[]): void {
+  if (typeof value !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/.test(value)) {
+    issues.push(`${path} must be a property path like "entity_class" or "meta.kind"`);
+  }
+}
+
+function validateCases(value: unknown, path: string, issues: string[]): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    issues.push(`${path} must be a non-empty array`);
+    return;
+  }
+
+  value.forEach((c, i) => {
+    const casePath = `${path}[${i}]`;
+    if (!isPlainObject(c) || !isPlainObject(c.where)) {
+      issues.push(`${casePath} must be an object with a where condition`);
+      return;
+    }
+    validateValue(c.value, `${casePath}.value`, issues);
+    issues.push(...conditionIssues(c.where, `${casePath}.where`));
+  });
+}
+
+function validateHash(value: unknown, path: string, issues: string[]): void {
+  if (!isPlainObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+
+  const buckets = value.buckets;
+  if (typeof buckets !== 'number' || !Number.isInteger(buckets) || buckets < 2 || buckets > MAX_HASH_BUCKETS) {
+    issues.push(`${path}.buckets must be an integer from 2 to ${MAX_HASH_BUCKETS}`);
+  }
+  if (value.key !== undefined) {
+    validatePath(value.key, `${path}.key`, issues);
+  }
+  for (const key of Object.keys(value)) {
+    if (key !== 'buckets' && key !== 'key') issues.push(`${path}.${key} is not a recognised option`);
+  }
+}
+
+function validateSplit(value: unknown, path: string, issues: string[]): void {
+  if (!isPlainObject(value) || Object.keys(value).length === 0) {
+    issues.push(`${path} must map at least one value to its weight`);
+    return;
+  }
+
+  for (const [name, weight] of Object.entries(value)) {
+    if (typeof weight !== 'number' || !(weight > 0) || !Number.isFinite(weight)) {
+      issues.push(`${path}.${name} must be a positive weight`);
+    }
+  }
+}
+
+function validateAlternate(value: unknown, path: string, issues: string[]): void {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isRoutingValue)) {
+    issues.push(`${path} must be a non-empty array of strings, numbers, booleans or null`);
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Scatter Worker - Fan-out Source Configuration
+ *
+ * Parses the job input that selects what the worker scatters over, and
+ * resolves it into a plan for one job: the items to fetch, how many, how
+ * fast, and what happens when some of them fail.
+ */
+
+import { validateRoutingRules } from './routing';
+import type { RoutingRule, ScatterFailurePolicy, ScatterInput, ScatterPlan, ScatterSource } from './types';
+
+/**
+ * A single rule in the declared input schema
+ */
+interface InputRule {
+  type: 'string' | 'number' | 'boolean' | 'array';
+  description: string;
+  /** Sources the option applies to; omitted means every source */
+  sources?: ScatterSource[];
+  /** Inclusive integer bounds for numeric options */
+  range?: [number, number];
+  /** Allowed values for string options */
+  values?: readonly string[];
+}
+
+/** Every supported fan-out source */
+export const SCATTER_SOURCES: ScatterSource[] = ['copies', 'relationships', 'collection', 'search'];
+
+/** Every supported policy for copies that fail to create */
+export const SCATTER_FAILURE_POLICIES: ScatterFailurePolicy[] = ['fail_fast', 'best_effort', 'compensate'];
+
+/** Upper bound on items a single scatter fans out over */
+export const MAX_SCATTER_ITEMS = 1000;
+
+/** Predicate followed by the relationships source, matching the copies it creates */
+export const DEFAULT_SCATTER_PREDICATE = 'has_copy';
+
+/** Copies created and linked per checkpoint */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/** Copies one invocation creates before pausing, well inside the worker CPU limit */
+export const DEFAULT_COPIES_PER_INVOCATION = 2000;
+
+/** Cap on API requests in flight */
+export const DEFAULT_CONCURRENCY = 20;
+
+/**
+ * Declared schema for the scatter input
+ *
+ * Unknown keys are rejected, and so are options that don't apply to the
+ * chosen source, e.g. `predicate` without `source: "relationships"`.
+ */
+export const SCATTER_INPUT_SCHEMA: Record<keyof ScatterInput, InputRule> = {
+  source: {
+    type: 'string',
+    description: `Fan-out source, one of ${SCATTER_SOURCES.join(', ')}`,
+  },
+  predicate: {
+    type: 'string',
+    description: 'Relationship predicate to follow',
+    sources: ['relationships'],
+  },
+  collection: {
+    type: 'string',
+    description: 'Collection to read or search within',
+    sources: ['collection', 'search'],
+  },
+  type: {
+    type: 'string',
+    description: 'Entity type filter',
+    sources: ['collection', 'search'],
+  },
+  limit: {
+    type: 'number',
+    description: 'Maximum number of items',
+    sources: ['relationships', 'collection', 'search'],
+    range: [1, MAX_SCATTER_ITEMS],
+  },
+  entity_class: {
+    type: 'boolean',
+    description: "Attach each item's entity_class as a routing property",
+    sources: ['relationships', 'collection', 'search'],
+  },
+  page_size: {
+    type: 'number',
+    description: 'Copies created and linked per checkpoint',
+    sources: ['copies'],
+    range: [1, 500],
+  },
+  max_per_invocation: {
+    type: 'number',
+    description: 'Copies one invocation creates before pausing',
+    sources: ['copies'],
+    range: [1, 10000],
+  },
+  concurrency: {
+    type: 'number',
+    description: 'Cap on API requests in flight',
+    range: [1, 50],
+  },
+  on_failure: {
+    type: 'string',
+    description: 'What to do when copies fail to create',
+    sources: ['copies'],
+    values: SCATTER_FAILURE_POLICIES,
+  },
+  emit_failed: {
+    type: 'boolean',
+    description: 'Hand failed copies off as error outputs under best_effort',
+    sources: ['copies'],
+  },
+  routing: {
+    type: 'array',
+    description: "Rules computing each output's routing properties",
+  },
+};
+
+/**
+ * Parse and validate the scatter input
+ *
+ * @param raw - The job input (may be undefined when invoked without input)
+ * @returns The validated input
+ * @throws Error listing every problem found
+ */
+export function parseScatterInput(raw: unknown): ScatterInput {
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+
+  if (!isPlainObject(raw)) {
+    throw new Error('Invalid scatter input: input must be an object');
+  }
+
+  const issues: string[] = [];
+  const source = raw.source ?? 'copies';
+
+  if (!SCATTER_SOURCES.includes(source as ScatterSource)) {
+    issues.push(`input.source must be one of ${SCATTER_SOURCES.join(', ')}`);
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    const rule = SCATTER_INPUT_SCHEMA[key as keyof ScatterInput];
+    const path = `input.${key}`;
+
+    if (!rule) {
+      issues.push(`${path} is not a recognised option`);
+      continue;
+    }
+    if (rule.type === 'array' ? !Array.isArray(value) : typeof value !== rule.type) {
+      issues.push(`${path} must be a${rule.type === 'array' ? 'n' : ''} ${rule.type}`);
+      continue;
+    }
+    if (rule.sources && !rule.sources.includes(source as ScatterSource)) {
+      issues.push(`${path} only applies to source ${rule.sources.join(', ')}`);
+    }
+    if (rule.range && !isInRange(value as number, rule.range)) {
+      issues.push(`${path} must be an integer from ${rule.range[0]} to ${rule.range[1]}`);
+    }
+    if (rule.type === 'string' && (value as string).trim() === '') {
+      issues.push(`${path} must not be empty`);
+    }
+    if (rule.values && !rule.values.includes(value as string)) {
+      issues.push(`${path} must be one of ${rule.values.join(', ')}`);
+    }
+  }
+
+  if (Array.isArray(raw.routing)) {
+    validateRoutingRules(raw.routing, 'input.routing', issues);
+    if (raw.entity_class !== undefined) {
+      issues.push('input.entity_class can\'t be combined with input.routing');
+    }
+  }
+
+  if (raw.emit_failed !== undefined && raw.on_failure !== 'best_effort') {
+    issues.push('input.emit_failed only applies to on_failure "best_effort"');
+  }
+
+  if (source === 'search' && raw.type === undefined && raw.collection === undefined) {
+    issues.push('input.source "search" needs a type or collection to search by');
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid scatter input: ${issues.join('; ')}`);
+  }
+
+  return raw as ScatterInput;
+}
+
+/**
+ * Resolve the fan-out plan for a job
+ *
+ * Without a `source` the target entity's legacy flags still apply:
+ * `use_existing_copies` scatters over its `has_copy` relationships and
+ * `mix_entity_class` attaches their entity_class. Without `routing`,
+ * entity_class routing becomes the equivalent rule (see legacyRouting).
+ *
+ * @param input - Validated scatter input
+ * @param context.target - The target entity, when the job has one
+ * @param context.targetCollection - The job's target collection
+ * @throws Error when the source needs something the job doesn't have
+ */
+export function resolveScatterPlan(
+  input: ScatterInput,
+  context: {
+    target?: { id: string; type: string; properties: Record<string, unknown> };
+    targetCollection?: string;
+  }
+): ScatterPlan {
+  const { target } = context;
+  const limit = input.limit ?? MAX_SCATTER_ITEMS;
+  const legacyCopies = !input.source && target?.properties.use_existing_copies === true;
+  const source = input.source ?? (legacyCopies ? 'relationships' : 'copies');
+  const withEntityClass = input.entity_class ?? target?.properties.mix_entity_class === true;
+  const concurrency = input.concurrency ?? DEFAULT_CONCURRENCY;
+  const routing = input.routing ?? (withEntityClass ? legacyRouting(source) : []);
+
+  if ((source === 'copies' || source === 'relationships') && !target) {
+    throw new Error(`Scatter source "${source}" needs a single target_entity`);
+  }
+
+  switch (source) {
+    case 'copies':
+      return {
+        source,
+        concurrency,
+        routing,
+        pageSize: input.page_size ?? DEFAULT_PAGE_SIZE,
+        maxPerInvocation: input.max_per_invocation ?? DEFAULT_COPIES_PER_INVOCATION,
+        onFailure: input.on_failure ?? 'fail_fast',
+        emitFailed: input.emit_failed ?? false,
+      };
+
+    case 'relationships':
+      return {
+        source,
+        predicate: input.predicate ?? DEFAULT_SCATTER_PREDICATE,
+        concurrency,
+        routing,
+        limit,
+      };
+
+    case 'collection': {
+      // A collection target scatters over its own members
+      const collection =
+        input.collection ?? (target?.type === 'collection' ? target.id : context.targetCollection);
+      if (!collection) {
+        throw new Error('Scatter source "collection" needs input.collection or a target collection');
+      }
+      return { source, collection, type: input.type, concurrency, routing, limit };
+    }
+
+    case 'search':
+      return { source, collection: input.collection, type: input.type, concurrency, routing, limit };
+  }
+}
+
+/**
+ * The routing rule equivalent to entity_class routing
+ *
+ * New copies alternate canonical/mention by copy index, as the worker has
+ * always done for tests; existing items carry their own entity_class.
+ */
+export function legacyRouting(source: ScatterSource): RoutingRule[] {
+  return source === 'copies'
+    ? [{ property: 'entity_class', alternate: ['canonical', 'mention'] }]
+    : [{ property: 'entity_class', copy: 'entity_class' }];
+}
+
+/**
+ * Pick the item IDs to scatter over
+ *
+ * Keeps the first occurrence of each ID, drops the excluded ones (the
+ * scatter's own target when it shows up in a listing) and applies the limit.
+ * `truncated` says whether candidates were left out by the limit.
+ */
+export function selectItems(
+  ids: string[],
+  options: { exclude?: string[]; limit: number }
+): { items: string[]; truncated: boolean } {
+  const excluded = new Set(options.exclude ?? []);
+  const seen = new Set<string>();
+  const items: string[] = [];
+
+  for (const id of ids) {
+    if (excluded.has(id) || seen.has(id)) continue;
+    if (items.length >= options.limit) return { items, truncated: true };
+    seen.add(id);
+    items.push(id);
+  }
+
+  return { items, truncated: false };
+}
+
+// =============================================================================
+// Validation helpers
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isInRange(value: number, [min, max]: [number, number]): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
@@ -2,63 +2,172 @@
  * Type definitions for the klados worker
  */
 
+import type { RouteCondition } from 'klados-runtime';
+
+/**
+ * Where the scatter worker gets the items it fans out over
+ *
+ * - `copies` - create `copy_count` clones of the target (the default)
+ * - `relationships` - peers of the target's relationships with a predicate
+ * - `collection` - members of a collection
+ * - `search` - entities matching a type/collection query
+ */
+export type ScatterSource = 'copies' | 'relationships' | 'collection' | 'search';
+
+/**
+ * Job input selecting the fan-out source
+ *
+ * Passed as `input` when invoking the klados, or per step in a rhiza flow.
+ */
+export interface ScatterInput {
+  /** Fan-out source, defaults to "copies" */
+  source?: ScatterSource;
+
+  /** Relationship predicate to follow (source "relationships"), defaults to "has_copy" */
+  predicate?: string;
+
+  /** Collection to read (source "collection") or search within (source "search") */
+  collection?: string;
+
+  /** Only include entities of this type (sources "collection" and "search") */
+  type?: string;
+
+  /** Maximum number of items to scatter over */
+  limit?: number;
+
+  /** Attach each item's entity_class as a routing property */
+  entity_class?: boolean;
+
+  /** Copies created and linked per checkpoint (source "copies") */
+  page_size?: number;
+
+  /** Copies one invocation creates before pausing (source "copies") */
+  max_per_invocation?: number;
+
+  /** Cap on API requests in flight while creating or fetching items */
+  concurrency?: number;
+
+  /** What to do when copies fail to create (source "copies"), defaults to "fail_fast" */
+  on_failure?: ScatterFailurePolicy;
+
+  /**
+   * Hand failed copies off as error outputs under "best_effort"; set it only
+   * when a route rule in the workflow sends them away from the next step
+   */
+  emit_failed?: boolean;
+
+  /** Rules computing each output's routing properties (see RoutingRule) */
+  routing?: RoutingRule[];
+}
+
 /**
- * Cloudflare Worker environment bindings
+ * A scalar routing property value
  */
-export interface Env {
-  /** Klados agent ID (registered in Arke) */
-  AGENT_ID: string;
+export type RoutingValue = string | number | boolean | null;
+
+/**
+ * A rule setting one routing property on every output
+ *
+ * Exactly one of `copy`, `cases`, `hash`, `split` or `alternate` is set.
+ */
+export interface RoutingRule {
+  /** Output property the rule sets */
+  property: string;
+
+  /** Copy this item property (dotted path) */
+  copy?: string;
 
-  /** Agent version for logging */
-  AGENT_VERSION: string;
+  /** The value of the first case whose condition matches */
+  cases?: Array<{ where: RouteCondition; value: RoutingValue }>;
 
-  /** Arke agent API key (secret) */
-  ARKE_AGENT_KEY: string;
+  /** Value for `cases` when none matches; without it the property is left unset */
+  default?: RoutingValue;
 
-  /** Verification token for endpoint verification (set during registration) */
-  VERIFICATION_TOKEN?: string;
+  /** A bucket number from 0 to buckets - 1, hashing the item ID or `key` property */
+  hash?: { buckets: number; key?: string };
 
-  /** Agent ID for verification (used before AGENT_ID is configured) */
-  ARKE_VERIFY_AGENT_ID?: string;
+  /** Pick one value with probability proportional to its weight, stable per item */
+  split?: Record<string, number>;
+
+  /** Values assigned round-robin by output position */
+  alternate?: RoutingValue[];
 }
 
 /**
- * Example: Properties of the target entity being processed
+ * How the scatter handles copies that fail to create after their retries
  *
- * Customize this based on what your worker processes.
+ * - `fail_fast` - stop after the page with the failure, keep what was linked
+ *   and fail the job; invoking again resumes the run
+ * - `best_effort` - create every other copy and complete; with `emit_failed`,
+ *   each failed copy is also an error output, routable by its
+ *   `scatter_status: "failed"` property
+ * - `compensate` - delete every copy the run created and fail the job
+ */
+export type ScatterFailurePolicy = 'fail_fast' | 'best_effort' | 'compensate';
+
+/**
+ * A copy that failed to create after its retries
  */
-export interface TargetProperties {
-  /** Example: title of the entity */
-  title?: string;
+export interface CopyFailure {
+  /** Index of the copy within the run */
+  copy_index: number;
 
-  /** Example: content to process */
-  content?: string;
+  /** HTTP status of the last attempt, if the API answered */
+  status?: number;
 
-  /** Example: URL to fetch */
-  url?: string;
+  /** Attempts made */
+  attempts: number;
 
-  /** Allow any additional properties */
-  [key: string]: unknown;
+  /** The last error, serialized */
+  error: string;
 }
 
 /**
- * Example: Properties for output entities created by this worker
+ * A validated fan-out plan for one job
+ */
+export type ScatterPlan = { concurrency: number; routing: RoutingRule[] } & (
+  | {
+      source: 'copies';
+      pageSize: number;
+      maxPerInvocation: number;
+      onFailure: ScatterFailurePolicy;
+      emitFailed: boolean;
+    }
+  | {
+      source: 'relationships';
+      predicate: string;
+      limit: number;
+    }
+  | {
+      source: 'collection' | 'search';
+      collection?: string;
+      type?: string;
+      limit: number;
+    }
+);
+
+/**
+ * Checkpoint of a copy run, kept on the target as `scatter_progress`
  *
- * Customize this based on what your worker produces.
+ * The copies themselves are recorded as `has_copy` relationships whose
+ * properties carry the run's job_id and the copy_index.
  */
-export interface OutputProperties {
-  /** Example: processed result */
-  result?: string;
+export interface ScatterProgress {
+  /** Job that started the run */
+  job_id: string;
+
+  /** Copies the run creates in total */
+  total: number;
 
-  /** Example: extracted data */
-  extracted?: Record<string, unknown>;
+  /** Copies linked to the target so far */
+  linked: number;
 
-  /** Reference to source entity */
-  source_id?: string;
+  /** Indices given up on under the best_effort policy */
+  failed?: number[];
 
-  /** Processing timestamp */
-  processed_at?: string;
+  /** Whether every copy is linked or given up on */
+  complete: boolean;
 
-  /** Allow any additional properties */
-  [key: string]: unknown;
+  /** When the checkpoint was last written */
+  updated_at: string;
 }
@@ -0,0 +1,486 @@
+/**
+ * Offline Test for Scatter Worker
+ *
+ * Runs the worker's Hono app in-process against the fake Arke API, so the
+ * copy creation, has_copy linking, the other fan-out sources and output
+ * routing properties are exercised in CI without ARKE_USER_KEY or network
+ * access.
+ *
+ * Usage:
+ *   npm test
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { configureTestClient, createCollection, createEntity } from '@arke-institute/klados-testing';
+import { createFakeArke, FAKE_USER_KEY, type FakeArke } from 'fake-arke';
+import { generateSigningKeyPair } from 'klados-runtime';
+import app from '../src/index';
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('scatter worker (offline)', () => {
+  let fake: FakeArke;
+  let restoreFetch: () => void;
+  let kladosId: string;
+  let targetCollection: { id: string };
+
+  beforeAll(async () => {
+    fake = createFakeArke();
+    restoreFetch = fake.install();
+
+    configureTestClient({
+      apiBase: fake.baseUrl,
+      userKey: FAKE_USER_KEY,
+      network: 'test',
+    });
+
+    kladosId = fake.registerKlados({ label: 'Scatter Worker', worker: app });
+    targetCollection = await createCollection({ label: 'Offline Scatter Targets' });
+  });
+
+  afterAll(() => {
+    restoreFetch();
+  });
+
+  /**
+   * Invoke the scatter worker and return the outputs recorded in its log
+   */
+  async function scatter(body: {
+    target_entity?: string;
+    target_entities?: string[];
+    input?: Record<string, unknown>;
+  }) {
+    const result = await fake.invokeKlados(kladosId, {
+      ...body,
+      target_collection: targetCollection.id,
+      confirm: true,
+    });
+    await fake.idle();
+
+    const [kladosLog] = fake.logs(result.job_collection!);
+    const logData = kladosLog.properties.log_data as { entry?: { outputs?: unknown[] } };
+    return {
+      status: kladosLog.properties.status,
+      outputs: logData.entry?.outputs ?? [],
+    };
+  }
+
+  /**
+   * Make the fake reject copy creation for some copy indices of one source
+   *
+   * @returns Restores the fake's fetch
+   */
+  function failCopies(sourceId: string, indices: number[]): () => void {
+    const fakeFetch = globalThis.fetch;
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const request = new Request(input, init);
+      if (request.method === 'POST' && new URL(request.url).pathname === '/entities') {
+        const body = await request.clone().json();
+        if (body.properties?.source_entity === sourceId && indices.includes(body.properties.copy_index)) {
+          return Response.json({ error: 'Rejected by test' }, { status: 400 });
+        }
+      }
+      return fakeFetch(request);
+    }) as typeof fetch;
+    return () => {
+      globalThis.fetch = fakeFetch;
+    };
+  }
+
+  function failingSource(label: string) {
+    return fake.store.create({
+      type: 'test_entity',
+      collection: targetCollection.id,
+      properties: { label, copy_count: 4 },
+    });
+  }
+
+  // ==========================================================================
+  // Tests
+  // ==========================================================================
+
+  it('should create copy_count copies linked to the original', async () => {
+    const original = await createEntity({
+      type: 'test_entity',
+      properties: { label: 'Offline Source', copy_count: 4 },
+      collection: targetCollection.id,
+    });
+
+    const { status, outputs } = await scatter({ target_entity: original.id });
+
+    expect(status).toBe('done');
+    expect(outputs).toHaveLength(4);
+
+    const copyIds = fake.store
+      .get(original.id)
+      .relationships.filter((r) => r.predicate === 'has_copy')
+      .map((r) => r.peer);
+    expect(copyIds.sort()).toEqual([...(outputs as string[])].sort());
+
+    const indices = copyIds.map((id) => fake.store.get(id).properties.copy_index).sort();
+    expect(indices).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should re-invoke itself to resume a paused copy run', async () => {
+    const original = fake.store.create({
+      type: 'test_entity',
+      collection: targetCollection.id,
+      properties: { label: 'Paged Source', copy_count: 5 },
+    });
+
+    const result = await fake.invokeKlados(kladosId, {
+      target_entity: original.id,
+      target_collection: targetCollection.id,
+      input: { page_size: 2, max_per_invocation: 3 },
+      confirm: true,
+    });
+    await fake.idle();
+    expect(fake.backgroundErrors).toEqual([]);
+
+    // The paused job and its continuation share the job collection
+    const [paused, resumed] = fake.logs(result.job_collection!).map((log) => ({
+      status: log.properties.status,
+      outputs: (log.properties.log_data as { entry?: { outputs?: unknown[] } }).entry?.outputs ?? [],
+    }));
+    expect(paused).toEqual({ status: 'done', outputs: [] });
+    expect(resumed.status).toBe('done');
+    expect(resumed.outputs).toHaveLength(5);
+
+    const indices = (resumed.outputs as string[]).map((id) => fake.store.get(id).properties.copy_index);
+    expect(indices).toEqual([0, 1, 2, 3, 4]);
+    expect(fake.store.get(original.id).properties.scatter_progress).toMatchObject({ total: 5, complete: true });
+    expect(fake.store.list({ type: 'test_entity' }).filter((e) => e.properties.source_entity === original.id)).toHaveLength(5);
+  });
+
+  it('should fail a workflow step that would need a continuation', async () => {
+    const original = fake.store.create({
+      type: 'test_entity',
+      collection: targetCollection.id,
+      properties: { label: 'Workflow Paged Source', copy_count: 5 },
+    });
+    const jobCollection = fake.store.create({ type: 'collection' }).id;
+
+    await fake.dispatch(kladosId, {
+      job_id: 'job_workflow_paged',
+      target_entity: original.id,
+      target_collection: targetCollection.id,
+      job_collection: jobCollection,
+      api_base: fake.baseUrl,
+      network: 'test',
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+      input: { max_per_invocation: 3 },
+      rhiza: { id: 'rhiza_scatter', path: ['scatter'], parent_logs: [] },
+    });
+    await fake.idle();
+
+    const [log] = fake.logs(jobCollection);
+    expect(log.properties.status).toBe('error');
+    expect(fake.logs(jobCollection)).toHaveLength(1);
+    expect(fake.store.list({ type: 'test_entity' }).filter((e) => e.properties.source_entity === original.id)).toEqual([]);
+  });
+
+  it('should not retry a copy whose create may have gone through', async () => {
+    const original = failingSource('Lost Response Source');
+    const fakeFetch = globalThis.fetch;
+    let attempts = 0;
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const request = new Request(input, init);
+      if (request.method === 'POST' && new URL(request.url).pathname === '/entities') {
+        const body = await request.clone().json();
+        if (body.properties?.source_entity === original.id && body.properties.copy_index === 1) {
+          // The copy is created, but the response is lost
+          attempts++;
+          await fakeFetch(request);
+          return Response.json({ error: 'Bad gateway' }, { status: 502 });
+        }
+      }
+      return fakeFetch(request);
+    }) as typeof fetch;
+
+    const { status } = await scatter({ target_entity: original.id }).finally(() => {
+      globalThis.fetch = fakeFetch;
+    });
+
+    expect(status).toBe('error');
+    expect(attempts).toBe(1);
+  });
+
+  it('should link what was created and stop on failure by default', async () => {
+    const original = failingSource('Fail Fast Source');
+    const restore = failCopies(original.id, [1]);
+    const { status } = await scatter({ target_entity: original.id, input: { page_size: 2 } }).finally(restore);
+
+    expect(status).toBe('error');
+    // The failed page's other copy is linked, the next page never ran
+    const linked = fake.store.get(original.id).relationships.map((r) => r.peer);
+    expect(linked.map((id) => fake.store.get(id).properties.copy_index)).toEqual([0]);
+    expect(fake.store.list().filter((e) => e.properties.source_entity === original.id)).toHaveLength(1);
+
+    // Resuming creates the rest
+    const resumed = await scatter({ target_entity: original.id, input: { page_size: 2 } });
+    expect(resumed.status).toBe('done');
+    expect(resumed.outputs).toHaveLength(4);
+    expect(resumed.outputs[0]).toBe(linked[0]);
+  });
+
+  it('should leave failed copies out of the outputs under best_effort', async () => {
+    const original = failingSource('Best Effort Source');
+    const restore = failCopies(original.id, [1, 3]);
+    const { status, outputs } = await scatter({
+      target_entity: original.id,
+      input: { on_failure: 'best_effort', page_size: 2 },
+    }).finally(restore);
+
+    expect(status).toBe('done');
+    const linked = fake.store.get(original.id).relationships.map((r) => r.peer);
+    expect(outputs).toEqual(linked);
+    expect(outputs.map((id) => fake.store.get(id as string).properties.copy_index)).toEqual([0, 2]);
+    expect(fake.store.get(original.id).properties.scatter_progress).toMatchObject({
+      linked: 2,
+      failed: [1, 3],
+      complete: true,
+    });
+  });
+
+  it('should emit error outputs for failed copies when emit_failed is set', async () => {
+    const original = failingSource('Emit Failed Source');
+    const restore = failCopies(original.id, [1, 3]);
+    const { status, outputs } = await scatter({
+      target_entity: original.id,
+      input: { on_failure: 'best_effort', emit_failed: true, page_size: 2 },
+    }).finally(restore);
+
+    expect(status).toBe('done');
+    expect(outputs).toHaveLength(4);
+    expect(outputs[1]).toEqual({ entity_id: original.id, scatter_status: 'failed', copy_index: 1 });
+    expect(outputs[3]).toEqual({ entity_id: original.id, scatter_status: 'failed', copy_index: 3 });
+  });
+
+  it('should delete created copies under compensate', async () => {
+    const original = failingSource('Compensate Source');
+    const restore = failCopies(original.id, [3]);
+    const { status } = await scatter({
+      target_entity: original.id,
+      input: { on_failure: 'compensate', page_size: 2 },
+    }).finally(restore);
+
+    expect(status).toBe('error');
+    expect(fake.store.list().filter((e) => e.properties.source_entity === original.id)).toEqual([]);
+
+    const after = fake.store.get(original.id);
+    expect(after.relationships).toEqual([]);
+    expect(after.properties).not.toHaveProperty('scatter_progress');
+  });
+
+  it('should attach entity_class routing properties when mix_entity_class is set', async () => {
+    const original = fake.store.create({
+      type: 'test_entity',
+      collection: targetCollection.id,
+      properties: { label: 'Routing Source', copy_count: 4, mix_entity_class: true },
+    });
+
+    const { outputs } = await scatter({ target_entity: original.id });
+    const classes = (outputs as Array<{ entity_class: string }>).map((o) => o.entity_class).sort();
+
+    expect(classes).toEqual(['canonical', 'canonical', 'mention', 'mention']);
+  });
+
+  it('should reuse existing copies when use_existing_copies is set', async () => {
+    const copies = [0, 1].map(() =>
+      fake.store.create({ type: 'test_entity', collection: targetCollection.id })
+    );
+    const original = fake.store.create({
+      type: 'test_entity',
+      collection: targetCollection.id,
+      properties: { use_existing_copies: true },
+      relationships: copies.map((c) => ({ predicate: 'has_copy', peer: c.id })),
+    });
+
+    const entityCount = fake.store.list({ collection: targetCollection.id }).length;
+    const { outputs } = await scatter({ target_entity: original.id });
+
+    expect(outputs).toEqual(copies.map((c) => c.id));
+    expect(fake.store.list({ collection: targetCollection.id })).toHaveLength(entityCount);
+  });
+
+  it('should pass target_entities through as outputs', async () => {
+    const targets = [0, 1, 2].map((i) =>
+      fake.store.create({
+        type: 'test_entity',
+        collection: targetCollection.id,
+        properties: i === 1 ? { entity_class: 'mention' } : {},
+      })
+    );
+
+    const { outputs } = await scatter({ target_entities: targets.map((t) => t.id) });
+
+    expect(outputs).toEqual([
+      targets[0].id,
+      { entity_id: targets[1].id, entity_class: 'mention' },
+      targets[2].id,
+    ]);
+  });
+
+  it('should scatter over the peers of a relationship predicate', async () => {
+    const parts = [0, 1, 2].map(() =>
+      fake.store.create({ type: 'page', collection: targetCollection.id })
+    );
+    const other = fake.store.create({ type: 'page', collection: targetCollection.id });
+    const book = fake.store.create({
+      type: 'book',
+      collection: targetCollection.id,
+      relationships: [
+        ...parts.map((p) => ({ predicate: 'has_part', peer: p.id })),
+        { predicate: 'cites', peer: other.id },
+      ],
+    });
+
+    const { outputs } = await scatter({
+      target_entity: book.id,
+      input: { source: 'relationships', predicate: 'has_part', limit: 2 },
+    });
+
+    expect(outputs).toEqual([parts[0].id, parts[1].id]);
+  });
+
+  it('should scatter over the members of a collection', async () => {
+    const collection = fake.store.create({ type: 'collection' });
+    const members = [0, 1, 2].map((i) =>
+      fake.store.create({
+        type: i === 2 ? 'note' : 'page',
+        collection: collection.id,
+        properties: { entity_class: i === 0 ? 'canonical' : 'mention' },
+      })
+    );
+
+    const { outputs } = await scatter({
+      target_entity: collection.id,
+      input: { source: 'collection', type: 'page', entity_class: true },
+    });
+
+    expect(outputs).toEqual([
+      { entity_id: members[0].id, entity_class: 'canonical' },
+      { entity_id: members[1].id, entity_class: 'mention' },
+    ]);
+  });
+
+  it('should compute routing properties from routing rules', async () => {
+    const collection = fake.store.create({ type: 'collection' });
+    const members = [3, 40, 250].map((pages) =>
+      fake.store.create({ type: 'document', collection: collection.id, properties: { pages } })
+    );
+
+    const { outputs } = await scatter({
+      target_entity: collection.id,
+      input: {
+        source: 'collection',
+        routing: [
+          {
+            property: 'size',
+            cases: [
+              { where: { property: 'pages', gte: 100 }, value: 'large' },
+              { where: { property: 'pages', gt: 10 }, value: 'medium' },
+            ],
+            default: 'small',
+          },
+          { property: 'lane', alternate: ['a', 'b'] },
+        ],
+      },
+    });
+
+    expect(outputs).toEqual([
+      { entity_id: members[0].id, size: 'small', lane: 'a' },
+      { entity_id: members[1].id, size: 'medium', lane: 'b' },
+      { entity_id: members[2].id, size: 'large', lane: 'a' },
+    ]);
+  });
+
+  it('should scatter over search results without listing its own target', async () => {
+    const collection = fake.store.create({ type: 'collection' });
+    const matches = [0, 1].map(() => fake.store.create({ type: 'invoice', collection: collection.id }));
+    const source = fake.store.create({ type: 'invoice', collection: collection.id });
+    fake.store.create({ type: 'receipt', collection: collection.id });
+
+    const { outputs } = await scatter({
+      target_entity: source.id,
+      input: { source: 'search', type: 'invoice', collection: collection.id },
+    });
+
+    expect(outputs).toEqual(matches.map((m) => m.id));
+  });
+
+  it('should fail rather than drop search results past the default limit', async () => {
+    const collection = fake.store.create({ type: 'collection' });
+    const matches = Array.from({ length: 1001 }, () =>
+      fake.store.create({ type: 'ledger', collection: collection.id })
+    );
+
+    const unlimited = await scatter({ input: { source: 'search', type: 'ledger', collection: collection.id } });
+    expect(unlimited.status).toBe('error');
+
+    const limited = await scatter({
+      input: { source: 'search', type: 'ledger', collection: collection.id, limit: 2 },
+    });
+    expect(limited).toEqual({ status: 'done', outputs: matches.slice(0, 2).map((m) => m.id) });
+  });
+
+  it('should fail the job on invalid input', async () => {
+    const original = fake.store.create({ type: 'test_entity', collection: targetCollection.id });
+
+    const { status } = await scatter({
+      target_entity: original.id,
+      input: { source: 'collection', predicate: 'has_part' },
+    });
+
+    expect(status).toBe('error');
+  });
+
+  it('should reject requests signed with a key other than Arke\'s', async () => {
+    const source = failingSource('Other Key Source');
+    const { publicKey } = await generateSigningKeyPair();
+    const kladosWithOtherKey = fake.registerKlados({
+      label: 'Other Key',
+      worker: app,
+      env: { ARKE_SIGNING_KEY: publicKey },
+    });
+    const jobCollection = fake.store.create({ type: 'collection' }).id;
+
+    const response = await fake.dispatch(kladosWithOtherKey, {
+      job_id: 'job_other_key',
+      target_entity: source.id,
+      target_collection: targetCollection.id,
+      job_collection: jobCollection,
+      api_base: fake.baseUrl,
+      network: 'test',
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ reason: 'invalid_signature' });
+    expect(fake.logs(jobCollection)).toEqual([]);
+    expect(fake.store.get(source.id).relationships).toEqual([]);
+  });
+
+  it('should reject target_entities that are not a list of IDs', async () => {
+    const jobCollection = fake.store.create({ type: 'collection' }).id;
+
+    const response = await fake.dispatch(kladosId, {
+      job_id: 'job_bad_targets',
+      target_entities: ['E1', { id: 'E2' }],
+      target_collection: targetCollection.id,
+      job_collection: jobCollection,
+      api_base: fake.baseUrl,
+      network: 'test',
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      reason: 'invalid_request',
+      issues: [{ field: 'target_entities[1]', message: 'must be a non-empty string' }],
+    });
+    expect(fake.logs(jobCollection)).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for copy run checkpoints
+ *
+ * Covers run resumption, rebuilding progress from has_copy relationships,
+ * paging and given-up copies. These run without any environment variables or network access.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildProgress,
+  linkedCopies,
+  missingIndices,
+  resolveRun,
+  toPages,
+  type CopyRelationship,
+} from '../src/progress';
+
+function copyRel(peer: string, jobId: string, index: number): CopyRelationship {
+  return { predicate: 'has_copy', peer, properties: { job_id: jobId, copy_index: index } };
+}
+
+describe('copy runs', () => {
+  it('should start a fresh run without a checkpoint', () => {
+    expect(resolveRun(undefined, 'job_1', 5)).toEqual({ runId: 'job_1', total: 5, resumed: false, failed: [] });
+  });
+
+  it('should resume an unfinished run from any job, keeping its total', () => {
+    const progress = buildProgress('job_1', 10, 4);
+    expect(resolveRun(progress, 'job_2', 3)).toEqual({ runId: 'job_1', total: 10, resumed: true, failed: [] });
+  });
+
+  it('should only reuse a finished run for the job that started it', () => {
+    const progress = buildProgress('job_1', 4, 4);
+    expect(progress.complete).toBe(true);
+    expect(resolveRun(progress, 'job_1', 4)).toMatchObject({ runId: 'job_1', resumed: true });
+    expect(resolveRun(progress, 'job_2', 4)).toMatchObject({ runId: 'job_2', resumed: false });
+  });
+});
+
+describe('linked copies', () => {
+  it("should index the run's copies, keeping the first link per index", () => {
+    const relationships: CopyRelationship[] = [
+      copyRel('copy_a', 'job_1', 0),
+      copyRel('other_run', 'job_0', 1),
+      { predicate: 'has_copy', peer: 'untagged' },
+      copyRel('copy_b', 'job_1', 2),
+      copyRel('duplicate', 'job_1', 0),
+      { predicate: 'copy_of', peer: 'x', properties: { job_id: 'job_1', copy_index: 1 } },
+    ];
+
+    expect(linkedCopies(relationships, 'job_1')).toEqual(
+      new Map([
+        [0, 'copy_a'],
+        [2, 'copy_b'],
+      ])
+    );
+  });
+
+  it('should list the missing indices up to the budget, in pages', () => {
+    const linked = new Map([
+      [0, 'a'],
+      [2, 'b'],
+    ]);
+
+    const missing = missingIndices(linked, 8, 4);
+    expect(missing).toEqual([1, 3, 4, 5]);
+    expect(toPages(missing, 3)).toEqual([[1, 3, 4], [5]]);
+    expect(missingIndices(linked, 2, 10)).toEqual([1]);
+  });
+
+  it('should not retry copies a best_effort run gave up on', () => {
+    const linked = new Map([[0, 'a']]);
+    expect(missingIndices(linked, 4, 10, [1, 3])).toEqual([2]);
+  });
+});
+
+describe('checkpoints', () => {
+  it('should count given-up copies towards completion', () => {
+    expect(buildProgress('job_1', 4, 3)).toMatchObject({ linked: 3, complete: false });
+    expect(buildProgress('job_1', 4, 3)).not.toHaveProperty('failed');
+    expect(buildProgress('job_1', 4, 3, [2])).toMatchObject({ linked: 3, failed: [2], complete: true });
+  });
+
+  it('should carry given-up copies into a resumed run', () => {
+    const progress = buildProgress('job_1', 10, 4, [5]);
+    expect(resolveRun(progress, 'job_2', 10)).toMatchObject({ runId: 'job_1', failed: [5] });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for the scatter routing classifier
+ *
+ * Covers each rule kind, case conditions and rule validation. These run
+ * without any environment variables or network access.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classify, needsProperties, validateRoutingRules } from '../src/routing';
+import type { RoutingRule } from '../src/types';
+
+function validate(value: unknown): string[] {
+  const issues: string[] = [];
+  validateRoutingRules(value, 'input.routing', issues);
+  return issues;
+}
+
+describe('classify', () => {
+  it('should copy properties by dotted path and skip missing ones', () => {
+    const rules: RoutingRule[] = [
+      { property: 'entity_class', copy: 'entity_class' },
+      { property: 'kind', copy: 'meta.kind' },
+      { property: 'lang', copy: 'language' },
+    ];
+    const item = { id: 'e1', index: 0, properties: { entity_class: 'mention', meta: { kind: 'page' } } };
+
+    expect(classify(rules, item)).toEqual({ entity_class: 'mention', kind: 'page' });
+  });
+
+  it('should take the first matching case, then the default', () => {
+    const rules: RoutingRule[] = [
+      {
+        property: 'size',
+        cases: [
+          { where: { property: 'pages', gte: 100 }, value: 'large' },
+          { where: { property: 'pages', gt: 10 }, value: 'medium' },
+        ],
+        default: 'small',
+      },
+    ];
+
+    expect(classify(rules, { id: 'a', index: 0, properties: { pages: 250 } })).toEqual({ size: 'large' });
+    expect(classify(rules, { id: 'b', index: 1, properties: { pages: 50 } })).toEqual({ size: 'medium' });
+    expect(classify(rules, { id: 'c', index: 2, properties: {} })).toEqual({ size: 'small' });
+  });
+
+  it('should put items in stable hash buckets', () => {
+    const rules: RoutingRule[] = [{ property: 'shard', hash: { buckets: 4 } }];
+    const first = classify(rules, { id: 'entity_42', index: 0 });
+
+    expect(classify(rules, { id: 'entity_42', index: 7 })).toEqual(first);
+    expect(first.shard).toBeGreaterThanOrEqual(0);
+    expect(first.shard).toBeLessThan(4);
+  });
+
+  it('should hash a property when a key is given', () => {
+    const rules: RoutingRule[] = [{ property: 'shard', hash: { buckets: 8, key: 'author' } }];
+    const a = classify(rules, { id: 'a', index: 0, properties: { author: 'x' } });
+    const b = classify(rules, { id: 'b', index: 1, properties: { author: 'x' } });
+
+    expect(a).toEqual(b);
+    expect(classify(rules, { id: 'c', index: 2, properties: {} })).toEqual({});
+  });
+
+  it('should split roughly by weight, stably per item', () => {
+    const rules: RoutingRule[] = [{ property: 'variant', split: { a: 3, b: 1 } }];
+    const counts: Record<string, number> = { a: 0, b: 0 };
+
+    for (let i = 0; i < 1000; i++) {
+      const { variant } = classify(rules, { id: `entity_${i}`, index: i });
+      counts[variant as string]++;
+      expect(classify(rules, { id: `entity_${i}`, index: 0 })).toEqual({ variant });
+    }
+
+    expect(counts.a).toBeGreaterThan(650);
+    expect(counts.a).toBeLessThan(850);
+  });
+
+  it('should alternate values by position', () => {
+    const rules: RoutingRule[] = [{ property: 'entity_class', alternate: ['canonical', 'mention'] }];
+    const classes = [0, 1, 2, 3].map((index) => classify(rules, { id: `e${index}`, index }).entity_class);
+
+    expect(classes).toEqual(['canonical', 'mention', 'canonical', 'mention']);
+  });
+});
+
+describe('case conditions', () => {
+  it('should accept the route rule condition language', () => {
+    const rules = [
+      {
+        property: 'lane',
+        cases: [
+          {
+            where: { or: [{ property: 'meta.kind', equals: 'scan' }, { property: 'title', matches: '^Scan' }] },
+            value: 'ocr',
+          },
+          { where: { not: { property: 'pages', exists: true } }, value: 'empty' },
+        ],
+        default: 'text',
+      },
+    ];
+
+    expect(validate(rules)).toEqual([]);
+    expect(classify(rules, { id: 'a', index: 0, properties: { meta: { kind: 'scan' }, pages: 1 } })).toEqual({
+      lane: 'ocr',
+    });
+    expect(classify(rules, { id: 'b', index: 1, properties: { title: 'Notes' } })).toEqual({ lane: 'empty' });
+    expect(classify(rules, { id: 'c', index: 2, properties: { pages: 3 } })).toEqual({ lane: 'text' });
+  });
+});
+
+describe('needsProperties', () => {
+  it('should only ask for properties when a rule reads them', () => {
+    expect(needsProperties([{ property: 'shard', hash: { buckets: 2 } }])).toBe(false);
+    expect(needsProperties([{ property: 'lane', alternate: ['a', 'b'] }])).toBe(false);
+    expect(needsProperties([{ property: 'shard', hash: { buckets: 2, key: 'author' } }])).toBe(true);
+    expect(needsProperties([{ property: 'kind', copy: 'kind' }])).toBe(true);
+  });
+});
+
+describe('validateRoutingRules', () => {
+  it('should accept well-formed rules', () => {
+    expect(
+      validate([
+        { property: 'kind', copy: 'meta.kind' },
+        { property: 'size', cases: [{ where: { property: 'pages', gt: 10 }, value: 'big' }], default: 'small' },
+        { property: 'shard', hash: { buckets: 16 } },
+        { property: 'variant', split: { a: 1, b: 1 } },
+      ])
+    ).toEqual([]);
+  });
+
+  it('should report every problem', () => {
+    expect(
+      validate([
+        { property: 'entity_id', copy: 'x' },
+        { property: 'lane', alternate: [], default: 'a' },
+        { property: 'shard', hash: { buckets: 1 }, split: { a: 1 } },
+        { property: 'size', cases: [{ where: { property: 'pages', near: 3 }, value: 'big' }] },
+        { property: 'size', copy: 'bad path' },
+      ])
+    ).toEqual([
+      'input.routing[0].property "entity_id" is reserved',
+      'input.routing[1].default only applies to cases',
+      'input.routing[1].alternate must be a non-empty array of strings, numbers, booleans or null',
+      'input.routing[2] must set exactly one of copy, cases, hash, split, alternate',
+      'input.routing[2].hash.buckets must be an integer from 2 to 1000',
+      'input.routing[3].cases[0].where has unknown key "near"',
+      'input.routing[4].property "size" is set by an earlier rule',
+      'input.routing[4].copy must be a property path like "entity_class" or "meta.kind"',
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Unit tests for the scatter fan-out source configuration
+ *
+ * Covers input validation, plan resolution (including the legacy target
+ * flags) and item selection. These run without any environment variables
+ * or network access.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CONCURRENCY,
+  DEFAULT_COPIES_PER_INVOCATION,
+  DEFAULT_PAGE_SIZE,
+  MAX_SCATTER_ITEMS,
+  parseScatterInput,
+  resolveScatterPlan,
+  selectItems,
+} from '../src/source';
+
+const target = { id: 'entity_1', type: 'test_entity', properties: {} };
+
+describe('scatter input', () => {
+  it('should default to creating copies when no input is given', () => {
+    const plan = resolveScatterPlan(parseScatterInput(undefined), { target });
+    expect(plan).toEqual({
+      source: 'copies',
+      concurrency: DEFAULT_CONCURRENCY,
+      routing: [],
+      pageSize: DEFAULT_PAGE_SIZE,
+      maxPerInvocation: DEFAULT_COPIES_PER_INVOCATION,
+      onFailure: 'fail_fast',
+      emitFailed: false,
+    });
+  });
+
+  it('should accept options for the chosen source', () => {
+    const input = parseScatterInput({ source: 'search', type: 'document', limit: 10, entity_class: true });
+    expect(input).toEqual({ source: 'search', type: 'document', limit: 10, entity_class: true });
+  });
+
+  it('should report every problem at once', () => {
+    expect(() =>
+      parseScatterInput({ source: 'collection', predicate: 'has_part', limit: 0, colection: 'c' })
+    ).toThrow(
+      'Invalid scatter input: input.predicate only applies to source relationships; ' +
+        `input.limit must be an integer from 1 to ${MAX_SCATTER_ITEMS}; ` +
+        'input.colection is not a recognised option'
+    );
+  });
+
+  it('should reject unknown sources and wrongly typed options', () => {
+    expect(() => parseScatterInput({ source: 'everything' })).toThrow('input.source must be one of');
+    expect(() => parseScatterInput({ source: 'relationships', predicate: 3 })).toThrow(
+      'input.predicate must be a string'
+    );
+    expect(() => parseScatterInput(['copies'])).toThrow('input must be an object');
+  });
+
+  it('should bound the copy paging options', () => {
+    expect(parseScatterInput({ page_size: 50, max_per_invocation: 500 })).toEqual({
+      page_size: 50,
+      max_per_invocation: 500,
+    });
+    expect(() => parseScatterInput({ page_size: 501 })).toThrow('input.page_size must be an integer from 1 to 500');
+    expect(() => parseScatterInput({ source: 'search', type: 'page', page_size: 10 })).toThrow(
+      'input.page_size only applies to source copies'
+    );
+  });
+
+  it('should only accept known failure policies, for copies', () => {
+    expect(resolveScatterPlan(parseScatterInput({ on_failure: 'compensate' }), { target })).toMatchObject({
+      onFailure: 'compensate',
+    });
+    expect(() => parseScatterInput({ on_failure: 'ignore' })).toThrow(
+      'input.on_failure must be one of fail_fast, best_effort, compensate'
+    );
+    expect(() => parseScatterInput({ source: 'relationships', on_failure: 'best_effort' })).toThrow(
+      'input.on_failure only applies to source copies'
+    );
+  });
+
+  it('should only emit failed copies when asked to, under best_effort', () => {
+    expect(resolveScatterPlan(parseScatterInput({ on_failure: 'best_effort' }), { target })).toMatchObject({
+      emitFailed: false,
+    });
+    expect(
+      resolveScatterPlan(parseScatterInput({ on_failure: 'best_effort', emit_failed: true }), { target })
+    ).toMatchObject({ emitFailed: true });
+    expect(() => parseScatterInput({ emit_failed: true })).toThrow(
+      'input.emit_failed only applies to on_failure "best_effort"'
+    );
+  });
+
+  it('should validate routing rules and reject them alongside entity_class', () => {
+    expect(() => parseScatterInput({ routing: 'entity_class' })).toThrow('input.routing must be an array');
+    expect(() => parseScatterInput({ routing: [{ property: 'lane' }] })).toThrow(
+      'input.routing[0] must set exactly one of copy, cases, hash, split, alternate'
+    );
+    expect(() =>
+      parseScatterInput({
+        source: 'search',
+        type: 'page',
+        entity_class: true,
+        routing: [{ property: 'entity_class', copy: 'entity_class' }],
+      })
+    ).toThrow("input.entity_class can't be combined with input.routing");
+  });
+
+  it('should require a query for search', () => {
+    expect(() => parseScatterInput({ source: 'search' })).toThrow('needs a type or collection');
+  });
+});
+
+describe('scatter plan', () => {
+  it('should follow has_copy by default for relationships', () => {
+    const plan = resolveScatterPlan({ source: 'relationships' }, { target });
+    expect(plan).toEqual({
+      source: 'relationships',
+      predicate: 'has_copy',
+      concurrency: DEFAULT_CONCURRENCY,
+      routing: [],
+      limit: MAX_SCATTER_ITEMS,
+    });
+  });
+
+  it('should map the legacy target flags onto the relationships source', () => {
+    const legacy = { ...target, properties: { use_existing_copies: true, mix_entity_class: true } };
+    expect(resolveScatterPlan({}, { target: legacy })).toMatchObject({
+      source: 'relationships',
+      predicate: 'has_copy',
+      routing: [{ property: 'entity_class', copy: 'entity_class' }],
+    });
+  });
+
+  it('should alternate entity_class for copies of a mix_entity_class target', () => {
+    const mixed = { ...target, properties: { mix_entity_class: true } };
+    expect(resolveScatterPlan({}, { target: mixed })).toMatchObject({
+      source: 'copies',
+      routing: [{ property: 'entity_class', alternate: ['canonical', 'mention'] }],
+    });
+  });
+
+  it('should prefer routing rules over the legacy flags', () => {
+    const mixed = { ...target, properties: { mix_entity_class: true } };
+    const routing = [{ property: 'lane', alternate: ['a', 'b'] }];
+    expect(resolveScatterPlan({ routing }, { target: mixed })).toMatchObject({ routing });
+  });
+
+  it('should pick the collection from input, a collection target, or the target collection', () => {
+    const collectionTarget = { id: 'collection_1', type: 'collection', properties: {} };
+
+    expect(resolveScatterPlan({ source: 'collection', collection: 'collection_2' }, { target })).toMatchObject({
+      collection: 'collection_2',
+    });
+    expect(resolveScatterPlan({ source: 'collection' }, { target: collectionTarget })).toMatchObject({
+      collection: 'collection_1',
+    });
+    expect(resolveScatterPlan({ source: 'collection' }, { target, targetCollection: 'collection_3' })).toMatchObject({
+      collection: 'collection_3',
+    });
+    expect(() => resolveScatterPlan({ source: 'collection' }, {})).toThrow('needs input.collection');
+  });
+
+  it('should need a target for sources that read it', () => {
+    expect(() => resolveScatterPlan({}, {})).toThrow('"copies" needs a single target_entity');
+    expect(() => resolveScatterPlan({ source: 'relationships' }, {})).toThrow('needs a single target_entity');
+    expect(resolveScatterPlan({ source: 'search', type: 'document' }, {})).toMatchObject({ source: 'search' });
+  });
+});
+
+describe('item selection', () => {
+  it('should de-duplicate, drop excluded IDs and apply the limit', () => {
+    expect(selectItems(['a', 'self', 'b', 'a', 'c', 'd'], { exclude: ['self'], limit: 3 })).toEqual({
+      items: ['a', 'b', 'c'],
+      truncated: true,
+    });
+  });
+
+  it('should only report truncation when the limit left candidates out', () => {
+    expect(selectItems(['a', 'b', 'self', 'b'], { exclude: ['self'], limit: 2 })).toEqual({
+      items: ['a', 'b'],
+      truncated: false,
+    });
+  });
+});
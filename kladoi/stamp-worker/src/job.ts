@@ -5,21 +5,37 @@
  * Stamps accumulate in an array, allowing multiple workflow steps to
  * add their own stamps without overwriting previous ones.
  *
+ * Stamping is idempotent per job and step: if Arke redelivers a request,
+ * the existing stamp and receipt are returned instead of being re-applied.
+ *
  * Used for E2E testing of the klados worker template and workflow chaining.
  */
 
 import type { KladosJob } from '@arke-institute/rhiza';
+import { updateWithCas, isCasConflict, type CasSnapshot, type CasRetryOptions } from 'klados-runtime';
+import { buildStamp, findStampForJob, parseStampInput, resolveStampSpec } from './stamp';
+import type { StampEntry } from './types';
 
 /**
  * Process a job by stamping the target entity
  *
+ * The stamp contents come from the job input (see StampInput); without
+ * input the worker writes the default "This worker was here!" stamp.
+ *
  * @param job - The KladosJob instance
  * @returns Array of output entity IDs (the stamped entity)
  */
 export async function processJob(job: KladosJob): Promise<string[]> {
+  // Resolve this step's stamp first; an invalid spec leaves the entity unstamped
+  const step = job.request.rhiza?.path?.at(-1);
+  const spec = resolveStampSpec(parseStampInput(job.request.input), step);
+  const jobId = job.request.job_id;
+
   job.log.info('Stamp worker starting', {
     target: job.request.target_entity,
     isWorkflow: job.isWorkflow,
+    step,
+    kind: spec.kind,
   });
 
   // Fetch the target entity
@@ -29,52 +45,72 @@ export async function processJob(job: KladosJob): Promise<string[]> {
     type: target.type,
   });
 
-  // Get current tip for CAS update
-  const { data: tipData, error: tipError } = await job.client.api.GET('/entities/{id}/tip', {
-    params: { path: { id: target.id } },
-  });
+  // Append the stamp with a compare-and-swap loop: if another branch stamps
+  // the same entity concurrently, re-read and re-merge instead of failing.
+  // A stamp already carrying this job/step means the request was redelivered.
+  let stamp: StampEntry | undefined;
+  let alreadyStamped = false;
+  let stamps: StampEntry[] = [];
 
-  if (tipError || !tipData) {
-    throw new Error(`Failed to get entity tip: ${target.id}`);
-  }
+  const { attempts } = await updateWithCas(
+    {
+      read: () => readProperties(job, target.id),
+      write: async ({ tip, value }) => {
+        // Get existing stamps array or initialize empty
+        const existingStamps: StampEntry[] = Array.isArray(value.stamps) ? value.stamps : [];
 
-  // Get existing stamps array or initialize empty
-  const existingStamps = Array.isArray(target.properties.stamps)
-    ? target.properties.stamps
-    : [];
-
-  // Create new stamp entry
-  const newStamp = {
-    stamped_at: new Date().toISOString(),
-    stamped_by: job.config.agentId,
-    stamp_number: existingStamps.length + 1,
-    stamp_message: `Stamp #${existingStamps.length + 1} - This worker was here!`,
-    job_id: job.request.job_id,
-  };
+        const prior = findStampForJob(existingStamps, jobId, step);
+        if (prior) {
+          stamp = prior;
+          alreadyStamped = true;
+          stamps = existingStamps;
+          return { ok: true };
+        }
 
-  // Accumulate stamps
-  const stamps = [...existingStamps, newStamp];
+        // Create new stamp entry
+        stamp = buildStamp(spec, {
+          stampNumber: existingStamps.length + 1,
+          agentId: job.config.agentId,
+          jobId,
+          entityId: target.id,
+          step,
+        });
+        alreadyStamped = false;
 
-  const { error: updateError } = await job.client.api.PUT('/entities/{id}', {
-    params: { path: { id: target.id } },
-    body: {
-      expect_tip: tipData.cid,
-      properties: {
-        ...target.properties,
-        stamps,
-        stamp_count: stamps.length,
+        // Accumulate stamps
+        stamps = [...existingStamps, stamp];
+
+        return putProperties(job, target.id, tip, {
+          ...value,
+          stamps,
+          stamp_count: stamps.length,
+        });
       },
     },
-  });
+    retryOptions(job, 'Stamp')
+  );
 
-  if (updateError) {
-    throw new Error(`Failed to stamp entity: ${JSON.stringify(updateError)}`);
+  // Every successful write above found or built the stamp
+  if (!stamp) {
+    throw new Error(`Stamp for job ${jobId} was not written to ${target.id}`);
   }
+  const newStamp = stamp;
 
-  job.log.info('Entity stamped successfully', {
+  if (alreadyStamped && typeof newStamp.receipt_id === 'string') {
+    job.log.info('Stamp already applied for this job, returning prior outputs', {
+      stamp_number: newStamp.stamp_number,
+      receipt_id: newStamp.receipt_id,
+    });
+    job.log.success('Job completed');
+    return [target.id, newStamp.receipt_id];
+  }
+
+  job.log.info(alreadyStamped ? 'Entity already stamped, receipt missing' : 'Entity stamped successfully', {
     stamp_number: newStamp.stamp_number,
     total_stamps: stamps.length,
     stamped_by: newStamp.stamped_by,
+    stamp_kind: newStamp.stamp_kind,
+    attempts,
   });
 
   // Create a receipt entity to prove we processed this
@@ -87,7 +123,9 @@ export async function processJob(job: KladosJob): Promise<string[]> {
         stamp_number: newStamp.stamp_number,
         stamped_at: newStamp.stamped_at,
         stamped_by: newStamp.stamped_by,
-        job_id: job.request.job_id,
+        stamp_kind: newStamp.stamp_kind,
+        job_id: jobId,
+        ...(step && { step }),
       },
     },
   });
@@ -97,8 +135,119 @@ export async function processJob(job: KladosJob): Promise<string[]> {
   }
 
   job.log.info('Created stamp receipt', { receipt_id: receipt.id });
+
+  // Record the receipt on the stamp so a redelivery can return it
+  const receiptId = await recordReceipt(job, target.id, step, receipt.id);
+
   job.log.success('Job completed');
 
-  // Return both the updated entity and the new receipt as outputs
-  return [target.id, receipt.id];
+  // Return both the updated entity and the receipt as outputs
+  return [target.id, receiptId];
+}
+
+/**
+ * Set `receipt_id` on this job's stamp
+ *
+ * If a concurrent redelivery recorded its receipt first, that one wins and is
+ * returned, so every delivery reports the same outputs.
+ *
+ * @returns The receipt ID recorded on the stamp
+ */
+async function recordReceipt(
+  job: KladosJob,
+  entityId: string,
+  step: string | undefined,
+  receiptId: string
+): Promise<string> {
+  let recorded = receiptId;
+
+  await updateWithCas(
+    {
+      read: () => readProperties(job, entityId),
+      write: async ({ tip, value }) => {
+        const existingStamps: StampEntry[] = Array.isArray(value.stamps) ? value.stamps : [];
+        const prior = findStampForJob(existingStamps, job.request.job_id, step);
+
+        if (!prior) {
+          throw new Error(`Stamp for job ${job.request.job_id} disappeared from ${entityId}`);
+        }
+
+        if (typeof prior.receipt_id === 'string') {
+          recorded = prior.receipt_id;
+          job.log.info('Receipt already recorded by a concurrent delivery', {
+            recorded_receipt: recorded,
+            duplicate_receipt: receiptId,
+          });
+          return { ok: true };
+        }
+
+        const stamps = existingStamps.map((s) =>
+          s === prior ? { ...s, receipt_id: receiptId } : s
+        );
+
+        return putProperties(job, entityId, tip, { ...value, stamps });
+      },
+    },
+    retryOptions(job, 'Receipt link')
+  );
+
+  return recorded;
+}
+
+/**
+ * Read an entity's tip and properties for a CAS update
+ *
+ * The tip is read before the entity: if a write lands in between, the PUT
+ * fails the tip check and is retried rather than overwriting it.
+ */
+async function readProperties(
+  job: KladosJob,
+  entityId: string
+): Promise<CasSnapshot<Record<string, unknown>>> {
+  const { data: tipData, error: tipError } = await job.client.api.GET('/entities/{id}/tip', {
+    params: { path: { id: entityId } },
+  });
+
+  if (tipError || !tipData) {
+    throw new Error(`Failed to get entity tip: ${entityId}`);
+  }
+
+  const { data: entity, error: fetchError } = await job.client.api.GET('/entities/{id}', {
+    params: { path: { id: entityId } },
+  });
+
+  if (fetchError || !entity) {
+    throw new Error(`Failed to fetch entity: ${entityId}`);
+  }
+
+  return { tip: tipData.cid, value: entity.properties };
+}
+
+/**
+ * PUT entity properties guarded by `expect_tip`
+ */
+async function putProperties(
+  job: KladosJob,
+  entityId: string,
+  tip: string,
+  properties: Record<string, unknown>
+) {
+  const { error, response } = await job.client.api.PUT('/entities/{id}', {
+    params: { path: { id: entityId } },
+    body: {
+      expect_tip: tip,
+      properties,
+    },
+  });
+
+  if (!error) return { ok: true } as const;
+  return { ok: false, conflict: isCasConflict(response.status), error } as const;
+}
+
+function retryOptions(job: KladosJob, label: string): CasRetryOptions {
+  return {
+    onConflict: ({ attempt, delayMs }) => {
+      job.log.info(`${label} conflicted with a concurrent update, retrying`, { attempt, delayMs });
+    },
+  };
 }
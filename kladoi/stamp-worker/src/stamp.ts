@@ -0,0 +1,262 @@
+/**
+ * Stamp Worker - Stamp Configuration
+ *
+ * Parses the stamp configuration from the job input, validates it against
+ * STAMP_INPUT_SCHEMA, applies the current step's overrides and renders the
+ * entry appended to the target's stamps.
+ */
+
+import type { StampEntry, StampInput, StampSpec } from './types';
+
+/**
+ * A single rule in the declared input schema
+ */
+interface InputRule {
+  type: 'string' | 'object';
+  description: string;
+  pattern?: RegExp;
+  maxLength?: number;
+}
+
+/**
+ * Declared schema for the stamp input
+ *
+ * Keys outside this schema are rejected rather than ignored; a misspelled
+ * `mesage` would otherwise leave the default message in place.
+ */
+export const STAMP_INPUT_SCHEMA: Record<keyof StampInput, InputRule> = {
+  kind: {
+    type: 'string',
+    description: 'Stamp kind, lowercase letters, digits, "_" or "-"',
+    pattern: /^[a-z][a-z0-9_-]*$/,
+    maxLength: 64,
+  },
+  message: {
+    type: 'string',
+    description: 'Message template with {placeholder} variables',
+    maxLength: 500,
+  },
+  fields: {
+    type: 'object',
+    description: 'Extra scalar key/values copied onto the stamp entry',
+  },
+  steps: {
+    type: 'object',
+    description: 'Per-step overrides keyed by rhiza step name',
+  },
+};
+
+/** Placeholders available in message templates */
+export const STAMP_TEMPLATE_VARIABLES = [
+  'stamp_number',
+  'kind',
+  'step',
+  'job_id',
+  'agent_id',
+  'entity_id',
+] as const;
+
+export type StampTemplateVariables = Record<(typeof STAMP_TEMPLATE_VARIABLES)[number], string>;
+
+/** Keys written by the worker itself, which custom fields may not override */
+export const RESERVED_STAMP_KEYS = [
+  'stamped_at',
+  'stamped_by',
+  'stamp_number',
+  'stamp_kind',
+  'stamp_message',
+  'job_id',
+  'step',
+  'receipt_id',
+];
+
+/** Defaults reproduce the original hardcoded stamp */
+export const DEFAULT_STAMP_SPEC: StampSpec = {
+  kind: 'stamp',
+  message: 'Stamp #{stamp_number} - This worker was here!',
+  fields: {},
+};
+
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+
+/**
+ * Parse and validate the stamp input
+ *
+ * @param raw - The job input (may be undefined when invoked without input)
+ * @returns The validated input
+ * @throws Error listing every problem found
+ */
+export function parseStampInput(raw: unknown): StampInput {
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+
+  const issues: string[] = [];
+  validateObject(raw, 'input', true, issues);
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid stamp input: ${issues.join('; ')}`);
+  }
+
+  return raw as StampInput;
+}
+
+/**
+ * Resolve the stamp spec for a step, applying per-step overrides
+ *
+ * @param input - Validated stamp input
+ * @param step - Current rhiza step name, if running in a workflow
+ */
+export function resolveStampSpec(input: StampInput, step?: string): StampSpec {
+  const override = step ? input.steps?.[step] : undefined;
+
+  return {
+    kind: override?.kind ?? input.kind ?? DEFAULT_STAMP_SPEC.kind,
+    message: override?.message ?? input.message ?? DEFAULT_STAMP_SPEC.message,
+    fields: { ...input.fields, ...override?.fields },
+  };
+}
+
+/**
+ * Render a message template
+ *
+ * Placeholders are validated up front, so every name here is known.
+ */
+export function renderStampMessage(template: string, vars: StampTemplateVariables): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: keyof StampTemplateVariables) => vars[name]);
+}
+
+/**
+ * Build a stamp entry
+ *
+ * Custom fields are spread first so they can never shadow the worker's own keys.
+ */
+export function buildStamp(
+  spec: StampSpec,
+  context: {
+    stampNumber: number;
+    agentId: string;
+    jobId: string;
+    entityId: string;
+    step?: string;
+  }
+): StampEntry {
+  const message = renderStampMessage(spec.message, {
+    stamp_number: String(context.stampNumber),
+    kind: spec.kind,
+    step: context.step ?? '',
+    job_id: context.jobId,
+    agent_id: context.agentId,
+    entity_id: context.entityId,
+  });
+
+  return {
+    ...spec.fields,
+    stamped_at: new Date().toISOString(),
+    stamped_by: context.agentId,
+    stamp_number: context.stampNumber,
+    stamp_kind: spec.kind,
+    stamp_message: message,
+    job_id: context.jobId,
+    ...(context.step && { step: context.step }),
+  };
+}
+
+/**
+ * Find the stamp a job already applied, if any
+ *
+ * Stamps are keyed by job ID and rhiza step, so a redelivered request finds
+ * its own stamp while a later step of the same job does not.
+ */
+export function findStampForJob(
+  stamps: StampEntry[],
+  jobId: string,
+  step?: string
+): StampEntry | undefined {
+  return stamps.find((s) => s.job_id === jobId && (s.step ?? undefined) === step);
+}
+
+// =============================================================================
+// Validation helpers
+// =============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateObject(
+  value: unknown,
+  path: string,
+  allowSteps: boolean,
+  issues: string[]
+): void {
+  if (!isPlainObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const rule = STAMP_INPUT_SCHEMA[key as keyof StampInput];
+    const fieldPath = `${path}.${key}`;
+
+    if (!rule || (key === 'steps' && !allowSteps)) {
+      issues.push(`${fieldPath} is not a recognised option`);
+      continue;
+    }
+
+    if (rule.type === 'string') {
+      validateString(fieldValue, fieldPath, rule, issues);
+    } else if (!isPlainObject(fieldValue)) {
+      issues.push(`${fieldPath} must be an object`);
+      continue;
+    }
+
+    if (key === 'message' && typeof fieldValue === 'string') {
+      validateTemplate(fieldValue, fieldPath, issues);
+    } else if (key === 'fields') {
+      validateFields(fieldValue as Record<string, unknown>, fieldPath, issues);
+    } else if (key === 'steps') {
+      for (const [stepName, stepValue] of Object.entries(fieldValue as Record<string, unknown>)) {
+        validateObject(stepValue, `${fieldPath}.${stepName}`, false, issues);
+      }
+    }
+  }
+}
+
+function validateString(value: unknown, path: string, rule: InputRule, issues: string[]): void {
+  if (typeof value !== 'string') {
+    issues.push(`${path} must be a string`);
+    return;
+  }
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    issues.push(`${path} must be at most ${rule.maxLength} characters`);
+  }
+  if (rule.pattern && !rule.pattern.test(value)) {
+    issues.push(`${path} is invalid (${rule.description})`);
+  }
+}
+
+function validateTemplate(template: string, path: string, issues: string[]): void {
+  const known: readonly string[] = STAMP_TEMPLATE_VARIABLES;
+  for (const [, name] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!known.includes(name)) {
+      issues.push(`${path} uses unknown placeholder {${name}} (expected one of ${known.join(', ')})`);
+    }
+  }
+}
+
+function validateFields(fields: Record<string, unknown>, path: string, issues: string[]): void {
+  for (const [key, value] of Object.entries(fields)) {
+    if (!FIELD_KEY_PATTERN.test(key)) {
+      issues.push(`${path}.${key} must be snake_case`);
+    } else if (RESERVED_STAMP_KEYS.includes(key)) {
+      issues.push(`${path}.${key} is reserved`);
+    }
+
+    const type = typeof value;
+    if (value !== null && type !== 'string' && type !== 'number' && type !== 'boolean') {
+      issues.push(`${path}.${key} must be a string, number, boolean or null`);
+    }
+  }
+}
@@ -1,27 +1,9 @@
 /**
  * Type definitions for the klados worker
+ *
+ * Environment bindings are KladosEnv from klados-worker.
  */
 
-/**
- * Cloudflare Worker environment bindings
- */
-export interface Env {
-  /** Klados agent ID (registered in Arke) */
-  AGENT_ID: string;
-
-  /** Agent version for logging */
-  AGENT_VERSION: string;
-
-  /** Arke agent API key (secret) */
-  ARKE_AGENT_KEY: string;
-
-  /** Verification token for endpoint verification (set during registration) */
-  VERIFICATION_TOKEN?: string;
-
-  /** Agent ID for verification (used before AGENT_ID is configured) */
-  ARKE_VERIFY_AGENT_ID?: string;
-}
-
 /**
  * Example: Properties of the target entity being processed
  *
@@ -62,3 +44,43 @@ export interface OutputProperties {
   /** Allow any additional properties */
   [key: string]: unknown;
 }
+
+/**
+ * Scalar values allowed in custom stamp fields
+ */
+export type StampFieldValue = string | number | boolean | null;
+
+/**
+ * A stamp entry as stored in the entity's `stamps` array
+ */
+export type StampEntry = Record<string, StampFieldValue>;
+
+/**
+ * Stamp configuration supplied through the job input
+ *
+ * Top-level values apply to every step. Entries under `steps` are keyed by
+ * rhiza step name and override the top-level values when this worker runs
+ * as that step, so one input can configure a whole stamp chain.
+ */
+export interface StampInput {
+  /** Stamp kind (e.g. "provenance", "review"), defaults to "stamp" */
+  kind?: string;
+
+  /** Message template, see STAMP_TEMPLATE_VARIABLES for placeholders */
+  message?: string;
+
+  /** Extra key/values copied onto the stamp entry */
+  fields?: Record<string, StampFieldValue>;
+
+  /** Per-step overrides keyed by rhiza step name */
+  steps?: Record<string, Omit<StampInput, 'steps'>>;
+}
+
+/**
+ * Resolved stamp configuration for a single job
+ */
+export interface StampSpec {
+  kind: string;
+  message: string;
+  fields: Record<string, StampFieldValue>;
+}
@@ -0,0 +1,275 @@
+/**
+ * Offline Test for Stamp Worker
+ *
+ * Runs the worker's Hono app in-process against the fake Arke API, so the
+ * stamp logic is exercised in CI without ARKE_USER_KEY or network access.
+ * KladosJob and the klados-testing helpers both talk to the fake through
+ * the patched fetch installed by `fake.install()`.
+ *
+ * Usage:
+ *   npm test
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  configureTestClient,
+  createCollection,
+  createEntity,
+  getEntity,
+} from '@arke-institute/klados-testing';
+import { createFakeArke, FAKE_AGENT_KEY, FAKE_USER_KEY, type FakeArke } from 'fake-arke';
+import app from '../src/index';
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('stamp-worker (offline)', () => {
+  let fake: FakeArke;
+  let restoreFetch: () => void;
+  let kladosId: string;
+  let targetCollection: { id: string };
+
+  beforeAll(async () => {
+    fake = createFakeArke();
+    restoreFetch = fake.install();
+
+    configureTestClient({
+      apiBase: fake.baseUrl,
+      userKey: FAKE_USER_KEY,
+      network: 'test',
+    });
+
+    kladosId = fake.registerKlados({ label: 'Stamp Worker', worker: app });
+    targetCollection = await createCollection({ label: 'Offline Stamp Targets' });
+  });
+
+  afterAll(() => {
+    restoreFetch();
+  });
+
+  /**
+   * Build a KladosRequest as the API would send it
+   */
+  function kladosRequest(targetEntity: string, overrides: Record<string, unknown> = {}) {
+    const jobCollection = fake.store.create({ type: 'collection' }).id;
+    return {
+      job_id: `job_${targetEntity}`,
+      target_entity: targetEntity,
+      target_collection: targetCollection.id,
+      job_collection: jobCollection,
+      api_base: fake.baseUrl,
+      network: 'test',
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+      ...overrides,
+    };
+  }
+
+  function logOutputs(jobCollection: string): unknown[] {
+    const [kladosLog] = fake.logs(jobCollection);
+    const logData = kladosLog?.properties.log_data as { entry?: { outputs?: unknown[] } } | undefined;
+    return logData?.entry?.outputs ?? [];
+  }
+
+  // ==========================================================================
+  // Tests
+  // ==========================================================================
+
+  it('should stamp entity and create a receipt', async () => {
+    const entity = await createEntity({
+      type: 'test_entity',
+      properties: { title: 'Offline stamp' },
+      collection: targetCollection.id,
+    });
+
+    const result = await fake.invokeKlados(kladosId, {
+      target_entity: entity.id,
+      target_collection: targetCollection.id,
+      confirm: true,
+    });
+    await fake.idle();
+
+    expect(result.status).toBe('started');
+    expect(fake.backgroundErrors).toEqual([]);
+
+    const stamped = await getEntity(entity.id);
+    expect(stamped.properties.stamp_count).toBe(1);
+    expect(stamped.properties.stamps[0]).toMatchObject({
+      stamp_number: 1,
+      stamped_by: kladosId,
+      stamp_message: 'Stamp #1 - This worker was here!',
+      job_id: result.job_id,
+    });
+
+    const [kladosLog] = fake.logs(result.job_collection!);
+    expect(kladosLog.properties.status).toBe('done');
+
+    const receipts = fake.store.list({ type: 'stamp_receipt', collection: targetCollection.id });
+    expect(receipts.some((r) => r.properties.stamped_entity === entity.id)).toBe(true);
+  });
+
+  it('should apply stamp configuration from the job input', async () => {
+    const entity = fake.store.create({ type: 'test_entity', collection: targetCollection.id });
+
+    await fake.invokeKlados(kladosId, {
+      target_entity: entity.id,
+      target_collection: targetCollection.id,
+      input: { kind: 'provenance', message: '{kind} for {entity_id}', fields: { source: 'ci' } },
+      confirm: true,
+    });
+    await fake.idle();
+
+    const [stamp] = fake.store.get(entity.id).properties.stamps as Array<Record<string, unknown>>;
+    expect(stamp).toMatchObject({
+      stamp_kind: 'provenance',
+      stamp_message: `provenance for ${entity.id}`,
+      source: 'ci',
+    });
+  });
+
+  it('should fail the job on invalid input without stamping', async () => {
+    const entity = fake.store.create({ type: 'test_entity', collection: targetCollection.id });
+
+    const result = await fake.invokeKlados(kladosId, {
+      target_entity: entity.id,
+      target_collection: targetCollection.id,
+      input: { colour: 'red' },
+      confirm: true,
+    });
+    await fake.idle();
+
+    const [kladosLog] = fake.logs(result.job_collection!);
+    expect(kladosLog.properties.status).toBe('error');
+    expect(fake.store.get(entity.id).properties.stamps).toBeUndefined();
+  });
+
+  it('should return prior outputs when a request is redelivered', async () => {
+    const entity = fake.store.create({ type: 'test_entity', collection: targetCollection.id });
+    const request = kladosRequest(entity.id);
+
+    await fake.dispatch(kladosId, request);
+    await fake.idle();
+    const firstOutputs = logOutputs(request.job_collection);
+
+    // Redeliver into a fresh job collection so each delivery has its own log
+    const redelivered = { ...request, job_collection: fake.store.create({ type: 'collection' }).id };
+    await fake.dispatch(kladosId, redelivered);
+    await fake.idle();
+
+    const properties = fake.store.get(entity.id).properties;
+    expect(properties.stamp_count).toBe(1);
+    expect(logOutputs(redelivered.job_collection)).toEqual(firstOutputs);
+    expect(
+      fake.store.list({ type: 'stamp_receipt' }).filter((r) => r.properties.job_id === request.job_id)
+    ).toHaveLength(1);
+  });
+
+  it('should keep every stamp when jobs stamp the same entity concurrently', async () => {
+    const entity = fake.store.create({ type: 'test_entity', collection: targetCollection.id });
+
+    await Promise.all(
+      ['a', 'b', 'c'].map((suffix) =>
+        fake.dispatch(kladosId, kladosRequest(entity.id, { job_id: `job_concurrent_${suffix}` }))
+      )
+    );
+    await fake.idle();
+
+    const properties = fake.store.get(entity.id).properties;
+    const stamps = properties.stamps as Array<{ job_id: string; stamp_number: number }>;
+    expect(properties.stamp_count).toBe(3);
+    expect(stamps.map((s) => s.job_id).sort()).toEqual([
+      'job_concurrent_a',
+      'job_concurrent_b',
+      'job_concurrent_c',
+    ]);
+    expect(stamps.map((s) => s.stamp_number)).toEqual([1, 2, 3]);
+  });
+
+  it('should reject requests that are not signed by Arke', async () => {
+    const entity = fake.store.create({ type: 'test_entity', collection: targetCollection.id });
+    const request = kladosRequest(entity.id);
+
+    const response = await app.fetch(
+      new Request('https://stamp-worker.test/process', { method: 'POST', body: JSON.stringify(request) }),
+      {
+        AGENT_ID: kladosId,
+        AGENT_VERSION: '0.0.0',
+        ARKE_AGENT_KEY: 'ak_unused',
+        ARKE_SIGNING_KEY: await fake.signingPublicKey(),
+      }
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ reason: 'missing_signature' });
+    expect(fake.logs(request.job_collection)).toEqual([]);
+    expect(fake.store.get(entity.id).properties.stamps).toBeUndefined();
+  });
+
+  it('should reject a malformed request with a 400 listing its problems', async () => {
+    const entity = fake.store.create({ type: 'test_entity', collection: targetCollection.id });
+    const request = { ...kladosRequest(entity.id), job_id: undefined, network: 'staging' };
+
+    const response = await fake.dispatch(kladosId, request);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      reason: 'invalid_request',
+      issues: [
+        { field: 'job_id', message: 'must be a non-empty string' },
+        { field: 'network', message: 'must be one of test, main' },
+      ],
+    });
+    expect(fake.logs(request.job_collection)).toEqual([]);
+    expect(fake.store.get(entity.id).properties.stamps).toBeUndefined();
+  });
+
+  it('should answer with the outcome in synchronous debug mode', async () => {
+    const syncId = fake.registerKlados({
+      label: 'Stamp Worker (sync)',
+      worker: app,
+      env: { KLADOS_SYNC_PROCESS: 'true' },
+    });
+    const entity = fake.store.create({ type: 'test_entity', collection: targetCollection.id });
+
+    const done = await fake.dispatch(syncId, kladosRequest(entity.id));
+    expect(done.status).toBe(200);
+    const result = (await done.json()) as { messages: unknown[] };
+    expect(result).toMatchObject({
+      job_id: `job_${entity.id}`,
+      status: 'done',
+      outputs: [entity.id, expect.any(String)],
+    });
+    expect(result.messages).toContainEqual({ level: 'info', message: 'Entity stamped successfully' });
+    expect(fake.store.get(entity.id).properties.stamp_count).toBe(1);
+
+    const badInput = kladosRequest(entity.id, { job_id: 'job_bad_input', input: { kind: 7 } });
+    const failed = await fake.dispatch(syncId, badInput);
+    expect(failed.status).toBe(500);
+    const failure = (await failed.json()) as { error: unknown };
+    expect(failure).toMatchObject({ status: 'error', outputs: [] });
+    expect(failure.error).toEqual({ message: 'Invalid stamp input: input.kind must be a string' });
+  });
+
+  it('should report deep health against the API', async () => {
+    const env = {
+      AGENT_ID: kladosId,
+      AGENT_VERSION: '0.1.0',
+      ARKE_AGENT_KEY: FAKE_AGENT_KEY,
+      ARKE_SIGNING_KEY: await fake.signingPublicKey(),
+    };
+
+    const healthy = await app.request('/health?deep=1', {}, env);
+    expect(healthy.status).toBe(200);
+    expect(await healthy.json()).toMatchObject({ status: 'ok', agent_id: kladosId, version: '0.1.0' });
+
+    const unknown = await app.request('/health?deep=1', {}, { ...env, AGENT_ID: targetCollection.id });
+    expect(unknown.status).toBe(503);
+    expect(await unknown.json()).toMatchObject({
+      status: 'failing',
+      checks: { agent_id: { ok: false, message: `AGENT_ID ${targetCollection.id} is a collection, not a klados` } },
+    });
+
+    const shallow = await app.request('/health', {}, { ...env, ARKE_AGENT_KEY: '' });
+    expect(await shallow.json()).toMatchObject({ status: 'ok' });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for stamp configuration
+ *
+ * Covers input validation, per-step overrides and message rendering.
+ * These run without any environment variables or network access.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildStamp,
+  findStampForJob,
+  parseStampInput,
+  resolveStampSpec,
+  DEFAULT_STAMP_SPEC,
+} from '../src/stamp';
+
+const context = {
+  stampNumber: 2,
+  agentId: 'klados_stamp',
+  jobId: 'job_123',
+  entityId: 'entity_abc',
+};
+
+describe('stamp input', () => {
+  it('should default to the original stamp when no input is given', () => {
+    const spec = resolveStampSpec(parseStampInput(undefined));
+    expect(spec).toEqual(DEFAULT_STAMP_SPEC);
+
+    const stamp = buildStamp(spec, context);
+    expect(stamp).toMatchObject({
+      stamp_number: 2,
+      stamp_kind: 'stamp',
+      stamp_message: 'Stamp #2 - This worker was here!',
+      stamped_by: 'klados_stamp',
+      job_id: 'job_123',
+    });
+    expect(stamp).not.toHaveProperty('step');
+  });
+
+  it('should render templates and copy custom fields', () => {
+    const input = parseStampInput({
+      kind: 'provenance',
+      message: '{kind} #{stamp_number} on {entity_id} at {step}',
+      fields: { source: 'ingest', verified: true },
+    });
+
+    const stamp = buildStamp(resolveStampSpec(input, 'first_stamp'), {
+      ...context,
+      step: 'first_stamp',
+    });
+
+    expect(stamp).toMatchObject({
+      stamp_kind: 'provenance',
+      stamp_message: 'provenance #2 on entity_abc at first_stamp',
+      source: 'ingest',
+      verified: true,
+      step: 'first_stamp',
+    });
+  });
+
+  it('should apply per-step overrides over top-level values', () => {
+    const input = parseStampInput({
+      kind: 'review',
+      fields: { team: 'a', round: 1 },
+      steps: {
+        second_stamp: { kind: 'approval', fields: { round: 2 } },
+      },
+    });
+
+    expect(resolveStampSpec(input, 'first_stamp')).toMatchObject({
+      kind: 'review',
+      fields: { team: 'a', round: 1 },
+    });
+    expect(resolveStampSpec(input, 'second_stamp')).toMatchObject({
+      kind: 'approval',
+      fields: { team: 'a', round: 2 },
+    });
+  });
+
+  it('should report every problem in invalid input', () => {
+    expect(() =>
+      parseStampInput({
+        kind: 'Not A Kind',
+        message: 'Hello {nobody}',
+        fields: { stamp_number: 5, nested: { a: 1 } },
+        colour: 'red',
+        steps: { first: { steps: {} } },
+      })
+    ).toThrowError(
+      /input\.kind is invalid.*input\.message uses unknown placeholder \{nobody\}.*input\.fields\.stamp_number is reserved.*input\.fields\.nested must be a string.*input\.colour is not a recognised option.*input\.steps\.first\.steps is not a recognised option/
+    );
+  });
+
+  it('should reject non-object input', () => {
+    expect(() => parseStampInput('stamp please')).toThrowError('input must be an object');
+  });
+});
+
+describe('findStampForJob', () => {
+  const stamps = [
+    { job_id: 'job_1', stamp_number: 1 },
+    { job_id: 'job_2', stamp_number: 2, step: 'first_stamp', receipt_id: 'receipt_2' },
+    { job_id: 'job_2', stamp_number: 3, step: 'second_stamp' },
+  ];
+
+  it('should match on job ID and step', () => {
+    expect(findStampForJob(stamps, 'job_2', 'first_stamp')?.stamp_number).toBe(2);
+    expect(findStampForJob(stamps, 'job_2', 'second_stamp')?.stamp_number).toBe(3);
+  });
+
+  it('should match stamps without a step when invoked directly', () => {
+    expect(findStampForJob(stamps, 'job_1')?.stamp_number).toBe(1);
+    expect(findStampForJob(stamps, 'job_2')).toBeUndefined();
+  });
+
+  it('should not match other jobs', () => {
+    expect(findStampForJob(stamps, 'job_3', 'first_stamp')).toBeUndefined();
+  });
+});
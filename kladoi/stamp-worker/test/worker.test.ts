@@ -14,8 +14,9 @@
  * Environment variables:
  *   ARKE_USER_KEY   - Your Arke user API key (uk_...)
  *   KLADOS_ID       - The klados entity ID from registration
- *   ARKE_API_BASE   - API base URL (default: https://arke-v1.arke.institute)
- *   ARKE_NETWORK    - Network to use (default: test)
+ *   ARKE_PROFILE    - Environment profile to test against (default: dev)
+ *   ARKE_API_BASE   - Override the profile's API base URL
+ *   ARKE_NETWORK    - Override the profile's network
  *
  * Usage:
  *   ARKE_USER_KEY=uk_... KLADOS_ID=klados_... npm test
@@ -35,14 +36,16 @@ import {
   sleep,
   log,
 } from '@arke-institute/klados-testing';
+import { loadProfile } from 'arke-profiles';
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const ARKE_API_BASE = process.env.ARKE_API_BASE || 'https://arke-v1.arke.institute';
+const PROFILE = loadProfile();
+const ARKE_API_BASE = PROFILE.apiBase;
 const ARKE_USER_KEY = process.env.ARKE_USER_KEY;
-const NETWORK = (process.env.ARKE_NETWORK || 'test') as 'test' | 'main';
+const NETWORK = PROFILE.network;
 const KLADOS_ID = process.env.KLADOS_ID;
 
 // =============================================================================
@@ -0,0 +1,197 @@
+/**
+ * Local Test for Scatter Workflows
+ *
+ * Runs the workflow definitions in-process against the scatter and stamp
+ * workers from ../../kladoi and an in-memory Arke API, so the flow
+ * semantics are checked without registering or deploying anything.
+ *
+ * Usage:
+ *   npm test
+ */
+
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { createFakeArke, type WorkerHandler } from 'fake-arke';
+import { discoverRepo, loadWorkflow, runWorkflowLocally } from 'rhiza-tools';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const PACKAGE_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const repo = discoverRepo(path.resolve(PACKAGE_DIR, '../..'));
+
+async function runLocal(workflowName: string, targetProperties: Record<string, unknown>) {
+  const fake = createFakeArke();
+  const targetCollection = fake.store.create({ type: 'collection' });
+  const testEntity = fake.store.create({
+    type: 'test_entity',
+    collection: targetCollection.id,
+    properties: targetProperties,
+  });
+
+  const result = await runWorkflowLocally(
+    loadWorkflow(path.join(PACKAGE_DIR, 'workflows', `${workflowName}.json`)),
+    { targetEntity: testEntity.id, targetCollection: targetCollection.id },
+    { fake, kladoi: repo.kladoi, rhizai: repo.rhizai }
+  );
+  return { ...result, testEntity };
+}
+
+/**
+ * A stand-in scatter that hands off `items` as its outputs
+ *
+ * Without job input the scatter worker only routes by entity_class, and a
+ * workflow's input reaches every step, so the routes on other properties
+ * need outputs the real worker can't produce here.
+ */
+function scatterOutputs(items: Array<Record<string, unknown>>): WorkerHandler {
+  const app = new Hono<{ Bindings: Record<string, string> }>();
+  app.post('/process', async (c) => {
+    const req = await c.req.json<{ api_base: string; job_collection: string }>();
+    c.executionCtx.waitUntil(
+      fetch(`${req.api_base}/entities`, {
+        method: 'POST',
+        headers: { Authorization: `ApiKey ${c.env.ARKE_AGENT_KEY}` },
+        body: JSON.stringify({
+          type: 'klados_log',
+          collection: req.job_collection,
+          properties: { klados_id: c.env.AGENT_ID, status: 'done', log_data: { entry: { outputs: items } } },
+        }),
+      })
+    );
+    return c.json({ accepted: true });
+  });
+  return app;
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('scatter workflows (local)', () => {
+  it('should stamp every copy in scatter-test', async () => {
+    const { tree, fake, kladoi } = await runLocal('scatter-test', { copy_count: 3 });
+
+    expect(tree.isComplete).toBe(true);
+    expect(tree.hasErrors).toBe(false);
+    expect(tree.logs.size).toBe(4);
+
+    for (const stamp of tree.root!.children) {
+      const logData = stamp.log.properties.log_data as { entry: { outputs: string[] } };
+      const copy = fake.store.get(logData.entry.outputs[0]);
+      const stamps = copy.properties.stamps as Array<{ stamped_by: string }>;
+      expect(stamps).toHaveLength(1);
+      expect(stamps[0].stamped_by).toBe(kladoi.STAMP_KLADOS);
+    }
+  });
+
+  it('should build the nested-scatter-test tree', async () => {
+    const { tree, kladoi } = await runLocal('nested-scatter-test', { copy_count: 3 });
+
+    expect(tree.isComplete).toBe(true);
+    expect(tree.allChildrenDiscovered).toBe(true);
+    expect(tree.hasErrors).toBe(false);
+    expect(tree.logs.size).toBe(13);
+    expect(tree.leaves).toHaveLength(9);
+
+    expect(tree.root!.expectedChildren).toBe(3);
+    for (const level2 of tree.root!.children) {
+      expect(level2.log.properties.klados_id).toBe(kladoi.SCATTER_KLADOS);
+      expect(level2.children).toHaveLength(3);
+      for (const stamp of level2.children) {
+        expect(stamp.log.properties.klados_id).toBe(kladoi.STAMP_KLADOS);
+        expect(stamp.isTerminal).toBe(true);
+      }
+    }
+  });
+
+  it('should gather the stamped copies in scatter-gather-test', async () => {
+    const { tree, fake, kladoi } = await runLocal('scatter-gather-test', { copy_count: 3 });
+
+    expect(tree.isComplete).toBe(true);
+    expect(tree.hasErrors).toBe(false);
+    expect(tree.logs.size).toBe(8);
+
+    // Three stamps, plus stamp_result once: only the last gather to run hands off
+    const stampLogs = [...tree.logs.values()].filter((l) => l.properties.klados_id === kladoi.STAMP_KLADOS);
+    expect(stampLogs).toHaveLength(4);
+
+    const [gathered] = fake.store.list({ type: 'gather_result' });
+    expect(gathered.properties.item_count).toBe(3);
+    expect((gathered.properties.stamps as Array<{ step: string }>).map((s) => s.step)).toEqual(['stamp_result']);
+  });
+
+  it('should route by entity_class conditions in conditional-routing-test', async () => {
+    const fake = createFakeArke();
+    const targetCollection = fake.store.create({ type: 'collection' });
+    const classes = ['canonical', 'alias', 'mention', 'mention_partial', 'draft', undefined];
+    const entities = classes.map((entity_class) =>
+      fake.store.create({
+        type: 'test_entity',
+        collection: targetCollection.id,
+        properties: entity_class ? { entity_class } : {},
+      })
+    );
+
+    const { tree } = await runWorkflowLocally(
+      loadWorkflow(path.join(PACKAGE_DIR, 'workflows', 'conditional-routing-test.json')),
+      { targetEntities: entities.map((e) => e.id), targetCollection: targetCollection.id },
+      { fake, kladoi: repo.kladoi, rhizai: repo.rhizai }
+    );
+
+    expect(tree.isComplete).toBe(true);
+    expect(tree.hasErrors).toBe(false);
+
+    // alias, draft and the unclassified entity end at done
+    const routed = tree.root!.children.map((c) => {
+      const logData = c.log.properties.log_data as { entry: { outputs: string[] } };
+      return [c.step, fake.store.get(logData.entry.outputs[0]).properties.entity_class];
+    });
+    expect(routed).toEqual([
+      ['stamp_canonical', 'canonical'],
+      ['stamp_mention', 'mention'],
+      ['stamp_mention', 'mention_partial'],
+    ]);
+  });
+
+  it('should take every route in conditional-routing-test', async () => {
+    const fake = createFakeArke();
+    const targetCollection = fake.store.create({ type: 'collection' });
+    const item = (name: string, properties: Record<string, unknown>) => ({
+      entity_id: fake.store.create({ type: 'test_entity', collection: targetCollection.id, properties: { name } }).id,
+      ...properties,
+    });
+    const items = [
+      item('unclassified', { priority: 9 }),
+      item('urgent', { entity_class: 'canonical', priority: 7 }),
+      item('canonical', { entity_class: 'canonical' }),
+      item('low priority alias', { entity_class: 'alias', priority: 3 }),
+      item('partial mention', { entity_class: 'mention_partial' }),
+      item('default', { entity_class: 'draft', priority: 0 }),
+    ];
+
+    const { tree } = await runWorkflowLocally(
+      loadWorkflow(path.join(PACKAGE_DIR, 'workflows', 'conditional-routing-test.json')),
+      { targetEntity: fake.store.create({ type: 'test_entity' }).id, targetCollection: targetCollection.id },
+      { fake, kladoi: { ...repo.kladoi, SCATTER_KLADOS: scatterOutputs(items) }, rhizai: repo.rhizai }
+    );
+
+    expect(tree.isComplete).toBe(true);
+    expect(tree.hasErrors).toBe(false);
+
+    // The first rule beats priority, and the default rule ends the draft
+    const routed = tree.root!.children.map((c) => {
+      const logData = c.log.properties.log_data as { entry: { outputs: string[] } };
+      return [c.step, fake.store.get(logData.entry.outputs[0]).properties.name];
+    });
+    expect(routed).toEqual([
+      ['stamp_urgent', 'urgent'],
+      ['stamp_canonical', 'canonical'],
+      ['stamp_mention', 'low priority alias'],
+      ['stamp_mention', 'partial mention'],
+    ]);
+  });
+});
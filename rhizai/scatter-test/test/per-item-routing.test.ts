@@ -26,14 +26,16 @@ import {
   log,
 } from '@arke-institute/klados-testing';
 import type { InvokeOptions } from '@arke-institute/rhiza';
+import { loadProfile } from 'arke-profiles';
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const ARKE_API_BASE = process.env.ARKE_API_BASE || 'https://arke-v1.arke.institute';
+const PROFILE = loadProfile();
+const ARKE_API_BASE = PROFILE.apiBase;
 const ARKE_USER_KEY = process.env.ARKE_USER_KEY;
-const NETWORK = (process.env.ARKE_NETWORK || 'test') as 'test' | 'main';
+const NETWORK = PROFILE.network;
 const STAMP_KLADOS = process.env.STAMP_KLADOS;
 const SCATTER_UTILITY_URL = process.env.SCATTER_UTILITY_URL || 'https://scatter-utility.arke.institute';
 
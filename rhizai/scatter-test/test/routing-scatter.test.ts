@@ -33,14 +33,17 @@ import {
   log,
   type WorkflowLogTree,
 } from '@arke-institute/klados-testing';
+import { buildWorkflowTrace, formatTraceText } from 'rhiza-tools';
+import { loadProfile } from 'arke-profiles';
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const ARKE_API_BASE = process.env.ARKE_API_BASE || 'https://arke-v1.arke.institute';
+const PROFILE = loadProfile();
+const ARKE_API_BASE = PROFILE.apiBase;
 const ARKE_USER_KEY = process.env.ARKE_USER_KEY;
-const NETWORK = (process.env.ARKE_NETWORK || 'test') as 'test' | 'main';
+const NETWORK = PROFILE.network;
 const RHIZA_ID = process.env.ROUTING_SCATTER_RHIZA;
 const SCATTER_KLADOS = process.env.SCATTER_KLADOS;
 const STAMP_KLADOS = process.env.STAMP_KLADOS;
@@ -167,11 +170,8 @@ describe('routing scatter workflow', () => {
     // Convert logs Map to array for analysis
     const allLogs = Array.from(tree.logs.values());
 
-    // Log details for debugging
-    for (const logEntry of allLogs) {
-      const status = logEntry.properties.status;
-      log(`  - ${logEntry.properties.klados_id}: ${status}`);
-    }
+    // Log the trace for debugging
+    log(`\n${formatTraceText(buildWorkflowTrace(tree))}`);
 
     // Check if we have at least the expected number of logs (scatter + stamps)
     expect(tree.logs.size).toBeGreaterThanOrEqual(1 + NUM_STAMPS);
@@ -0,0 +1,168 @@
+/**
+ * E2E Test for Scatter/Gather Workflow
+ *
+ * Tests a map-reduce shaped rhiza workflow:
+ * 1. Scatter worker receives 1 entity, creates 3 copies
+ * 2. Stamp worker is invoked 3 times in parallel (once per copy)
+ * 3. Each stamp passes to the gather worker; the last branch to arrive
+ *    creates one gather_result listing every branch's outputs
+ * 4. The gather_result is stamped once
+ *
+ * Verifies:
+ * - Exactly one gather_result is produced, with one item per copy
+ * - Only one gather invocation hands off
+ * - The step after the gather runs once
+ *
+ * Prerequisites:
+ * 1. Deploy scatter, stamp and gather workers (npm run register in each of
+ *    ../../kladoi/scatter-worker, stamp-worker, gather-worker)
+ * 2. Register this workflow: npm run register -- scatter-gather-test
+ * 3. Set environment variables (see ../../.env)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  configureTestClient,
+  createCollection,
+  createEntity,
+  getEntity,
+  invokeRhiza,
+  waitForWorkflowTree,
+  log,
+} from '@arke-institute/klados-testing';
+import { buildWorkflowTrace, formatTraceText } from 'rhiza-tools';
+import { loadProfile } from 'arke-profiles';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const PROFILE = loadProfile();
+const ARKE_API_BASE = PROFILE.apiBase;
+const ARKE_USER_KEY = process.env.ARKE_USER_KEY;
+const NETWORK = PROFILE.network;
+const RHIZA_ID = process.env.SCATTER_GATHER_RHIZA;
+const STAMP_KLADOS = process.env.STAMP_KLADOS;
+const GATHER_KLADOS = process.env.GATHER_KLADOS;
+
+// Number of copies the scatter worker creates
+const NUM_COPIES = 3;
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('scatter/gather workflow', () => {
+  let targetCollection: { id: string };
+  let testEntity: { id: string };
+  let jobCollectionId: string;
+
+  beforeAll(() => {
+    if (!ARKE_USER_KEY) {
+      console.warn('Skipping tests: ARKE_USER_KEY not set');
+      return;
+    }
+    if (!RHIZA_ID) {
+      console.warn('Skipping tests: SCATTER_GATHER_RHIZA not set');
+      console.warn('Run: npm run register -- scatter-gather-test');
+      return;
+    }
+
+    configureTestClient({
+      apiBase: ARKE_API_BASE,
+      userKey: ARKE_USER_KEY,
+      network: NETWORK,
+    });
+
+    log(`Using rhiza: ${RHIZA_ID}`);
+    log(`Using stamp klados: ${STAMP_KLADOS}`);
+    log(`Using gather klados: ${GATHER_KLADOS}`);
+  });
+
+  beforeAll(async () => {
+    if (!ARKE_USER_KEY || !RHIZA_ID) return;
+
+    log('Creating test fixtures...');
+
+    targetCollection = await createCollection({
+      label: `Scatter Gather Test ${Date.now()}`,
+      description: 'Target collection for scatter/gather workflow test',
+    });
+    log(`Created target collection: ${targetCollection.id}`);
+
+    testEntity = await createEntity({
+      type: 'test_entity',
+      properties: {
+        label: 'Test Entity for Scatter Gather',
+        content: 'This entity will be copied 3 times, stamped, and gathered',
+        copy_count: NUM_COPIES,
+        created_at: new Date().toISOString(),
+      },
+      collection: targetCollection.id,
+    });
+    log(`Created test entity: ${testEntity.id}`);
+  });
+
+  afterAll(async () => {
+    if (!ARKE_USER_KEY || !RHIZA_ID) return;
+
+    // DISABLED FOR DEBUGGING - uncomment to re-enable cleanup
+    log('Cleanup DISABLED for inspection');
+    log(`  Target collection: ${targetCollection?.id}`);
+    log(`  Test entity: ${testEntity?.id}`);
+    log(`  Job collection: ${jobCollectionId}`);
+  });
+
+  // ==========================================================================
+  // Tests
+  // ==========================================================================
+
+  it('should gather every stamped copy into one result', async () => {
+    if (!ARKE_USER_KEY || !RHIZA_ID) {
+      console.warn('Test skipped: missing environment variables');
+      return;
+    }
+
+    log('Invoking scatter gather test rhiza...');
+    const result = await invokeRhiza({
+      rhizaId: RHIZA_ID,
+      targetEntity: testEntity.id,
+      targetCollection: targetCollection.id,
+      confirm: true,
+    });
+
+    expect(result.status).toBe('started');
+    jobCollectionId = result.job_collection!;
+    log(`Workflow started: ${result.job_id}`);
+
+    // Expecting: 1 scatter + 3 stamps + 3 gathers + 1 final stamp = 8 logs
+    const tree = await waitForWorkflowTree(jobCollectionId, {
+      timeout: 120000,
+      pollInterval: 3000,
+    });
+
+    log(`\n${formatTraceText(buildWorkflowTrace(tree))}`);
+
+    expect(tree.isComplete).toBe(true);
+    expect(tree.hasErrors).toBe(false);
+    expect(tree.logs.size).toBe(1 + NUM_COPIES * 2 + 1);
+
+    const gatherLogs = Array.from(tree.logs.values()).filter((l) => l.properties.klados_id === GATHER_KLADOS);
+    expect(gatherLogs).toHaveLength(NUM_COPIES);
+
+    const handedOff = gatherLogs.filter((l) => (l.properties.log_data?.entry?.outputs ?? []).length > 0);
+    expect(handedOff).toHaveLength(1);
+
+    const [resultId] = handedOff[0].properties.log_data.entry.outputs as string[];
+    const gathered = await getEntity(resultId);
+    log(`Gather result: ${gathered.id} (${gathered.properties.item_count} items)`);
+
+    expect(gathered.type).toBe('gather_result');
+    expect(gathered.properties.item_count).toBe(NUM_COPIES);
+
+    // The step after the gather ran once, on the gather result
+    const stamps = gathered.properties.stamps as Array<{ stamped_by: string; step?: string }>;
+    expect(stamps).toHaveLength(1);
+    expect(stamps[0].step).toBe('stamp_result');
+  });
+});
@@ -32,14 +32,16 @@ import {
   log,
   apiRequest,
 } from '@arke-institute/klados-testing';
+import { loadProfile } from 'arke-profiles';
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const ARKE_API_BASE = process.env.ARKE_API_BASE || 'https://arke-v1.arke.institute';
+const PROFILE = loadProfile();
+const ARKE_API_BASE = PROFILE.apiBase;
 const ARKE_USER_KEY = process.env.ARKE_USER_KEY;
-const NETWORK = (process.env.ARKE_NETWORK || 'test') as 'test' | 'main';
+const NETWORK = PROFILE.network;
 const RHIZA_ID = process.env.RHIZA_ID;
 const SCATTER_KLADOS = process.env.SCATTER_KLADOS;
 const STAMP_KLADOS = process.env.STAMP_KLADOS;
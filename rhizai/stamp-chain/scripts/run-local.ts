@@ -0,0 +1,17 @@
+#!/usr/bin/env npx tsx
+/**
+ * Local Workflow Runner
+ *
+ * Runs a workflow from workflows/ in-process against the workers in
+ * ../../kladoi and an in-memory Arke API, then prints the log tree.
+ * No ARKE_USER_KEY, registration or deployment is needed.
+ *
+ * Usage:
+ *   npm run run-local -- <workflow-name>
+ *   npm run run-local -- <workflow-name> --target-props '{"copy_count":3}'
+ *   npm run run-local -- <workflow-name> --input '{"kind":"review"}' --json
+ */
+
+import { runLocalCommand } from 'rhiza-tools';
+
+runLocalCommand(process.argv.slice(2));
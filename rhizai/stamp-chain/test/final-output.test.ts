@@ -19,10 +19,12 @@ import {
   getEntity,
   log,
 } from '@arke-institute/klados-testing';
+import { loadProfile } from 'arke-profiles';
 
-const ARKE_API_BASE = process.env.ARKE_API_BASE || 'https://arke-v1.arke.institute';
+const PROFILE = loadProfile();
+const ARKE_API_BASE = PROFILE.apiBase;
 const ARKE_USER_KEY = process.env.ARKE_USER_KEY;
-const NETWORK = (process.env.ARKE_NETWORK || 'test') as 'test' | 'main';
+const NETWORK = PROFILE.network;
 
 // From .rhiza-state.json
 const RHIZA_ID = 'IIKGNVQ7595G35N0B1R2HF5PJK';
@@ -0,0 +1,17 @@
+#!/usr/bin/env npx tsx
+/**
+ * Deploy Everything This Test Needs
+ *
+ * Deploys and registers scatter-worker and stamp-worker, then the
+ * stamp-chain sub-rhiza, then sub-rhiza-test, threading each ID into the
+ * workflows after it.
+ *
+ * Usage:
+ *   ARKE_USER_KEY=uk_... npm run deploy-all
+ *   ARKE_USER_KEY=uk_... npm run deploy-all -- --profile staging
+ *   npm run deploy-all -- --dry-run    # Print the plan and the registered IDs
+ */
+
+import { deployAllCommand } from 'arke-cli';
+
+deployAllCommand(['sub-rhiza-test', ...process.argv.slice(2)]);
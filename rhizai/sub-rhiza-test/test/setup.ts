@@ -3,14 +3,16 @@
  */
 
 import { configureTestClient } from '@arke-institute/klados-testing';
+import { loadProfile } from 'arke-profiles';
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-export const ARKE_API_BASE = process.env.ARKE_API_BASE || 'https://arke-v1.arke.institute';
+export const PROFILE = loadProfile();
+export const ARKE_API_BASE = PROFILE.apiBase;
 export const ARKE_USER_KEY = process.env.ARKE_USER_KEY;
-export const ARKE_NETWORK = (process.env.ARKE_NETWORK || 'test') as 'test' | 'main';
+export const ARKE_NETWORK = PROFILE.network;
 
 // Rhiza ID (from registration)
 export const RHIZA_ID = process.env.RHIZA_ID;
@@ -37,6 +37,7 @@ import {
   sleep,
   log,
 } from '@arke-institute/klados-testing';
+import { buildWorkflowTrace, formatTraceText } from 'rhiza-tools';
 import { setupTestClient, hasSubRhizaConfig, RHIZA_ID, STAMP_KLADOS } from './setup.js';
 
 // =============================================================================
@@ -152,11 +153,7 @@ describe('sub-rhiza-test workflow', () => {
 
     // All logs should be in the same job collection (unified observability)
     const allLogs = Array.from(tree.logs.values());
-    log('\nLog summary:');
-    for (const logEntry of allLogs) {
-      const props = logEntry.properties;
-      log(`  ${props.klados_id?.slice(0, 12)}... - status: ${props.status}, rhiza: ${props.rhiza_id?.slice(0, 12)}...`);
-    }
+    log(`\nTrace:\n${formatTraceText(buildWorkflowTrace(tree))}`);
 
     // Count logs by type
     const scatterLogs = allLogs.filter(l =>
@@ -0,0 +1,17 @@
+#!/usr/bin/env npx tsx
+/**
+ * Workflow Validator
+ *
+ * Checks workflow definitions without registering them: structure, dangling
+ * and unreachable steps, cycles, route rules, and cardinality against the
+ * referenced kladoi's agent.json.
+ *
+ * Usage:
+ *   npm run validate                   # Every workflow in workflows/
+ *   npm run validate -- <workflow-name>
+ *   npm run validate -- --all          # Every workflow in the repo
+ */
+
+import { validateCommand } from 'rhiza-tools';
+
+validateCommand(process.argv.slice(2));
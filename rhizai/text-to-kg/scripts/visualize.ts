@@ -0,0 +1,16 @@
+#!/usr/bin/env npx tsx
+/**
+ * Workflow Visualizer
+ *
+ * Prints a workflow as a Mermaid flowchart or Graphviz DOT graph, with
+ * sub-rhizai expanded inline and route conditions on the edges.
+ *
+ * Usage:
+ *   npm run visualize -- <workflow-name>                  # Mermaid to stdout
+ *   npm run visualize -- <workflow-name> --format dot
+ *   npm run visualize -- <workflow-name> --out graph.dot  # Format from extension
+ */
+
+import { visualizeCommand } from 'rhiza-tools';
+
+visualizeCommand(process.argv.slice(2));
@@ -37,6 +37,7 @@ import {
   sleep,
   log,
 } from '@arke-institute/klados-testing';
+import { buildWorkflowTrace, formatTraceText } from 'rhiza-tools';
 import {
   setupTestClient,
   hasTextToKgConfig,
@@ -179,11 +180,7 @@ describe('text-to-kg workflow', () => {
 
     // All logs should be done
     const allLogs = Array.from(tree.logs.values());
-    log('\nLog summary:');
-    for (const logEntry of allLogs) {
-      const props = logEntry.properties;
-      log(`  ${props.klados_id?.slice(0, 12)}... - status: ${props.status}`);
-    }
+    log(`\nTrace:\n${formatTraceText(buildWorkflowTrace(tree))}`);
 
     // Count logs by type
     const chunkerLogs = allLogs.filter(l =>
@@ -0,0 +1,12 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * Entry point of the `arke` command
+ *
+ * Usage:
+ *   npx tsx shared/arke-cli/src/bin.ts status
+ *   npx tsx shared/arke-cli/src/bin.ts klados register stamp-worker --profile staging
+ */
+
+import { runCli } from './cli.js';
+
+runCli(process.argv.slice(2));
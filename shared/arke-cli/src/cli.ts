@@ -0,0 +1,65 @@
+/**
+ * The `arke` command: dispatches subcommands to their implementations
+ */
+
+import { deployAllCommand } from './deploy.js';
+import { kladosRegisterCommand, kladosRotateKeyCommand } from './klados.js';
+import { listKladoiCommand } from './kladoi.js';
+import { rhizaRegisterCommand } from './rhiza.js';
+import { statusCommand } from './status.js';
+
+type Command = (argv: string[], cwd?: string) => Promise<void>;
+
+/** Subcommands, keyed by their words */
+const COMMANDS: Record<string, Command> = {
+  'klados register': kladosRegisterCommand,
+  'klados rotate-key': kladosRotateKeyCommand,
+  'rhiza register': rhizaRegisterCommand,
+  'deploy-all': deployAllCommand,
+  'list-kladoi': listKladoiCommand,
+  status: statusCommand,
+};
+
+export const USAGE = `Usage: arke <command> [options]
+
+Commands:
+  klados register [package] [--dry-run]        Register a worker package (default: the current one)
+  klados rotate-key [package] [--revoke-old]   Rotate a klados API key and redeploy
+  rhiza register <workflow> [--dry-run]        Register a workflow from any rhizai package
+  deploy-all [target...] [--dry-run]           Register kladoi, then workflows in dependency order
+  list-kladoi                                  List the kladoi on the network
+  status                                       Show what is registered in each profile
+
+Every command takes --profile <name> (default: dev).`;
+
+/**
+ * Find the subcommand named by the leading arguments
+ *
+ * @returns The command and the arguments after its words, or undefined
+ */
+export function resolveCommand(argv: string[]): { command: Command; args: string[] } | undefined {
+  for (const length of [2, 1]) {
+    const words = argv.slice(0, length).join(' ');
+    if (Object.hasOwn(COMMANDS, words)) return { command: COMMANDS[words], args: argv.slice(length) };
+  }
+  return undefined;
+}
+
+/**
+ * Run the subcommand named by `argv`, printing usage for unknown ones
+ */
+export async function runCli(argv: string[], cwd: string = process.cwd()): Promise<void> {
+  if (argv.length === 0 || argv.includes('--help') || argv.includes('-h')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const resolved = resolveCommand(argv);
+  if (!resolved) {
+    console.error(`Unknown command: ${argv.filter((arg) => !arg.startsWith('--')).slice(0, 2).join(' ')}\n`);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  await resolved.command(resolved.args, cwd);
+}
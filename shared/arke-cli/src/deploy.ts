@@ -0,0 +1,84 @@
+/**
+ * Deploy-all Command
+ *
+ * Registers kladoi and then workflows in dependency order (see plan.ts).
+ * Each registered ID is handed to the workflows after it under its
+ * reference name, so `$STAMP_KLADOS` resolves to the stamp-worker just
+ * registered in the same profile without exporting anything.
+ */
+
+import { loadProfile, parseProfileArgs, describeProfile } from 'arke-profiles';
+import { findRepoRoot } from 'rhiza-tools';
+import { discoverPackages } from './discover.js';
+import { registerKlados } from './klados.js';
+import { formatPlan, planDeployment } from './plan.js';
+import { printBanner, requireUserKey } from './output.js';
+import { stateReferences } from './references.js';
+import { registerRhiza } from './rhiza.js';
+
+/**
+ * `deploy-all [target...] [--profile <name>] [--dry-run]`
+ *
+ * Deploys and registers every package, or only the named packages and
+ * workflows plus everything they depend on. `--dry-run` prints the plan and
+ * the IDs already registered in the profile without changing anything.
+ */
+export async function deployAllCommand(argv: string[], cwd: string = process.cwd()): Promise<void> {
+  try {
+    const { profile: profileName, args } = parseProfileArgs(argv);
+    const dryRun = args.includes('--dry-run');
+    const targets = args.filter((arg) => !arg.startsWith('--'));
+
+    const layout = discoverPackages(findRepoRoot(cwd));
+    const plan = planDeployment(layout, targets);
+    const profile = loadProfile(profileName, { cwd });
+
+    console.log(`\n🚚 Deploy All (${describeProfile(profile)})${dryRun ? ' [DRY RUN]' : ''}\n`);
+    console.log(formatPlan(plan));
+    console.log('');
+
+    // External references can't be produced here, so check them up front
+    const missing = Object.keys(plan.external).filter((reference) => !process.env[reference]);
+    if (missing.length > 0) {
+      throw new Error(`Set ${missing.join(', ')} in the environment; no package in the repo provides them`);
+    }
+
+    if (dryRun) {
+      // Only the state files: a deploy replaces exported values with what it registers
+      const registered = stateReferences(layout, profile, {});
+      for (const step of plan.steps) {
+        console.log(`  ${step.reference} = ${registered.resolve(step.reference)?.value ?? '(not registered yet)'}`);
+      }
+      console.log('\nRun without --dry-run to deploy.');
+      return;
+    }
+
+    const userKey = requireUserKey();
+    const env: Record<string, string | undefined> = { ...process.env };
+    const ids: string[] = [];
+
+    for (const [i, step] of plan.steps.entries()) {
+      const name = step.kind === 'klados' ? step.pkg.name : step.workflow;
+      console.log(`\n${'-'.repeat(60)}\n[${i + 1}/${plan.steps.length}] ${step.kind} ${name}\n${'-'.repeat(60)}\n`);
+
+      const state =
+        step.kind === 'klados'
+          ? await registerKlados(step.pkg, profile, { userKey })
+          : await registerRhiza(layout, step.pkg, step.workflow, profile, { userKey, env });
+      const id = state && ('klados_id' in state ? state.klados_id : state.rhiza_id);
+      if (!id) {
+        throw new Error(`${name} registered without an ID`);
+      }
+
+      // Registered in this profile just now, so it wins over any exported value
+      env[step.reference] = id;
+      ids.push(`${step.reference}=${id}`);
+    }
+
+    printBanner(`✅ Deployed ${plan.steps.length} package(s)`, ids);
+  } catch (error) {
+    console.error('\n❌ Deploy failed:');
+    console.error(`   ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
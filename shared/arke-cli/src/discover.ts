@@ -0,0 +1,116 @@
+/**
+ * Package Discovery
+ *
+ * The packages the CLI manages are the ones rhiza-tools finds: each worker
+ * directory in `kladoi/` with an `agent.json` is a klados package, each
+ * directory in `rhizai/` with a `workflows/` folder of JSON files is a rhiza
+ * package. Sharing the listing keeps `rhiza register` from resolving a
+ * reference against a package the validator never saw.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { findRepoRoot, listPackageDirs } from 'rhiza-tools';
+
+/**
+ * A worker package, registered as a klados
+ */
+export interface KladosPackage {
+  /** Directory name, e.g. `stamp-worker` */
+  name: string;
+  dir: string;
+
+  /** Worker name from wrangler.jsonc (default: the directory name) */
+  workerName: string;
+}
+
+/**
+ * A workflow package, whose workflows are registered as rhizai
+ */
+export interface RhizaPackage {
+  name: string;
+  dir: string;
+
+  /** Workflow names, e.g. `scatter-test` for `workflows/scatter-test.json` */
+  workflows: string[];
+}
+
+export interface RepoLayout {
+  root: string;
+  kladoi: KladosPackage[];
+  rhizai: RhizaPackage[];
+}
+
+/**
+ * Worker name from a package's wrangler.jsonc
+ */
+export function readWorkerName(dir: string): string {
+  const file = path.join(dir, 'wrangler.jsonc');
+  if (!fs.existsSync(file)) return path.basename(dir);
+  const match = fs.readFileSync(file, 'utf-8').match(/"name":\s*"([^"]+)"/);
+  return match ? match[1] : path.basename(dir);
+}
+
+/**
+ * Find every klados and rhiza package in the repo
+ */
+export function discoverPackages(root: string = findRepoRoot()): RepoLayout {
+  const packages = listPackageDirs(root);
+  return {
+    root,
+    kladoi: packages.kladoi.map(({ name, dir }) => ({ name, dir, workerName: readWorkerName(dir) })),
+    rhizai: packages.rhizai.map(({ name, dir, workflowFiles }) => ({
+      name,
+      dir,
+      workflows: workflowFiles.map((file) => path.basename(file, '.json')),
+    })),
+  };
+}
+
+/**
+ * The klados package named, or the one containing `cwd` when no name is given
+ *
+ * @throws Error naming the available packages when none matches
+ */
+export function resolveKladosPackage(layout: RepoLayout, name: string | undefined, cwd: string = process.cwd()): KladosPackage {
+  const found = name
+    ? layout.kladoi.find((pkg) => pkg.name === name || pkg.workerName === name)
+    : layout.kladoi.find((pkg) => isInside(cwd, pkg.dir));
+  if (!found) {
+    const available = layout.kladoi.map((pkg) => pkg.name).join(', ');
+    throw new Error(
+      name
+        ? `Unknown klados package "${name}" (available: ${available})`
+        : `Not inside a klados package; name one of: ${available}`
+    );
+  }
+  return found;
+}
+
+/**
+ * The package defining a workflow, preferring the one containing `cwd`
+ *
+ * @throws Error when no package, or more than one outside `cwd`, defines it
+ */
+export function resolveWorkflowPackage(layout: RepoLayout, workflow: string, cwd: string = process.cwd()): RhizaPackage {
+  const name = workflow.replace(/\.json$/, '');
+  const candidates = layout.rhizai.filter((pkg) => pkg.workflows.includes(name));
+  const local = candidates.find((pkg) => isInside(cwd, pkg.dir));
+  if (local) return local;
+
+  if (candidates.length === 0) {
+    const available = layout.rhizai.flatMap((pkg) => pkg.workflows).join(', ');
+    throw new Error(`Unknown workflow "${name}" (available: ${available})`);
+  }
+  if (candidates.length > 1) {
+    throw new Error(
+      `Workflow "${name}" is defined in ${candidates.map((pkg) => pkg.name).join(' and ')}; run from the package directory`
+    );
+  }
+  return candidates[0];
+}
+
+function isInside(dir: string, parent: string): boolean {
+  const relative = path.relative(parent, path.resolve(dir));
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
@@ -0,0 +1,132 @@
+/**
+ * Worker Health
+ *
+ * Polls a deployed worker's health endpoint. Registration first waits for
+ * the plain `/health` (a new worker has no key or AGENT_ID yet), then, once
+ * the worker is fully configured, requires `/health?deep=1` to pass so a
+ * missing secret or rejected key fails the command instead of the first job.
+ */
+
+export interface HealthCheckResult {
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * Body of `GET /health?deep=1` (see klados-runtime health.ts)
+ */
+export interface DeepHealthReport {
+  status: string;
+  agent_id?: string;
+  version?: string;
+  build?: { commit?: string; deployed_at?: string };
+
+  /** Absent when the worker predates deep health checks */
+  checks?: Record<string, HealthCheckResult>;
+}
+
+export interface HealthWaitOptions {
+  /** Give up after this long in ms (default: 30000) */
+  maxWaitMs?: number;
+
+  /** Delay between attempts in ms (default: 2000) */
+  intervalMs?: number;
+
+  /** Fetch implementation, injectable for tests (default: globalThis.fetch) */
+  fetch?: typeof fetch;
+}
+
+export interface HealthyOptions extends HealthWaitOptions {
+  /** Klados ID the worker's AGENT_ID must match */
+  agentId?: string;
+}
+
+async function fetchHealth(
+  url: string,
+  doFetch: typeof fetch
+): Promise<{ ok: boolean; report?: DeepHealthReport }> {
+  try {
+    const res = await doFetch(url, { method: 'GET', signal: AbortSignal.timeout(5000) });
+    const report = (await res.json().catch(() => undefined)) as DeepHealthReport | undefined;
+    return { ok: res.ok, report };
+  } catch {
+    // Not deployed yet, keep trying
+    return { ok: false };
+  }
+}
+
+export async function waitForDeployment(endpoint: string, options: HealthWaitOptions = {}): Promise<void> {
+  const startTime = Date.now();
+  const maxWaitMs = options.maxWaitMs ?? 30000;
+
+  console.log(`  Waiting for ${endpoint}/health...`);
+
+  while (Date.now() - startTime < maxWaitMs) {
+    if ((await fetchHealth(`${endpoint}/health`, options.fetch ?? fetch)).ok) {
+      console.log('  Worker is responding');
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, options.intervalMs ?? 2000));
+  }
+
+  console.warn('  Health check timed out, attempting verification anyway...');
+}
+
+/**
+ * Failed checks as lines, e.g. `agent_key: Agent key was rejected by ... (401)`
+ */
+export function formatHealthFailures(report: DeepHealthReport): string[] {
+  return Object.entries(report.checks ?? {})
+    .filter(([, check]) => !check.ok)
+    .map(([name, check]) => `${name}: ${check.message}`);
+}
+
+/**
+ * Wait until a worker's deep health check passes
+ *
+ * Failing reports are retried until the timeout, since the previous
+ * deployment can keep answering for a few seconds after a deploy. With
+ * `agentId`, a report for another AGENT_ID counts as failing too.
+ *
+ * @throws Error listing the failed checks, naming the mismatched AGENT_ID, or
+ *   saying the worker never answered
+ */
+export async function waitForHealthy(endpoint: string, options: HealthyOptions = {}): Promise<DeepHealthReport> {
+  const startTime = Date.now();
+  const maxWaitMs = options.maxWaitMs ?? 30000;
+  let last: DeepHealthReport | undefined;
+  let mismatch: DeepHealthReport | undefined;
+
+  console.log(`  Checking ${endpoint}/health?deep=1...`);
+
+  while (true) {
+    const { ok, report } = await fetchHealth(`${endpoint}/health?deep=1`, options.fetch ?? fetch);
+    if (ok && report && options.agentId !== undefined && report.agent_id !== options.agentId) {
+      mismatch = report;
+    } else if (ok && report) {
+      if (!report.checks) {
+        console.warn('  Worker does not support deep health checks; redeploy it to check its configuration');
+      }
+      return report;
+    }
+    last = report ?? last;
+
+    if (Date.now() - startTime >= maxWaitMs) break;
+    await new Promise((resolve) => setTimeout(resolve, options.intervalMs ?? 2000));
+  }
+
+  if (mismatch) {
+    throw new Error(
+      `Worker at ${endpoint} runs as AGENT_ID ${mismatch.agent_id ?? '(unset)'}, ` +
+        `not the registered klados ${options.agentId}`
+    );
+  }
+  if (last?.checks) {
+    throw new Error(
+      `Worker at ${endpoint} is unhealthy:\n${formatHealthFailures(last)
+        .map((line) => `     ${line}`)
+        .join('\n')}`
+    );
+  }
+  throw new Error(`Worker at ${endpoint} did not answer /health?deep=1 within ${maxWaitMs / 1000}s`);
+}
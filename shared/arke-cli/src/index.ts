@@ -0,0 +1,31 @@
+/**
+ * Registration CLI for the repo's kladoi and rhizai
+ */
+
+export { runCli, resolveCommand, USAGE } from './cli.js';
+export { kladosRegisterCommand, kladosRotateKeyCommand, registerKlados, type RegisterOptions } from './klados.js';
+export { rhizaRegisterCommand, registerRhiza, type RegisterRhizaOptions } from './rhiza.js';
+export {
+  stateReferences,
+  substituteReferences,
+  referenceExpressions,
+  formatSubstitutions,
+  UnresolvedReferenceError,
+  type ReferenceLookup,
+  type ResolvedReference,
+  type Substitution,
+} from './references.js';
+export { deployAllCommand } from './deploy.js';
+export { planDeployment, formatPlan, workflowReferences, type DeployPlan, type DeployStep } from './plan.js';
+export { listKladoiCommand } from './kladoi.js';
+export { statusCommand, collectStatus, formatStatus, type StatusEntry } from './status.js';
+export {
+  discoverPackages,
+  readWorkerName,
+  resolveKladosPackage,
+  resolveWorkflowPackage,
+  type KladosPackage,
+  type RhizaPackage,
+  type RepoLayout,
+} from './discover.js';
+export { CloudflareKeyStore, type CloudflareKeyStoreOptions, type WranglerRunner } from './keystore.js';
@@ -0,0 +1,61 @@
+/**
+ * Cloudflare Key Store
+ *
+ * Where the registration module puts a klados's API key: each key is pushed
+ * to the worker as a secret with `wrangler secret put`. The worker name is
+ * passed explicitly, so a profile's suffixed deployment gets its own secret.
+ */
+
+import { execFileSync } from 'child_process';
+import type { KeyStore } from '@arke-institute/rhiza/registration';
+
+/**
+ * Runs a wrangler command, feeding `input` to its stdin
+ */
+export type WranglerRunner = (args: string[], options: { cwd: string; input: string; env: NodeJS.ProcessEnv }) => void;
+
+export interface CloudflareKeyStoreOptions {
+  /** Worker to set secrets on (default: the name in wrangler.jsonc) */
+  workerName?: string;
+
+  /** Environment for wrangler, e.g. with the profile's CLOUDFLARE_ACCOUNT_ID */
+  env?: NodeJS.ProcessEnv;
+
+  /** Replaces running `npx wrangler`, for tests */
+  run?: WranglerRunner;
+}
+
+const runWrangler: WranglerRunner = (args, { cwd, input, env }) => {
+  execFileSync('npx', ['wrangler', ...args], { cwd, input, env, stdio: ['pipe', 'inherit', 'inherit'] });
+};
+
+export class CloudflareKeyStore implements KeyStore {
+  private readonly run: WranglerRunner;
+
+  constructor(
+    private readonly packageDir: string,
+    private readonly options: CloudflareKeyStoreOptions = {}
+  ) {
+    this.run = options.run ?? runWrangler;
+  }
+
+  async get(): Promise<string | null> {
+    // Worker secrets are write-only
+    return null;
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    this.wrangler('put', name, value);
+  }
+
+  async delete(name: string): Promise<void> {
+    // wrangler asks for confirmation on stdin
+    this.wrangler('delete', name, 'y\n');
+  }
+
+  private wrangler(command: 'put' | 'delete', name: string, input: string): void {
+    const args = ['secret', command, name];
+    if (this.options.workerName) args.push('--name', this.options.workerName);
+    this.run(args, { cwd: this.packageDir, input, env: this.options.env ?? process.env });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Listing the kladoi on the Arke network
+ */
+
+import { configureTestClient, apiRequest } from '@arke-institute/klados-testing';
+import { loadProfile, parseProfileArgs, describeProfile } from 'arke-profiles';
+import { requireUserKey } from './output.js';
+
+interface KladosEntity {
+  id: string;
+  type: string;
+  properties: {
+    label?: string;
+    description?: string;
+    status?: string;
+    endpoint?: string;
+  };
+}
+
+interface SearchResult {
+  entities: Array<{
+    id: string;
+    type: string;
+    label?: string;
+  }>;
+}
+
+/**
+ * `list-kladoi [--profile <name>]`
+ *
+ * Lists the klados entities the user can access, whose IDs can be used in
+ * workflow definitions.
+ */
+export async function listKladoiCommand(argv: string[], cwd: string = process.cwd()): Promise<void> {
+  const userKey = requireUserKey();
+
+  try {
+    const profile = loadProfile(parseProfileArgs(argv).profile, { cwd });
+
+    console.log(`\nListing klados workers on ${describeProfile(profile)}...\n`);
+
+    configureTestClient({
+      apiBase: profile.apiBase,
+      userKey,
+      network: profile.network,
+    });
+
+    const result = await apiRequest<SearchResult>('GET', '/entities?type=klados&limit=50');
+
+    if (!result.entities || result.entities.length === 0) {
+      console.log('No klados workers found.');
+      console.log('\nTo create a klados worker, use the klados-worker-template:');
+      console.log('  git clone https://github.com/Arke-Institute/klados-worker-template');
+      return;
+    }
+
+    console.log('Available klados workers:\n');
+    console.log('ID                              | Label                    | Status');
+    console.log('--------------------------------|--------------------------|--------');
+
+    for (const entity of result.entities) {
+      // Fetch full entity to get properties
+      try {
+        const klados = await apiRequest<KladosEntity>('GET', `/entities/${entity.id}`);
+        const label = klados.properties.label || '(unnamed)';
+        const status = klados.properties.status || 'unknown';
+        console.log(`${entity.id.padEnd(31)} | ${label.slice(0, 24).padEnd(24)} | ${status}`);
+      } catch {
+        console.log(`${entity.id.padEnd(31)} | (unable to fetch)        |`);
+      }
+    }
+
+    console.log('\nUse these IDs in your workflow definitions.');
+    console.log('Set them as environment variables (e.g., STAMP_KLADOS_1=klados_xxx)');
+  } catch (error) {
+    console.error('Failed to list kladoi:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
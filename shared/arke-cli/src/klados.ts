@@ -0,0 +1,304 @@
+/**
+ * Klados Commands
+ *
+ * Registration and key rotation for worker packages, using the
+ * @arke-institute/rhiza registration module:
+ * - Creates new klados with verification and API key
+ * - Updates existing klados, re-verifying if endpoint changes
+ * - Supports dry-run mode to preview changes
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { execSync } from 'child_process';
+import * as path from 'path';
+import { ArkeClient } from '@arke-institute/sdk';
+import {
+  syncKlados,
+  rotateApiKey,
+  listApiKeys,
+  readState,
+  writeState,
+  type KladosConfig,
+  type KladosRegistrationState,
+} from '@arke-institute/rhiza/registration';
+import {
+  loadProfile,
+  parseProfileArgs,
+  profileStateFile,
+  profileEndpoint,
+  profileWorkerName,
+  wranglerDeployCommand,
+  wranglerEnv,
+  describeProfile,
+  type Profile,
+} from 'arke-profiles';
+import { findRepoRoot } from 'rhiza-tools';
+import { discoverPackages, resolveKladosPackage, type KladosPackage } from './discover.js';
+import { waitForDeployment, waitForHealthy, type DeepHealthReport } from './health.js';
+import { CloudflareKeyStore } from './keystore.js';
+import { isDryRunResult, printBanner, printDryRun, requireUserKey } from './output.js';
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function updateWranglerConfig(dir: string, kladosId: string): boolean {
+  try {
+    const wranglerPath = path.join(dir, 'wrangler.jsonc');
+    if (!existsSync(wranglerPath)) return false;
+
+    let content = readFileSync(wranglerPath, 'utf-8');
+    // Replace AGENT_ID placeholder or existing value
+    content = content.replace(/"AGENT_ID":\s*"[^"]*"/, `"AGENT_ID": "${kladosId}"`);
+    writeFileSync(wranglerPath, content);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function buildCommit(dir: string): string | undefined {
+  try {
+    return execSync('git rev-parse --short HEAD', { cwd: dir, encoding: 'utf-8', stdio: 'pipe' }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Deploy a worker, passing the API base and build metadata its deep
+ * health check reports alongside any caller vars
+ */
+function deploy(pkg: KladosPackage, profile: Profile, vars: Record<string, string> = {}): void {
+  const commit = buildCommit(pkg.dir);
+  const deployVars = {
+    ARKE_API_BASE: profile.apiBase,
+    ...(commit ? { BUILD_COMMIT: commit } : {}),
+    BUILD_TIME: new Date().toISOString(),
+    ...vars,
+  };
+  execSync(wranglerDeployCommand(pkg.workerName, profile, deployVars), {
+    cwd: pkg.dir,
+    stdio: 'inherit',
+    env: wranglerEnv(profile),
+  });
+}
+
+/**
+ * Fail unless the deployed worker passes its deep health check as the registered klados
+ */
+async function checkHealth(endpoint: string, kladosId: string): Promise<DeepHealthReport> {
+  console.log('\n🩺 Checking worker health...');
+  const report = await waitForHealthy(endpoint, { agentId: kladosId });
+  console.log(`  Healthy: version ${report.version ?? 'unknown'}, commit ${report.build?.commit ?? 'unknown'}`);
+  return report;
+}
+
+function keyStoreFor(pkg: KladosPackage, profile: Profile): CloudflareKeyStore {
+  return new CloudflareKeyStore(pkg.dir, {
+    workerName: profileWorkerName(pkg.workerName, profile),
+    env: wranglerEnv(profile),
+  });
+}
+
+/**
+ * Package and profile for a klados command, from `[package] [--profile <name>]`
+ */
+function resolveTarget(argv: string[], cwd: string): { pkg: KladosPackage; profile: Profile; args: string[] } {
+  const { profile: profileName, args } = parseProfileArgs(argv);
+  const name = args.find((arg) => !arg.startsWith('--'));
+  const pkg = resolveKladosPackage(discoverPackages(findRepoRoot(cwd)), name, cwd);
+  return { pkg, profile: loadProfile(profileName, { cwd: pkg.dir }), args };
+}
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+export interface RegisterOptions {
+  userKey: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Create or update a worker package's klados in a profile, deploying the worker
+ *
+ * @returns The saved registration state, or undefined for a dry run
+ */
+export async function registerKlados(
+  pkg: KladosPackage,
+  profile: Profile,
+  options: RegisterOptions
+): Promise<KladosRegistrationState | undefined> {
+  const network = profile.network;
+
+  // Load agent config
+  const config: KladosConfig = JSON.parse(readFileSync(path.join(pkg.dir, 'agent.json'), 'utf-8'));
+  config.endpoint = profileEndpoint(config.endpoint, pkg.workerName, profile);
+  console.log(`Agent: ${config.label}`);
+  console.log(`Endpoint: ${config.endpoint}`);
+  console.log('');
+
+  // Load existing state
+  const stateFile = path.join(pkg.dir, profileStateFile('.klados-state', profile));
+  const state = readState<KladosRegistrationState>(stateFile);
+
+  if (state) {
+    console.log(`Found existing klados: ${state.klados_id}`);
+  } else {
+    console.log('Creating new klados...\n');
+  }
+
+  const client = new ArkeClient({ authToken: options.userKey, network, baseUrl: profile.apiBase });
+
+  const result = await syncKlados(client, config, state, {
+    network,
+    keyStore: keyStoreFor(pkg, profile),
+    dryRun: options.dryRun,
+    onDeploy: async () => {
+      console.log('\n🚀 Deploying worker...');
+      deploy(pkg, profile, state ? { AGENT_ID: state.klados_id } : {});
+    },
+    onWaitForHealth: async (endpoint) => {
+      console.log('\n⏳ Waiting for deployment...');
+      await waitForDeployment(endpoint);
+    },
+  });
+
+  if (isDryRunResult(result)) {
+    printDryRun(result);
+    return undefined;
+  }
+
+  const { action, state: newState } = result;
+
+  if (action === 'created') {
+    // Suffixed deployments get AGENT_ID as a deploy var, leaving
+    // wrangler.jsonc to the unsuffixed worker
+    if (!profile.workerSuffix) {
+      console.log('\n📝 Updating wrangler.jsonc...');
+      if (updateWranglerConfig(pkg.dir, newState.klados_id)) {
+        console.log(`  AGENT_ID set to ${newState.klados_id}`);
+      } else {
+        console.warn('  Could not update wrangler.jsonc');
+        console.warn(`  Set AGENT_ID manually: "${newState.klados_id}"`);
+      }
+    }
+
+    // Final deploy with correct AGENT_ID
+    console.log('\n🚀 Final deployment...');
+    deploy(pkg, profile, { AGENT_ID: newState.klados_id });
+  }
+
+  if (action !== 'unchanged') {
+    writeState(stateFile, newState);
+  }
+
+  await checkHealth(newState.endpoint, newState.klados_id);
+
+  printBanner(`✅ Klados ${action}!`, [
+    `ID: ${newState.klados_id}`,
+    `Collection: ${newState.collection_id}`,
+    `Endpoint: ${newState.endpoint}`,
+    ...(newState.api_key_prefix ? [`API Key: ${newState.api_key_prefix}...`] : []),
+  ]);
+  return newState;
+}
+
+/**
+ * `klados register [package] [--profile <name>] [--dry-run]`
+ *
+ * Registers the named worker package, or the one containing the current
+ * directory. Each profile has its own state file, and profiles with a
+ * worker suffix deploy their own copy of the worker.
+ */
+export async function kladosRegisterCommand(argv: string[], cwd: string = process.cwd()): Promise<void> {
+  const userKey = requireUserKey();
+
+  try {
+    const { pkg, profile, args } = resolveTarget(argv, cwd);
+    const dryRun = args.includes('--dry-run');
+
+    console.log(`\n📦 Klados Registration (${describeProfile(profile)})${dryRun ? ' [DRY RUN]' : ''}\n`);
+    await registerKlados(pkg, profile, { userKey, dryRun });
+  } catch (error) {
+    console.error('\n❌ Registration failed:');
+    console.error(`   ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * `klados rotate-key [package] [--profile <name>] [--revoke-old]`
+ *
+ * Creates a new API key, pushes it to the worker, redeploys, and optionally
+ * revokes the old key.
+ */
+export async function kladosRotateKeyCommand(argv: string[], cwd: string = process.cwd()): Promise<void> {
+  const userKey = requireUserKey();
+
+  try {
+    const { pkg, profile, args } = resolveTarget(argv, cwd);
+    const revokeOld = args.includes('--revoke-old');
+
+    console.log(`\n🔑 API Key Rotation (${describeProfile(profile)})\n`);
+
+    const stateFile = path.join(pkg.dir, profileStateFile('.klados-state', profile));
+    const state = readState<KladosRegistrationState>(stateFile);
+
+    if (!state) {
+      throw new Error(`No klados registered for ${pkg.name} in profile ${profile.name}. Run register first.`);
+    }
+
+    console.log(`Klados: ${state.klados_id}`);
+    console.log(`Current key prefix: ${state.api_key_prefix}...`);
+    console.log('');
+
+    const client = new ArkeClient({ authToken: userKey, network: profile.network, baseUrl: profile.apiBase });
+
+    // List current keys
+    const keys = await listApiKeys(client, state.klados_id);
+    console.log(`Found ${keys.length} existing key(s):`);
+    for (const key of keys) {
+      console.log(`  - ${key.prefix}... (${key.label})`);
+    }
+    console.log('');
+
+    // Find current key by prefix
+    const currentKey = keys.find((k) => k.prefix === state.api_key_prefix);
+
+    console.log('Creating new API key...');
+    const result = await rotateApiKey(client, state.klados_id, {
+      label: `Rotated ${new Date().toISOString()}`,
+      revokeOld,
+      oldKeyId: currentKey?.id,
+      keyStore: keyStoreFor(pkg, profile),
+    });
+
+    console.log(`  New key: ${result.new_key.prefix}...`);
+    if (result.revoked_key_id) {
+      console.log(`  Revoked: ${currentKey?.prefix}...`);
+    }
+
+    // Update state with new key prefix
+    state.api_key_prefix = result.new_key.prefix;
+    state.updated_at = new Date().toISOString();
+    writeState(stateFile, state);
+
+    // Redeploy to pick up new secret
+    console.log('\n🚀 Redeploying worker...');
+    deploy(pkg, profile, { AGENT_ID: state.klados_id });
+    await checkHealth(state.endpoint, state.klados_id);
+
+    printBanner('✅ Key rotation complete!', [
+      `New key prefix: ${result.new_key.prefix}...`,
+      result.revoked_key_id
+        ? `Old key revoked: ${result.revoked_key_id}`
+        : 'Old key still active (use --revoke-old to revoke)',
+    ]);
+  } catch (error) {
+    console.error('\n❌ Key rotation failed:');
+    console.error(`   ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
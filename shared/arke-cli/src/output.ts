@@ -0,0 +1,46 @@
+/**
+ * Console output shared by the commands
+ */
+
+import type { DryRunResult, SyncResult } from '@arke-institute/rhiza/registration';
+
+/**
+ * The user key from ARKE_USER_KEY, exiting when it isn't set
+ */
+export function requireUserKey(): string {
+  const userKey = process.env.ARKE_USER_KEY;
+  if (!userKey) {
+    console.error('Error: ARKE_USER_KEY environment variable is required');
+    process.exit(1);
+  }
+  return userKey;
+}
+
+export function isDryRunResult<T>(result: SyncResult<T> | DryRunResult): result is DryRunResult {
+  return (
+    result.action === 'would_create' ||
+    result.action === 'would_update' ||
+    (result.action === 'unchanged' && !('state' in result))
+  );
+}
+
+export function printDryRun(result: DryRunResult): void {
+  console.log(`\n📋 Would: ${result.action}`);
+  if (result.changes && result.changes.length > 0) {
+    console.log('\nChanges:');
+    for (const change of result.changes) {
+      console.log(`  ${change.field}: ${change.from ?? '(none)'} → ${change.to}`);
+    }
+  }
+  console.log('\nRun without --dry-run to apply changes.');
+}
+
+export function printBanner(title: string, lines: string[]): void {
+  console.log(`\n${'='.repeat(60)}`);
+  console.log(title);
+  console.log(`${'='.repeat(60)}`);
+  for (const line of lines) {
+    console.log(`   ${line}`);
+  }
+  console.log(`${'='.repeat(60)}\n`);
+}
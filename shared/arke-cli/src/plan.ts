@@ -0,0 +1,201 @@
+/**
+ * Deployment Planning
+ *
+ * Orders the repo's packages so everything a workflow references is
+ * registered before it. Dependencies come from the `$VAR` references in
+ * workflow files, matched to packages by the rhiza-tools naming convention:
+ * `$STAMP_KLADOS` is `kladoi/stamp-worker`, `$STAMP_CHAIN_RHIZA` is the
+ * `stamp-chain` workflow. References matching no package are external and
+ * must be set in the environment, unless every use has a default.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { kladosReferenceName, rhizaReferenceName } from 'rhiza-tools';
+import type { KladosPackage, RepoLayout, RhizaPackage } from './discover.js';
+import { referenceExpressions } from './references.js';
+
+export type DeployStep =
+  | { kind: 'klados'; reference: string; pkg: KladosPackage }
+  | {
+      kind: 'rhiza';
+      reference: string;
+      pkg: RhizaPackage;
+      workflow: string;
+
+      /** In-repo references this workflow needs, in the order they appear */
+      dependsOn: string[];
+
+      /** References no package provides and with no default */
+      external: string[];
+    };
+
+export interface DeployPlan {
+  /** Kladoi first, then workflows in dependency order */
+  steps: DeployStep[];
+
+  /** References no package provides and with no default, with the workflows that use them */
+  external: Record<string, string[]>;
+}
+
+/**
+ * Every reference in a workflow definition, in the order they appear, and
+ * whether any use of it has no default
+ */
+function collectReferences(definition: unknown): Map<string, boolean> {
+  const found = new Map<string, boolean>();
+
+  const add = (text: string) => {
+    for (const { name, fallback } of referenceExpressions(text)) {
+      found.set(name, (found.get(name) ?? false) || fallback === undefined);
+    }
+  };
+
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      add(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        if (key === 'where') continue;
+        add(key);
+        visit(child);
+      }
+    }
+  };
+
+  visit(definition);
+  return found;
+}
+
+/**
+ * Every `$VAR` and `${VAR}` reference in a workflow definition, in the order they appear
+ *
+ * Route conditions are skipped: `$...` there is a literal compared against
+ * output data, not a reference.
+ */
+export function workflowReferences(definition: unknown): string[] {
+  return [...collectReferences(definition).keys()];
+}
+
+/**
+ * Order the packages for deployment
+ *
+ * @param targets - Package or workflow names to deploy, with everything they
+ *   depend on (default: every package)
+ * @throws Error for unknown targets or workflows referencing each other in a cycle
+ */
+export function planDeployment(layout: RepoLayout, targets: string[] = []): DeployPlan {
+  const kladoi = new Map(layout.kladoi.map((pkg) => [kladosReferenceName(pkg.name), pkg]));
+  const workflows = new Map<
+    string,
+    { pkg: RhizaPackage; workflow: string; references: string[]; required: Set<string> }
+  >();
+
+  for (const pkg of layout.rhizai) {
+    for (const workflow of pkg.workflows) {
+      const reference = rhizaReferenceName(workflow);
+      if (workflows.has(reference)) {
+        throw new Error(
+          `Workflow "${workflow}" is defined in ${workflows.get(reference)!.pkg.name} and ${pkg.name}; rename one to deploy both`
+        );
+      }
+      const definition = JSON.parse(fs.readFileSync(path.join(pkg.dir, 'workflows', `${workflow}.json`), 'utf-8'));
+      const references = collectReferences(definition);
+      workflows.set(reference, {
+        pkg,
+        workflow,
+        references: [...references.keys()],
+        required: new Set([...references].filter(([, required]) => required).map(([name]) => name)),
+      });
+    }
+  }
+
+  // Resolve targets to references
+  let selected: string[];
+  if (targets.length === 0) {
+    selected = [...kladoi.keys(), ...workflows.keys()];
+  } else {
+    selected = targets.map((target) => {
+      const name = target.replace(/\.json$/, '');
+      const match =
+        [...kladoi].find(([, pkg]) => pkg.name === name || pkg.workerName === name) ??
+        [...workflows].find(([, entry]) => entry.workflow === name);
+      if (!match) {
+        throw new Error(`Unknown package or workflow "${target}"`);
+      }
+      return match[0];
+    });
+  }
+
+  // Depth-first walk: dependencies are emitted before their dependents
+  const ordered: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const external: Record<string, string[]> = {};
+
+  const visit = (reference: string, trail: string[]) => {
+    if (state.get(reference) === 'done') return;
+    if (state.get(reference) === 'visiting') {
+      const cycle = [...trail.slice(trail.indexOf(reference)), reference];
+      throw new Error(`Workflows reference each other in a cycle: ${cycle.join(' → ')}`);
+    }
+
+    state.set(reference, 'visiting');
+    const entry = workflows.get(reference);
+    for (const dependency of entry?.references ?? []) {
+      if (kladoi.has(dependency) || workflows.has(dependency)) {
+        visit(dependency, [...trail, reference]);
+      } else if (entry!.required.has(dependency)) {
+        (external[dependency] ??= []).push(entry!.workflow);
+      }
+    }
+    state.set(reference, 'done');
+    ordered.push(reference);
+  };
+
+  for (const reference of selected) {
+    visit(reference, []);
+  }
+
+  // Kladoi have no dependencies, so they all go first
+  const steps: DeployStep[] = [];
+  for (const reference of ordered) {
+    const pkg = kladoi.get(reference);
+    if (pkg) steps.push({ kind: 'klados', reference, pkg });
+  }
+  for (const reference of ordered) {
+    const entry = workflows.get(reference);
+    if (!entry) continue;
+    steps.push({
+      kind: 'rhiza',
+      reference,
+      pkg: entry.pkg,
+      workflow: entry.workflow,
+      dependsOn: entry.references.filter((r) => kladoi.has(r) || workflows.has(r)),
+      external: entry.references.filter((r) => entry.required.has(r) && !kladoi.has(r) && !workflows.has(r)),
+    });
+  }
+
+  return { steps, external };
+}
+
+/**
+ * The plan as numbered lines, e.g. `3. rhiza  sub-rhiza-test  (needs SCATTER_KLADOS, STAMP_CHAIN_RHIZA)`
+ */
+export function formatPlan(plan: DeployPlan): string {
+  const lines = plan.steps.map((step, i) => {
+    const name = step.kind === 'klados' ? step.pkg.name : `${step.pkg.name}/${step.workflow}`;
+    const needs = step.kind === 'rhiza' ? [...step.dependsOn, ...step.external] : [];
+    return `${i + 1}. ${step.kind.padEnd(6)} ${name}${needs.length > 0 ? `  (needs ${needs.join(', ')})` : ''}`;
+  });
+
+  const external = Object.entries(plan.external);
+  if (external.length > 0) {
+    lines.push('', 'From the environment:');
+    for (const [reference, users] of external) {
+      lines.push(`   ${reference}  (used by ${users.join(', ')})`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,252 @@
+/**
+ * Workflow References
+ *
+ * Resolves the references in workflow definitions. A reference named for
+ * an in-repo package (see plan.ts) resolves to the ID in that package's
+ * state file for the profile; a value set in the environment overrides it.
+ *
+ *   $STAMP_KLADOS       → kladoi/stamp-worker/.klados-state.json
+ *   $STAMP_CHAIN_RHIZA  → rhizai/stamp-chain/.rhiza-state-stamp-chain.json
+ *
+ * A whole-string `$VAR` is replaced by the ID as is. Inside longer strings,
+ * `${VAR}` is interpolated and `${VAR:-default}` falls back to the default
+ * when the reference doesn't resolve. A string that is a single `${VAR}`
+ * takes the value's JSON type, so `"${MAX_ITEMS:-10}"` becomes the number 10
+ * and `"${VERBOSE:-false}"` the boolean false.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { profileStateFile, type Profile } from 'arke-profiles';
+import { kladosReferenceName, rhizaReferenceName } from 'rhiza-tools';
+import type { RepoLayout } from './discover.js';
+
+export interface ResolvedReference {
+  name: string;
+  value: string;
+
+  /** `environment`, or the state file the value came from, relative to the repo root */
+  source: string;
+}
+
+/**
+ * One reference replaced in a workflow definition
+ */
+export interface Substitution {
+  /** Where in the definition, e.g. `flow.stamp.klados.id` */
+  path: string;
+
+  /** The reference as written: `$VAR`, `${VAR}` or `${VAR:-default}` */
+  expression: string;
+
+  /** What replaced it, after coercion for a whole-string `${VAR}` */
+  value: unknown;
+
+  /** As for ResolvedReference, or `default` when the fallback was used */
+  source: string;
+}
+
+export interface ReferenceLookup {
+  resolve(name: string): ResolvedReference | undefined;
+
+  /** Where `resolve` looked for a reference, for error messages */
+  lookedIn(name: string): string[];
+}
+
+/**
+ * Thrown when workflow references can't be resolved; lists every one at once
+ */
+export class UnresolvedReferenceError extends Error {
+  constructor(public readonly missing: Array<{ name: string; lookedIn: string[] }>) {
+    super(
+      `Could not resolve ${missing.length === 1 ? 'a workflow reference' : `${missing.length} workflow references`}:\n` +
+        missing.map(({ name, lookedIn }) => `  $${name} - looked in: ${lookedIn.join('; ')}`).join('\n')
+    );
+    this.name = 'UnresolvedReferenceError';
+  }
+}
+
+/** A whole string naming one reference */
+const WHOLE_REFERENCE = /^\$([A-Za-z_][A-Za-z0-9_]*)$/;
+
+/** `${VAR}` or `${VAR:-default}` anywhere in a string */
+const EMBEDDED_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * The references in a string, in order
+ *
+ * `fallback` is set for `${VAR:-default}`, including an empty default.
+ */
+export function referenceExpressions(text: string): Array<{ expression: string; name: string; fallback?: string }> {
+  const whole = WHOLE_REFERENCE.exec(text);
+  if (whole) {
+    return [{ expression: text, name: whole[1] }];
+  }
+  return [...text.matchAll(EMBEDDED_REFERENCE)].map(([expression, name, fallback]) => ({ expression, name, fallback }));
+}
+
+/**
+ * A value as a boolean or number, when it reads back unchanged; `0123` or a
+ * 20-digit ID stays a string rather than losing digits
+ */
+function coerce(value: string): unknown {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (String(Number(value)) === value) return Number(value);
+  return value;
+}
+
+function readId(file: string): string | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  try {
+    const state = JSON.parse(fs.readFileSync(file, 'utf-8')) as { klados_id?: string; rhiza_id?: string };
+    return state.klados_id ?? state.rhiza_id;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Look references up in the environment, then in the profile's state files
+ */
+export function stateReferences(
+  layout: RepoLayout,
+  profile: Profile,
+  env: Record<string, string | undefined> = process.env
+): ReferenceLookup {
+  const stateFiles = new Map<string, string>();
+  for (const pkg of layout.kladoi) {
+    stateFiles.set(kladosReferenceName(pkg.name), path.join(pkg.dir, profileStateFile('.klados-state', profile)));
+  }
+  for (const pkg of layout.rhizai) {
+    for (const workflow of pkg.workflows) {
+      stateFiles.set(
+        rhizaReferenceName(workflow),
+        path.join(pkg.dir, profileStateFile(`.rhiza-state-${workflow}`, profile))
+      );
+    }
+  }
+  const relative = (file: string) => path.relative(layout.root, file);
+
+  return {
+    resolve(name) {
+      if (env[name]) {
+        return { name, value: env[name]!, source: 'environment' };
+      }
+      const file = stateFiles.get(name);
+      const value = file && readId(file);
+      return value ? { name, value, source: relative(file!) } : undefined;
+    },
+
+    lookedIn(name) {
+      const file = stateFiles.get(name);
+      return [
+        'environment (not set)',
+        file
+          ? `${relative(file)} (${fs.existsSync(file) ? 'no ID recorded' : 'not registered in this profile'})`
+          : 'state files (no klados package or workflow is named for it)',
+      ];
+    },
+  };
+}
+
+/**
+ * Recursively substitute references in a workflow definition
+ *
+ * References without a default must resolve. Keys are interpolated too,
+ * except that a whole-key `$VAR` that doesn't resolve is kept as is. Route
+ * conditions compare output data, so `$...` there is a literal value.
+ *
+ * @returns The substituted definition, every reference resolved and every
+ *   substitution made, in order
+ * @throws UnresolvedReferenceError listing every reference that didn't resolve
+ */
+export function substituteReferences(
+  definition: unknown,
+  lookup: ReferenceLookup
+): { value: unknown; resolved: ResolvedReference[]; substitutions: Substitution[] } {
+  const resolved = new Map<string, ResolvedReference>();
+  const substitutions: Substitution[] = [];
+  const missing = new Set<string>();
+
+  const substituteString = (text: string, at: string, isKey: boolean): unknown => {
+    const expressions = referenceExpressions(text);
+    if (expressions.length === 0) return text;
+    const whole = expressions.length === 1 && expressions[0].expression === text;
+
+    const values: string[] = [];
+    const made: Substitution[] = [];
+    let complete = true;
+    for (const { expression, name, fallback } of expressions) {
+      const reference = lookup.resolve(name);
+      if (reference) {
+        resolved.set(name, reference);
+        made.push({ path: at, expression, value: reference.value, source: reference.source });
+        values.push(reference.value);
+      } else if (fallback !== undefined) {
+        made.push({ path: at, expression, value: fallback, source: 'default' });
+        values.push(fallback);
+      } else if (isKey && whole && !expression.startsWith('${')) {
+        return text;
+      } else {
+        missing.add(name);
+        complete = false;
+      }
+    }
+    if (!complete) return text;
+
+    let result: unknown;
+    if (!whole) {
+      let i = 0;
+      result = text.replace(EMBEDDED_REFERENCE, () => values[i++]);
+    } else {
+      // `$VAR` is an ID; only `${VAR}` takes the value's type
+      result = isKey || !text.startsWith('${') ? values[0] : coerce(values[0]);
+      made[0].value = result;
+    }
+    substitutions.push(...made);
+    return result;
+  };
+
+  const substitute = (obj: unknown, at: string): unknown => {
+    if (typeof obj === 'string') {
+      return substituteString(obj, at, false);
+    }
+
+    if (Array.isArray(obj)) {
+      return obj.map((item, i) => substitute(item, `${at}[${i}]`));
+    }
+
+    if (obj && typeof obj === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(obj)) {
+        if (key === 'where') {
+          result[key] = value;
+          continue;
+        }
+        const child = at ? `${at}.${key}` : key;
+        result[substituteString(key, child, true) as string] = substitute(value, child);
+      }
+      return result;
+    }
+
+    return obj;
+  };
+
+  const value = substitute(definition, '');
+  if (missing.size > 0) {
+    throw new UnresolvedReferenceError([...missing].map((name) => ({ name, lookedIn: lookup.lookedIn(name) })));
+  }
+  return { value, resolved: [...resolved.values()], substitutions };
+}
+
+/**
+ * Substitutions as indented, aligned lines, e.g.
+ * `  flow.stamp.klados.id  $STAMP_KLADOS → "IIKG..."  (kladoi/stamp-worker/.klados-state.json)`
+ */
+export function formatSubstitutions(substitutions: Substitution[]): string {
+  const width = Math.max(0, ...substitutions.map((s) => s.path.length));
+  return substitutions
+    .map((s) => `  ${s.path.padEnd(width)}  ${s.expression} → ${JSON.stringify(s.value)}  (${s.source})`)
+    .join('\n');
+}
@@ -0,0 +1,178 @@
+/**
+ * Rhiza Commands
+ *
+ * Registration for workflow definitions, using the @arke-institute/rhiza
+ * registration module:
+ * - Creates new rhiza workflows
+ * - Updates existing rhiza workflows if version/flow changes
+ * - Validates workflow definitions before registering them
+ * - Resolves `$VAR` references from the environment and the repo's state files
+ * - Supports dry-run mode to preview changes
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArkeClient } from '@arke-institute/sdk';
+import {
+  syncRhiza,
+  readState,
+  writeState,
+  type RhizaConfig,
+  type RhizaRegistrationState,
+} from '@arke-institute/rhiza/registration';
+import {
+  describeCondition,
+  discoverRepo,
+  findRepoRoot,
+  formatIssue,
+  repoValidationContext,
+  validateWorkflow,
+  type RhizaWorkflow,
+} from 'rhiza-tools';
+import { loadProfile, parseProfileArgs, profileStateFile, describeProfile, type Profile } from 'arke-profiles';
+import { discoverPackages, resolveWorkflowPackage, type RepoLayout, type RhizaPackage } from './discover.js';
+import { isDryRunResult, printBanner, printDryRun, requireUserKey } from './output.js';
+import { formatSubstitutions, stateReferences, substituteReferences } from './references.js';
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+export interface RegisterRhizaOptions {
+  userKey: string;
+  dryRun?: boolean;
+
+  /** Overrides for the workflow's `$VAR` references (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Validate a workflow, substitute its references and create or update its rhiza in a profile
+ *
+ * @returns The saved registration state, or undefined for a dry run
+ * @throws UnresolvedReferenceError when a reference is neither set nor registered
+ * @throws Error when the workflow is invalid
+ */
+export async function registerRhiza(
+  layout: RepoLayout,
+  pkg: RhizaPackage,
+  workflowName: string,
+  profile: Profile,
+  options: RegisterRhizaOptions
+): Promise<RhizaRegistrationState | undefined> {
+  const network = profile.network;
+  const workflowFile = path.join(pkg.dir, 'workflows', `${workflowName}.json`);
+  console.log(`Workflow: ${workflowName} (${path.relative(layout.root, pkg.dir)})`);
+
+  const rawWorkflow = JSON.parse(fs.readFileSync(workflowFile, 'utf-8')) as RhizaWorkflow;
+
+  // Catch dangling steps, cycles and cardinality mismatches before registering
+  const errors = validateWorkflow(rawWorkflow, repoValidationContext(discoverRepo(layout.root))).filter(
+    (issue) => issue.severity === 'error'
+  );
+  if (errors.length > 0) {
+    throw new Error(
+      `Workflow definition is invalid:\n${errors.map((issue) => `     ${formatIssue(issue)}`).join('\n')}\n   Run: npm run validate`
+    );
+  }
+
+  const { value, resolved, substitutions } = substituteReferences(
+    rawWorkflow,
+    stateReferences(layout, profile, options.env)
+  );
+  const config = value as RhizaConfig;
+
+  console.log(`Label: ${config.label}`);
+  console.log(`Version: ${config.version}`);
+  console.log(`Entry: ${config.entry}`);
+  if (options.dryRun && substitutions.length > 0) {
+    console.log('Substitutions:');
+    console.log(formatSubstitutions(substitutions));
+  } else if (resolved.length > 0) {
+    console.log('References:');
+    for (const reference of resolved) {
+      console.log(`  $${reference.name} = ${reference.value} (${reference.source})`);
+    }
+  }
+  console.log(`Steps: ${Object.keys(config.flow).length}`);
+  for (const [stepName, step] of Object.entries(config.flow)) {
+    console.log(`  - ${stepName}: ${step.klados.id}`);
+    for (const rule of rawWorkflow.flow[stepName].then.route ?? []) {
+      console.log(`      ${rule.where ? describeCondition(rule.where) : 'otherwise'} → ${rule.target}`);
+    }
+  }
+  console.log('');
+
+  // Load existing state (per-workflow state file)
+  const stateFile = path.join(pkg.dir, profileStateFile(`.rhiza-state-${workflowName}`, profile));
+  const state = readState<RhizaRegistrationState>(stateFile);
+
+  if (state) {
+    console.log(`Found existing rhiza: ${state.rhiza_id}`);
+  } else {
+    console.log('Creating new rhiza...\n');
+  }
+
+  const client = new ArkeClient({ authToken: options.userKey, network, baseUrl: profile.apiBase });
+
+  const result = await syncRhiza(client, config, state, {
+    network,
+    dryRun: options.dryRun,
+    collectionLabel: `Rhiza: ${config.label}`,
+  });
+
+  if (isDryRunResult(result)) {
+    printDryRun(result);
+    return undefined;
+  }
+
+  const { action, state: newState } = result;
+
+  if (action !== 'unchanged') {
+    writeState(stateFile, newState);
+  }
+
+  printBanner(`✅ Rhiza ${action}!`, [
+    `ID: ${newState.rhiza_id}`,
+    `Collection: ${newState.collection_id}`,
+    `Version: ${newState.version}`,
+  ]);
+
+  if (action === 'created') {
+    console.log(`To run tests, set RHIZA_ID=${newState.rhiza_id} and run: npm test`);
+  }
+  return newState;
+}
+
+/**
+ * `rhiza register <workflow> [--profile <name>] [--dry-run]`
+ *
+ * Registers a workflow from any rhizai package; the package containing the
+ * current directory wins when several define the same workflow name.
+ */
+export async function rhizaRegisterCommand(argv: string[], cwd: string = process.cwd()): Promise<void> {
+  const userKey = requireUserKey();
+
+  const { profile: profileName, args } = parseProfileArgs(argv);
+  const workflowArg = args[0];
+  if (!workflowArg || workflowArg.startsWith('--')) {
+    console.error('Usage: npm run register -- <workflow-name> [--profile <name>] [--dry-run]');
+    console.error('Example: npm run register -- scatter-test');
+    process.exit(1);
+  }
+
+  try {
+    const layout = discoverPackages(findRepoRoot(cwd));
+    const pkg = resolveWorkflowPackage(layout, workflowArg, cwd);
+    const workflowName = workflowArg.replace(/\.json$/, '');
+    const profile = loadProfile(profileName, { cwd: pkg.dir });
+    const dryRun = args.includes('--dry-run');
+
+    console.log(`\n📦 Rhiza Registration (${describeProfile(profile)})${dryRun ? ' [DRY RUN]' : ''}\n`);
+    await registerRhiza(layout, pkg, workflowName, profile, { userKey, dryRun });
+  } catch (error) {
+    console.error('\n❌ Registration failed:');
+    console.error(`   ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
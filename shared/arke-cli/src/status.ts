@@ -0,0 +1,135 @@
+/**
+ * Registration Status
+ *
+ * Reads the per-profile state files of every discovered package, so one
+ * command shows what is registered where without calling the API.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { listProfiles, loadProfile, parseProfileArgs, profileStateFile, type Profile } from 'arke-profiles';
+import { findRepoRoot } from 'rhiza-tools';
+import { discoverPackages, type RepoLayout } from './discover.js';
+
+export interface StatusEntry {
+  kind: 'klados' | 'rhiza';
+
+  /** Package directory name */
+  package: string;
+
+  /** Package name for kladoi, workflow name for rhizai */
+  name: string;
+  profile: string;
+
+  /** Registered entity ID; omitted when not registered in this profile */
+  id?: string;
+  endpoint?: string;
+  version?: string;
+  apiKeyPrefix?: string;
+}
+
+interface StateFile {
+  klados_id?: string;
+  rhiza_id?: string;
+  endpoint?: string;
+  version?: string;
+  api_key_prefix?: string;
+}
+
+function readStateFile(file: string): StateFile | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as StateFile;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Registration of every package in every given profile
+ */
+export function collectStatus(layout: RepoLayout, profiles: Profile[]): StatusEntry[] {
+  const entries: StatusEntry[] = [];
+
+  for (const pkg of layout.kladoi) {
+    for (const profile of profiles) {
+      const state = readStateFile(path.join(pkg.dir, profileStateFile('.klados-state', profile)));
+      entries.push({
+        kind: 'klados',
+        package: pkg.name,
+        name: pkg.name,
+        profile: profile.name,
+        ...(state?.klados_id && {
+          id: state.klados_id,
+          endpoint: state.endpoint,
+          apiKeyPrefix: state.api_key_prefix,
+        }),
+      });
+    }
+  }
+
+  for (const pkg of layout.rhizai) {
+    for (const workflow of pkg.workflows) {
+      for (const profile of profiles) {
+        const state = readStateFile(path.join(pkg.dir, profileStateFile(`.rhiza-state-${workflow}`, profile)));
+        entries.push({
+          kind: 'rhiza',
+          package: pkg.name,
+          name: workflow,
+          profile: profile.name,
+          ...(state?.rhiza_id && { id: state.rhiza_id, version: state.version }),
+        });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Status as an aligned text table, grouped by kind
+ */
+export function formatStatus(entries: StatusEntry[]): string {
+  const rows = (kind: StatusEntry['kind']) =>
+    entries
+      .filter((entry) => entry.kind === kind)
+      .map((entry) => {
+        const name = entry.kind === 'rhiza' ? `${entry.package}/${entry.name}` : entry.name;
+        if (!entry.id) return [name, entry.profile, '-', 'not registered'];
+        const details =
+          entry.kind === 'klados'
+            ? [entry.endpoint, entry.apiKeyPrefix && `key ${entry.apiKeyPrefix}...`]
+            : [entry.version && `v${entry.version}`];
+        return [name, entry.profile, entry.id, details.filter(Boolean).join('  ')];
+      });
+
+  const kladoi = rows('klados');
+  const rhizai = rows('rhiza');
+  const widths = [0, 1, 2].map((i) => Math.max(0, ...[...kladoi, ...rhizai].map((row) => row[i].length)));
+  const format = (row: string[]) =>
+    `  ${row.map((cell, i) => (i < 3 ? cell.padEnd(widths[i]) : cell)).join('  ')}`.trimEnd();
+
+  const lines: string[] = [];
+  if (kladoi.length > 0) lines.push('Kladoi', ...kladoi.map(format), '');
+  if (rhizai.length > 0) lines.push('Rhizai', ...rhizai.map(format), '');
+  return lines.join('\n');
+}
+
+/**
+ * `status [--profile <name>]`
+ *
+ * Shows each klados and workflow's registration in every profile, or only
+ * the selected one.
+ */
+export async function statusCommand(argv: string[], cwd: string = process.cwd()): Promise<void> {
+  try {
+    const { profile } = parseProfileArgs(argv);
+    const layout = discoverPackages(findRepoRoot(cwd));
+    const names = profile ? [profile] : listProfiles({ cwd });
+    const profiles = names.map((name) => loadProfile(name, { cwd }));
+    process.stdout.write(formatStatus(collectStatus(layout, profiles)));
+  } catch (error) {
+    console.error(`\nError: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Tests for package discovery
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, describe, it, expect } from 'vitest';
+import { discoverPackages, resolveKladosPackage, resolveWorkflowPackage } from '../src/discover';
+
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../..');
+
+const dirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * A temporary repo with the given files, keyed by path
+ */
+function tempRepo(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'arke-cli-'));
+  dirs.push(root);
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  }
+  return root;
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('discoverPackages', () => {
+  it('should find the repo packages by agent.json and workflows/', () => {
+    const layout = discoverPackages(REPO_ROOT);
+
+    expect(layout.kladoi.map((pkg) => pkg.name)).toEqual(['gather-worker', 'scatter-worker', 'stamp-worker']);
+    expect(layout.kladoi.find((pkg) => pkg.name === 'stamp-worker')).toMatchObject({
+      dir: path.join(REPO_ROOT, 'kladoi', 'stamp-worker'),
+      workerName: 'stamp-worker',
+    });
+
+    expect(layout.rhizai.map((pkg) => pkg.name)).toEqual(['scatter-test', 'stamp-chain', 'sub-rhiza-test', 'text-to-kg']);
+    expect(layout.rhizai.find((pkg) => pkg.name === 'stamp-chain')!.workflows).toEqual(['stamp-chain']);
+  });
+
+  it('should only look in kladoi/ and rhizai/', () => {
+    const root = tempRepo({
+      'kladoi/ocr/agent.json': '{}',
+      'kladoi/ocr/wrangler.jsonc': '{\n  // Worker\n  "name": "ocr-worker"\n}',
+      'kladoi/draft/src/index.ts': '',
+      'rhizai/ingest/workflows/ingest.json': '{}',
+      'rhizai/ingest/workflows/notes.txt': '',
+      'examples/other/agent.json': '{}',
+      'pipelines/other/workflows/other.json': '{}',
+    });
+
+    const layout = discoverPackages(root);
+
+    expect(layout.kladoi).toEqual([{ name: 'ocr', dir: path.join(root, 'kladoi/ocr'), workerName: 'ocr-worker' }]);
+    expect(layout.rhizai).toEqual([{ name: 'ingest', dir: path.join(root, 'rhizai/ingest'), workflows: ['ingest'] }]);
+  });
+});
+
+describe('resolving packages', () => {
+  const layout = discoverPackages(REPO_ROOT);
+
+  it('should resolve a klados package by name or by the current directory', () => {
+    expect(resolveKladosPackage(layout, 'scatter-worker').name).toBe('scatter-worker');
+    expect(resolveKladosPackage(layout, undefined, path.join(REPO_ROOT, 'kladoi/gather-worker/scripts')).name).toBe(
+      'gather-worker'
+    );
+    expect(() => resolveKladosPackage(layout, 'nope')).toThrow(
+      'Unknown klados package "nope" (available: gather-worker, scatter-worker, stamp-worker)'
+    );
+    expect(() => resolveKladosPackage(layout, undefined, REPO_ROOT)).toThrow('Not inside a klados package');
+  });
+
+  it('should resolve a workflow to the package defining it', () => {
+    expect(resolveWorkflowPackage(layout, 'stamp-chain.json', REPO_ROOT).name).toBe('stamp-chain');
+    expect(() => resolveWorkflowPackage(layout, 'missing', REPO_ROOT)).toThrow('Unknown workflow "missing"');
+  });
+
+  it('should prefer the current package when several define a workflow', () => {
+    const root = tempRepo({
+      'kladoi/.keep': '',
+      'rhizai/a/workflows/shared.json': '{}',
+      'rhizai/b/workflows/shared.json': '{}',
+    });
+    const tempLayout = discoverPackages(root);
+
+    expect(resolveWorkflowPackage(tempLayout, 'shared', path.join(root, 'rhizai/b')).name).toBe('b');
+    expect(() => resolveWorkflowPackage(tempLayout, 'shared', root)).toThrow(
+      'Workflow "shared" is defined in a and b; run from the package directory'
+    );
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for waiting on a worker's deep health check
+ *
+ * The worker is a stub fetch answering with a queue of reports, so the
+ * polling and failure messages are checked without a deployment.
+ */
+
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import { waitForHealthy, type DeepHealthReport } from '../src/health';
+
+const healthy: DeepHealthReport = {
+  status: 'ok',
+  agent_id: 'K1',
+  version: '1.2.0',
+  build: { commit: 'abc1234' },
+  checks: {
+    secrets: { ok: true, message: 'All required secrets are set' },
+    agent_key: { ok: true, message: 'Agent key authenticates' },
+  },
+};
+
+const failing: DeepHealthReport = {
+  ...healthy,
+  status: 'failing',
+  checks: {
+    secrets: { ok: false, message: 'Missing ARKE_AGENT_KEY' },
+    agent_key: { ok: true, message: 'Agent key authenticates' },
+  },
+};
+
+/**
+ * A fetch answering with each report in turn, then repeating the last
+ */
+function stubWorker(...reports: DeepHealthReport[]) {
+  const urls: string[] = [];
+  const fetch = (async (input: string | URL | Request) => {
+    urls.push(String(input));
+    const report = reports[Math.min(urls.length, reports.length) - 1];
+    return Response.json(report, { status: report.status === 'ok' ? 200 : 503 });
+  }) as typeof globalThis.fetch;
+  return { fetch, urls };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('waitForHealthy', () => {
+  it('should return the report once the deep check passes', async () => {
+    const { fetch, urls } = stubWorker(failing, healthy);
+    const report = await waitForHealthy('https://w.example', { fetch, intervalMs: 0 });
+
+    expect(report).toEqual(healthy);
+    expect(urls).toEqual(['https://w.example/health?deep=1', 'https://w.example/health?deep=1']);
+  });
+
+  it('should list the failing checks when the worker stays unhealthy', async () => {
+    const { fetch } = stubWorker(failing);
+
+    await expect(waitForHealthy('https://w.example', { fetch, intervalMs: 0, maxWaitMs: 10 })).rejects.toThrow(
+      'Worker at https://w.example is unhealthy:\n     secrets: Missing ARKE_AGENT_KEY'
+    );
+  });
+
+  it('should fail when the worker runs as another klados', async () => {
+    const { fetch, urls } = stubWorker({ ...healthy, agent_id: 'K_OLD' });
+
+    await expect(
+      waitForHealthy('https://w.example', { fetch, agentId: 'K1', intervalMs: 0, maxWaitMs: 10 })
+    ).rejects.toThrow('Worker at https://w.example runs as AGENT_ID K_OLD, not the registered klados K1');
+    expect(urls.length).toBeGreaterThan(0);
+  });
+
+  it('should wait for the deployment running the registered klados', async () => {
+    const { fetch } = stubWorker({ ...healthy, agent_id: 'K_OLD' }, healthy);
+
+    await expect(waitForHealthy('https://w.example', { fetch, agentId: 'K1', intervalMs: 0 })).resolves.toEqual(
+      healthy
+    );
+  });
+
+  it('should accept workers that predate deep health checks', async () => {
+    const { fetch } = stubWorker({ status: 'ok', agent_id: 'K1', version: '1.0.0' });
+
+    await expect(waitForHealthy('https://w.example', { fetch })).resolves.toMatchObject({ status: 'ok' });
+  });
+
+  it('should fail when the worker never answers', async () => {
+    const fetch = (async () => {
+      throw new Error('connection refused');
+    }) as typeof globalThis.fetch;
+
+    await expect(waitForHealthy('https://w.example', { fetch, intervalMs: 0, maxWaitMs: 10 })).rejects.toThrow(
+      'Worker at https://w.example did not answer /health?deep=1 within 0.01s'
+    );
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Tests for the Cloudflare key store
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CloudflareKeyStore, type WranglerRunner } from '../src/keystore';
+
+function recorder() {
+  const calls: Array<{ args: string[]; cwd: string; input: string; account?: string }> = [];
+  const run: WranglerRunner = (args, { cwd, input, env }) => {
+    calls.push({ args, cwd, input, account: env.CLOUDFLARE_ACCOUNT_ID });
+  };
+  return { calls, run };
+}
+
+describe('CloudflareKeyStore', () => {
+  it('should put keys as worker secrets through stdin', async () => {
+    const { calls, run } = recorder();
+    const store = new CloudflareKeyStore('/repo/kladoi/stamp-worker', { run });
+
+    await store.set('ARKE_AGENT_KEY', 'ak_secret');
+
+    expect(calls).toEqual([
+      { args: ['secret', 'put', 'ARKE_AGENT_KEY'], cwd: '/repo/kladoi/stamp-worker', input: 'ak_secret', account: undefined },
+    ]);
+    expect(await store.get()).toBeNull();
+  });
+
+  it('should target a named worker in the profile account', async () => {
+    const { calls, run } = recorder();
+    const store = new CloudflareKeyStore('/repo/kladoi/stamp-worker', {
+      workerName: 'stamp-worker-staging',
+      env: { CLOUDFLARE_ACCOUNT_ID: 'acct_1' },
+      run,
+    });
+
+    await store.set('ARKE_AGENT_KEY', 'ak_secret');
+    await store.delete('ARKE_AGENT_KEY');
+
+    expect(calls.map((c) => [c.args.join(' '), c.account])).toEqual([
+      ['secret put ARKE_AGENT_KEY --name stamp-worker-staging', 'acct_1'],
+      ['secret delete ARKE_AGENT_KEY --name stamp-worker-staging', 'acct_1'],
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for deployment planning
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, describe, it, expect } from 'vitest';
+import { discoverPackages } from '../src/discover';
+import { formatPlan, planDeployment, workflowReferences } from '../src/plan';
+
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../..');
+
+const dirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * A temporary repo with one rhizai package holding the given workflows
+ */
+function repoWithWorkflows(workflows: Record<string, unknown>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'arke-cli-plan-'));
+  dirs.push(root);
+  fs.mkdirSync(path.join(root, 'kladoi', 'stamp-worker'), { recursive: true });
+  fs.writeFileSync(path.join(root, 'kladoi', 'stamp-worker', 'agent.json'), '{}');
+  fs.mkdirSync(path.join(root, 'rhizai', 'loop', 'workflows'), { recursive: true });
+  for (const [name, definition] of Object.entries(workflows)) {
+    fs.writeFileSync(path.join(root, 'rhizai', 'loop', 'workflows', `${name}.json`), JSON.stringify(definition));
+  }
+  return root;
+}
+
+function stepNames(plan: ReturnType<typeof planDeployment>): string[] {
+  return plan.steps.map((step) => (step.kind === 'klados' ? step.pkg.name : step.workflow));
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('workflowReferences', () => {
+  it('should collect $VAR values and keys but not route conditions', () => {
+    expect(
+      workflowReferences({
+        flow: {
+          a: { klados: { id: '$STAMP_KLADOS' }, then: { route: [{ where: { property: 'x', equals: '$LITERAL' }, target: 'b' }] } },
+          b: { klados: { id: '$STAMP_CHAIN_RHIZA', type: 'rhiza' }, then: { done: true } },
+          c: { klados: { id: '$STAMP_KLADOS' }, input: { $KEYED: 1 } },
+        },
+      })
+    ).toEqual(['STAMP_KLADOS', 'STAMP_CHAIN_RHIZA', 'KEYED']);
+  });
+
+  it('should collect ${VAR} references inside strings', () => {
+    expect(
+      workflowReferences({ label: 'OCR (${STAGE:-dev}) v${VERSION}', flow: { a: { klados: { id: '$OCR_KLADOS' } } } })
+    ).toEqual(['STAGE', 'VERSION', 'OCR_KLADOS']);
+  });
+});
+
+describe('planDeployment', () => {
+  const layout = discoverPackages(REPO_ROOT);
+
+  it('should register a workflow after the kladoi and sub-rhizai it references', () => {
+    const plan = planDeployment(layout, ['sub-rhiza-test']);
+
+    expect(stepNames(plan)).toEqual(['scatter-worker', 'stamp-worker', 'stamp-chain', 'sub-rhiza-test']);
+    expect(plan.steps[3]).toMatchObject({
+      kind: 'rhiza',
+      reference: 'SUB_RHIZA_TEST_RHIZA',
+      dependsOn: ['SCATTER_KLADOS', 'STAMP_CHAIN_RHIZA'],
+      external: [],
+    });
+    expect(plan.external).toEqual({});
+  });
+
+  it('should plan every package with kladoi first', () => {
+    const plan = planDeployment(layout);
+    const names = stepNames(plan);
+
+    expect(names.slice(0, 3)).toEqual(['gather-worker', 'scatter-worker', 'stamp-worker']);
+    expect(names.indexOf('stamp-chain')).toBeLessThan(names.indexOf('sub-rhiza-test'));
+    expect(names).toHaveLength(3 + 8);
+    expect(plan.external).toEqual({
+      TEXT_CHUNKER_KLADOS: ['text-to-kg'],
+      KG_EXTRACTOR_KLADOS: ['text-to-kg'],
+    });
+  });
+
+  it('should not require external references that have a default', () => {
+    const root = repoWithWorkflows({
+      ocr: { label: '${LABEL:-OCR}', flow: { a: { klados: { id: '$STAMP_KLADOS' }, max: '${MAX_PAGES}' } } },
+    });
+    const plan = planDeployment(discoverPackages(root));
+
+    expect(plan.steps[1]).toMatchObject({ dependsOn: ['STAMP_KLADOS'], external: ['MAX_PAGES'] });
+    expect(plan.external).toEqual({ MAX_PAGES: ['ocr'] });
+  });
+
+  it('should reject unknown targets and reference cycles', () => {
+    expect(() => planDeployment(layout, ['nope'])).toThrow('Unknown package or workflow "nope"');
+
+    const root = repoWithWorkflows({
+      ping: { flow: { a: { klados: { id: '$PONG_RHIZA', type: 'rhiza' } } } },
+      pong: { flow: { a: { klados: { id: '$PING_RHIZA', type: 'rhiza' } } } },
+    });
+    expect(() => planDeployment(discoverPackages(root))).toThrow(
+      'Workflows reference each other in a cycle: PING_RHIZA → PONG_RHIZA → PING_RHIZA'
+    );
+  });
+
+  it('should format the plan with what each workflow needs', () => {
+    const root = repoWithWorkflows({
+      ocr: { flow: { a: { klados: { id: '$STAMP_KLADOS' } }, b: { klados: { id: '$OCR_KLADOS' } } } },
+    });
+
+    expect(formatPlan(planDeployment(discoverPackages(root))).split('\n')).toEqual([
+      '1. klados stamp-worker',
+      '2. rhiza  loop/ocr  (needs STAMP_KLADOS, OCR_KLADOS)',
+      '',
+      'From the environment:',
+      '   OCR_KLADOS  (used by ocr)',
+    ]);
+  });
+});
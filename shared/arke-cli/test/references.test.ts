@@ -0,0 +1,192 @@
+/**
+ * Tests for resolving workflow references
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, describe, it, expect } from 'vitest';
+import { loadProfile } from 'arke-profiles';
+import { discoverPackages } from '../src/discover';
+import {
+  formatSubstitutions,
+  stateReferences,
+  substituteReferences,
+  UnresolvedReferenceError,
+} from '../src/references';
+
+// =============================================================================
+// Fixture
+// =============================================================================
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'arke-cli-refs-'));
+
+const files: Record<string, unknown> = {
+  'kladoi/stamp-worker/agent.json': {},
+  'kladoi/stamp-worker/.klados-state.json': { klados_id: 'K_STAMP_DEV' },
+  'kladoi/stamp-worker/.klados-state.staging.json': { klados_id: 'K_STAMP_STAGING' },
+  'kladoi/scatter-worker/agent.json': {},
+  'rhizai/stamp-chain/workflows/stamp-chain.json': {},
+  'rhizai/stamp-chain/.rhiza-state-stamp-chain.json': { rhiza_id: 'R_CHAIN_DEV' },
+};
+
+for (const [file, content] of Object.entries(files)) {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+  fs.writeFileSync(path.join(root, file), JSON.stringify(content));
+}
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+const layout = discoverPackages(root);
+const dev = loadProfile('dev', { cwd: root, env: {} });
+const staging = loadProfile('staging', { cwd: root, env: {} });
+
+const workflow = {
+  label: 'Chain',
+  flow: {
+    stamp: { klados: { id: '$STAMP_KLADOS' }, then: { route: [{ where: { property: 'tag', equals: '$RAW' }, target: 'sub' }] } },
+    sub: { klados: { id: '$STAMP_CHAIN_RHIZA', type: 'rhiza' }, then: { done: true } },
+  },
+};
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('workflow references', () => {
+  it('should resolve references from the profile state files', () => {
+    const { value, resolved } = substituteReferences(workflow, stateReferences(layout, dev, {}));
+
+    expect(value).toEqual({
+      label: 'Chain',
+      flow: {
+        stamp: { klados: { id: 'K_STAMP_DEV' }, then: workflow.flow.stamp.then },
+        sub: { klados: { id: 'R_CHAIN_DEV', type: 'rhiza' }, then: { done: true } },
+      },
+    });
+    expect(resolved).toEqual([
+      { name: 'STAMP_KLADOS', value: 'K_STAMP_DEV', source: 'kladoi/stamp-worker/.klados-state.json' },
+      { name: 'STAMP_CHAIN_RHIZA', value: 'R_CHAIN_DEV', source: 'rhizai/stamp-chain/.rhiza-state-stamp-chain.json' },
+    ]);
+  });
+
+  it('should let the environment override state files', () => {
+    const lookup = stateReferences(layout, staging, { STAMP_CHAIN_RHIZA: 'R_FROM_ENV' });
+
+    expect(lookup.resolve('STAMP_KLADOS')).toMatchObject({ value: 'K_STAMP_STAGING' });
+    expect(lookup.resolve('STAMP_CHAIN_RHIZA')).toEqual({
+      name: 'STAMP_CHAIN_RHIZA',
+      value: 'R_FROM_ENV',
+      source: 'environment',
+    });
+  });
+
+  it('should list every unresolved reference and where it looked', () => {
+    const lookup = stateReferences(layout, staging, {});
+    let error: unknown;
+    try {
+      substituteReferences(
+        { a: '$STAMP_CHAIN_RHIZA', b: '$SCATTER_KLADOS', c: '$OCR_KLADOS', d: '$STAMP_KLADOS' },
+        lookup
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(UnresolvedReferenceError);
+    expect((error as UnresolvedReferenceError).missing.map((m) => m.name)).toEqual([
+      'STAMP_CHAIN_RHIZA',
+      'SCATTER_KLADOS',
+      'OCR_KLADOS',
+    ]);
+    expect((error as Error).message).toBe(
+      [
+        'Could not resolve 3 workflow references:',
+        '  $STAMP_CHAIN_RHIZA - looked in: environment (not set); rhizai/stamp-chain/.rhiza-state-stamp-chain.staging.json (not registered in this profile)',
+        '  $SCATTER_KLADOS - looked in: environment (not set); kladoi/scatter-worker/.klados-state.staging.json (not registered in this profile)',
+        '  $OCR_KLADOS - looked in: environment (not set); state files (no klados package or workflow is named for it)',
+      ].join('\n')
+    );
+  });
+
+  it('should keep unresolved keys', () => {
+    const { value } = substituteReferences({ $STAMP_KLADOS: 1, $OTHER: 2 }, stateReferences(layout, dev, {}));
+    expect(value).toEqual({ K_STAMP_DEV: 1, $OTHER: 2 });
+  });
+
+  it('should interpolate ${VAR} inside strings and fall back to defaults', () => {
+    const lookup = stateReferences(layout, dev, { STAGE: 'nightly' });
+    const { value } = substituteReferences(
+      {
+        label: 'Chain (${STAGE}) via ${STAMP_KLADOS}',
+        description: 'Owner: ${OWNER:-nobody}${SUFFIX:-}',
+        step: { id: '${MISSING_KLADOS:-$STAMP_KLADOS}' },
+      },
+      lookup
+    );
+
+    expect(value).toEqual({
+      label: 'Chain (nightly) via K_STAMP_DEV',
+      description: 'Owner: nobody',
+      step: { id: '$STAMP_KLADOS' },
+    });
+  });
+
+  it('should coerce a whole-string ${VAR} to a number or boolean', () => {
+    const lookup = stateReferences(layout, dev, { MAX_ITEMS: '25', VERBOSE: 'true', RATIO: '-0.5', CODE: '007a' });
+    const { value } = substituteReferences(
+      {
+        max: '${MAX_ITEMS}',
+        verbose: '${VERBOSE}',
+        ratio: '${RATIO}',
+        retry: '${RETRY:-false}',
+        timeout: '${TIMEOUT:-30}',
+        code: '${CODE}',
+        label: 'max ${MAX_ITEMS}',
+        id: '$MAX_ITEMS',
+      },
+      lookup
+    );
+
+    expect(value).toEqual({
+      max: 25,
+      verbose: true,
+      ratio: -0.5,
+      retry: false,
+      timeout: 30,
+      code: '007a',
+      label: 'max 25',
+      id: '25',
+    });
+  });
+
+  it('should keep numbers that would not read back unchanged as strings', () => {
+    const lookup = stateReferences(layout, dev, { ZIP: '0123', ORDER: '12345678901234567890', PRICE: '1.50' });
+    const { value } = substituteReferences({ zip: '${ZIP}', order: '${ORDER}', price: '${PRICE}', count: '${COUNT:-1e3}' }, lookup);
+
+    expect(value).toEqual({ zip: '0123', order: '12345678901234567890', price: '1.50', count: '1e3' });
+  });
+
+  it('should list every substitution with where it came from', () => {
+    const { substitutions } = substituteReferences(
+      {
+        flow: { stamp: { klados: { id: '$STAMP_KLADOS' }, options: ['${LIMIT:-10}', 'by ${USER}'] } },
+      },
+      stateReferences(layout, dev, { USER: 'ada' })
+    );
+
+    expect(formatSubstitutions(substitutions).split('\n')).toEqual([
+      '  flow.stamp.klados.id   $STAMP_KLADOS → "K_STAMP_DEV"  (kladoi/stamp-worker/.klados-state.json)',
+      '  flow.stamp.options[0]  ${LIMIT:-10} → 10  (default)',
+      '  flow.stamp.options[1]  ${USER} → "ada"  (environment)',
+    ]);
+  });
+
+  it('should report embedded references without a default', () => {
+    expect(() =>
+      substituteReferences({ label: '${STAGE:-dev} ${OWNER}', $KEY: 1 }, stateReferences(layout, dev, {}))
+    ).toThrow(/Could not resolve a workflow reference:\n {2}\$OWNER - looked in: environment \(not set\)/);
+  });
+});
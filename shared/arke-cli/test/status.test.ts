@@ -0,0 +1,79 @@
+/**
+ * Tests for the registration status report
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, describe, it, expect } from 'vitest';
+import { loadProfile } from 'arke-profiles';
+import { discoverPackages } from '../src/discover';
+import { collectStatus, formatStatus } from '../src/status';
+
+// =============================================================================
+// Fixture
+// =============================================================================
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'arke-cli-status-'));
+
+const files: Record<string, unknown> = {
+  'kladoi/ocr-worker/agent.json': {},
+  'kladoi/ocr-worker/.klados-state.json': {
+    klados_id: 'K_DEV',
+    endpoint: 'https://ocr-worker.example.workers.dev',
+    api_key_prefix: 'ak_dev',
+  },
+  'kladoi/ocr-worker/.klados-state.prod.json': { klados_id: 'K_PROD', endpoint: 'https://ocr.example.com' },
+  'rhizai/ingest/workflows/ingest.json': {},
+  'rhizai/ingest/.rhiza-state-ingest.staging.json': { rhiza_id: 'R_STAGING', version: '1.2.0' },
+};
+
+for (const [file, content] of Object.entries(files)) {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+  fs.writeFileSync(path.join(root, file), JSON.stringify(content));
+}
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+const profiles = ['dev', 'staging', 'prod'].map((name) => loadProfile(name, { cwd: root, env: {} }));
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('registration status', () => {
+  it('should read each package state file per profile', () => {
+    const entries = collectStatus(discoverPackages(root), profiles);
+
+    expect(entries.filter((e) => e.id).map((e) => [e.kind, e.name, e.profile, e.id])).toEqual([
+      ['klados', 'ocr-worker', 'dev', 'K_DEV'],
+      ['klados', 'ocr-worker', 'prod', 'K_PROD'],
+      ['rhiza', 'ingest', 'staging', 'R_STAGING'],
+    ]);
+    expect(entries.find((e) => e.profile === 'staging' && e.kind === 'klados')).toEqual({
+      kind: 'klados',
+      package: 'ocr-worker',
+      name: 'ocr-worker',
+      profile: 'staging',
+    });
+  });
+
+  it('should format an aligned table', () => {
+    const text = formatStatus(collectStatus(discoverPackages(root), profiles));
+
+    expect(text.split('\n')).toEqual([
+      'Kladoi',
+      '  ocr-worker     dev      K_DEV      https://ocr-worker.example.workers.dev  key ak_dev...',
+      '  ocr-worker     staging  -          not registered',
+      '  ocr-worker     prod     K_PROD     https://ocr.example.com',
+      '',
+      'Rhizai',
+      '  ingest/ingest  dev      -          not registered',
+      '  ingest/ingest  staging  R_STAGING  v1.2.0',
+      '  ingest/ingest  prod     -          not registered',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Named environment profiles for registration scripts and tests
+ */
+
+export {
+  loadProfile,
+  listProfiles,
+  parseProfileArgs,
+  findProfilesFile,
+  readProfilesFile,
+  profileStateFile,
+  profileWorkerName,
+  profileEndpoint,
+  wranglerEnv,
+  wranglerDeployCommand,
+  describeProfile,
+  BUILT_IN_PROFILES,
+  DEFAULT_PROFILE,
+  DEFAULT_API_BASE,
+  PROFILES_FILE,
+  type ArkeNetwork,
+  type Profile,
+  type ProfileSpec,
+  type ProfilesFile,
+  type LoadProfileOptions,
+} from './profiles.js';
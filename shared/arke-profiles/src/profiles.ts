@@ -0,0 +1,357 @@
+/**
+ * Environment Profiles
+ *
+ * A profile names one environment a package is registered in and tested
+ * against:
+ * - `apiBase` / `network` - the Arke API and network
+ * - `cloudflareAccountId` - the Cloudflare account workers deploy to
+ * - `workerSuffix` - appended to each worker's name, so several profiles
+ *   can deploy the same worker to one account
+ *
+ * The built-in profiles are overridden or extended by an `arke.profiles.json`
+ * at the repo root. Registration state is kept per profile, so registering
+ * in one environment never picks up another's IDs.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type ArkeNetwork = 'test' | 'main';
+
+/**
+ * A resolved profile
+ */
+export interface Profile {
+  name: string;
+  apiBase: string;
+  network: ArkeNetwork;
+
+  /** Cloudflare account for wrangler; omitted uses wrangler's own login */
+  cloudflareAccountId?: string;
+
+  /** Appended to worker names, e.g. `-staging` (default: none) */
+  workerSuffix: string;
+}
+
+/**
+ * A profile as written in `arke.profiles.json`
+ *
+ * Missing fields fall back to the built-in profile of the same name.
+ */
+export type ProfileSpec = Partial<Omit<Profile, 'name'>>;
+
+export interface ProfilesFile {
+  /** Profile used when none is selected (default: `dev`) */
+  default?: string;
+  profiles?: Record<string, ProfileSpec>;
+}
+
+export interface LoadProfileOptions {
+  /** Directory to search upwards from for `arke.profiles.json` (default: cwd) */
+  cwd?: string;
+
+  /** Explicit profiles file, instead of searching */
+  file?: string;
+
+  /** Environment to read `ARKE_PROFILE` and overrides from (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+/** Name of the profiles file at the repo root */
+export const PROFILES_FILE = 'arke.profiles.json';
+
+export const DEFAULT_API_BASE = 'https://arke-v1.arke.institute';
+
+export const DEFAULT_PROFILE = 'dev';
+
+/**
+ * Profiles available without a profiles file
+ *
+ * `dev` and `prod` match the test and main network registrations made before
+ * profiles existed, including their state file names.
+ */
+export const BUILT_IN_PROFILES: Record<string, ProfileSpec> = {
+  dev: { apiBase: DEFAULT_API_BASE, network: 'test' },
+  staging: { apiBase: DEFAULT_API_BASE, network: 'test', workerSuffix: '-staging' },
+  prod: { apiBase: DEFAULT_API_BASE, network: 'main' },
+};
+
+const PROFILE_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+const WORKER_SUFFIX_PATTERN = /^[a-z0-9-]*$/;
+const PROFILE_KEYS = ['apiBase', 'network', 'cloudflareAccountId', 'workerSuffix'];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a profile spec, appending every problem to `issues`
+ */
+function validateSpec(spec: unknown, issues: string[]): void {
+  if (!isObject(spec)) {
+    issues.push('must be an object');
+    return;
+  }
+  for (const key of Object.keys(spec)) {
+    if (!PROFILE_KEYS.includes(key)) {
+      issues.push(`${key} is not a recognised option`);
+    }
+  }
+  if (spec.apiBase !== undefined && !isHttpUrl(spec.apiBase)) {
+    issues.push('apiBase must be an http(s) URL');
+  }
+  if (spec.network !== undefined && spec.network !== 'test' && spec.network !== 'main') {
+    issues.push('network must be "test" or "main"');
+  }
+  if (spec.cloudflareAccountId !== undefined && (typeof spec.cloudflareAccountId !== 'string' || spec.cloudflareAccountId === '')) {
+    issues.push('cloudflareAccountId must be a non-empty string');
+  }
+  if (spec.workerSuffix !== undefined && (typeof spec.workerSuffix !== 'string' || !WORKER_SUFFIX_PATTERN.test(spec.workerSuffix))) {
+    issues.push('workerSuffix must be lowercase letters, digits or "-"');
+  }
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Walk up from a directory to the nearest `arke.profiles.json`
+ */
+export function findProfilesFile(from: string = process.cwd()): string | undefined {
+  let dir = path.resolve(from);
+  while (true) {
+    const file = path.join(dir, PROFILES_FILE);
+    if (fs.existsSync(file)) return file;
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Read and check a profiles file
+ *
+ * @throws Error listing every problem found
+ */
+export function readProfilesFile(file: string): ProfilesFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${(error as Error).message}`);
+  }
+
+  if (!isObject(raw)) {
+    throw new Error(`Invalid ${PROFILES_FILE}: must be a JSON object`);
+  }
+
+  const issues: string[] = [];
+  for (const key of Object.keys(raw)) {
+    if (key !== 'default' && key !== 'profiles') {
+      issues.push(`${key} is not a recognised option`);
+    }
+  }
+  if (raw.default !== undefined && typeof raw.default !== 'string') {
+    issues.push('default must be a profile name');
+  }
+  if (raw.profiles !== undefined) {
+    if (!isObject(raw.profiles)) {
+      issues.push('profiles must be an object keyed by profile name');
+    } else {
+      for (const [name, spec] of Object.entries(raw.profiles)) {
+        if (!PROFILE_NAME_PATTERN.test(name)) {
+          issues.push(`profiles.${name} must be named with lowercase letters, digits or "-"`);
+        }
+        const specIssues: string[] = [];
+        validateSpec(spec, specIssues);
+        issues.push(...specIssues.map((issue) => `profiles.${name}.${issue}`));
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid ${PROFILES_FILE}: ${issues.join('; ')}`);
+  }
+  return raw as ProfilesFile;
+}
+
+/**
+ * Names of every available profile
+ */
+export function listProfiles(options: LoadProfileOptions = {}): string[] {
+  const file = options.file ?? findProfilesFile(options.cwd);
+  const configured = file ? readProfilesFile(file).profiles ?? {} : {};
+  return [...new Set([...Object.keys(BUILT_IN_PROFILES), ...Object.keys(configured)])];
+}
+
+/**
+ * Resolve a profile
+ *
+ * The name comes from the argument, then `ARKE_PROFILE`, then the profiles
+ * file's `default`, then `dev`. `ARKE_API_BASE` and `ARKE_NETWORK` still
+ * override the profile's API base and network, as they did before profiles.
+ *
+ * @throws Error for an unknown profile or an invalid profiles file
+ */
+export function loadProfile(name?: string, options: LoadProfileOptions = {}): Profile {
+  const env = options.env ?? process.env;
+  const file = options.file ?? findProfilesFile(options.cwd);
+  const config = file ? readProfilesFile(file) : {};
+
+  const selected = name ?? env.ARKE_PROFILE ?? config.default ?? DEFAULT_PROFILE;
+  const builtIn = BUILT_IN_PROFILES[selected];
+  const configured = config.profiles?.[selected];
+  if (!builtIn && !configured) {
+    const available = listProfiles({ ...options, file }).join(', ');
+    throw new Error(`Unknown profile "${selected}" (available: ${available})`);
+  }
+
+  const spec: ProfileSpec = { ...builtIn, ...configured };
+  const overrides: ProfileSpec = {};
+  if (env.ARKE_API_BASE) overrides.apiBase = env.ARKE_API_BASE;
+  if (env.ARKE_NETWORK) overrides.network = env.ARKE_NETWORK as ArkeNetwork;
+
+  const issues: string[] = [];
+  const merged = { ...spec, ...overrides };
+  validateSpec(merged, issues);
+  if (merged.apiBase === undefined) issues.push('apiBase is required');
+  if (merged.network === undefined) issues.push('network is required');
+  if (issues.length > 0) {
+    throw new Error(`Invalid profile "${selected}": ${issues.join('; ')}`);
+  }
+
+  return {
+    name: selected,
+    apiBase: merged.apiBase!.replace(/\/+$/, ''),
+    network: merged.network!,
+    ...(merged.cloudflareAccountId && { cloudflareAccountId: merged.cloudflareAccountId }),
+    workerSuffix: merged.workerSuffix ?? '',
+  };
+}
+
+/**
+ * Take the profile selection out of command-line arguments
+ *
+ * Accepts `--profile <name>` and `--profile=<name>`; the old `--production`
+ * and `--prod` flags select `prod`.
+ *
+ * @returns The selected profile name, if any, and the remaining arguments
+ * @throws Error when `--profile` has no name or conflicts with `--prod`
+ */
+export function parseProfileArgs(argv: string[]): { profile?: string; args: string[] } {
+  let profile: string | undefined;
+  const args: string[] = [];
+
+  const select = (name: string | undefined, flag: string) => {
+    if (!name || name.startsWith('--')) {
+      throw new Error(`${flag} needs a profile name, e.g. ${flag} staging`);
+    }
+    if (profile !== undefined && profile !== name) {
+      throw new Error(`Conflicting profiles "${profile}" and "${name}"`);
+    }
+    profile = name;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--profile') {
+      select(argv[++i], '--profile');
+    } else if (arg.startsWith('--profile=')) {
+      select(arg.slice('--profile='.length), '--profile');
+    } else if (arg === '--production' || arg === '--prod') {
+      select('prod', arg);
+    } else {
+      args.push(arg);
+    }
+  }
+
+  return { profile, args };
+}
+
+// =============================================================================
+// Per-profile Names
+// =============================================================================
+
+/**
+ * State file for a profile, e.g. `.klados-state.staging.json`
+ *
+ * `dev` keeps the unsuffixed name, so registrations made before profiles
+ * (test network: `.klados-state.json`, main: `.klados-state.prod.json`) are
+ * picked up by `dev` and `prod`.
+ */
+export function profileStateFile(base: string, profile: Profile): string {
+  return profile.name === DEFAULT_PROFILE ? `${base}.json` : `${base}.${profile.name}.json`;
+}
+
+/**
+ * Worker name for a profile, e.g. `stamp-worker-staging`
+ */
+export function profileWorkerName(workerName: string, profile: Profile): string {
+  return `${workerName}${profile.workerSuffix}`;
+}
+
+/**
+ * Endpoint of a profile's deployment of a worker
+ *
+ * Rewrites the worker name in a `<worker>.<subdomain>.workers.dev` host;
+ * other endpoints (custom domains) are returned unchanged.
+ */
+export function profileEndpoint(endpoint: string, workerName: string, profile: Profile): string {
+  const url = new URL(endpoint);
+  const [first, ...rest] = url.hostname.split('.');
+  if (first !== workerName || !url.hostname.endsWith('.workers.dev')) {
+    return endpoint;
+  }
+  return endpoint.replace(url.hostname, [profileWorkerName(workerName, profile), ...rest].join('.'));
+}
+
+/**
+ * Environment for wrangler commands run for a profile
+ */
+export function wranglerEnv(
+  profile: Profile,
+  env: Record<string, string | undefined> = process.env
+): Record<string, string | undefined> {
+  return profile.cloudflareAccountId ? { ...env, CLOUDFLARE_ACCOUNT_ID: profile.cloudflareAccountId } : { ...env };
+}
+
+/**
+ * `wrangler deploy` command for a profile's deployment of a worker
+ *
+ * @param vars - Extra `--var` bindings, e.g. the AGENT_ID registered in this profile
+ */
+export function wranglerDeployCommand(workerName: string, profile: Profile, vars: Record<string, string> = {}): string {
+  const parts = ['wrangler deploy'];
+  if (profile.workerSuffix) {
+    parts.push(`--name ${profileWorkerName(workerName, profile)}`);
+  }
+  for (const [key, value] of Object.entries(vars)) {
+    parts.push(`--var ${key}:${value}`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * One-line description for script banners, e.g. `prod (main network, https://arke-v1.arke.institute)`
+ */
+export function describeProfile(profile: Profile): string {
+  const details = [`${profile.network} network`, profile.apiBase];
+  if (profile.workerSuffix) details.push(`worker suffix ${profile.workerSuffix}`);
+  if (profile.cloudflareAccountId) details.push(`account ${profile.cloudflareAccountId}`);
+  return `${profile.name} (${details.join(', ')})`;
+}
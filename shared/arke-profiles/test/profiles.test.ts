@@ -0,0 +1,168 @@
+/**
+ * Tests for environment profiles
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  DEFAULT_API_BASE,
+  describeProfile,
+  loadProfile,
+  parseProfileArgs,
+  profileEndpoint,
+  profileStateFile,
+  wranglerDeployCommand,
+  wranglerEnv,
+} from '../src';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const dirs: string[] = [];
+
+/**
+ * A temporary repo with an arke.profiles.json, returning a package directory inside it
+ */
+function repoWithProfiles(config: unknown): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'arke-profiles-'));
+  dirs.push(root);
+  fs.writeFileSync(path.join(root, 'arke.profiles.json'), JSON.stringify(config));
+  const pkg = path.join(root, 'kladoi', 'stamp-worker');
+  fs.mkdirSync(pkg, { recursive: true });
+  return pkg;
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('loadProfile', () => {
+  const cwd = os.tmpdir();
+
+  it('should default to the dev profile on the test network', () => {
+    expect(loadProfile(undefined, { cwd, env: {} })).toEqual({
+      name: 'dev',
+      apiBase: DEFAULT_API_BASE,
+      network: 'test',
+      workerSuffix: '',
+    });
+  });
+
+  it('should select a profile by name or ARKE_PROFILE', () => {
+    expect(loadProfile('prod', { cwd, env: {} }).network).toBe('main');
+    expect(loadProfile(undefined, { cwd, env: { ARKE_PROFILE: 'staging' } })).toMatchObject({
+      name: 'staging',
+      workerSuffix: '-staging',
+    });
+  });
+
+  it('should let ARKE_API_BASE and ARKE_NETWORK override the profile', () => {
+    const profile = loadProfile('dev', {
+      cwd,
+      env: { ARKE_API_BASE: 'http://localhost:8787/', ARKE_NETWORK: 'main' },
+    });
+    expect(profile).toMatchObject({ apiBase: 'http://localhost:8787', network: 'main' });
+  });
+
+  it('should merge profiles from arke.profiles.json over the built-ins', () => {
+    const pkg = repoWithProfiles({
+      default: 'staging',
+      profiles: {
+        staging: { cloudflareAccountId: 'acct_staging' },
+        qa: { apiBase: 'https://qa.example.com', network: 'test', workerSuffix: '-qa' },
+      },
+    });
+
+    expect(loadProfile(undefined, { cwd: pkg, env: {} })).toEqual({
+      name: 'staging',
+      apiBase: DEFAULT_API_BASE,
+      network: 'test',
+      cloudflareAccountId: 'acct_staging',
+      workerSuffix: '-staging',
+    });
+    expect(loadProfile('qa', { cwd: pkg, env: {} }).apiBase).toBe('https://qa.example.com');
+  });
+
+  it('should report unknown profiles and every problem in the file', () => {
+    expect(() => loadProfile('nope', { cwd, env: {} })).toThrow(
+      'Unknown profile "nope" (available: dev, staging, prod)'
+    );
+
+    const pkg = repoWithProfiles({
+      profiles: { Local: {}, qa: { apiBase: 'ftp://x', network: 'beta', workerSuffix: '_QA', region: 'eu' } },
+    });
+    expect(() => loadProfile('qa', { cwd: pkg, env: {} })).toThrow(
+      'Invalid arke.profiles.json: profiles.Local must be named with lowercase letters, digits or "-"; ' +
+        'profiles.qa.region is not a recognised option; ' +
+        'profiles.qa.apiBase must be an http(s) URL; ' +
+        'profiles.qa.network must be "test" or "main"; ' +
+        'profiles.qa.workerSuffix must be lowercase letters, digits or "-"'
+    );
+  });
+
+  it('should require an API base and network for profiles with no built-in', () => {
+    const pkg = repoWithProfiles({ profiles: { qa: { workerSuffix: '-qa' } } });
+    expect(() => loadProfile('qa', { cwd: pkg, env: {} })).toThrow(
+      'Invalid profile "qa": apiBase is required; network is required'
+    );
+  });
+});
+
+describe('parseProfileArgs', () => {
+  it('should take --profile out of the arguments', () => {
+    expect(parseProfileArgs(['scatter-test', '--profile', 'staging', '--dry-run'])).toEqual({
+      profile: 'staging',
+      args: ['scatter-test', '--dry-run'],
+    });
+    expect(parseProfileArgs(['--profile=prod'])).toEqual({ profile: 'prod', args: [] });
+    expect(parseProfileArgs(['--dry-run'])).toEqual({ profile: undefined, args: ['--dry-run'] });
+  });
+
+  it('should treat --production as the prod profile', () => {
+    expect(parseProfileArgs(['--production']).profile).toBe('prod');
+    expect(parseProfileArgs(['--prod', '--profile', 'prod']).profile).toBe('prod');
+    expect(() => parseProfileArgs(['--prod', '--profile', 'dev'])).toThrow('Conflicting profiles "prod" and "dev"');
+    expect(() => parseProfileArgs(['--profile', '--dry-run'])).toThrow('--profile needs a profile name');
+  });
+});
+
+describe('per-profile names', () => {
+  const env = {};
+  const dev = loadProfile('dev', { cwd: os.tmpdir(), env });
+  const staging = { ...loadProfile('staging', { cwd: os.tmpdir(), env }), cloudflareAccountId: 'acct_1' };
+
+  it('should keep the pre-profile state file names for dev and prod', () => {
+    expect(profileStateFile('.klados-state', dev)).toBe('.klados-state.json');
+    expect(profileStateFile('.klados-state', loadProfile('prod', { cwd: os.tmpdir(), env }))).toBe(
+      '.klados-state.prod.json'
+    );
+    expect(profileStateFile('.rhiza-state-scatter-test', staging)).toBe('.rhiza-state-scatter-test.staging.json');
+  });
+
+  it('should suffix workers.dev endpoints and deploy commands', () => {
+    const endpoint = 'https://stamp-worker.example.workers.dev';
+    expect(profileEndpoint(endpoint, 'stamp-worker', staging)).toBe('https://stamp-worker-staging.example.workers.dev');
+    expect(profileEndpoint(endpoint, 'stamp-worker', dev)).toBe(endpoint);
+    expect(profileEndpoint('https://stamp.example.com', 'stamp-worker', staging)).toBe('https://stamp.example.com');
+
+    expect(wranglerDeployCommand('stamp-worker', dev)).toBe('wrangler deploy');
+    expect(wranglerDeployCommand('stamp-worker', staging, { AGENT_ID: 'K1' })).toBe(
+      'wrangler deploy --name stamp-worker-staging --var AGENT_ID:K1'
+    );
+  });
+
+  it('should point wrangler at the profile account', () => {
+    expect(wranglerEnv(staging, { PATH: '/bin' })).toEqual({ PATH: '/bin', CLOUDFLARE_ACCOUNT_ID: 'acct_1' });
+    expect(wranglerEnv(dev, { PATH: '/bin' })).toEqual({ PATH: '/bin' });
+    expect(describeProfile(staging)).toBe(
+      `staging (test network, ${DEFAULT_API_BASE}, worker suffix -staging, account acct_1)`
+    );
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Fake Arke - in-process stand-in for the Arke API
+ *
+ * Ties the entity store and router together with in-process klados
+ * dispatch: invoking a registered klados POSTs a KladosRequest straight to
+ * the worker's Hono app, and the worker's `waitUntil` work is tracked so
+ * tests can `await fake.idle()` instead of polling. Dispatched requests are
+ * signed as Arke signs them, with a key pair generated per fake whose public
+ * key is passed to workers as ARKE_SIGNING_KEY.
+ *
+ * The fake is reachable two ways:
+ * - `install()` patches `globalThis.fetch` so requests to the fake's origin
+ *   (and, by default, the real Arke API origin) never leave the process
+ * - `listen()` serves it over HTTP for out-of-process workers (`wrangler dev`)
+ */
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Hono } from 'hono';
+import { generateSigningKeyPair, signRequest } from 'klados-runtime';
+import { EntityStore, FakeApiError } from './store.js';
+import { createFakeArkeApp } from './routes.js';
+import type {
+  FakeEntity,
+  FakeExecutionContext,
+  FakeKladosRegistration,
+  InvokeKladosBody,
+  InvokeResult,
+  WorkerHandler,
+} from './types.js';
+
+/** Real API origin, intercepted by default so a misconfigured client can't reach it */
+export const ARKE_API_ORIGIN = 'https://arke-v1.arke.institute';
+
+/** Default base URL of the fake */
+export const FAKE_ARKE_BASE = 'http://fake-arke.local';
+
+/** Placeholder keys; the fake only checks that a key is present */
+export const FAKE_USER_KEY = 'uk_fake_user_key';
+export const FAKE_AGENT_KEY = 'ak_fake_agent_key';
+
+export interface FakeArkeOptions {
+  /** Base URL workers and test clients are pointed at (default: FAKE_ARKE_BASE) */
+  baseUrl?: string;
+
+  /** Extra origins served by `install()` (default: the real API origin) */
+  interceptOrigins?: string[];
+
+  /** Network reported in KladosRequests (default: 'test') */
+  network?: 'test' | 'main';
+}
+
+/**
+ * A registered in-process klados
+ */
+interface RegisteredKlados {
+  id: string;
+  worker: WorkerHandler;
+  env: Record<string, unknown>;
+}
+
+export interface FakeArke {
+  /** Base URL to use as `apiBase` / `api_base` */
+  readonly baseUrl: string;
+
+  /** Direct access to stored entities for assertions */
+  readonly store: EntityStore;
+
+  /** The underlying router */
+  readonly app: Hono;
+
+  /** Handle a request against the fake */
+  fetch(request: Request): Promise<Response>;
+
+  /** Register a worker app as a klados, returning its ID */
+  registerKlados(registration: FakeKladosRegistration): string;
+
+  /** Invoke a registered klados, as POST /kladoi/{id}/invoke does */
+  invokeKlados(kladosId: string, body: InvokeKladosBody): Promise<InvokeResult>;
+
+  /** POST a signed KladosRequest to a registered klados's /process route */
+  dispatch(kladosId: string, request: Record<string, unknown>): Promise<Response>;
+
+  /** Public key workers verify dispatched requests with, for workers outside the process */
+  signingPublicKey(): Promise<string>;
+
+  /** Resolve once all background (`waitUntil`) work has settled */
+  idle(): Promise<void>;
+
+  /** Errors thrown from background work, in order */
+  readonly backgroundErrors: unknown[];
+
+  /** klados_log entities in a job collection, in creation order */
+  logs(jobCollection: string): FakeEntity[];
+
+  /** Patch globalThis.fetch to serve the fake; returns a restore function */
+  install(): () => void;
+
+  /** Serve the fake over HTTP on 127.0.0.1; `baseUrl` switches to the listen URL */
+  listen(port?: number): Promise<{ url: string; close: () => Promise<void> }>;
+}
+
+/**
+ * Create a fake Arke API
+ */
+export function createFakeArke(options: FakeArkeOptions = {}): FakeArke {
+  const store = new EntityStore();
+  const kladoi = new Map<string, RegisteredKlados>();
+  const pending = new Set<Promise<unknown>>();
+  const backgroundErrors: unknown[] = [];
+  const network = options.network ?? 'test';
+  let baseUrl = options.baseUrl ?? FAKE_ARKE_BASE;
+  let jobCounter = 0;
+  const signingKeys = generateSigningKeyPair();
+
+  const ctx: FakeExecutionContext = {
+    waitUntil(promise) {
+      const tracked = promise.catch((error) => {
+        backgroundErrors.push(error);
+      });
+      pending.add(tracked);
+      tracked.finally(() => pending.delete(tracked));
+    },
+    passThroughOnException() {},
+  };
+
+  async function dispatch(kladosId: string, request: Record<string, unknown>): Promise<Response> {
+    const klados = kladoi.get(kladosId);
+    if (!klados) {
+      throw new FakeApiError(404, `Klados not registered with fake: ${kladosId}`);
+    }
+
+    const keys = await signingKeys;
+    const url = `https://${kladosId.toLowerCase()}.fake-worker/process`;
+    const body = JSON.stringify(request);
+    const httpRequest = new Request(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await signRequest(keys.privateKey, { method: 'POST', url, body })),
+      },
+      body,
+    });
+    return klados.worker.fetch(
+      httpRequest,
+      { ARKE_API_BASE: baseUrl, ARKE_SIGNING_KEY: keys.publicKey, ...klados.env },
+      ctx
+    );
+  }
+
+  async function invokeKlados(kladosId: string, body: InvokeKladosBody): Promise<InvokeResult> {
+    store.get(kladosId);
+    if (!body.confirm) {
+      return { status: 'pending_confirmation' };
+    }
+
+    const jobId = `job_${String(++jobCounter).padStart(6, '0')}`;
+    const jobCollection =
+      body.job_collection ??
+      store.create({ type: 'collection', properties: { label: `Job ${jobId}` } }).id;
+
+    const response = await dispatch(kladosId, {
+      ...body,
+      job_id: jobId,
+      job_collection: jobCollection,
+      api_base: baseUrl,
+      network,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+
+    if (!response.ok) {
+      throw new FakeApiError(400, `Klados ${kladosId} rejected job: ${await response.text()}`);
+    }
+
+    return { status: 'started', job_id: jobId, job_collection: jobCollection };
+  }
+
+  const app = createFakeArkeApp(store, { invokeKlados });
+
+  async function handle(request: Request): Promise<Response> {
+    return app.fetch(request);
+  }
+
+  return {
+    get baseUrl() {
+      return baseUrl;
+    },
+    store,
+    app,
+    fetch: handle,
+    backgroundErrors,
+    dispatch,
+    invokeKlados,
+
+    registerKlados(registration) {
+      const id = registration.id ?? store.nextId('KLADOS');
+      store.create(
+        {
+          type: 'klados',
+          properties: {
+            label: registration.label ?? id,
+            endpoint: `https://${id.toLowerCase()}.fake-worker`,
+            status: 'active',
+          },
+        },
+        id
+      );
+      kladoi.set(id, {
+        id,
+        worker: registration.worker,
+        env: {
+          AGENT_ID: id,
+          AGENT_VERSION: '0.0.0-fake',
+          ARKE_AGENT_KEY: FAKE_AGENT_KEY,
+          ...registration.env,
+        },
+      });
+      return id;
+    },
+
+    async signingPublicKey() {
+      return (await signingKeys).publicKey;
+    },
+
+    async idle() {
+      // Background work can schedule more background work, so drain until empty
+      while (pending.size > 0) {
+        await Promise.all([...pending]);
+      }
+    },
+
+    logs(jobCollection) {
+      return store.list({ type: 'klados_log', collection: jobCollection });
+    },
+
+    install() {
+      const original = globalThis.fetch;
+      const origins = new Set([
+        new URL(baseUrl).origin,
+        ...(options.interceptOrigins ?? [ARKE_API_ORIGIN]),
+      ]);
+
+      globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+        const request = new Request(input, init);
+        if (origins.has(new URL(request.url).origin)) {
+          return handle(request);
+        }
+        return original(request);
+      }) as typeof fetch;
+
+      return () => {
+        globalThis.fetch = original;
+      };
+    },
+
+    async listen(port = 0) {
+      const server = createServer(async (req, res) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+
+        const headers = new Headers();
+        for (const [key, value] of Object.entries(req.headers)) {
+          if (typeof value === 'string') headers.set(key, value);
+        }
+
+        const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+        const response = await handle(
+          new Request(new URL(req.url ?? '/', baseUrl), {
+            method: req.method,
+            headers,
+            body: hasBody ? Buffer.concat(chunks) : undefined,
+          })
+        );
+
+        res.writeHead(response.status, Object.fromEntries(response.headers));
+        res.end(Buffer.from(await response.arrayBuffer()));
+      });
+
+      await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      baseUrl = url;
+
+      return {
+        url,
+        close: () => new Promise<void>((resolve, reject) => {
+          server.close((error) => (error ? reject(error) : resolve()));
+        }),
+      };
+    },
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * In-memory stand-in for the Arke API, for offline worker and workflow tests
+ */
+
+export {
+  createFakeArke,
+  ARKE_API_ORIGIN,
+  FAKE_ARKE_BASE,
+  FAKE_USER_KEY,
+  FAKE_AGENT_KEY,
+  type FakeArke,
+  type FakeArkeOptions,
+} from './fake.js';
+export { EntityStore, FakeApiError } from './store.js';
+export { createFakeArkeApp, type FakeArkeHandlers } from './routes.js';
+export type {
+  FakeEntity,
+  FakeRelationship,
+  CreateEntityBody,
+  UpdateEntityBody,
+  InvokeKladosBody,
+  InvokeResult,
+  FakeExecutionContext,
+  WorkerHandler,
+  FakeKladosRegistration,
+} from './types.js';
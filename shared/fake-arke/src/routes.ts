@@ -0,0 +1,104 @@
+/**
+ * Hono router implementing the fake Arke API endpoints
+ *
+ * Covers the endpoints the example workers, KladosJob and the
+ * klados-testing helpers use: entities (with tips and CAS updates),
+ * relationships, collections, listings and klados invocation.
+ */
+
+import { Hono } from 'hono';
+import { EntityStore, FakeApiError } from './store.js';
+import type {
+  CreateEntityBody,
+  InvokeKladosBody,
+  InvokeResult,
+  UpdateEntityBody,
+} from './types.js';
+
+/**
+ * Callbacks the router delegates to for work beyond the entity store
+ */
+export interface FakeArkeHandlers {
+  invokeKlados: (kladosId: string, body: InvokeKladosBody) => Promise<InvokeResult>;
+}
+
+/**
+ * Create the fake API router over a store
+ */
+export function createFakeArkeApp(store: EntityStore, handlers: FakeArkeHandlers): Hono {
+  const app = new Hono();
+
+  app.onError((err, c) => {
+    if (err instanceof FakeApiError) {
+      return c.json({ error: err.message }, err.status);
+    }
+    return c.json({ error: err instanceof Error ? err.message : String(err) }, 500);
+  });
+
+  // Every real endpoint needs a user (uk_) or agent (ak_) key
+  app.use('*', async (c, next) => {
+    if (!c.req.header('Authorization')) {
+      return c.json({ error: 'Missing Authorization header' }, 401);
+    }
+    await next();
+  });
+
+  // ===========================================================================
+  // Entities
+  // ===========================================================================
+
+  app.get('/entities', (c) => {
+    const limit = Number(c.req.query('limit') ?? 50);
+    const entities = store
+      .list({ type: c.req.query('type'), collection: c.req.query('collection') })
+      .slice(0, limit)
+      .map((e) => ({ id: e.id, type: e.type, label: e.properties.label }));
+    return c.json({ entities });
+  });
+
+  app.post('/entities', async (c) => {
+    const body = await c.req.json<CreateEntityBody>();
+    return c.json(store.create(body), 201);
+  });
+
+  app.get('/entities/:id', (c) => c.json(store.get(c.req.param('id'))));
+
+  app.get('/entities/:id/tip', (c) => c.json(store.tip(c.req.param('id'))));
+
+  app.put('/entities/:id', async (c) => {
+    const body = await c.req.json<UpdateEntityBody>();
+    return c.json(store.update(c.req.param('id'), body));
+  });
+
+  app.delete('/entities/:id', (c) => {
+    store.delete(c.req.param('id'));
+    return c.json({ deleted: true });
+  });
+
+  // ===========================================================================
+  // Collections
+  // ===========================================================================
+
+  app.post('/collections', async (c) => {
+    const body = await c.req.json<{ label?: string; description?: string }>();
+    return c.json(store.create({ type: 'collection', properties: body }), 201);
+  });
+
+  app.get('/collections/:id/entities', (c) => {
+    const collection = c.req.param('id');
+    store.get(collection);
+    const entities = store.list({ collection, type: c.req.query('type') });
+    return c.json({ entities });
+  });
+
+  // ===========================================================================
+  // Klados invocation
+  // ===========================================================================
+
+  app.post('/kladoi/:id/invoke', async (c) => {
+    const body = await c.req.json<InvokeKladosBody>();
+    return c.json(await handlers.invokeKlados(c.req.param('id'), body));
+  });
+
+  return app;
+}
@@ -0,0 +1,148 @@
+/**
+ * In-memory entity store with tip-based compare-and-swap
+ *
+ * Mirrors the subset of Arke entity semantics the workers rely on:
+ * every update produces a new tip, `expect_tip` mismatches are rejected,
+ * and relationships are edited with add/remove lists.
+ */
+
+import type {
+  CreateEntityBody,
+  FakeEntity,
+  FakeRelationship,
+  UpdateEntityBody,
+} from './types.js';
+
+/**
+ * Thrown for requests the real API would reject; `status` becomes the HTTP status
+ */
+export class FakeApiError extends Error {
+  constructor(
+    public readonly status: 404 | 409 | 400,
+    message: string
+  ) {
+    super(message);
+    this.name = 'FakeApiError';
+  }
+}
+
+export class EntityStore {
+  private entities = new Map<string, FakeEntity>();
+  private counter = 0;
+
+  /**
+   * Generate an ID shaped like Arke's 26-character IDs
+   */
+  nextId(prefix = 'FAKE'): string {
+    this.counter++;
+    return `${prefix}${String(this.counter).padStart(26 - prefix.length, '0')}`;
+  }
+
+  create(body: CreateEntityBody, id = this.nextId()): FakeEntity {
+    if (!body.type) {
+      throw new FakeApiError(400, 'type is required');
+    }
+    if (body.collection && !this.entities.has(body.collection)) {
+      throw new FakeApiError(404, `Collection not found: ${body.collection}`);
+    }
+
+    const now = new Date().toISOString();
+    const entity: FakeEntity = {
+      id,
+      type: body.type,
+      cid: tipFor(id, 1),
+      version: 1,
+      ...(body.collection && { collection: body.collection }),
+      properties: { ...body.properties },
+      relationships: [...(body.relationships ?? [])],
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.entities.set(id, entity);
+    return clone(entity);
+  }
+
+  get(id: string): FakeEntity {
+    return clone(this.require(id));
+  }
+
+  has(id: string): boolean {
+    return this.entities.has(id);
+  }
+
+  tip(id: string): { id: string; cid: string } {
+    return { id, cid: this.require(id).cid };
+  }
+
+  update(id: string, body: UpdateEntityBody): FakeEntity {
+    const entity = this.require(id);
+
+    if (body.expect_tip !== undefined && body.expect_tip !== entity.cid) {
+      throw new FakeApiError(
+        409,
+        `Tip mismatch for ${id}: expected ${body.expect_tip}, current ${entity.cid}`
+      );
+    }
+
+    const properties = { ...entity.properties, ...body.properties };
+    for (const key of body.properties_remove ?? []) {
+      delete properties[key];
+    }
+
+    let relationships = entity.relationships.filter(
+      (r) => !body.relationships_remove?.some((x) => x.predicate === r.predicate && x.peer === r.peer)
+    );
+    for (const rel of body.relationships_add ?? []) {
+      if (!relationships.some((r) => r.predicate === rel.predicate && r.peer === rel.peer)) {
+        relationships = [...relationships, rel];
+      }
+    }
+
+    entity.version++;
+    entity.cid = tipFor(id, entity.version);
+    entity.properties = properties;
+    entity.relationships = relationships;
+    entity.updated_at = new Date().toISOString();
+
+    return clone(entity);
+  }
+
+  delete(id: string): void {
+    this.require(id);
+    this.entities.delete(id);
+  }
+
+  /**
+   * List entities, optionally filtered by type and collection, in creation order
+   */
+  list(filter: { type?: string; collection?: string } = {}): FakeEntity[] {
+    return [...this.entities.values()]
+      .filter((e) => !filter.type || e.type === filter.type)
+      .filter((e) => !filter.collection || e.collection === filter.collection)
+      .map(clone);
+  }
+
+  /**
+   * Add a relationship without a tip check, like the API's fire-and-forget links
+   */
+  link(id: string, relationship: FakeRelationship): void {
+    this.update(id, { relationships_add: [relationship] });
+  }
+
+  private require(id: string): FakeEntity {
+    const entity = this.entities.get(id);
+    if (!entity) {
+      throw new FakeApiError(404, `Entity not found: ${id}`);
+    }
+    return entity;
+  }
+}
+
+function tipFor(id: string, version: number): string {
+  return `bafyfake${id.toLowerCase()}v${version}`;
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
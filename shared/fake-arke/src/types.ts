@@ -0,0 +1,110 @@
+/**
+ * Type definitions for the fake Arke API
+ */
+
+/**
+ * A relationship edge as stored on an entity
+ */
+export interface FakeRelationship {
+  predicate: string;
+  peer: string;
+  peer_type?: string;
+  peer_label?: string;
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * An entity as returned by GET /entities/{id}
+ */
+export interface FakeEntity {
+  id: string;
+  type: string;
+
+  /** Current tip, compared against `expect_tip` on PUT */
+  cid: string;
+
+  /** Incremented on every successful update */
+  version: number;
+
+  collection?: string;
+  properties: Record<string, unknown>;
+  relationships: FakeRelationship[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Body of POST /entities
+ */
+export interface CreateEntityBody {
+  type: string;
+  collection?: string;
+  properties?: Record<string, unknown>;
+  relationships?: FakeRelationship[];
+}
+
+/**
+ * Body of PUT /entities/{id}
+ */
+export interface UpdateEntityBody {
+  expect_tip?: string;
+  properties?: Record<string, unknown>;
+  properties_remove?: string[];
+  relationships_add?: FakeRelationship[];
+  relationships_remove?: Array<{ predicate: string; peer: string }>;
+}
+
+/**
+ * Body of POST /kladoi/{id}/invoke
+ */
+export interface InvokeKladosBody {
+  target_entity?: string;
+  target_entities?: string[];
+  target_collection: string;
+  job_collection?: string;
+  input?: Record<string, unknown>;
+  confirm?: boolean;
+}
+
+/**
+ * Response of POST /kladoi/{id}/invoke
+ */
+export interface InvokeResult {
+  status: 'started' | 'pending_confirmation';
+  job_id?: string;
+  job_collection?: string;
+}
+
+/**
+ * Minimal Workers execution context handed to worker apps
+ */
+export interface FakeExecutionContext {
+  waitUntil(promise: Promise<unknown>): void;
+  passThroughOnException(): void;
+}
+
+/**
+ * Anything with a Workers-style fetch handler, e.g. a Hono app
+ */
+export interface WorkerHandler {
+  fetch(
+    request: Request,
+    env: Record<string, unknown>,
+    ctx: FakeExecutionContext
+  ): Response | Promise<Response>;
+}
+
+/**
+ * A klados registered with the fake, backed by an in-process worker
+ */
+export interface FakeKladosRegistration {
+  /** Klados ID; generated when omitted */
+  id?: string;
+  label?: string;
+
+  /** The worker's default export (a Hono app) */
+  worker: WorkerHandler;
+
+  /** Extra worker env vars, merged over the generated AGENT_ID, ARKE_AGENT_KEY, ARKE_SIGNING_KEY and the fake's ARKE_API_BASE */
+  env?: Record<string, unknown>;
+}
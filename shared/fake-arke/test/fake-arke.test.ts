@@ -0,0 +1,242 @@
+/**
+ * Tests for the fake Arke API
+ *
+ * Exercises the HTTP surface through `install()` (patched fetch) and
+ * `listen()` (real socket), plus in-process klados dispatch.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import { MemoryNonceStore, parseKladosRequest, verifyRequest } from 'klados-runtime';
+import { createFakeArke, FAKE_USER_KEY, type FakeArke } from '../src';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function api<T>(
+  fake: FakeArke,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<{ status: number; data: T }> {
+  const res = await fetch(`${fake.baseUrl}${path}`, {
+    method,
+    headers: {
+      Authorization: `ApiKey ${FAKE_USER_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, data: (await res.json()) as T };
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('fake arke', () => {
+  let fake: FakeArke;
+  let restore: () => void;
+
+  beforeEach(() => {
+    fake = createFakeArke();
+    restore = fake.install();
+  });
+
+  afterEach(() => {
+    restore();
+  });
+
+  it('should create, fetch and delete entities', async () => {
+    const { data: collection } = await api<{ id: string }>(fake, 'POST', '/collections', {
+      label: 'Targets',
+    });
+    const { status, data: created } = await api<{ id: string; cid: string }>(fake, 'POST', '/entities', {
+      type: 'test_entity',
+      collection: collection.id,
+      properties: { title: 'Hello' },
+    });
+
+    expect(status).toBe(201);
+    expect(created.id).toHaveLength(26);
+
+    const { data: fetched } = await api<{ properties: Record<string, unknown> }>(
+      fake,
+      'GET',
+      `/entities/${created.id}`
+    );
+    expect(fetched.properties.title).toBe('Hello');
+
+    const { data: members } = await api<{ entities: Array<{ id: string }> }>(
+      fake,
+      'GET',
+      `/collections/${collection.id}/entities`
+    );
+    expect(members.entities.map((e) => e.id)).toEqual([created.id]);
+
+    await api(fake, 'DELETE', `/entities/${created.id}`);
+    const { status: missing } = await api(fake, 'GET', `/entities/${created.id}`);
+    expect(missing).toBe(404);
+  });
+
+  it('should reject updates with a stale tip', async () => {
+    const entity = fake.store.create({ type: 'test_entity', properties: { n: 1 } });
+    const { data: tip } = await api<{ cid: string }>(fake, 'GET', `/entities/${entity.id}/tip`);
+
+    const first = await api(fake, 'PUT', `/entities/${entity.id}`, {
+      expect_tip: tip.cid,
+      properties: { n: 2 },
+    });
+    const second = await api<{ error: string }>(fake, 'PUT', `/entities/${entity.id}`, {
+      expect_tip: tip.cid,
+      properties: { n: 3 },
+    });
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(409);
+    expect(second.data.error).toContain('Tip mismatch');
+    expect(fake.store.get(entity.id).properties.n).toBe(2);
+  });
+
+  it('should add and remove relationships', async () => {
+    const a = fake.store.create({ type: 'test_entity' });
+    const b = fake.store.create({ type: 'test_entity' });
+
+    await api(fake, 'PUT', `/entities/${a.id}`, {
+      relationships_add: [
+        { predicate: 'has_copy', peer: b.id },
+        { predicate: 'has_copy', peer: b.id },
+      ],
+    });
+    expect(fake.store.get(a.id).relationships).toEqual([{ predicate: 'has_copy', peer: b.id }]);
+
+    await api(fake, 'PUT', `/entities/${a.id}`, {
+      relationships_remove: [{ predicate: 'has_copy', peer: b.id }],
+    });
+    expect(fake.store.get(a.id).relationships).toEqual([]);
+  });
+
+  it('should require an Authorization header', async () => {
+    const res = await fetch(`${fake.baseUrl}/entities`);
+    expect(res.status).toBe(401);
+  });
+
+  it('should intercept the real API origin', async () => {
+    const res = await fetch('https://arke-v1.arke.institute/entities?type=klados', {
+      headers: { Authorization: `ApiKey ${FAKE_USER_KEY}` },
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it('should dispatch klados invocations to the worker app', async () => {
+    const received: Array<Record<string, unknown>> = [];
+    const worker = new Hono<{ Bindings: Record<string, unknown> }>();
+    worker.post('/process', async (c) => {
+      const req = await c.req.json<Record<string, unknown>>();
+      received.push({ ...req, agent: c.env.AGENT_ID, agent_api_base: c.env.ARKE_API_BASE });
+      c.executionCtx.waitUntil(
+        fetch(`${req.api_base}/entities`, {
+          method: 'POST',
+          headers: { Authorization: `ApiKey ${c.env.ARKE_AGENT_KEY}` },
+          body: JSON.stringify({ type: 'klados_log', collection: req.job_collection }),
+        })
+      );
+      return c.json({ accepted: true });
+    });
+
+    const kladosId = fake.registerKlados({ label: 'Echo', worker });
+    const target = fake.store.create({ type: 'collection' });
+
+    const preview = await api<{ status: string }>(fake, 'POST', `/kladoi/${kladosId}/invoke`, {
+      target_entity: target.id,
+      target_collection: target.id,
+    });
+    expect(preview.data.status).toBe('pending_confirmation');
+
+    const { data: result } = await api<{ status: string; job_id: string; job_collection: string }>(
+      fake,
+      'POST',
+      `/kladoi/${kladosId}/invoke`,
+      { target_entity: target.id, target_collection: target.id, confirm: true }
+    );
+    await fake.idle();
+
+    expect(result.status).toBe('started');
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      job_id: result.job_id,
+      job_collection: result.job_collection,
+      target_entity: target.id,
+      api_base: fake.baseUrl,
+      agent: kladosId,
+      agent_api_base: fake.baseUrl,
+    });
+    expect(fake.logs(result.job_collection)).toHaveLength(1);
+    expect(fake.backgroundErrors).toEqual([]);
+  });
+
+  it('should sign dispatched requests with the key it gives workers', async () => {
+    const worker = new Hono<{ Bindings: Record<string, unknown> }>();
+    const nonces = new MemoryNonceStore();
+    worker.post('/process', async (c) => {
+      const verified = await verifyRequest(c.req.raw, {
+        publicKey: c.env.ARKE_SIGNING_KEY as string,
+        nonces,
+      });
+      return c.json(verified, verified.ok ? 200 : verified.status);
+    });
+    const kladosId = fake.registerKlados({ label: 'Verifier', worker });
+
+    const response = await fake.dispatch(kladosId, { job_id: 'job_signed' });
+    expect(await response.json()).toEqual({ ok: true, body: JSON.stringify({ job_id: 'job_signed' }) });
+    expect(await fake.signingPublicKey()).toMatch(/^[A-Za-z0-9+/]{43}=$/);
+
+    const other = fake.registerKlados({
+      label: 'Other key',
+      worker,
+      env: { ARKE_SIGNING_KEY: btoa('x'.repeat(32)) },
+    });
+    expect((await fake.dispatch(other, { job_id: 'job_signed' })).status).toBe(401);
+  });
+
+  it('should send requests that satisfy the KladosRequest contract', async () => {
+    const parsed: unknown[] = [];
+    const worker = new Hono();
+    worker.post('/process', async (c) => {
+      parsed.push(parseKladosRequest(await c.req.text()));
+      return c.json({ accepted: true });
+    });
+    const kladosId = fake.registerKlados({ label: 'Contract', worker });
+    const collection = fake.store.create({ type: 'collection' });
+    const [a, b] = [1, 2].map(() => fake.store.create({ type: 'test_entity' }).id);
+
+    for (const targets of [{ target_entity: a }, { target_entities: [a, b] }]) {
+      await fake.invokeKlados(kladosId, { ...targets, target_collection: collection.id, confirm: true });
+    }
+
+    expect(parsed).toMatchObject([
+      { ok: true, request: { target_entity: a } },
+      { ok: true, request: { target_entities: [a, b] } },
+    ]);
+  });
+});
+
+describe('fake arke over http', () => {
+  it('should serve the API on a local port', async () => {
+    const fake = createFakeArke();
+    const server = await fake.listen();
+
+    try {
+      expect(fake.baseUrl).toBe(server.url);
+      const { status, data } = await api<{ id: string }>(fake, 'POST', '/entities', {
+        type: 'test_entity',
+        properties: { title: 'Over HTTP' },
+      });
+      expect(status).toBe(201);
+      expect(fake.store.get(data.id).properties.title).toBe('Over HTTP');
+    } finally {
+      await server.close();
+    }
+  });
+});
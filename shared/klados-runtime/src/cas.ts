@@ -0,0 +1,147 @@
+/**
+ * Compare-and-swap retry helper
+ *
+ * Arke entity updates are guarded by `expect_tip`: a PUT only succeeds if the
+ * entity's tip still matches the one the caller read. When two workflow
+ * branches update the same entity concurrently (e.g. nested scatters
+ * converging on one target), the loser gets a tip conflict and has to
+ * re-read, re-merge and try again.
+ *
+ * The helper owns the retry loop only. Callers supply `read` (fetch the tip
+ * and current value) and `write` (merge against that value and PUT with
+ * `expect_tip`), so it stays independent of any particular entity shape.
+ */
+
+/**
+ * The tip and value a write is based on
+ */
+export interface CasSnapshot<T> {
+  /** Entity tip CID, sent as `expect_tip` */
+  tip: string;
+
+  /** Current value the write merges against */
+  value: T;
+}
+
+/**
+ * Outcome of a single write attempt
+ */
+export type CasWriteResult =
+  | { ok: true }
+  | { ok: false; conflict: boolean; error: unknown };
+
+/**
+ * Read/write pair for one compare-and-swap update
+ */
+export interface CasOperation<T> {
+  /** Fetch the current tip and value */
+  read: () => Promise<CasSnapshot<T>>;
+
+  /** Attempt the update against a snapshot */
+  write: (snapshot: CasSnapshot<T>) => Promise<CasWriteResult>;
+}
+
+/**
+ * Retry tuning for updateWithCas
+ */
+export interface CasRetryOptions {
+  /** Total attempts including the first (default: 5) */
+  maxAttempts?: number;
+
+  /** Backoff base delay in ms, doubled per attempt (default: 100) */
+  baseDelayMs?: number;
+
+  /** Upper bound on a single backoff delay in ms (default: 2000) */
+  maxDelayMs?: number;
+
+  /** Called before sleeping after a conflict */
+  onConflict?: (info: { attempt: number; delayMs: number }) => void;
+
+  /** Random source for jitter, injectable for tests (default: Math.random) */
+  random?: () => number;
+
+  /** Sleep implementation, injectable for tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Result of a successful compare-and-swap update
+ */
+export interface CasUpdateResult<T> {
+  /** The snapshot the successful write was based on */
+  snapshot: CasSnapshot<T>;
+
+  /** Number of attempts it took (1 = no conflict) */
+  attempts: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 100;
+const DEFAULT_MAX_DELAY_MS = 2000;
+
+/**
+ * Whether an HTTP status indicates a tip mismatch
+ */
+export function isCasConflict(status: number | undefined): boolean {
+  return status === 409 || status === 412;
+}
+
+/**
+ * Backoff delay before the next attempt, using "full jitter":
+ * a random delay between 0 and the capped exponential bound.
+ */
+export function casBackoffDelay(
+  attempt: number,
+  options: Pick<CasRetryOptions, 'baseDelayMs' | 'maxDelayMs' | 'random'> = {}
+): number {
+  const base = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const max = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const random = options.random ?? Math.random;
+
+  const bound = Math.min(max, base * 2 ** (attempt - 1));
+  return Math.floor(random() * bound);
+}
+
+/**
+ * Run a compare-and-swap update, retrying on tip conflicts
+ *
+ * Each attempt re-reads the snapshot, so the write always merges against
+ * the latest value. Non-conflict errors are not retried.
+ *
+ * @throws Error when the write fails for a non-conflict reason, or when
+ *   every attempt conflicted
+ */
+export async function updateWithCas<T>(
+  operation: CasOperation<T>,
+  options: CasRetryOptions = {}
+): Promise<CasUpdateResult<T>> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const sleep = options.sleep ?? defaultSleep;
+
+  for (let attempt = 1; ; attempt++) {
+    const snapshot = await operation.read();
+    const result = await operation.write(snapshot);
+
+    if (result.ok) {
+      return { snapshot, attempts: attempt };
+    }
+
+    if (!result.conflict) {
+      throw new Error(`CAS update failed: ${JSON.stringify(result.error)}`);
+    }
+
+    if (attempt >= maxAttempts) {
+      throw new Error(
+        `CAS update failed after ${attempt} attempts (tip conflict): ${JSON.stringify(result.error)}`
+      );
+    }
+
+    const delayMs = casBackoffDelay(attempt, options);
+    options.onConflict?.({ attempt, delayMs });
+    await sleep(delayMs);
+  }
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,232 @@
+/**
+ * Route conditions
+ *
+ * The one condition language for per-item routing: rhiza-tools evaluates it
+ * for the `where` of route rules, and the scatter worker for the `cases` of
+ * its routing rules. A condition is either a comparison on one property,
+ * where every operator given must hold:
+ *
+ *   { "property": "pages", "gte": 10, "lt": 100 }
+ *
+ * or a composition of conditions:
+ *
+ *   { "and": [...] }, { "or": [...] }, { "not": {...} }
+ *
+ * A property is a dotted path, so `meta.kind` reads a nested value.
+ * Comparisons only match values of the right type: `gt`/`gte`/`lt`/`lte`
+ * numbers, `matches` strings. A missing property only matches `not_equals`
+ * and `exists: false`.
+ */
+
+/** A value a condition compares properties to */
+export type RouteValue = string | number | boolean | null;
+
+/**
+ * A comparison on one property; every operator given must hold
+ */
+export interface PropertyCondition {
+  /** Property path, e.g. "entity_class" or "meta.kind" */
+  property: string;
+  equals?: RouteValue;
+  not_equals?: RouteValue;
+  in?: RouteValue[];
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+
+  /** Whether the property is set at all */
+  exists?: boolean;
+
+  /** Regular expression tested against string values */
+  matches?: string;
+}
+
+/**
+ * A route condition: a property comparison or a composition of conditions
+ */
+export type RouteCondition =
+  | PropertyCondition
+  | { and: RouteCondition[] }
+  | { or: RouteCondition[] }
+  | { not: RouteCondition };
+
+/** Operators a property condition may use */
+export const CONDITION_OPERATORS = ['equals', 'not_equals', 'in', 'gt', 'gte', 'lt', 'lte', 'exists', 'matches'] as const;
+
+type Operator = (typeof CONDITION_OPERATORS)[number];
+
+const COMPOSITE_KEYS = ['and', 'or', 'not'] as const;
+
+const NUMERIC_OPERATORS: Record<string, string> = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRouteValue(value: unknown): value is RouteValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function operatorsOf(condition: PropertyCondition): Operator[] {
+  return CONDITION_OPERATORS.filter((op) => op in condition);
+}
+
+/**
+ * Read a property by dotted path, e.g. `meta.kind`
+ */
+export function readPath(properties: Record<string, unknown>, path: string): unknown {
+  let value: unknown = properties;
+  for (const key of path.split('.')) {
+    if (!isObject(value)) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Whether an item's properties satisfy a condition
+ */
+export function matchesCondition(where: RouteCondition, properties: Record<string, unknown> = {}): boolean {
+  if ('and' in where) return where.and.every((c) => matchesCondition(c, properties));
+  if ('or' in where) return where.or.some((c) => matchesCondition(c, properties));
+  if ('not' in where) return !matchesCondition(where.not, properties);
+
+  const value = readPath(properties, where.property);
+  return operatorsOf(where).every((op) => {
+    switch (op) {
+      case 'equals':
+        return value === where.equals;
+      case 'not_equals':
+        return value !== where.not_equals;
+      case 'in':
+        return where.in!.includes(value as RouteValue);
+      case 'exists':
+        return (value !== undefined) === where.exists;
+      case 'matches':
+        return typeof value === 'string' && new RegExp(where.matches!).test(value);
+      default: {
+        const bound = where[op]!;
+        if (typeof value !== 'number') return false;
+        return op === 'gt' ? value > bound : op === 'gte' ? value >= bound : op === 'lt' ? value < bound : value <= bound;
+      }
+    }
+  });
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Check a raw condition, returning a message for every problem found
+ *
+ * @param path - Where the condition sits, e.g. `route[0].where`
+ */
+export function conditionIssues(where: unknown, path: string): string[] {
+  const issues: string[] = [];
+
+  const check = (condition: unknown, at: string) => {
+    if (!isObject(condition)) {
+      issues.push(`${at} must be an object`);
+      return;
+    }
+
+    const composite = COMPOSITE_KEYS.filter((key) => key in condition);
+    if (composite.length > 0) {
+      const [key] = composite;
+      if (Object.keys(condition).length > 1) {
+        issues.push(`${at} must have "${key}" as its only key`);
+        return;
+      }
+      if (key === 'not') {
+        check(condition.not, `${at}.not`);
+      } else if (!Array.isArray(condition[key]) || (condition[key] as unknown[]).length === 0) {
+        issues.push(`${at}.${key} must be a non-empty array of conditions`);
+      } else {
+        (condition[key] as unknown[]).forEach((c, i) => check(c, `${at}.${key}[${i}]`));
+      }
+      return;
+    }
+
+    if (typeof condition.property !== 'string' || condition.property.length === 0) {
+      issues.push(`${at}.property must be a non-empty string`);
+    }
+
+    const operators = Object.keys(condition).filter((key) => key !== 'property');
+    if (operators.length === 0) {
+      issues.push(`${at} must have one of ${CONDITION_OPERATORS.join(', ')}`);
+    }
+
+    for (const op of operators) {
+      const value = condition[op];
+      if (!(CONDITION_OPERATORS as readonly string[]).includes(op)) {
+        issues.push(`${at} has unknown key "${op}"`);
+      } else if (op === 'equals' || op === 'not_equals') {
+        if (!isRouteValue(value)) issues.push(`${at}.${op} must be a string, number, boolean or null`);
+      } else if (op === 'in') {
+        if (!Array.isArray(value) || value.length === 0 || !value.every(isRouteValue)) {
+          issues.push(`${at}.in must be a non-empty array of strings, numbers, booleans or null`);
+        }
+      } else if (op === 'exists') {
+        if (typeof value !== 'boolean') issues.push(`${at}.exists must be true or false`);
+      } else if (op === 'matches') {
+        if (typeof value !== 'string') {
+          issues.push(`${at}.matches must be a regular expression string`);
+        } else {
+          try {
+            new RegExp(value);
+          } catch (error) {
+            issues.push(`${at}.matches is not a valid regular expression: ${(error as Error).message}`);
+          }
+        }
+      } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(`${at}.${op} must be a number`);
+      }
+    }
+  };
+
+  check(where, path);
+  return issues;
+}
+
+// =============================================================================
+// Description
+// =============================================================================
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Human-readable description of a route condition, e.g. `pages >= 10 and pages < 100`
+ */
+export function describeCondition(where: RouteCondition): string {
+  const nested = (c: RouteCondition) => ('and' in c || 'or' in c ? `(${describeCondition(c)})` : describeCondition(c));
+
+  if ('and' in where) return where.and.map(nested).join(' and ');
+  if ('or' in where) return where.or.map(nested).join(' or ');
+  if ('not' in where) return `not ${'property' in where.not ? `(${describeCondition(where.not)})` : nested(where.not)}`;
+
+  const parts = operatorsOf(where).map((op) => {
+    switch (op) {
+      case 'equals':
+        return `${where.property} = ${formatValue(where.equals)}`;
+      case 'not_equals':
+        return `${where.property} != ${formatValue(where.not_equals)}`;
+      case 'in':
+        return `${where.property} in [${where.in!.map(formatValue).join(', ')}]`;
+      case 'exists':
+        return where.exists ? `${where.property} exists` : `${where.property} missing`;
+      case 'matches':
+        return `${where.property} ~ /${where.matches}/`;
+      default:
+        return `${where.property} ${NUMERIC_OPERATORS[op]} ${where[op]}`;
+    }
+  });
+  return parts.join(' and ');
+}
@@ -0,0 +1,132 @@
+/**
+ * Deep health checks
+ *
+ * A plain `GET /health` only shows the worker is deployed. A worker with a
+ * missing or revoked agent key, or an AGENT_ID pointing at the wrong entity,
+ * still answers it, and only fails once a job arrives. deepHealth checks
+ * what a job needs before one does:
+ * - secrets: the required env vars are set
+ * - agent_key: the agent key authenticates against the Arke API
+ * - agent_id: AGENT_ID is a klados the key can read
+ */
+
+/** API the agent key is checked against when ARKE_API_BASE is not set */
+export const DEFAULT_API_BASE = 'https://arke-v1.arke.institute';
+
+/** Env vars a worker can't run jobs without, all set by `arke klados register` */
+export const REQUIRED_SECRETS = ['AGENT_ID', 'AGENT_VERSION', 'ARKE_AGENT_KEY'];
+
+/**
+ * The worker env vars deepHealth reads
+ */
+export interface HealthEnv {
+  AGENT_ID?: string;
+  AGENT_VERSION?: string;
+  ARKE_AGENT_KEY?: string;
+
+  /** API the agent key is checked against (default: DEFAULT_API_BASE) */
+  ARKE_API_BASE?: string;
+
+  /** Commit the worker was built from, set as a deploy var */
+  BUILD_COMMIT?: string;
+
+  /** When the worker was deployed, set as a deploy var */
+  BUILD_TIME?: string;
+}
+
+export interface HealthCheck {
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * Response body of `GET /health?deep=1`
+ */
+export interface HealthReport {
+  status: 'ok' | 'failing';
+  agent_id?: string;
+  version?: string;
+  build: { commit?: string; deployed_at?: string };
+  checks: {
+    secrets: HealthCheck;
+    agent_key: HealthCheck;
+    agent_id: HealthCheck;
+  };
+}
+
+export interface HealthOptions {
+  /** Request timeout for the API check in ms (default: 5000) */
+  timeoutMs?: number;
+
+  /** Fetch implementation, injectable for tests (default: globalThis.fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Whether a `deep` query value asks for the deep check
+ */
+export function isDeepHealthQuery(value: string | undefined): boolean {
+  return value === '1' || value === 'true';
+}
+
+/**
+ * Run every check and report the worker's version and build
+ */
+export async function deepHealth(env: HealthEnv, options: HealthOptions = {}): Promise<HealthReport> {
+  const missing = REQUIRED_SECRETS.filter((name) => !env[name as keyof HealthEnv]);
+  const secrets: HealthCheck =
+    missing.length === 0
+      ? { ok: true, message: 'All required secrets are set' }
+      : { ok: false, message: `Missing ${missing.join(', ')}` };
+
+  let agentKey: HealthCheck;
+  let agentId: HealthCheck;
+
+  if (!env.ARKE_AGENT_KEY || !env.AGENT_ID) {
+    agentKey = { ok: false, message: 'Not checked: ARKE_AGENT_KEY and AGENT_ID are both needed' };
+    agentId = { ok: false, message: 'Not checked: ARKE_AGENT_KEY and AGENT_ID are both needed' };
+  } else {
+    const apiBase = env.ARKE_API_BASE || DEFAULT_API_BASE;
+    const doFetch = options.fetch ?? fetch;
+
+    try {
+      const res = await doFetch(`${apiBase}/entities/${encodeURIComponent(env.AGENT_ID)}`, {
+        headers: { Authorization: `ApiKey ${env.ARKE_AGENT_KEY}` },
+        signal: AbortSignal.timeout(options.timeoutMs ?? 5000),
+      });
+
+      if (res.status === 401 || res.status === 403) {
+        agentKey = { ok: false, message: `Agent key was rejected by ${apiBase} (${res.status})` };
+        agentId = { ok: false, message: 'Not checked: the agent key was rejected' };
+      } else if (res.status === 404) {
+        agentKey = { ok: true, message: 'Agent key authenticates' };
+        agentId = { ok: false, message: `AGENT_ID ${env.AGENT_ID} was not found` };
+      } else if (!res.ok) {
+        agentKey = { ok: false, message: `${apiBase} answered ${res.status}` };
+        agentId = { ok: false, message: 'Not checked: the API request failed' };
+      } else {
+        const entity = (await res.json()) as { type?: string };
+        agentKey = { ok: true, message: 'Agent key authenticates' };
+        agentId =
+          entity.type === 'klados'
+            ? { ok: true, message: `AGENT_ID ${env.AGENT_ID} is a registered klados` }
+            : { ok: false, message: `AGENT_ID ${env.AGENT_ID} is a ${entity.type ?? 'unknown entity'}, not a klados` };
+      }
+    } catch (error) {
+      agentKey = {
+        ok: false,
+        message: `Could not reach ${apiBase}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+      agentId = { ok: false, message: 'Not checked: the API could not be reached' };
+    }
+  }
+
+  const checks = { secrets, agent_key: agentKey, agent_id: agentId };
+  return {
+    status: Object.values(checks).every((check) => check.ok) ? 'ok' : 'failing',
+    agent_id: env.AGENT_ID,
+    version: env.AGENT_VERSION,
+    build: { commit: env.BUILD_COMMIT, deployed_at: env.BUILD_TIME },
+    checks,
+  };
+}
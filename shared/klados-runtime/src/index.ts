@@ -0,0 +1,70 @@
+/**
+ * Shared runtime helpers for the example klados workers
+ */
+
+export {
+  updateWithCas,
+  isCasConflict,
+  casBackoffDelay,
+  type CasSnapshot,
+  type CasWriteResult,
+  type CasOperation,
+  type CasRetryOptions,
+  type CasUpdateResult,
+} from './cas.js';
+
+export {
+  runPool,
+  isRetryableStatus,
+  retryAfterMs,
+  type PoolAttemptResult,
+  type PoolItemResult,
+  type PoolOptions,
+  type PoolRunResult,
+} from './pool.js';
+
+export {
+  verifyRequest,
+  signRequest,
+  signaturePayload,
+  generateSigningKeyPair,
+  MemoryNonceStore,
+  TIMESTAMP_HEADER,
+  NONCE_HEADER,
+  SIGNATURE_HEADER,
+  DEFAULT_TOLERANCE_SECONDS,
+  type NonceStore,
+  type SignatureFailure,
+  type SignatureResult,
+  type SigningKeyPair,
+  type VerifyOptions,
+} from './signature.js';
+
+export {
+  parseKladosRequest,
+  kladosRequestIssues,
+  type RequestIssue,
+  type RequestParseResult,
+} from './request.js';
+
+export {
+  deepHealth,
+  isDeepHealthQuery,
+  DEFAULT_API_BASE,
+  REQUIRED_SECRETS,
+  type HealthCheck,
+  type HealthEnv,
+  type HealthOptions,
+  type HealthReport,
+} from './health.js';
+
+export {
+  matchesCondition,
+  conditionIssues,
+  describeCondition,
+  readPath,
+  CONDITION_OPERATORS,
+  type PropertyCondition,
+  type RouteCondition,
+  type RouteValue,
+} from './conditions.js';
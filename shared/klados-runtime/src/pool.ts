@@ -0,0 +1,256 @@
+/**
+ * Adaptive concurrency pool
+ *
+ * Workers that fan out API calls (creating copies, fetching items) used to
+ * run them in fixed `Promise.all` batches: one slow request stalled the
+ * whole batch and one failure rejected it. The pool instead keeps a sliding
+ * window of requests in flight, starting the next item as soon as any
+ * finishes.
+ *
+ * The window adapts: it grows by one after a full window of successes and
+ * halves when the API answers 429 or 5xx, between `minConcurrency` and the
+ * `maxConcurrency` cap. Rate-limited and failed items, and tasks that throw
+ * (a dropped connection, a DNS failure), are retried on their own with
+ * jittered exponential backoff, waiting at least as long as the API's
+ * `Retry-After` asks (up to `maxRetryAfterMs`, past which the item fails),
+ * without holding a slot while they wait. Failures are
+ * reported per item rather than thrown, so callers decide what a partial
+ * result means.
+ */
+
+import { casBackoffDelay } from './cas.js';
+
+/**
+ * Outcome of one attempt at an item, in the shape of an openapi-fetch call
+ */
+export type PoolAttemptResult<R> =
+  | { ok: true; value: R }
+  | {
+      ok: false;
+      /** HTTP status, used to decide whether to retry and back off */
+      status?: number;
+      error: unknown;
+      /** Override the status-based retry decision */
+      retryable?: boolean;
+      /** Minimum wait before retrying, from the response's Retry-After (see retryAfterMs) */
+      retryAfterMs?: number;
+    };
+
+/**
+ * Final outcome of one item
+ */
+export type PoolItemResult<R> =
+  | { ok: true; value: R; attempts: number }
+  | { ok: false; error: unknown; status?: number; attempts: number };
+
+/**
+ * Tuning for runPool
+ */
+export interface PoolOptions {
+  /** Upper bound on requests in flight (default: 20) */
+  maxConcurrency?: number;
+
+  /** Lower bound the window shrinks to under pressure (default: 1) */
+  minConcurrency?: number;
+
+  /** Window size to start with (default: 4, capped at maxConcurrency) */
+  initialConcurrency?: number;
+
+  /** Total attempts per item including the first (default: 4) */
+  maxAttempts?: number;
+
+  /** Backoff base delay in ms, doubled per attempt (default: 200) */
+  baseDelayMs?: number;
+
+  /** Upper bound on a single backoff delay in ms (default: 5000) */
+  maxDelayMs?: number;
+
+  /** Longest Retry-After wait in ms; an item asked to wait longer fails instead (default: 30000) */
+  maxRetryAfterMs?: number;
+
+  /** Called before an item is retried */
+  onRetry?: (info: { index: number; attempt: number; delayMs: number; status?: number }) => void;
+
+  /** Called when the window grows or shrinks */
+  onConcurrencyChange?: (info: { from: number; to: number }) => void;
+
+  /** Random source for jitter, injectable for tests (default: Math.random) */
+  random?: () => number;
+
+  /** Sleep implementation, injectable for tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Result of a pool run
+ */
+export interface PoolRunResult<R> {
+  /** One result per item, in input order */
+  results: PoolItemResult<R>[];
+
+  /** Number of items that failed after every attempt */
+  failed: number;
+
+  /** Largest number of requests that were in flight at once */
+  peakConcurrency: number;
+}
+
+const DEFAULT_MAX_CONCURRENCY = 20;
+const DEFAULT_MIN_CONCURRENCY = 1;
+const DEFAULT_INITIAL_CONCURRENCY = 4;
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BASE_DELAY_MS = 200;
+const DEFAULT_MAX_DELAY_MS = 5000;
+const DEFAULT_MAX_RETRY_AFTER_MS = 30_000;
+
+/**
+ * Whether an HTTP status means the API is overloaded or failing transiently
+ */
+export function isRetryableStatus(status: number | undefined): boolean {
+  return status === 429 || (status !== undefined && status >= 500);
+}
+
+/**
+ * Parse a Retry-After header into a delay in ms
+ *
+ * Accepts both forms the header allows, delay seconds and an HTTP date.
+ *
+ * @returns The delay, or undefined when the header is missing or unreadable
+ */
+export function retryAfterMs(header: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Run a task over every item with an adaptive sliding window
+ *
+ * A task that throws is treated as a transient failure and retried like a
+ * 5xx, without shrinking the window; the rest of the items still run.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  task: (item: T, index: number) => Promise<PoolAttemptResult<R>>,
+  options: PoolOptions = {}
+): Promise<PoolRunResult<R>> {
+  const maxConcurrency = Math.max(1, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+  const minConcurrency = Math.min(maxConcurrency, options.minConcurrency ?? DEFAULT_MIN_CONCURRENCY);
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const maxRetryAfterMs = options.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS;
+  const sleep = options.sleep ?? defaultSleep;
+  const backoff = {
+    baseDelayMs: options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    random: options.random,
+  };
+
+  const results: PoolItemResult<R>[] = new Array(items.length);
+  const attempts: number[] = new Array(items.length).fill(0);
+  const ready = items.map((_, index) => index);
+
+  let limit = clamp(options.initialConcurrency ?? DEFAULT_INITIAL_CONCURRENCY, minConcurrency, maxConcurrency);
+  let active = 0;
+  let backingOff = 0;
+  let successesAtLimit = 0;
+  let peakConcurrency = 0;
+
+  const resize = (to: number) => {
+    if (to === limit) return;
+    options.onConcurrencyChange?.({ from: limit, to });
+    limit = to;
+    successesAtLimit = 0;
+  };
+
+  return new Promise((resolve) => {
+    const pump = () => {
+      while (active < limit && ready.length > 0) {
+        const index = ready.shift()!;
+        active++;
+        peakConcurrency = Math.max(peakConcurrency, active);
+        void attempt(index);
+      }
+
+      if (active === 0 && backingOff === 0 && ready.length === 0) {
+        resolve({
+          results,
+          failed: results.filter((r) => !r.ok).length,
+          peakConcurrency,
+        });
+      }
+    };
+
+    const attempt = async (index: number) => {
+      attempts[index]++;
+
+      let result: PoolAttemptResult<R>;
+      try {
+        result = await task(items[index], index);
+      } catch (error) {
+        // Network errors throw rather than answer with a status
+        result = { ok: false, error, retryable: true };
+      }
+
+      active--;
+
+      if (result.ok) {
+        results[index] = { ok: true, value: result.value, attempts: attempts[index] };
+        // Additive increase: one more slot after a full window of successes
+        if (++successesAtLimit >= limit && limit < maxConcurrency) {
+          resize(limit + 1);
+        }
+        pump();
+        return;
+      }
+
+      const pressure = isRetryableStatus(result.status);
+      const retryable = result.retryable ?? pressure;
+
+      // Multiplicative decrease when the API pushes back
+      if (pressure) {
+        resize(Math.max(minConcurrency, Math.floor(limit / 2)));
+      }
+
+      // A wait past the cap would outlast the invocation, so give up on the item
+      const tooLong = (result.retryAfterMs ?? 0) > maxRetryAfterMs;
+
+      if (!retryable || tooLong || attempts[index] >= maxAttempts) {
+        results[index] = {
+          ok: false,
+          error: result.error,
+          status: result.status,
+          attempts: attempts[index],
+        };
+        pump();
+        return;
+      }
+
+      const delayMs = Math.max(casBackoffDelay(attempts[index], backoff), result.retryAfterMs ?? 0);
+      options.onRetry?.({ index, attempt: attempts[index], delayMs, status: result.status });
+
+      // Wait without holding a slot, then requeue ahead of untried items
+      backingOff++;
+      pump();
+      await sleep(delayMs);
+      backingOff--;
+      ready.unshift(index);
+      pump();
+    };
+
+    pump();
+  });
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
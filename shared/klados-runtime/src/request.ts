@@ -0,0 +1,152 @@
+/**
+ * KladosRequest validation
+ *
+ * `c.req.json<KladosRequest>()` only casts: a body missing `job_id` or with
+ * a malformed `target_entities` reaches KladosJob and fails later inside
+ * `waitUntil`, where the caller never sees why. parseKladosRequest checks
+ * the body at the `/process` boundary instead, so a bad request gets a 400
+ * listing every field problem and no job is started.
+ *
+ * A request targets one entity (`target_entity`) or several
+ * (`target_entities`, for kladoi that accept many). Only the fields the rhiza
+ * `KladosRequest` type requires are required here; `api_base`, `network` and
+ * `expires_at` are optional there, so they are only checked when sent.
+ * Fields not checked here are passed through, so newer API fields don't
+ * break older workers.
+ */
+
+/**
+ * One problem with a request field
+ */
+export interface RequestIssue {
+  /** Dotted path to the field, e.g. `rhiza.path[1]`; empty for the body itself */
+  field: string;
+  message: string;
+}
+
+/**
+ * Outcome of parsing a request body
+ */
+export type RequestParseResult<T> =
+  | { ok: true; request: T }
+  | { ok: false; status: 400; reason: 'invalid_request'; message: string; issues: RequestIssue[] };
+
+const NETWORKS = ['test', 'main'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Every problem with a KladosRequest body, in field order
+ */
+export function kladosRequestIssues(body: unknown): RequestIssue[] {
+  if (!isObject(body)) {
+    return [{ field: '', message: 'must be a JSON object' }];
+  }
+
+  const issues: RequestIssue[] = [];
+  const issue = (field: string, message: string) => issues.push({ field, message });
+
+  for (const field of ['job_id', 'target_collection', 'job_collection']) {
+    if (!isNonEmptyString(body[field])) issue(field, 'must be a non-empty string');
+  }
+
+  // Targets: one entity, or a list for kladoi that accept many
+  const { target_entity: entity, target_entities: entities } = body;
+  if (entity !== undefined && !isNonEmptyString(entity)) {
+    issue('target_entity', 'must be a non-empty string');
+  }
+  if (entities !== undefined) {
+    if (!Array.isArray(entities)) {
+      issue('target_entities', 'must be an array of entity IDs');
+    } else {
+      entities.forEach((id, i) => {
+        if (!isNonEmptyString(id)) issue(`target_entities[${i}]`, 'must be a non-empty string');
+      });
+    }
+  }
+  if (entity === undefined && (!Array.isArray(entities) || entities.length === 0)) {
+    issue('target_entity', 'is required unless target_entities lists at least one entity');
+  }
+
+  if (body.api_base !== undefined && (!isNonEmptyString(body.api_base) || !isUrl(body.api_base))) {
+    issue('api_base', 'must be an absolute URL');
+  }
+  if (body.network !== undefined && !NETWORKS.includes(body.network as string)) {
+    issue('network', `must be one of ${NETWORKS.join(', ')}`);
+  }
+  if (
+    body.expires_at !== undefined &&
+    (!isNonEmptyString(body.expires_at) || Number.isNaN(Date.parse(body.expires_at)))
+  ) {
+    issue('expires_at', 'must be an ISO 8601 timestamp');
+  }
+
+  if (body.input !== undefined && !isObject(body.input)) {
+    issue('input', 'must be an object');
+  }
+
+  if (body.rhiza !== undefined) {
+    if (!isObject(body.rhiza)) {
+      issue('rhiza', 'must be an object');
+    } else {
+      const { id, path, parent_logs: parentLogs } = body.rhiza;
+      if (!isNonEmptyString(id)) issue('rhiza.id', 'must be a non-empty string');
+      for (const [field, list] of [['path', path], ['parent_logs', parentLogs]] as const) {
+        if (list === undefined) continue;
+        if (!Array.isArray(list)) {
+          issue(`rhiza.${field}`, 'must be an array of strings');
+          continue;
+        }
+        list.forEach((item, i) => {
+          if (!isNonEmptyString(item)) issue(`rhiza.${field}[${i}]`, 'must be a non-empty string');
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Parse and validate a `/process` request body
+ *
+ * @typeParam T - The request type callers work with, usually
+ *   `KladosRequest` from @arke-institute/rhiza
+ */
+export function parseKladosRequest<T = Record<string, unknown>>(body: string): RequestParseResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return invalid([{ field: '', message: 'is not valid JSON' }]);
+  }
+
+  const issues = kladosRequestIssues(parsed);
+  return issues.length > 0 ? invalid(issues) : { ok: true, request: parsed as T };
+}
+
+function invalid(issues: RequestIssue[]): RequestParseResult<never> {
+  const problems = issues.map(({ field, message }) => (field ? `${field} ${message}` : `Body ${message}`));
+  return {
+    ok: false,
+    status: 400,
+    reason: 'invalid_request',
+    message: `Invalid KladosRequest: ${problems.join('; ')}`,
+    issues,
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Request signature verification
+ *
+ * Anyone who knows a worker's URL can POST to its `/process` route, and the
+ * worker answers by running a job with its agent key. Arke signs every
+ * request it sends a klados, so workers can reject the rest:
+ *
+ *   X-Arke-Timestamp: 1767225600
+ *   X-Arke-Nonce:     5f0c6a1e9d2b4c7f
+ *   X-Arke-Signature: <base64 Ed25519 signature>
+ *
+ * The signature covers the timestamp, nonce, method, path and raw body (see
+ * signaturePayload), so none of them can be changed or replayed against a
+ * different route. Timestamps outside the tolerance window are rejected, and
+ * a nonce is only accepted once while its timestamp is still in the window.
+ */
+
+/** Unix timestamp (seconds) the request was signed at */
+export const TIMESTAMP_HEADER = 'X-Arke-Timestamp';
+
+/** Random value unique to one request */
+export const NONCE_HEADER = 'X-Arke-Nonce';
+
+/** Base64 Ed25519 signature of the signature payload */
+export const SIGNATURE_HEADER = 'X-Arke-Signature';
+
+/** Default allowed clock difference in seconds, either way */
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const ALGORITHM = 'Ed25519';
+
+/** A WebCrypto key, named through `crypto` so Workers and Node types both fit */
+type SigningKey = Parameters<typeof crypto.subtle.sign>[1];
+
+/**
+ * Why a request was rejected
+ */
+export type SignatureFailure =
+  | 'not_configured'
+  | 'missing_signature'
+  | 'invalid_timestamp'
+  | 'expired'
+  | 'invalid_signature'
+  | 'replayed';
+
+/**
+ * Outcome of verifying a request
+ *
+ * On success `body` is the raw request body, already consumed from the
+ * request, for the caller to parse.
+ */
+export type SignatureResult =
+  | { ok: true; body: string }
+  | { ok: false; status: 401 | 500; reason: SignatureFailure; message: string };
+
+/**
+ * Records nonces that have been accepted
+ */
+export interface NonceStore {
+  /**
+   * Record a nonce until `expiresAt` (ms since epoch)
+   *
+   * @returns false if the nonce was already recorded and hasn't expired
+   */
+  claim(nonce: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+/**
+ * In-memory nonce store
+ *
+ * Workers keep module state per isolate, so this catches replays that reach
+ * the same isolate. The timestamp window bounds replays everywhere else; use
+ * a shared store when that isn't enough.
+ */
+export class MemoryNonceStore implements NonceStore {
+  private nonces = new Map<string, number>();
+
+  constructor(
+    private readonly maxEntries = 10000,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  claim(nonce: string, expiresAt: number): boolean {
+    const now = this.now();
+    const existing = this.nonces.get(nonce);
+    if (existing !== undefined && existing > now) {
+      return false;
+    }
+
+    if (this.nonces.size >= this.maxEntries) {
+      for (const [key, expiry] of this.nonces) {
+        if (expiry <= now) this.nonces.delete(key);
+      }
+      // Still full: drop the oldest, which the timestamp window mostly covers
+      while (this.nonces.size >= this.maxEntries) {
+        this.nonces.delete(this.nonces.keys().next().value!);
+      }
+    }
+
+    this.nonces.set(nonce, expiresAt);
+    return true;
+  }
+}
+
+/**
+ * Options for verifyRequest
+ */
+export interface VerifyOptions {
+  /** Arke's signing public key, base64 raw Ed25519 (32 bytes) */
+  publicKey: string | undefined;
+
+  /** Where accepted nonces are recorded */
+  nonces: NonceStore;
+
+  /** Allowed clock difference in seconds (default: DEFAULT_TOLERANCE_SECONDS) */
+  toleranceSeconds?: number;
+
+  /** Clock, injectable for tests (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * The bytes a signature covers
+ */
+export function signaturePayload(
+  timestamp: string,
+  nonce: string,
+  method: string,
+  path: string,
+  body: string
+): string {
+  return `${timestamp}\n${nonce}\n${method.toUpperCase()} ${path}\n${body}`;
+}
+
+function toBase64(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+const importedKeys = new Map<string, Promise<SigningKey>>();
+
+function importPublicKey(publicKey: string): Promise<SigningKey> {
+  let key = importedKeys.get(publicKey);
+  if (!key) {
+    key = crypto.subtle.importKey('raw', fromBase64(publicKey), { name: ALGORITHM }, false, ['verify']);
+    importedKeys.set(publicKey, key);
+  }
+  return key;
+}
+
+function reject(reason: SignatureFailure, message: string): SignatureResult {
+  return { ok: false, status: reason === 'not_configured' ? 500 : 401, reason, message };
+}
+
+/**
+ * Verify that a request was signed by Arke, consuming its body
+ *
+ * Checks run cheapest first, and the nonce is only recorded once the
+ * signature is valid, so unsigned requests can't use up nonces.
+ */
+export async function verifyRequest(request: Request, options: VerifyOptions): Promise<SignatureResult> {
+  if (!options.publicKey) {
+    return reject('not_configured', 'Signature verification not configured');
+  }
+
+  const timestamp = request.headers.get(TIMESTAMP_HEADER);
+  const nonce = request.headers.get(NONCE_HEADER);
+  const signature = request.headers.get(SIGNATURE_HEADER);
+  if (!timestamp || !nonce || !signature) {
+    return reject(
+      'missing_signature',
+      `Request is not signed (expected ${TIMESTAMP_HEADER}, ${NONCE_HEADER} and ${SIGNATURE_HEADER})`
+    );
+  }
+
+  const signedAt = Number(timestamp) * 1000;
+  if (!/^\d+$/.test(timestamp) || !Number.isSafeInteger(signedAt)) {
+    return reject('invalid_timestamp', `${TIMESTAMP_HEADER} must be a Unix timestamp in seconds`);
+  }
+  const toleranceMs = (options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS) * 1000;
+  const now = (options.now ?? Date.now)();
+  if (Math.abs(now - signedAt) > toleranceMs) {
+    return reject('expired', 'Request timestamp is outside the allowed window');
+  }
+
+  const body = await request.text();
+  const payload = signaturePayload(timestamp, nonce, request.method, new URL(request.url).pathname, body);
+
+  let valid: boolean;
+  try {
+    valid = await crypto.subtle.verify(
+      ALGORITHM,
+      await importPublicKey(options.publicKey),
+      fromBase64(signature),
+      new TextEncoder().encode(payload)
+    );
+  } catch {
+    // Malformed base64 or key
+    valid = false;
+  }
+  if (!valid) {
+    return reject('invalid_signature', 'Request signature is invalid');
+  }
+
+  if (!(await options.nonces.claim(nonce, signedAt + toleranceMs))) {
+    return reject('replayed', 'Request nonce has already been used');
+  }
+
+  return { ok: true, body };
+}
+
+// =============================================================================
+// Signing
+// =============================================================================
+
+/**
+ * A signing key pair, for tests and local stand-ins for Arke
+ */
+export interface SigningKeyPair {
+  /** Base64 raw public key, as workers are configured with */
+  publicKey: string;
+  privateKey: SigningKey;
+}
+
+/**
+ * Generate an Ed25519 key pair
+ */
+export async function generateSigningKeyPair(): Promise<SigningKeyPair> {
+  const pair = (await crypto.subtle.generateKey({ name: ALGORITHM }, true, ['sign', 'verify'])) as {
+    publicKey: SigningKey;
+    privateKey: SigningKey;
+  };
+  return {
+    publicKey: toBase64((await crypto.subtle.exportKey('raw', pair.publicKey)) as ArrayBuffer),
+    privateKey: pair.privateKey,
+  };
+}
+
+/**
+ * Signature headers for a request, as Arke sends them
+ */
+export async function signRequest(
+  privateKey: SigningKey,
+  request: { method: string; url: string; body: string },
+  options: { now?: () => number; nonce?: string } = {}
+): Promise<Record<string, string>> {
+  const timestamp = String(Math.floor((options.now ?? Date.now)() / 1000));
+  const nonce = options.nonce ?? crypto.randomUUID();
+  const payload = signaturePayload(timestamp, nonce, request.method, new URL(request.url).pathname, request.body);
+  const signature = await crypto.subtle.sign(ALGORITHM, privateKey, new TextEncoder().encode(payload));
+
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce,
+    [SIGNATURE_HEADER]: toBase64(signature),
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for the compare-and-swap retry helper
+ *
+ * Uses a small fake of the Arke entity endpoints that enforces `expect_tip`,
+ * so concurrent writers genuinely conflict and must re-read and re-merge.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { updateWithCas, casBackoffDelay, isCasConflict, type CasOperation } from '../src/cas';
+
+// =============================================================================
+// Fake API
+// =============================================================================
+
+interface FakeEntity {
+  id: string;
+  tip: string;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Mimics the shape of openapi-fetch results: `{ data }` or `{ error, response }`
+ */
+class FakeEntityApi {
+  private entities = new Map<string, FakeEntity>();
+  private version = 0;
+  puts = 0;
+
+  create(id: string, properties: Record<string, unknown>): void {
+    this.entities.set(id, { id, tip: this.nextTip(), properties });
+  }
+
+  get(id: string): FakeEntity {
+    return structuredClone(this.entities.get(id)!);
+  }
+
+  async getTip(id: string): Promise<{ data: { cid: string } }> {
+    await Promise.resolve();
+    return { data: { cid: this.entities.get(id)!.tip } };
+  }
+
+  async getEntity(id: string): Promise<{ data: FakeEntity }> {
+    await Promise.resolve();
+    return { data: this.get(id) };
+  }
+
+  async put(
+    id: string,
+    body: { expect_tip: string; properties: Record<string, unknown> }
+  ): Promise<{ error?: { error: string }; response: { status: number } }> {
+    await Promise.resolve();
+    this.puts++;
+    const entity = this.entities.get(id)!;
+    if (entity.tip !== body.expect_tip) {
+      return { error: { error: 'tip mismatch' }, response: { status: 409 } };
+    }
+    entity.properties = body.properties;
+    entity.tip = this.nextTip();
+    return { response: { status: 200 } };
+  }
+
+  private nextTip(): string {
+    return `cid_${++this.version}`;
+  }
+}
+
+/**
+ * Build an operation that appends a stamp, the way stamp-worker does
+ */
+function appendStamp(api: FakeEntityApi, id: string, stamp: string): CasOperation<Record<string, unknown>> {
+  return {
+    read: async () => {
+      const { data: tip } = await api.getTip(id);
+      const { data: entity } = await api.getEntity(id);
+      return { tip: tip.cid, value: entity.properties };
+    },
+    write: async ({ tip, value }) => {
+      const stamps = [...((value.stamps as string[]) ?? []), stamp];
+      const { error, response } = await api.put(id, {
+        expect_tip: tip,
+        properties: { ...value, stamps, stamp_count: stamps.length },
+      });
+      if (!error) return { ok: true };
+      return { ok: false, conflict: isCasConflict(response.status), error };
+    },
+  };
+}
+
+const instant = { sleep: async () => {}, random: () => 0.5 };
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('updateWithCas', () => {
+  it('should succeed on the first attempt without contention', async () => {
+    const api = new FakeEntityApi();
+    api.create('e1', { title: 'Test' });
+
+    const result = await updateWithCas(appendStamp(api, 'e1', 'a'), instant);
+
+    expect(result.attempts).toBe(1);
+    expect(api.get('e1').properties).toEqual({ title: 'Test', stamps: ['a'], stamp_count: 1 });
+  });
+
+  it('should re-merge concurrent stamps without losing any', async () => {
+    const api = new FakeEntityApi();
+    api.create('e1', { title: 'Test' });
+
+    const conflicts: number[] = [];
+    const writers = ['a', 'b', 'c', 'd', 'e'].map((stamp) =>
+      updateWithCas(appendStamp(api, 'e1', stamp), {
+        ...instant,
+        maxAttempts: 10,
+        onConflict: ({ attempt }) => conflicts.push(attempt),
+      })
+    );
+    const results = await Promise.all(writers);
+
+    const entity = api.get('e1');
+    expect((entity.properties.stamps as string[]).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(entity.properties.stamp_count).toBe(5);
+    expect(conflicts.length).toBeGreaterThan(0);
+    expect(Math.max(...results.map((r) => r.attempts))).toBeGreaterThan(1);
+  });
+
+  it('should give up after maxAttempts conflicts', async () => {
+    const api = new FakeEntityApi();
+    api.create('e1', {});
+
+    // Every read returns a stale tip, so every write conflicts
+    const operation = appendStamp(api, 'e1', 'a');
+    const stale: CasOperation<Record<string, unknown>> = {
+      read: async () => ({ ...(await operation.read()), tip: 'cid_stale' }),
+      write: operation.write,
+    };
+
+    await expect(updateWithCas(stale, { ...instant, maxAttempts: 3 })).rejects.toThrow(
+      'CAS update failed after 3 attempts (tip conflict)'
+    );
+    expect(api.puts).toBe(3);
+  });
+
+  it('should not retry non-conflict errors', async () => {
+    let writes = 0;
+    const failing: CasOperation<null> = {
+      read: async () => ({ tip: 'cid_1', value: null }),
+      write: async () => {
+        writes++;
+        return { ok: false, conflict: false, error: { error: 'forbidden' } };
+      },
+    };
+
+    await expect(updateWithCas(failing, instant)).rejects.toThrow('CAS update failed: {"error":"forbidden"}');
+    expect(writes).toBe(1);
+  });
+});
+
+describe('casBackoffDelay', () => {
+  it('should grow exponentially up to the cap', () => {
+    const max = { random: () => 0.999999 };
+    expect(casBackoffDelay(1, max)).toBe(99);
+    expect(casBackoffDelay(2, max)).toBe(199);
+    expect(casBackoffDelay(5, max)).toBe(1599);
+    expect(casBackoffDelay(10, max)).toBe(1999);
+  });
+
+  it('should apply jitter below the bound', () => {
+    expect(casBackoffDelay(3, { random: () => 0 })).toBe(0);
+    expect(casBackoffDelay(3, { random: () => 0.5 })).toBe(200);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for route conditions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { conditionIssues, describeCondition, matchesCondition, readPath } from '../src/conditions';
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('matchesCondition', () => {
+  const item = { kind: 'page', pages: 40, title: 'Chapter 3', draft: false };
+
+  it('should compare a property with each operator', () => {
+    expect(matchesCondition({ property: 'kind', equals: 'page' }, item)).toBe(true);
+    expect(matchesCondition({ property: 'kind', not_equals: 'page' }, item)).toBe(false);
+    expect(matchesCondition({ property: 'kind', in: ['note', 'page'] }, item)).toBe(true);
+    expect(matchesCondition({ property: 'pages', gt: 40 }, item)).toBe(false);
+    expect(matchesCondition({ property: 'pages', gte: 40, lte: 40 }, item)).toBe(true);
+    expect(matchesCondition({ property: 'pages', lt: 10 }, item)).toBe(false);
+    expect(matchesCondition({ property: 'draft', exists: true }, item)).toBe(true);
+    expect(matchesCondition({ property: 'title', matches: '^Chapter \\d+$' }, item)).toBe(true);
+  });
+
+  it('should only compare values of the right type', () => {
+    expect(matchesCondition({ property: 'title', gt: 0 }, item)).toBe(false);
+    expect(matchesCondition({ property: 'pages', matches: '40' }, item)).toBe(false);
+    expect(matchesCondition({ property: 'missing', not_equals: 'x' }, item)).toBe(true);
+    expect(matchesCondition({ property: 'missing', exists: false }, item)).toBe(true);
+    expect(matchesCondition({ property: 'missing', in: ['x'] }, item)).toBe(false);
+  });
+
+  it('should read nested properties by dotted path', () => {
+    const nested = { meta: { kind: 'page', tags: ['a'] } };
+    expect(matchesCondition({ property: 'meta.kind', equals: 'page' }, nested)).toBe(true);
+    expect(matchesCondition({ property: 'meta.missing', exists: false }, nested)).toBe(true);
+    expect(matchesCondition({ property: 'meta.kind.length', exists: true }, nested)).toBe(false);
+    expect(readPath(nested, 'meta.tags')).toEqual(['a']);
+  });
+
+  it('should compose conditions', () => {
+    const chapter = { property: 'title', matches: '^Chapter' };
+    const long = { property: 'pages', gte: 100 };
+
+    expect(matchesCondition({ and: [chapter, { not: long }] }, item)).toBe(true);
+    expect(matchesCondition({ and: [chapter, long] }, item)).toBe(false);
+    expect(matchesCondition({ or: [long, { property: 'kind', equals: 'page' }] }, item)).toBe(true);
+    expect(matchesCondition({ not: { or: [chapter, long] } }, item)).toBe(false);
+  });
+});
+
+describe('conditionIssues', () => {
+  it('should accept well-formed conditions', () => {
+    expect(
+      conditionIssues({ or: [{ property: 'a', in: [1, 'b', null] }, { not: { property: 'b', exists: false } }] }, 'where')
+    ).toEqual([]);
+  });
+
+  it('should report every problem with its path', () => {
+    expect(
+      conditionIssues({ and: [{ property: 'a' }, { property: 'b', in: 'x', gt: Infinity }, 'c'] }, 'route[0].where')
+    ).toEqual([
+      'route[0].where.and[0] must have one of equals, not_equals, in, gt, gte, lt, lte, exists, matches',
+      'route[0].where.and[1].in must be a non-empty array of strings, numbers, booleans or null',
+      'route[0].where.and[1].gt must be a number',
+      'route[0].where.and[2] must be an object',
+    ]);
+  });
+});
+
+describe('describeCondition', () => {
+  it('should describe each operator', () => {
+    expect(describeCondition({ property: 'kind', not_equals: 'page' })).toBe('kind != page');
+    expect(describeCondition({ property: 'pages', gt: 1, lte: 9 })).toBe('pages > 1 and pages <= 9');
+    expect(describeCondition({ property: 'draft', exists: false })).toBe('draft missing');
+    expect(describeCondition({ property: 'title', matches: '^Ch' })).toBe('title ~ /^Ch/');
+    expect(describeCondition({ not: { or: [{ property: 'a', equals: 1 }, { property: 'b', equals: null }] } })).toBe(
+      'not (a = 1 or b = null)'
+    );
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for the deep health check
+ *
+ * The Arke API is a stub fetch answering with a fixed status and entity,
+ * so each failure mode is checked without a network.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deepHealth, isDeepHealthQuery, type HealthEnv } from '../src/health';
+
+const env: HealthEnv = {
+  AGENT_ID: 'K1',
+  AGENT_VERSION: '1.2.0',
+  ARKE_AGENT_KEY: 'ak_live',
+  ARKE_API_BASE: 'https://api.example',
+  BUILD_COMMIT: 'abc1234',
+  BUILD_TIME: '2026-10-19T12:00:00.000Z',
+};
+
+/**
+ * A fetch that answers every request the same way, recording what was asked
+ */
+function stubFetch(status: number, body: unknown = {}) {
+  const requests: Request[] = [];
+  const fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    requests.push(new Request(input, init));
+    return Response.json(body, { status });
+  }) as typeof globalThis.fetch;
+  return { fetch, requests };
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('deepHealth', () => {
+  it('should pass when the key reads the klados named by AGENT_ID', async () => {
+    const { fetch, requests } = stubFetch(200, { id: 'K1', type: 'klados' });
+    const report = await deepHealth(env, { fetch });
+
+    expect(report).toEqual({
+      status: 'ok',
+      agent_id: 'K1',
+      version: '1.2.0',
+      build: { commit: 'abc1234', deployed_at: '2026-10-19T12:00:00.000Z' },
+      checks: {
+        secrets: { ok: true, message: 'All required secrets are set' },
+        agent_key: { ok: true, message: 'Agent key authenticates' },
+        agent_id: { ok: true, message: 'AGENT_ID K1 is a registered klados' },
+      },
+    });
+    expect(requests[0].url).toBe('https://api.example/entities/K1');
+    expect(requests[0].headers.get('Authorization')).toBe('ApiKey ak_live');
+  });
+
+  it('should report missing secrets without calling the API', async () => {
+    const { fetch, requests } = stubFetch(200);
+    const report = await deepHealth({ ...env, ARKE_AGENT_KEY: undefined, AGENT_VERSION: '' }, { fetch });
+
+    expect(report.status).toBe('failing');
+    expect(report.checks.secrets).toEqual({ ok: false, message: 'Missing AGENT_VERSION, ARKE_AGENT_KEY' });
+    expect(report.checks.agent_key.ok).toBe(false);
+    expect(requests).toEqual([]);
+  });
+
+  it('should fail when the agent key is rejected', async () => {
+    const report = await deepHealth(env, stubFetch(401));
+
+    expect(report.status).toBe('failing');
+    expect(report.checks.agent_key).toEqual({
+      ok: false,
+      message: 'Agent key was rejected by https://api.example (401)',
+    });
+    expect(report.checks.agent_id.message).toBe('Not checked: the agent key was rejected');
+  });
+
+  it('should fail when AGENT_ID is missing or not a klados', async () => {
+    const notFound = await deepHealth(env, stubFetch(404));
+    expect(notFound.checks.agent_key.ok).toBe(true);
+    expect(notFound.checks.agent_id).toEqual({ ok: false, message: 'AGENT_ID K1 was not found' });
+
+    const wrongType = await deepHealth(env, stubFetch(200, { id: 'K1', type: 'collection' }));
+    expect(wrongType.checks.agent_id).toEqual({ ok: false, message: 'AGENT_ID K1 is a collection, not a klados' });
+  });
+
+  it('should fail when the API cannot be reached', async () => {
+    const fetch = (async () => {
+      throw new Error('connection refused');
+    }) as typeof globalThis.fetch;
+    const report = await deepHealth(env, { fetch });
+
+    expect(report.checks.agent_key).toEqual({
+      ok: false,
+      message: 'Could not reach https://api.example: connection refused',
+    });
+  });
+});
+
+describe('isDeepHealthQuery', () => {
+  it('should accept 1 and true only', () => {
+    expect(['1', 'true', '0', 'false', '', undefined].map(isDeepHealthQuery)).toEqual([
+      true,
+      true,
+      false,
+      false,
+      false,
+      false,
+    ]);
+  });
+});
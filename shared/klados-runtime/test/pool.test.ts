@@ -0,0 +1,194 @@
+/**
+ * Unit tests for the adaptive concurrency pool
+ *
+ * Tasks are driven by hand-resolved promises and an instant sleep, so the
+ * window size, retries and ordering are checked deterministically.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { runPool, isRetryableStatus, retryAfterMs, type PoolAttemptResult } from '../src/pool';
+
+const instant = { sleep: async () => {}, random: () => 0 };
+
+/**
+ * A task whose in-flight count is tracked, answering from a script per item
+ */
+function scriptedTask(script: (index: number, attempt: number) => PoolAttemptResult<string>) {
+  const calls: number[] = [];
+  let inFlight = 0;
+  let peak = 0;
+
+  const task = async (_item: unknown, index: number) => {
+    calls.push(index);
+    inFlight++;
+    peak = Math.max(peak, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    inFlight--;
+    return script(index, calls.filter((i) => i === index).length);
+  };
+
+  return { task, calls, peak: () => peak };
+}
+
+describe('runPool', () => {
+  it('should return every result in input order', async () => {
+    const { task } = scriptedTask((index) => ({ ok: true, value: `item-${index}` }));
+
+    const { results, failed } = await runPool([0, 1, 2, 3, 4], task, instant);
+
+    expect(failed).toBe(0);
+    expect(results.map((r) => r.ok && r.value)).toEqual(['item-0', 'item-1', 'item-2', 'item-3', 'item-4']);
+  });
+
+  it('should grow the window after successes, up to the cap', async () => {
+    const sizes: number[] = [];
+    const { task, peak } = scriptedTask(() => ({ ok: true, value: 'ok' }));
+
+    const run = await runPool(Array.from({ length: 60 }), task, {
+      ...instant,
+      initialConcurrency: 2,
+      maxConcurrency: 5,
+      onConcurrencyChange: ({ to }) => sizes.push(to),
+    });
+
+    expect(sizes).toEqual([3, 4, 5]);
+    expect(run.peakConcurrency).toBe(5);
+    expect(peak()).toBe(5);
+  });
+
+  it('should halve the window and retry items the API rate limits', async () => {
+    const sizes: number[] = [];
+    const retries: Array<{ index: number; status?: number }> = [];
+    const { task, calls } = scriptedTask((index, attempt) =>
+      index === 1 && attempt < 3
+        ? { ok: false, status: 429, error: { error: 'slow down' } }
+        : { ok: true, value: `item-${index}` }
+    );
+
+    const { results, failed } = await runPool([0, 1, 2, 3], task, {
+      ...instant,
+      initialConcurrency: 4,
+      onConcurrencyChange: ({ to }) => sizes.push(to),
+      onRetry: ({ index, status }) => retries.push({ index, status }),
+    });
+
+    expect(failed).toBe(0);
+    expect(results[1]).toEqual({ ok: true, value: 'item-1', attempts: 3 });
+    expect(calls.filter((i) => i === 1)).toHaveLength(3);
+    expect(retries).toEqual([
+      { index: 1, status: 429 },
+      { index: 1, status: 429 },
+    ]);
+    expect(sizes[0]).toBe(2);
+  });
+
+  it('should report items that keep failing without aborting the rest', async () => {
+    const { task } = scriptedTask((index) =>
+      index === 2 ? { ok: false, status: 503, error: 'unavailable' } : { ok: true, value: 'ok' }
+    );
+
+    const { results, failed } = await runPool([0, 1, 2, 3], task, { ...instant, maxAttempts: 3 });
+
+    expect(failed).toBe(1);
+    expect(results[2]).toEqual({ ok: false, error: 'unavailable', status: 503, attempts: 3 });
+    expect(results.filter((r) => r.ok)).toHaveLength(3);
+  });
+
+  it('should not retry client errors', async () => {
+    const { results, failed } = await runPool(['bad-request'], async () => ({
+      ok: false,
+      status: 400,
+      error: 'invalid',
+    }), instant);
+
+    expect(failed).toBe(1);
+    expect(results[0]).toMatchObject({ ok: false, status: 400, attempts: 1 });
+  });
+
+  it('should retry tasks that throw, as network errors do', async () => {
+    const sizes: number[] = [];
+    let calls = 0;
+    const { results, failed } = await runPool(
+      ['flaky', 'down'],
+      async (item) => {
+        calls++;
+        if (item === 'down' || calls === 1) throw new TypeError('fetch failed');
+        return { ok: true, value: item };
+      },
+      { ...instant, maxAttempts: 2, onConcurrencyChange: ({ to }) => sizes.push(to) }
+    );
+
+    expect(failed).toBe(1);
+    expect(results[0]).toEqual({ ok: true, value: 'flaky', attempts: 2 });
+    expect(results[1]).toMatchObject({ ok: false, attempts: 2 });
+    expect((results[1] as { error: Error }).error.message).toBe('fetch failed');
+    expect(sizes).toEqual([]);
+  });
+
+  it('should wait at least as long as Retry-After asks', async () => {
+    const delays: number[] = [];
+    const { task } = scriptedTask((index, attempt) =>
+      attempt === 1
+        ? { ok: false, status: 429, error: 'slow down', retryAfterMs: index === 0 ? 3000 : undefined }
+        : { ok: true, value: `item-${index}` }
+    );
+
+    const { failed } = await runPool([0, 1], task, {
+      ...instant,
+      onRetry: ({ delayMs }) => delays.push(delayMs),
+    });
+
+    expect(failed).toBe(0);
+    expect(delays).toEqual([3000, 0]);
+  });
+
+  it('should fail items asked to wait longer than maxRetryAfterMs', async () => {
+    const delays: number[] = [];
+    const { task, calls } = scriptedTask((index) =>
+      index === 0
+        ? { ok: false, status: 429, error: 'come back in an hour', retryAfterMs: 3_600_000 }
+        : { ok: true, value: `item-${index}` }
+    );
+
+    const { results, failed } = await runPool([0, 1], task, {
+      ...instant,
+      maxRetryAfterMs: 10_000,
+      onRetry: ({ delayMs }) => delays.push(delayMs),
+    });
+
+    expect(failed).toBe(1);
+    expect(results[0]).toEqual({ ok: false, error: 'come back in an hour', status: 429, attempts: 1 });
+    expect(calls.filter((i) => i === 0)).toHaveLength(1);
+    expect(delays).toEqual([]);
+  });
+
+  it('should finish immediately with no items', async () => {
+    const { results, failed } = await runPool([], async () => ({ ok: true, value: 1 }));
+    expect(results).toEqual([]);
+    expect(failed).toBe(0);
+  });
+});
+
+describe('isRetryableStatus', () => {
+  it('should retry rate limits and server errors only', () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(502)).toBe(true);
+    expect(isRetryableStatus(409)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+    expect(isRetryableStatus(undefined)).toBe(false);
+  });
+});
+
+describe('retryAfterMs', () => {
+  it('should read delay seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(retryAfterMs('2', now)).toBe(2000);
+    expect(retryAfterMs('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000);
+    expect(retryAfterMs('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing and unreadable headers', () => {
+    expect(retryAfterMs(null)).toBeUndefined();
+    expect(retryAfterMs('soon')).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Contract tests for KladosRequest validation
+ *
+ * Covers the two request shapes Arke sends (one `target_entity`, or a
+ * `target_entities` list for kladoi that accept many) and the field
+ * problems each can have.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseKladosRequest, kladosRequestIssues } from '../src/request';
+
+const base = {
+  job_id: 'job_1',
+  target_collection: 'C1',
+  job_collection: 'JC1',
+  api_base: 'https://arke-v1.arke.institute',
+  network: 'test',
+  expires_at: '2026-01-01T01:00:00.000Z',
+};
+
+const single = { ...base, target_entity: 'E1' };
+const minimal = { job_id: 'job_1', target_collection: 'C1', job_collection: 'JC1', target_entity: 'E1' };
+const many = { ...base, target_entities: ['E1', 'E2', 'E3'] };
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('parseKladosRequest', () => {
+  it.each([
+    ['a single target', single],
+    ['a target list', many],
+    ['a single target with an empty list', { ...single, target_entities: [] }],
+    ['a request without the optional api_base, network and expires_at', minimal],
+    [
+      'a workflow step with input and unknown fields',
+      {
+        ...single,
+        input: { copy_count: 3 },
+        rhiza: { id: 'R1', path: ['scatter', 'stamp'], parent_logs: ['L1'], batch: { slot: 0 } },
+        future_field: true,
+      },
+    ],
+  ])('should accept %s', (_, body) => {
+    expect(parseKladosRequest(JSON.stringify(body))).toEqual({ ok: true, request: body });
+  });
+
+  it.each([
+    ['no target', base, [['target_entity', 'is required unless target_entities lists at least one entity']]],
+    [
+      'an empty target list',
+      { ...base, target_entities: [] },
+      [['target_entity', 'is required unless target_entities lists at least one entity']],
+    ],
+    [
+      'a target list that is a string',
+      { ...base, target_entities: 'E1' },
+      [
+        ['target_entities', 'must be an array of entity IDs'],
+        ['target_entity', 'is required unless target_entities lists at least one entity'],
+      ],
+    ],
+    [
+      'a target list with non-string IDs',
+      { ...base, target_entities: ['E1', 7, ''] },
+      [
+        ['target_entities[1]', 'must be a non-empty string'],
+        ['target_entities[2]', 'must be a non-empty string'],
+      ],
+    ],
+    ['a non-string target', { ...base, target_entity: { id: 'E1' } }, [['target_entity', 'must be a non-empty string']]],
+    ['a missing job_id', { ...single, job_id: undefined }, [['job_id', 'must be a non-empty string']]],
+    ['an unknown network', { ...single, network: 'prod' }, [['network', 'must be one of test, main']]],
+    ['a relative api_base', { ...single, api_base: '/api' }, [['api_base', 'must be an absolute URL']]],
+    ['an unparseable expiry', { ...single, expires_at: 'soon' }, [['expires_at', 'must be an ISO 8601 timestamp']]],
+    ['a list as input', { ...single, input: [1] }, [['input', 'must be an object']]],
+    [
+      'a malformed rhiza context',
+      { ...single, rhiza: { path: 'stamp', parent_logs: [null] } },
+      [
+        ['rhiza.id', 'must be a non-empty string'],
+        ['rhiza.path', 'must be an array of strings'],
+        ['rhiza.parent_logs[0]', 'must be a non-empty string'],
+      ],
+    ],
+  ])('should reject %s', (_, body, expected) => {
+    const result = parseKladosRequest(JSON.stringify(body));
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.status).toBe(400);
+    expect(result.issues.map(({ field, message }) => [field, message])).toEqual(expected);
+  });
+
+  it('should list every problem in one message', () => {
+    const result = parseKladosRequest(JSON.stringify({ target_entities: [''] }));
+
+    expect(result).toMatchObject({ ok: false, reason: 'invalid_request' });
+    expect(!result.ok && result.message).toBe(
+      'Invalid KladosRequest: job_id must be a non-empty string; target_collection must be a non-empty string; ' +
+        'job_collection must be a non-empty string; target_entities[0] must be a non-empty string'
+    );
+  });
+
+  it('should reject bodies that are not JSON objects', () => {
+    expect(parseKladosRequest('{"job_id":')).toMatchObject({
+      ok: false,
+      issues: [{ field: '', message: 'is not valid JSON' }],
+      message: 'Invalid KladosRequest: Body is not valid JSON',
+    });
+    expect(kladosRequestIssues([single])).toEqual([{ field: '', message: 'must be a JSON object' }]);
+  });
+});
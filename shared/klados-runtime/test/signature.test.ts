@@ -0,0 +1,133 @@
+/**
+ * Unit tests for request signature verification
+ *
+ * Requests are signed with a key pair generated per run and checked
+ * against a fixed clock, so no Arke key or network is needed.
+ */
+
+import { beforeAll, describe, it, expect } from 'vitest';
+import {
+  generateSigningKeyPair,
+  signRequest,
+  verifyRequest,
+  MemoryNonceStore,
+  NONCE_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  type SigningKeyPair,
+} from '../src/signature';
+
+const PROCESS_URL = 'https://stamp-worker.example.workers.dev/process';
+const BODY = JSON.stringify({ job_id: 'job_1', target_entity: 'E1' });
+const NOW = Date.UTC(2026, 0, 1);
+const clock = () => NOW;
+
+let arke: SigningKeyPair;
+
+beforeAll(async () => {
+  arke = await generateSigningKeyPair();
+});
+
+/**
+ * A POST as Arke would send it, with optional changes after signing
+ */
+async function signedRequest(
+  options: { key?: SigningKeyPair; signedAt?: number; nonce?: string; body?: string; url?: string } = {}
+): Promise<Request> {
+  const headers = await signRequest(
+    (options.key ?? arke).privateKey,
+    { method: 'POST', url: PROCESS_URL, body: BODY },
+    { now: () => options.signedAt ?? NOW, nonce: options.nonce }
+  );
+  return new Request(options.url ?? PROCESS_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: options.body ?? BODY,
+  });
+}
+
+function verify(request: Request, nonces = new MemoryNonceStore(100, clock)) {
+  return verifyRequest(request, { publicKey: arke.publicKey, nonces, now: clock });
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('verifyRequest', () => {
+  it('should accept a signed request and return its body', async () => {
+    expect(await verify(await signedRequest())).toEqual({ ok: true, body: BODY });
+  });
+
+  it('should reject unsigned requests and a missing key', async () => {
+    const unsigned = new Request(PROCESS_URL, { method: 'POST', body: BODY });
+    expect(await verify(unsigned)).toMatchObject({ ok: false, status: 401, reason: 'missing_signature' });
+
+    const result = await verifyRequest(await signedRequest(), {
+      publicKey: undefined,
+      nonces: new MemoryNonceStore(),
+    });
+    expect(result).toMatchObject({ ok: false, status: 500, reason: 'not_configured' });
+  });
+
+  it('should reject a tampered body, another path or another key', async () => {
+    const other = await generateSigningKeyPair();
+
+    expect(await verify(await signedRequest({ body: BODY.replace('E1', 'E2') }))).toMatchObject({
+      reason: 'invalid_signature',
+    });
+    expect(
+      await verify(await signedRequest({ url: 'https://stamp-worker.example.workers.dev/other' }))
+    ).toMatchObject({ reason: 'invalid_signature' });
+    expect(await verify(await signedRequest({ key: other }))).toMatchObject({ reason: 'invalid_signature' });
+
+    const garbled = await signedRequest();
+    garbled.headers.set(SIGNATURE_HEADER, 'not base64!');
+    expect(await verify(garbled)).toMatchObject({ reason: 'invalid_signature' });
+  });
+
+  it('should reject timestamps outside the window', async () => {
+    expect(await verify(await signedRequest({ signedAt: NOW - 299_000 }))).toMatchObject({ ok: true });
+    expect(await verify(await signedRequest({ signedAt: NOW - 301_000 }))).toMatchObject({ reason: 'expired' });
+    expect(await verify(await signedRequest({ signedAt: NOW + 301_000 }))).toMatchObject({ reason: 'expired' });
+
+    const malformed = await signedRequest();
+    malformed.headers.set(TIMESTAMP_HEADER, '2026-01-01T00:00:00Z');
+    expect(await verify(malformed)).toMatchObject({ reason: 'invalid_timestamp' });
+  });
+
+  it('should reject a replayed nonce', async () => {
+    const nonces = new MemoryNonceStore(100, clock);
+    const first = await signedRequest({ nonce: 'n-1' });
+    const replay = first.clone();
+
+    expect(await verify(first, nonces)).toMatchObject({ ok: true });
+    expect(await verify(replay, nonces)).toMatchObject({ ok: false, status: 401, reason: 'replayed' });
+    expect(await verify(await signedRequest({ nonce: 'n-2' }), nonces)).toMatchObject({ ok: true });
+  });
+
+  it('should not record nonces of requests that fail verification', async () => {
+    const nonces = new MemoryNonceStore(100, clock);
+    const forged = await signedRequest({ nonce: 'n-1' });
+    forged.headers.set(NONCE_HEADER, 'n-2');
+
+    expect(await verify(forged, nonces)).toMatchObject({ reason: 'invalid_signature' });
+    expect(await verify(await signedRequest({ nonce: 'n-2' }), nonces)).toMatchObject({ ok: true });
+  });
+});
+
+describe('MemoryNonceStore', () => {
+  it('should forget expired nonces and stay within its size', () => {
+    let now = 0;
+    const store = new MemoryNonceStore(2, () => now);
+
+    expect(store.claim('a', 100)).toBe(true);
+    expect(store.claim('a', 100)).toBe(false);
+    expect(store.claim('b', 200)).toBe(true);
+
+    now = 150;
+    expect(store.claim('c', 300)).toBe(true);
+    expect(store.claim('a', 300)).toBe(true);
+    expect(store.claim('b', 300)).toBe(true);
+  });
+});
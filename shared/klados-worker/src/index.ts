@@ -0,0 +1,16 @@
+/**
+ * Hono app factory shared by the example klados workers
+ */
+
+export { createKladosWorker } from './worker.js';
+export { isLocalApiBase, isSyncProcessEnabled, runJobSync } from './sync.js';
+
+export type {
+  KladosEnv,
+  KladosWorkerConfig,
+  KladosWorkerOptions,
+  ProcessJob,
+  SyncError,
+  SyncLogMessage,
+  SyncProcessResult,
+} from './types.js';
@@ -0,0 +1,112 @@
+/**
+ * Synchronous debug mode
+ *
+ * `/process` normally answers with the accept response and runs the job in
+ * `waitUntil`, so under `wrangler dev` a failing job only shows up in the
+ * klados log. With KLADOS_SYNC_PROCESS set (in `.dev.vars`, never in
+ * deployed vars), `/process` waits for the job and answers with its
+ * outputs, log messages and error instead. It is refused unless
+ * ARKE_API_BASE points at a local API or fake-arke, so a deployed worker
+ * can't be switched into it by a stray var.
+ *
+ * The job still runs inside KladosJob.run, so the klados log and workflow
+ * handoff are written exactly as in a normal run.
+ */
+
+import type { KladosJob, Output } from '@arke-institute/rhiza';
+import type { KladosEnv, ProcessJob, SyncError, SyncLogMessage, SyncProcessResult } from './types.js';
+
+/** Logger methods whose messages are recorded */
+const LOG_LEVELS = ['info', 'success', 'warning', 'warn', 'error'];
+
+/** Hosts synchronous mode runs against: a local API, or fake-arke's default origin */
+const LOCAL_API_HOSTS = ['localhost', '127.0.0.1', '[::1]', 'fake-arke.local'];
+
+/**
+ * Whether the env asks `/process` to run jobs synchronously
+ */
+export function isSyncProcessEnabled(env: Pick<KladosEnv, 'KLADOS_SYNC_PROCESS'>): boolean {
+  return env.KLADOS_SYNC_PROCESS === '1' || env.KLADOS_SYNC_PROCESS === 'true';
+}
+
+/**
+ * Whether ARKE_API_BASE is a local API, the only place synchronous mode may run
+ */
+export function isLocalApiBase(apiBase: string | undefined): boolean {
+  if (!apiBase) return false;
+  try {
+    return LOCAL_API_HOSTS.includes(new URL(apiBase).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The job as processJob sees it, with a logger that records each message
+ *
+ * The job itself is left untouched; only processJob's view of `log` is
+ * wrapped, so KladosJob keeps writing its log as usual.
+ */
+function recordingJob(job: KladosJob, messages: SyncLogMessage[]): KladosJob {
+  const log = new Proxy(job.log, {
+    get(target, property) {
+      const value: unknown = Reflect.get(target, property, target);
+      if (typeof value !== 'function') return value;
+      if (typeof property !== 'string' || !LOG_LEVELS.includes(property)) return value.bind(target);
+
+      const level = property;
+      return (message: string, ...rest: unknown[]) => {
+        messages.push({ level, message });
+        return value.apply(target, [message, ...rest]);
+      };
+    },
+  });
+
+  return new Proxy(job, {
+    get(target, property) {
+      if (property === 'log') return log;
+      const value: unknown = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+function describeError(error: unknown): SyncError {
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Run an accepted job to completion and report how it went
+ */
+export async function runJobSync<E extends KladosEnv>(
+  job: KladosJob,
+  processJob: ProcessJob<E>,
+  env: E
+): Promise<SyncProcessResult> {
+  const messages: SyncLogMessage[] = [];
+  let outputs: Output[] = [];
+  let error: SyncError | undefined;
+
+  try {
+    await job.run(async () => {
+      try {
+        outputs = await processJob(recordingJob(job, messages), env);
+        return outputs;
+      } catch (err) {
+        // Rethrown so KladosJob still records the error on the log and batch slot
+        error = describeError(err);
+        throw err;
+      }
+    });
+  } catch (err) {
+    error ??= describeError(err);
+  }
+
+  return {
+    job_id: job.request.job_id,
+    status: error ? 'error' : 'done',
+    outputs,
+    messages,
+    ...(error ? { error } : {}),
+  };
+}
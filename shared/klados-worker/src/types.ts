@@ -0,0 +1,84 @@
+/**
+ * Type definitions for klados workers
+ */
+
+import type { KladosJob, Output } from '@arke-institute/rhiza';
+
+/**
+ * Cloudflare Worker environment bindings every klados worker has
+ *
+ * Workers with extra bindings extend this and pass their type to
+ * createKladosWorker.
+ */
+export interface KladosEnv {
+  /** Klados agent ID (registered in Arke) */
+  AGENT_ID: string;
+
+  /** Agent version for logging */
+  AGENT_VERSION: string;
+
+  /** Arke agent API key (secret) */
+  ARKE_AGENT_KEY: string;
+
+  /** Verification token for endpoint verification (set during registration) */
+  VERIFICATION_TOKEN?: string;
+
+  /** Agent ID for verification (used before AGENT_ID is configured) */
+  ARKE_VERIFY_AGENT_ID?: string;
+
+  /** Arke's request signing public key, base64 raw Ed25519; /process rejects every request without it */
+  ARKE_SIGNING_KEY?: string;
+
+  /** Arke API the deep health check authenticates against (set on deploy from the profile) */
+  ARKE_API_BASE?: string;
+
+  /** Commit and time of the deploy, reported by the deep health check */
+  BUILD_COMMIT?: string;
+  BUILD_TIME?: string;
+
+  /** "true" or "1" runs `/process` jobs synchronously for debugging; set only in `.dev.vars`, against a local ARKE_API_BASE */
+  KLADOS_SYNC_PROCESS?: string;
+}
+
+/**
+ * A worker's job logic, run in the background once a request is accepted
+ *
+ * @returns The job's outputs, handed to the next workflow step
+ */
+export type ProcessJob<E extends KladosEnv = KladosEnv> = (job: KladosJob, env: E) => Promise<Output[]>;
+
+/**
+ * How jobs are accepted, set once per worker
+ */
+export interface KladosWorkerOptions {
+  /** Link each processed entity to the job's log (default: false) */
+  linkEntitiesToLogs?: boolean;
+}
+
+export interface KladosWorkerConfig<E extends KladosEnv = KladosEnv> {
+  processJob: ProcessJob<E>;
+  options?: KladosWorkerOptions;
+}
+
+/**
+ * A message the job logged, as recorded in synchronous mode
+ */
+export interface SyncLogMessage {
+  level: string;
+  message: string;
+}
+
+export interface SyncError {
+  message: string;
+}
+
+/**
+ * Response body of `/process` in synchronous mode
+ */
+export interface SyncProcessResult {
+  job_id: string;
+  status: 'done' | 'error';
+  outputs: Output[];
+  messages: SyncLogMessage[];
+  error?: SyncError;
+}
@@ -0,0 +1,144 @@
+/**
+ * Klados worker app
+ *
+ * Every klados worker serves the same routes around its own job logic:
+ * - `GET /health` - liveness, or the deep dependency check with `?deep=1`
+ * - `GET /.well-known/arke-verification` - endpoint ownership for registration
+ * - `POST /process` - verify, validate and accept a job, then run it in the
+ *   background
+ *
+ * The job itself runs inside KladosJob from @arke-institute/rhiza, which
+ * handles log entries, errors (both log and batch slot updates) and the
+ * workflow handoff via interpretThen.
+ */
+
+import { Hono } from 'hono';
+import { KladosJob, type KladosRequest } from '@arke-institute/rhiza';
+import {
+  MemoryNonceStore,
+  deepHealth,
+  isDeepHealthQuery,
+  parseKladosRequest,
+  verifyRequest,
+} from 'klados-runtime';
+import { isLocalApiBase, isSyncProcessEnabled, runJobSync } from './sync.js';
+import type { KladosEnv, KladosWorkerConfig } from './types.js';
+
+/**
+ * Create a worker's Hono app from its job logic
+ *
+ * The app is the worker's default export. Workers that need more routes
+ * add them to the returned app.
+ *
+ * @example
+ * export default createKladosWorker({ processJob, options: { linkEntitiesToLogs: true } });
+ */
+export function createKladosWorker<E extends KladosEnv = KladosEnv>(
+  config: KladosWorkerConfig<E>
+): Hono<{ Bindings: E }> {
+  const { processJob, options = {} } = config;
+  const app = new Hono<{ Bindings: E }>();
+
+  /** Nonces of accepted requests, kept per isolate */
+  const nonces = new MemoryNonceStore();
+
+  /**
+   * Health check endpoint
+   *
+   * `?deep=1` also checks the secrets, the agent key and AGENT_ID against the
+   * API, answering 503 when any check fails.
+   */
+  app.get('/health', async (c) => {
+    if (isDeepHealthQuery(c.req.query('deep'))) {
+      const report = await deepHealth(c.env);
+      return c.json(report, report.status === 'ok' ? 200 : 503);
+    }
+
+    return c.json({
+      status: 'ok',
+      agent_id: c.env.AGENT_ID,
+      version: c.env.AGENT_VERSION,
+    });
+  });
+
+  /**
+   * Arke verification endpoint
+   * Required to verify ownership of this endpoint before activating the klados.
+   * Returns the verification token provided during registration.
+   *
+   * Uses ARKE_VERIFY_AGENT_ID during initial verification (before AGENT_ID is set),
+   * then falls back to AGENT_ID for subsequent verifications.
+   */
+  app.get('/.well-known/arke-verification', (c) => {
+    const token = c.env.VERIFICATION_TOKEN;
+    // Use verification-specific agent ID if set, otherwise fall back to main AGENT_ID
+    const kladosId = c.env.ARKE_VERIFY_AGENT_ID || c.env.AGENT_ID;
+
+    if (!token || !kladosId) {
+      return c.json({ error: 'Verification not configured' }, 500);
+    }
+
+    return c.json({
+      verification_token: token,
+      klados_id: kladosId,
+    });
+  });
+
+  /**
+   * Main job processing endpoint
+   * The API calls POST /process to invoke the klados. Requests must be signed
+   * by Arke and be a well-formed KladosRequest; anything else is rejected
+   * before a job is accepted. With KLADOS_SYNC_PROCESS set against a local
+   * API, the job runs before the response (see ./sync).
+   */
+  app.post('/process', async (c) => {
+    const verified = await verifyRequest(c.req.raw, { publicKey: c.env.ARKE_SIGNING_KEY, nonces });
+    if (!verified.ok) {
+      return c.json({ error: verified.message, reason: verified.reason }, verified.status);
+    }
+
+    // Reject malformed bodies here, where the caller sees why, rather than in waitUntil
+    const parsed = parseKladosRequest<KladosRequest>(verified.body);
+    if (!parsed.ok) {
+      return c.json({ error: parsed.message, reason: parsed.reason, issues: parsed.issues }, parsed.status);
+    }
+
+    // Synchronous mode is for local development only; refuse it anywhere else
+    const sync = isSyncProcessEnabled(c.env);
+    if (sync && !isLocalApiBase(c.env.ARKE_API_BASE)) {
+      return c.json(
+        {
+          error: 'KLADOS_SYNC_PROCESS is only allowed when ARKE_API_BASE is a local API or fake-arke',
+          reason: 'sync_process_not_local',
+        },
+        403
+      );
+    }
+
+    // Accept the job immediately
+    const job = KladosJob.accept(parsed.request, {
+      agentId: c.env.AGENT_ID,
+      agentVersion: c.env.AGENT_VERSION,
+      authToken: c.env.ARKE_AGENT_KEY,
+      linkEntitiesToLogs: options.linkEntitiesToLogs,
+    });
+
+    // Debug mode: wait for the job and answer with how it went
+    if (sync) {
+      const result = await runJobSync(job, processJob, c.env);
+      return c.json(result, result.status === 'done' ? 200 : 500);
+    }
+
+    // Process in background - KladosJob handles:
+    // - Writing initial log entry
+    // - Catching errors and updating log + batch slot
+    // - Executing workflow handoffs
+    // - Finalizing log on completion
+    c.executionCtx.waitUntil(job.run(() => processJob(job, c.env)));
+
+    // Return acceptance immediately
+    return c.json(job.acceptResponse);
+  });
+
+  return app;
+}
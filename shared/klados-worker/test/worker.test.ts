@@ -0,0 +1,130 @@
+/**
+ * Tests for the shared worker routes
+ *
+ * The routes that answer before a job is accepted are checked with a job
+ * function that records its calls. Accepted jobs are covered by each
+ * worker's offline test against the fake Arke API.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { signRequest, generateSigningKeyPair } from 'klados-runtime';
+import { createKladosWorker, isLocalApiBase, isSyncProcessEnabled, type KladosEnv } from '../src';
+
+const env: KladosEnv = {
+  AGENT_ID: 'K1',
+  AGENT_VERSION: '1.2.0',
+  ARKE_AGENT_KEY: 'ak_unused',
+};
+
+function workerWithCalls() {
+  const calls: string[] = [];
+  const app = createKladosWorker({
+    processJob: async (job) => {
+      calls.push(job.request.job_id);
+      return [];
+    },
+  });
+  return { app, calls };
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('createKladosWorker', () => {
+  it('should answer the shallow health check', async () => {
+    const { app } = workerWithCalls();
+    const response = await app.request('/health', {}, env);
+
+    expect(await response.json()).toEqual({ status: 'ok', agent_id: 'K1', version: '1.2.0' });
+  });
+
+  it('should serve the verification token, preferring ARKE_VERIFY_AGENT_ID', async () => {
+    const { app } = workerWithCalls();
+
+    const unconfigured = await app.request('/.well-known/arke-verification', {}, env);
+    expect(unconfigured.status).toBe(500);
+
+    const verifying = await app.request(
+      '/.well-known/arke-verification',
+      {},
+      { ...env, VERIFICATION_TOKEN: 'vt_1', ARKE_VERIFY_AGENT_ID: 'K_NEW' }
+    );
+    expect(await verifying.json()).toEqual({ verification_token: 'vt_1', klados_id: 'K_NEW' });
+  });
+
+  it('should reject unsigned and malformed requests without running the job', async () => {
+    const { app, calls } = workerWithCalls();
+    const keys = await generateSigningKeyPair();
+    const signedEnv = { ...env, ARKE_SIGNING_KEY: keys.publicKey };
+
+    const unsigned = await app.request('/process', { method: 'POST', body: '{}' }, signedEnv);
+    expect(unsigned.status).toBe(401);
+    expect(await unsigned.json()).toMatchObject({ reason: 'missing_signature' });
+
+    const url = 'https://worker.test/process';
+    const body = JSON.stringify({ job_id: 'job_1' });
+    const headers = await signRequest(keys.privateKey, { method: 'POST', url, body });
+    const malformed = await app.fetch(new Request(url, { method: 'POST', headers, body }), signedEnv);
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toMatchObject({ reason: 'invalid_request' });
+
+    expect(calls).toEqual([]);
+  });
+
+  it('should refuse synchronous mode against a deployed API', async () => {
+    const { app, calls } = workerWithCalls();
+    const keys = await generateSigningKeyPair();
+    const url = 'https://worker.test/process';
+    const body = JSON.stringify({
+      job_id: 'job_1',
+      target_entity: 'E1',
+      target_collection: 'C1',
+      job_collection: 'JC1',
+    });
+    const headers = await signRequest(keys.privateKey, { method: 'POST', url, body });
+
+    const response = await app.fetch(new Request(url, { method: 'POST', headers, body }), {
+      ...env,
+      ARKE_SIGNING_KEY: keys.publicKey,
+      KLADOS_SYNC_PROCESS: 'true',
+      ARKE_API_BASE: 'https://arke-v1.arke.institute',
+    });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ reason: 'sync_process_not_local' });
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('isLocalApiBase', () => {
+  it('should only accept local hosts and fake-arke', () => {
+    const bases = [
+      'http://localhost:8788',
+      'http://127.0.0.1:8788',
+      'http://[::1]:8788',
+      'http://fake-arke.local',
+      'https://arke-v1.arke.institute',
+      'http://localhost.example.com',
+      'not a url',
+      undefined,
+    ];
+
+    expect(bases.map(isLocalApiBase)).toEqual([true, true, true, true, false, false, false, false]);
+  });
+});
+
+describe('isSyncProcessEnabled', () => {
+  it('should accept 1 and true only', () => {
+    const values = ['1', 'true', '0', 'false', '', undefined];
+
+    expect(values.map((value) => isSyncProcessEnabled({ KLADOS_SYNC_PROCESS: value }))).toEqual([
+      true,
+      true,
+      false,
+      false,
+      false,
+      false,
+    ]);
+  });
+});
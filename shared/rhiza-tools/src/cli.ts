@@ -0,0 +1,215 @@
+/**
+ * Command-line entry points used by the rhizai packages' scripts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createFakeArke } from 'fake-arke';
+import { discoverRepo, findRepoRoot, resolveRhizaFile } from './discover.js';
+import { runWorkflowLocally } from './executor.js';
+import { renderWorkflowGraph, type GraphFormat } from './graph.js';
+import { buildWorkflowTrace, formatTraceText, toChromeTrace } from './trace.js';
+import { formatIssue, repoValidationContext, validateWorkflowFile } from './validate.js';
+import { loadWorkflow, workflowPath } from './workflow.js';
+
+function flagValue(argv: string[], flag: string): string | undefined {
+  const index = argv.indexOf(flag);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+function parseJsonFlag(argv: string[], flag: string): Record<string, unknown> | undefined {
+  const value = flagValue(argv, flag);
+  if (value === undefined) return undefined;
+
+  try {
+    return JSON.parse(value) as Record<string, unknown>;
+  } catch {
+    throw new Error(`${flag} expects a JSON object, got: ${value}`);
+  }
+}
+
+/**
+ * `run-local <workflow> [--target-props <json>] [--input <json>] [--json] [--trace <file>]`
+ *
+ * Runs a workflow from the current rhizai package against the in-repo
+ * workers. The target is a fresh `test_entity` with `--target-props` as its
+ * properties (e.g. `'{"copy_count":3}'`). `--trace` also writes the run as
+ * a Chrome trace-event file.
+ */
+export async function runLocalCommand(argv: string[], packageDir: string = process.cwd()): Promise<void> {
+  const workflowArg = argv[0];
+  if (!workflowArg || workflowArg.startsWith('--')) {
+    console.error(
+      'Usage: npm run run-local -- <workflow-name> [--target-props <json>] [--input <json>] [--json] [--trace <file>]'
+    );
+    console.error(`Example: npm run run-local -- nested-scatter-test --target-props '{"copy_count":3}'`);
+    process.exit(1);
+  }
+
+  try {
+    const workflow = loadWorkflow(workflowPath(packageDir, workflowArg));
+    const repo = discoverRepo(findRepoRoot(packageDir));
+    const fake = createFakeArke();
+
+    const targetCollection = fake.store.create({
+      type: 'collection',
+      properties: { label: `Local ${workflow.label} targets` },
+    });
+    const targetEntity = fake.store.create({
+      type: 'test_entity',
+      collection: targetCollection.id,
+      properties: { label: `Local ${workflow.label} source`, ...parseJsonFlag(argv, '--target-props') },
+    });
+
+    const result = await runWorkflowLocally(
+      workflow,
+      {
+        targetEntity: targetEntity.id,
+        targetCollection: targetCollection.id,
+        input: parseJsonFlag(argv, '--input'),
+      },
+      { fake, kladoi: repo.kladoi, rhizai: repo.rhizai }
+    );
+
+    if (argv.includes('--json')) {
+      console.log(JSON.stringify({
+        job_id: result.jobId,
+        job_collection: result.jobCollection,
+        kladoi: result.kladoi,
+        is_complete: result.tree.isComplete,
+        has_errors: result.tree.hasErrors,
+        logs: [...result.tree.logs.values()],
+      }, null, 2));
+    } else {
+      console.log(`\n▶ ${workflow.label} (local, job ${result.jobId})\n`);
+      process.stdout.write(formatTraceText(buildWorkflowTrace(result.tree)));
+    }
+
+    const traceFile = flagValue(argv, '--trace');
+    if (traceFile) {
+      fs.writeFileSync(traceFile, JSON.stringify(toChromeTrace(buildWorkflowTrace(result.tree), workflow.label)));
+      console.log(`\nWrote Chrome trace to ${traceFile} (open in chrome://tracing or ui.perfetto.dev)`);
+    }
+
+    if (!result.tree.isComplete || result.tree.hasErrors) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(`\nError: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+function workflowFilesIn(packageDir: string): string[] {
+  const dir = path.join(packageDir, 'workflows');
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith('.json'))
+    .sort()
+    .map((f) => path.join(dir, f));
+}
+
+/**
+ * `validate [workflow-name...] [--all]`
+ *
+ * Validates the named workflows, every workflow in the current rhizai
+ * package, or with `--all` every workflow in the repo. Exits non-zero when
+ * any workflow has errors; warnings are printed but don't fail.
+ */
+export async function validateCommand(argv: string[], packageDir: string = process.cwd()): Promise<void> {
+  const root = findRepoRoot(packageDir);
+  const repo = discoverRepo(root);
+  const context = repoValidationContext(repo);
+
+  const names = argv.filter((arg) => !arg.startsWith('--'));
+  const files = argv.includes('--all')
+    ? Object.values(repo.workflowFiles).sort()
+    : names.length > 0
+      ? names.map((name) => workflowPath(packageDir, name))
+      : workflowFilesIn(packageDir);
+
+  if (files.length === 0) {
+    console.error('No workflow files found in workflows/');
+    process.exit(1);
+  }
+
+  let errorCount = 0;
+  let warningCount = 0;
+
+  for (const file of files) {
+    const label = path.relative(packageDir, file);
+    if (!fs.existsSync(file)) {
+      console.log(`✗ ${label}`);
+      console.log('    error   Workflow file not found');
+      errorCount++;
+      continue;
+    }
+
+    const issues = validateWorkflowFile(file, context);
+    const errors = issues.filter((i) => i.severity === 'error').length;
+    errorCount += errors;
+    warningCount += issues.length - errors;
+
+    console.log(`${errors > 0 ? '✗' : '✓'} ${label}`);
+    for (const issue of issues) {
+      console.log(`    ${formatIssue(issue)}`);
+    }
+  }
+
+  console.log('');
+  console.log(`${files.length} workflow(s): ${errorCount} error(s), ${warningCount} warning(s)`);
+
+  if (errorCount > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * `visualize <workflow> [--format mermaid|dot] [--out <file>]`
+ *
+ * Renders a workflow as a Mermaid flowchart (default) or Graphviz DOT.
+ * Sub-rhiza steps are expanded inline, resolved through the packages'
+ * `.rhiza-state-*.json` files and then by naming convention.
+ */
+export async function visualizeCommand(argv: string[], packageDir: string = process.cwd()): Promise<void> {
+  const workflowArg = argv[0];
+  if (!workflowArg || workflowArg.startsWith('--')) {
+    console.error('Usage: npm run visualize -- <workflow-name> [--format mermaid|dot] [--out <file>]');
+    console.error('Example: npm run visualize -- sub-rhiza-test --format dot --out sub-rhiza-test.dot');
+    process.exit(1);
+  }
+
+  const out = flagValue(argv, '--out');
+  const format = (flagValue(argv, '--format') ?? (out?.endsWith('.dot') ? 'dot' : 'mermaid')) as GraphFormat;
+  if (format !== 'mermaid' && format !== 'dot') {
+    console.error(`Error: Unknown format "${format}" (expected mermaid or dot)`);
+    process.exit(1);
+  }
+
+  try {
+    const file = workflowPath(packageDir, workflowArg);
+    const workflow = loadWorkflow(file);
+    const repo = discoverRepo(findRepoRoot(packageDir));
+
+    // One definition per file, so a workflow that invokes itself is recognised
+    const loaded = new Map([[path.resolve(file), workflow]]);
+    const rendered = renderWorkflowGraph(workflow, format, (ref) => {
+      const subFile = resolveRhizaFile(ref, repo);
+      if (!subFile) return undefined;
+      const key = path.resolve(subFile);
+      if (!loaded.has(key)) loaded.set(key, loadWorkflow(subFile));
+      return loaded.get(key);
+    });
+
+    if (out) {
+      fs.writeFileSync(out, rendered);
+      console.log(`Wrote ${format} graph of ${workflow.label} to ${out}`);
+    } else {
+      process.stdout.write(rendered);
+    }
+  } catch (error) {
+    console.error(`\nError: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
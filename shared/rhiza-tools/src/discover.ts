@@ -0,0 +1,226 @@
+/**
+ * Discovery of the in-repo workers and workflows
+ *
+ * Step references are matched to repo packages by naming convention:
+ * - `kladoi/stamp-worker`                     → `$STAMP_KLADOS`
+ * - `kladoi/scatter-worker`                   → `$SCATTER_KLADOS`
+ * - `rhizai/stamp-chain/workflows/stamp-chain.json` → `$STAMP_CHAIN_RHIZA`
+ *
+ * Workers are imported lazily, so a workflow only needs the dependencies of
+ * the workers it actually references.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { WorkerHandler } from 'fake-arke';
+import { loadWorkflow, referenceName } from './workflow.js';
+import type { AgentManifest, RhizaWorkflow } from './types.js';
+
+/** Lazily loaded worker or workflow, keyed by reference name */
+export type Loader<T> = () => Promise<T>;
+
+export interface RepoPackages {
+  root: string;
+  kladoi: Record<string, Loader<WorkerHandler>>;
+  rhizai: Record<string, Loader<RhizaWorkflow>>;
+
+  /** Each worker's agent.json, keyed by reference name */
+  agents: Record<string, AgentManifest>;
+
+  /** Workflow file paths, keyed by reference name */
+  workflowFiles: Record<string, string>;
+
+  /** Workflow file paths, keyed by the rhiza ID recorded in their state files */
+  registeredRhizai: Record<string, string>;
+}
+
+/**
+ * `stamp-worker` → `STAMP`, `stamp-chain` → `STAMP_CHAIN`
+ */
+function constantCase(name: string): string {
+  return name.replace(/-worker$/, '').replace(/[^A-Za-z0-9]+/g, '_').toUpperCase();
+}
+
+/**
+ * Reference name of a worker package directory
+ */
+export function kladosReferenceName(packageName: string): string {
+  return `${constantCase(packageName)}_KLADOS`;
+}
+
+/**
+ * Reference name of a workflow file
+ */
+export function rhizaReferenceName(workflowName: string): string {
+  return `${constantCase(workflowName.replace(/\.json$/, ''))}_RHIZA`;
+}
+
+/**
+ * Walk up from a directory to the repo root (the directory holding kladoi/ and rhizai/)
+ */
+export function findRepoRoot(from: string = process.cwd()): string {
+  let dir = path.resolve(from);
+  while (true) {
+    if (fs.existsSync(path.join(dir, 'kladoi')) && fs.existsSync(path.join(dir, 'rhizai'))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      throw new Error(`Could not find the repo root (kladoi/ and rhizai/) above ${from}`);
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Map the rhiza IDs in a package's `.rhiza-state-*.json` files to workflow files
+ *
+ * `.rhiza-state-<workflow>.json` (and network variants such as
+ * `.rhiza-state-<workflow>.prod.json`) name their workflow; the legacy
+ * `.rhiza-state.json` is only attributed when the package has one workflow.
+ */
+function readStateFiles(packageDir: string, workflowFiles: string[]): Record<string, string> {
+  const registered: Record<string, string> = {};
+  const byName = new Map(workflowFiles.map((file) => [path.basename(file, '.json'), file]));
+
+  for (const file of fs.readdirSync(packageDir).filter((f) => /^\.rhiza-state.*\.json$/.test(f))) {
+    let state: { rhiza_id?: string; rhizaId?: string };
+    try {
+      state = JSON.parse(fs.readFileSync(path.join(packageDir, file), 'utf-8'));
+    } catch {
+      continue;
+    }
+    const rhizaId = state.rhiza_id ?? state.rhizaId;
+    if (!rhizaId) continue;
+
+    // '' | '-<workflow>' | '.prod' | '-<workflow>.prod'
+    const suffix = file.slice('.rhiza-state'.length, -'.json'.length);
+    const name = suffix.replace(/\.[a-z]+$/, '').replace(/^-/, '');
+    const workflowFile = name
+      ? byName.get(name)
+      : workflowFiles.length === 1
+        ? workflowFiles[0]
+        : undefined;
+    if (workflowFile) {
+      registered[rhizaId] = workflowFile;
+    }
+  }
+
+  return registered;
+}
+
+function listDirs(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * A worker package: a directory in `kladoi/` with an `agent.json`
+ */
+export interface KladosPackageDir {
+  /** Directory name, e.g. `stamp-worker` */
+  name: string;
+  dir: string;
+}
+
+/**
+ * A workflow package: a directory in `rhizai/` with `workflows/*.json`
+ */
+export interface RhizaPackageDir {
+  name: string;
+  dir: string;
+
+  /** Workflow file paths, sorted by name */
+  workflowFiles: string[];
+}
+
+export interface RepoPackageDirs {
+  kladoi: KladosPackageDir[];
+  rhizai: RhizaPackageDir[];
+}
+
+/**
+ * List the worker and workflow package directories, sorted by name
+ */
+export function listPackageDirs(root: string = findRepoRoot()): RepoPackageDirs {
+  const kladoi = listDirs(path.join(root, 'kladoi'))
+    .map((name) => ({ name, dir: path.join(root, 'kladoi', name) }))
+    .filter((pkg) => fs.existsSync(path.join(pkg.dir, 'agent.json')));
+
+  const rhizai: RhizaPackageDir[] = [];
+  for (const name of listDirs(path.join(root, 'rhizai'))) {
+    const dir = path.join(root, 'rhizai', name);
+    const workflowsDir = path.join(dir, 'workflows');
+    if (!fs.existsSync(workflowsDir)) continue;
+
+    const workflowFiles = fs
+      .readdirSync(workflowsDir)
+      .filter((f) => f.endsWith('.json'))
+      .sort()
+      .map((f) => path.join(workflowsDir, f));
+    if (workflowFiles.length > 0) {
+      rhizai.push({ name, dir, workflowFiles });
+    }
+  }
+
+  return { kladoi, rhizai };
+}
+
+/**
+ * Find the in-repo workers and workflows, keyed by reference name
+ */
+export function discoverRepo(root: string = findRepoRoot()): RepoPackages {
+  const kladoi: Record<string, Loader<WorkerHandler>> = {};
+  const rhizai: Record<string, Loader<RhizaWorkflow>> = {};
+  const agents: Record<string, AgentManifest> = {};
+  const workflowFiles: Record<string, string> = {};
+  const registeredRhizai: Record<string, string> = {};
+  const packages = listPackageDirs(root);
+
+  for (const { name, dir } of packages.kladoi) {
+    agents[kladosReferenceName(name)] = JSON.parse(
+      fs.readFileSync(path.join(dir, 'agent.json'), 'utf-8')
+    ) as AgentManifest;
+
+    const entry = path.join(dir, 'src', 'index.ts');
+    if (!fs.existsSync(entry)) continue;
+
+    kladoi[kladosReferenceName(name)] = async () => {
+      const module = (await import(pathToFileURL(entry).href)) as { default: WorkerHandler };
+      return module.default;
+    };
+  }
+
+  for (const { dir, workflowFiles: files } of packages.rhizai) {
+    for (const workflowFile of files) {
+      const reference = rhizaReferenceName(path.basename(workflowFile));
+      workflowFiles[reference] = workflowFile;
+      rhizai[reference] = async () => loadWorkflow(workflowFile);
+    }
+    Object.assign(registeredRhizai, readStateFiles(dir, files));
+  }
+
+  return { root, kladoi, rhizai, agents, workflowFiles, registeredRhizai };
+}
+
+/**
+ * Resolve a sub-rhiza reference to its workflow file
+ *
+ * The reference's value (the env var for `$VAR`, or a literal rhiza ID) is
+ * looked up in the state files first, so a registered rhiza resolves to the
+ * workflow it was registered from; the naming convention is the fallback.
+ */
+export function resolveRhizaFile(
+  ref: string,
+  repo: RepoPackages,
+  env: Record<string, string | undefined> = process.env
+): string | undefined {
+  const name = referenceName(ref);
+  const value = ref.startsWith('$') ? env[name] : ref;
+  return (value && repo.registeredRhizai[value]) || repo.workflowFiles[name];
+}
@@ -0,0 +1,452 @@
+/**
+ * Local Rhiza Executor
+ *
+ * Runs a workflow definition against in-process worker apps and a fake Arke
+ * API, standing in for the hosted orchestrator:
+ * 1. Each step's `$VAR` klados reference is resolved to a worker app and
+ *    registered with the fake
+ * 2. The step is dispatched as a KladosRequest to the worker's /process route
+ * 3. Once the worker's background work settles, the step's klados_log is
+ *    read and its `then` spec applied to the logged outputs
+ *
+ * Invocations run one at a time, breadth-first, so runs are deterministic and
+ * each klados_log can be attributed to the invocation that wrote it. The
+ * executor owns every handoff and records what it dispatched on the log's
+ * `handoffs`, as the orchestrator does. Logs that don't record the log
+ * that invoked them get `received.from_logs` linking them to their parent.
+ *
+ * Sub-rhiza steps (`type: "rhiza"`) run the sub-workflow's entry step; when
+ * the sub-workflow reaches `done`, the invoking step's own `then` is applied
+ * to the sub-workflow's outputs.
+ */
+
+import { createFakeArke, type FakeArke, type FakeEntity, type WorkerHandler } from 'fake-arke';
+import { matchesCondition } from 'klados-runtime';
+import { buildWorkflowLogTree } from './tree.js';
+import { isRhizaStep, referenceName } from './workflow.js';
+import type { Loader } from './discover.js';
+import type { RhizaWorkflow, RouteRule, ThenSpec, WorkflowLogNode, WorkflowLogTree } from './types.js';
+
+/** Guard against cycles in a flow */
+const DEFAULT_MAX_INVOCATIONS = 500;
+
+export interface LocalRunTarget {
+  targetEntity?: string;
+  targetEntities?: string[];
+  targetCollection: string;
+
+  /** Job input, passed to every step */
+  input?: Record<string, unknown>;
+}
+
+export interface LocalRunOptions {
+  /** Worker apps (or loaders) keyed by reference name, e.g. `STAMP_KLADOS` */
+  kladoi: Record<string, WorkerHandler | Loader<WorkerHandler>>;
+
+  /** Sub-workflows (or loaders) keyed by reference name, e.g. `STAMP_CHAIN_RHIZA` */
+  rhizai?: Record<string, RhizaWorkflow | Loader<RhizaWorkflow>>;
+
+  /** Fake API to run against; a fresh one is created when omitted */
+  fake?: FakeArke;
+
+  /** Job ID shared by every step (default: generated) */
+  jobId?: string;
+
+  /** Maximum klados invocations before the run is aborted (default: 500) */
+  maxInvocations?: number;
+
+  /** Called as each step's log is read */
+  onLog?: (node: WorkflowLogNode) => void;
+}
+
+export interface LocalRunResult {
+  jobId: string;
+  jobCollection: string;
+  fake: FakeArke;
+
+  /** Klados IDs the workers were registered under, keyed by reference name */
+  kladoi: Record<string, string>;
+
+  tree: WorkflowLogTree;
+}
+
+/**
+ * A normalized step output: bare IDs and OutputItems alike
+ */
+interface OutputItem {
+  entityId: string;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Where a sub-rhiza returns to once it reaches `done`
+ */
+interface Frame {
+  workflow: RhizaWorkflow;
+  rhizaId: string;
+  step: string;
+  path: string[];
+}
+
+/**
+ * The workflow a handoff target is looked up in
+ */
+interface Scope {
+  workflow: RhizaWorkflow;
+  rhizaId: string;
+  basePath: string[];
+  stack: Frame[];
+}
+
+interface Invocation {
+  workflow: RhizaWorkflow;
+  rhizaId: string;
+  step: string;
+  path: string[];
+  stack: Frame[];
+  targetEntity?: string;
+  targetEntities?: string[];
+  parent?: WorkflowLogNode;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function normalizeOutputs(raw: unknown): OutputItem[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((output): OutputItem[] => {
+    if (typeof output === 'string') {
+      return [{ entityId: output, properties: {} }];
+    }
+    if (output && typeof output === 'object' && 'entity_id' in output) {
+      const { entity_id, ...properties } = output as { entity_id: string };
+      return [{ entityId: entity_id, properties }];
+    }
+    return [];
+  });
+}
+
+function logEntry(log: FakeEntity): Record<string, unknown> {
+  const logData = log.properties.log_data as { entry?: Record<string, unknown> } | undefined;
+  return logData?.entry ?? {};
+}
+
+function matchesRoute(rule: RouteRule, item: OutputItem): boolean {
+  return rule.default === true || (rule.where !== undefined && matchesCondition(rule.where, item.properties));
+}
+
+async function load<T>(value: T | Loader<T>): Promise<T> {
+  return typeof value === 'function' ? (value as Loader<T>)() : value;
+}
+
+// =============================================================================
+// Executor
+// =============================================================================
+
+/**
+ * Run a workflow locally and return its log tree
+ */
+export async function runWorkflowLocally(
+  workflow: RhizaWorkflow,
+  target: LocalRunTarget,
+  options: LocalRunOptions
+): Promise<LocalRunResult> {
+  const fake = options.fake ?? createFakeArke();
+  const maxInvocations = options.maxInvocations ?? DEFAULT_MAX_INVOCATIONS;
+  const kladoi: Record<string, string> = {};
+  const rhizaIds = new Map<RhizaWorkflow, string>();
+  const nodes: WorkflowLogNode[] = [];
+
+  const jobId = options.jobId ?? `job_local_${fake.store.nextId('RUN').slice(-6)}`;
+  const jobCollection = fake.store.create({
+    type: 'collection',
+    properties: { label: `Local run: ${workflow.label}` },
+  }).id;
+
+  async function kladosIdFor(ref: string): Promise<string> {
+    const name = referenceName(ref);
+    if (kladoi[name]) return kladoi[name];
+
+    const worker = options.kladoi[name];
+    if (!worker) {
+      throw new Error(`No worker for klados reference ${ref} (known: ${Object.keys(options.kladoi).join(', ') || 'none'})`);
+    }
+    kladoi[name] = fake.registerKlados({ label: name, worker: await load(worker) });
+    return kladoi[name];
+  }
+
+  async function workflowFor(ref: string): Promise<RhizaWorkflow> {
+    const name = referenceName(ref);
+    const subWorkflow = options.rhizai?.[name];
+    if (!subWorkflow) {
+      throw new Error(`No workflow for rhiza reference ${ref}`);
+    }
+    return load(subWorkflow);
+  }
+
+  function rhizaIdFor(definition: RhizaWorkflow): string {
+    let id = rhizaIds.get(definition);
+    if (!id) {
+      const { label, version, entry, flow } = definition;
+      id = fake.store.create({ type: 'rhiza', properties: { label, version, entry, flow } }).id;
+      rhizaIds.set(definition, id);
+    }
+    return id;
+  }
+
+  /**
+   * Descend through sub-rhiza steps to the klados step that actually runs
+   *
+   * A sub-rhiza whose entry leads back to one already entered on the way
+   * down would never reach a klados, so it fails the run.
+   */
+  async function resolveKladosStep(invocation: Invocation): Promise<Invocation> {
+    let current = invocation;
+    let step = current.workflow.flow[current.step];
+    const entered: string[] = [];
+
+    while (isRhizaStep(step)) {
+      if (entered.includes(step.klados.id)) {
+        const trail = [...entered, step.klados.id].join(' → ');
+        throw new Error(`Sub-rhiza ${step.klados.id} leads back to itself without running a klados (${trail})`);
+      }
+      entered.push(step.klados.id);
+
+      const subWorkflow = await workflowFor(step.klados.id);
+      current = {
+        ...current,
+        workflow: subWorkflow,
+        rhizaId: rhizaIdFor(subWorkflow),
+        step: subWorkflow.entry,
+        path: [...current.path, subWorkflow.entry],
+        stack: [
+          ...current.stack,
+          { workflow: current.workflow, rhizaId: current.rhizaId, step: current.step, path: current.path },
+        ],
+      };
+      step = current.workflow.flow[current.step];
+      if (!step) {
+        throw new Error(`Sub-rhiza entry step "${current.step}" not found in ${subWorkflow.label}`);
+      }
+    }
+
+    return current;
+  }
+
+  function requestFor(invocation: Invocation): Record<string, unknown> {
+    return {
+      job_id: jobId,
+      target_entity: invocation.targetEntity,
+      target_entities: invocation.targetEntities,
+      target_collection: target.targetCollection,
+      job_collection: jobCollection,
+      input: target.input,
+      api_base: fake.baseUrl,
+      network: 'test',
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      rhiza: {
+        id: invocation.rhizaId,
+        path: invocation.path,
+        parent_logs: invocation.parent ? [invocation.parent.log.id] : [],
+      },
+    };
+  }
+
+  /**
+   * Dispatch one klados step and read back the log it wrote
+   */
+  async function execute(invocation: Invocation): Promise<WorkflowLogNode> {
+    const ref = invocation.workflow.flow[invocation.step].klados.id;
+    const kladosId = await kladosIdFor(ref);
+    const seen = new Set(fake.logs(jobCollection).map((l) => l.id));
+
+    const response = await fake.dispatch(kladosId, requestFor(invocation));
+    await fake.idle();
+
+    let log = fake.logs(jobCollection).find((l) => !seen.has(l.id));
+    if (!log) {
+      // Surface rejected or silent invocations in the tree as error logs
+      const message = response.ok
+        ? 'Worker accepted the request but wrote no klados_log'
+        : `Worker rejected the request (${response.status}): ${await response.text()}`;
+      log = fake.store.create({
+        type: 'klados_log',
+        collection: jobCollection,
+        properties: { klados_id: kladosId, status: 'error', log_data: { entry: { error: { message } } } },
+      });
+    }
+
+    return {
+      log,
+      step: invocation.step,
+      path: invocation.path,
+      ref,
+      children: [],
+      expectedChildren: 0,
+      isLeaf: true,
+      isTerminal: true,
+    };
+  }
+
+  /**
+   * Apply a `then` spec to a step's outputs, returning the next invocations
+   */
+  function plan(then: ThenSpec, outputs: OutputItem[], scope: Scope, parent: WorkflowLogNode): Invocation[] {
+    const defaultTarget = then.scatter ?? then.pass;
+
+    if (!defaultTarget && !then.route) {
+      // done: end of the branch, or return to the step that invoked this sub-rhiza
+      const frame = scope.stack.at(-1);
+      if (!frame) return [];
+      return plan(
+        frame.workflow.flow[frame.step].then,
+        outputs,
+        {
+          workflow: frame.workflow,
+          rhizaId: frame.rhizaId,
+          basePath: frame.path.slice(0, -1),
+          stack: scope.stack.slice(0, -1),
+        },
+        parent
+      );
+    }
+
+    const targetFor = (item: OutputItem) =>
+      then.route?.find((rule) => matchesRoute(rule, item))?.target ?? defaultTarget;
+
+    const invoke = (step: string, fields: Partial<Invocation>): Invocation => {
+      if (!scope.workflow.flow[step]) {
+        throw new Error(`Step "${parent.step}" hands off to unknown step "${step}"`);
+      }
+      return {
+        workflow: scope.workflow,
+        rhizaId: scope.rhizaId,
+        step,
+        path: [...scope.basePath, step],
+        stack: scope.stack,
+        parent,
+        ...fields,
+      };
+    };
+
+    if (then.scatter) {
+      return outputs.flatMap((item) => {
+        const step = targetFor(item);
+        return step && step !== 'done' ? [invoke(step, { targetEntity: item.entityId })] : [];
+      });
+    }
+
+    const step = outputs.length > 0 ? targetFor(outputs[0]) : undefined;
+    if (!step || step === 'done') return [];
+    return [
+      invoke(step, {
+        targetEntity: outputs[0].entityId,
+        targetEntities: outputs.length > 1 ? outputs.map((o) => o.entityId) : undefined,
+      }),
+    ];
+  }
+
+  /**
+   * Work out a finished step's handoffs and record them on its log
+   */
+  function handOff(invocation: Invocation, node: WorkflowLogNode): Invocation[] {
+    if (node.log.properties.status !== 'done') return [];
+
+    const then = invocation.workflow.flow[invocation.step].then;
+    const entry = logEntry(node.log);
+    const next = plan(
+      then,
+      normalizeOutputs(entry.outputs),
+      {
+        workflow: invocation.workflow,
+        rhizaId: invocation.rhizaId,
+        basePath: invocation.path.slice(0, -1),
+        stack: invocation.stack,
+      },
+      node
+    );
+
+    node.expectedChildren = next.length;
+    node.isTerminal = next.length === 0;
+
+    const updates: Record<string, unknown> = {};
+
+    const received = entry.received as Record<string, unknown> | undefined;
+    if (!received?.from_logs) {
+      // Link the log to its parent, so workers that walk parent logs (like a gather) can find it
+      updates.received = {
+        target_entity: invocation.targetEntity,
+        target_entities: invocation.targetEntities,
+        ...received,
+        from_logs: invocation.parent ? [invocation.parent.log.id] : [],
+      };
+    }
+
+    if (!entry.handoffs) {
+      updates.handoffs = [{
+        type: then.scatter ? 'scatter' : then.pass ? 'pass' : then.route ? 'route' : 'done',
+        target: then.scatter ?? then.pass,
+        invocations: next.map((n) => ({
+          request: {
+            target_entity: n.targetEntity,
+            target_entities: n.targetEntities,
+            rhiza: { id: n.rhizaId, path: n.path },
+          },
+        })),
+      }];
+    }
+
+    if (Object.keys(updates).length > 0) {
+      const logData = node.log.properties.log_data as Record<string, unknown> | undefined;
+      node.log = fake.store.update(node.log.id, {
+        properties: { log_data: { ...logData, entry: { ...entry, ...updates } } },
+      });
+    }
+
+    return next;
+  }
+
+  // ===========================================================================
+  // Run
+  // ===========================================================================
+
+  if (!workflow.flow[workflow.entry]) {
+    throw new Error(`Entry step "${workflow.entry}" not found in ${workflow.label}`);
+  }
+
+  const restoreFetch = fake.install();
+  try {
+    const queue: Invocation[] = [
+      {
+        workflow,
+        rhizaId: rhizaIdFor(workflow),
+        step: workflow.entry,
+        path: [workflow.entry],
+        stack: [],
+        targetEntity: target.targetEntity,
+        targetEntities: target.targetEntities,
+      },
+    ];
+
+    let invocations = 0;
+    while (queue.length > 0) {
+      if (++invocations > maxInvocations) {
+        throw new Error(`Local run exceeded ${maxInvocations} invocations; check ${workflow.label} for a cycle`);
+      }
+
+      const invocation = await resolveKladosStep(queue.shift()!);
+      const node = await execute(invocation);
+      nodes.push(node);
+      invocation.parent?.children.push(node);
+
+      queue.push(...handOff(invocation, node));
+      options.onLog?.(node);
+    }
+  } finally {
+    restoreFetch();
+  }
+
+  return { jobId, jobCollection, fake, kladoi, tree: buildWorkflowLogTree(nodes) };
+}
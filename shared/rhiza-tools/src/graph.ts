@@ -0,0 +1,326 @@
+/**
+ * Workflow Graph Export
+ *
+ * Turns a workflow definition into a graph and renders it as Mermaid or
+ * Graphviz DOT:
+ * - pass edges are plain arrows, scatter edges are bold
+ * - route rules become edges labelled with their condition
+ * - sub-rhiza steps are expanded inline as clusters, with the sub-workflow's
+ *   `done` steps continuing into the invoking step's `then`; a sub-rhiza that
+ *   is already being expanded further up stays a single node
+ * - `done` handoffs end at a shared terminal node
+ */
+
+import { describeCondition } from 'klados-runtime';
+import type { RhizaWorkflow, ThenSpec } from './types.js';
+
+export type GraphFormat = 'mermaid' | 'dot';
+
+export interface GraphNode {
+  id: string;
+  label: string;
+
+  /** Klados or sub-rhiza reference, e.g. `$STAMP_KLADOS` */
+  ref?: string;
+
+  /**
+   * - `klados`: a step that runs a klados
+   * - `rhiza`: a sub-rhiza step that couldn't be expanded
+   * - `missing`: a handoff target that isn't defined
+   */
+  kind: 'start' | 'done' | 'klados' | 'rhiza' | 'missing';
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  handoff: 'pass' | 'scatter';
+
+  /** Route condition, e.g. `entity_class = mention`, or `otherwise` for a default rule */
+  label?: string;
+}
+
+export interface GraphCluster {
+  id: string;
+  label: string;
+  nodes: GraphNode[];
+  clusters: GraphCluster[];
+}
+
+export interface WorkflowGraph {
+  label: string;
+  nodes: GraphNode[];
+  clusters: GraphCluster[];
+  edges: GraphEdge[];
+}
+
+/** Resolves a sub-rhiza reference to its definition */
+export type RhizaResolver = (ref: string) => RhizaWorkflow | undefined;
+
+const START_ID = '__start__';
+const DONE_ID = '__done__';
+
+/**
+ * Steps of one workflow inside the graph
+ */
+interface Scope {
+  workflow: RhizaWorkflow;
+  prefix: string;
+
+  /** Node each step's incoming edges attach to (a sub-rhiza's entry for expanded steps) */
+  inbound: Map<string, string>;
+
+  /** Sub-rhiza scopes, keyed by the invoking step */
+  subScopes: Map<string, Scope>;
+
+  /** The step that invoked this sub-rhiza */
+  parent?: { scope: Scope; step: string };
+
+  container: { nodes: GraphNode[]; clusters: GraphCluster[] };
+}
+
+function nodeId(value: string): string {
+  return value.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+// =============================================================================
+// Graph Building
+// =============================================================================
+
+/**
+ * Build the graph of a workflow, expanding sub-rhizai the resolver can find
+ */
+export function buildWorkflowGraph(workflow: RhizaWorkflow, resolveRhiza: RhizaResolver = () => undefined): WorkflowGraph {
+  const graph: WorkflowGraph = { label: workflow.label, nodes: [], clusters: [], edges: [] };
+  const nodes = new Map<string, GraphNode>();
+
+  const addNode = (container: Scope['container'], node: GraphNode) => {
+    nodes.set(node.id, node);
+    container.nodes.push(node);
+  };
+
+  const ensureNode = (node: GraphNode) => {
+    if (!nodes.has(node.id)) addNode(graph, node);
+    return node.id;
+  };
+
+  function createScope(
+    definition: RhizaWorkflow,
+    prefix: string,
+    container: Scope['container'],
+    trail: string[],
+    parent?: Scope['parent']
+  ): Scope {
+    const scope: Scope = { workflow: definition, prefix, inbound: new Map(), subScopes: new Map(), parent, container };
+
+    for (const [name, step] of Object.entries(definition.flow)) {
+      const id = nodeId(`${prefix}${name}`);
+      const sub = step.klados.type === 'rhiza' ? resolveRhiza(step.klados.id) : undefined;
+      // Resolvers may load a fresh definition per call, so repeats are found by reference
+      const repeated = trail.includes(step.klados.id) || sub === workflow;
+
+      if (sub && sub.flow[sub.entry] && !repeated) {
+        const cluster: GraphCluster = {
+          id: `cluster_${id}`,
+          label: `${name}: ${sub.label} (${step.klados.id})`,
+          nodes: [],
+          clusters: [],
+        };
+        container.clusters.push(cluster);
+
+        const subScope = createScope(sub, `${prefix}${name}__`, cluster, [...trail, step.klados.id], {
+          scope,
+          step: name,
+        });
+        scope.subScopes.set(name, subScope);
+        scope.inbound.set(name, subScope.inbound.get(sub.entry)!);
+      } else {
+        addNode(container, {
+          id,
+          label: name,
+          ref: step.klados.id,
+          kind: step.klados.type === 'rhiza' ? 'rhiza' : 'klados',
+        });
+        scope.inbound.set(name, id);
+      }
+    }
+
+    return scope;
+  }
+
+  function targetId(scope: Scope, step: string): string {
+    return (
+      scope.inbound.get(step) ??
+      ensureNode({ id: nodeId(`${scope.prefix}${step}`), label: step, kind: 'missing' })
+    );
+  }
+
+  /**
+   * Add the edges a `then` spec produces from a node
+   */
+  function addHandoffEdges(scope: Scope, then: ThenSpec, from: string): void {
+    const defaultTarget = then.scatter ?? then.pass;
+
+    if (!defaultTarget && !then.route) {
+      if (scope.parent) {
+        // A finished sub-rhiza continues with the invoking step's then
+        const { scope: parentScope, step } = scope.parent;
+        addHandoffEdges(parentScope, parentScope.workflow.flow[step].then, from);
+      } else {
+        graph.edges.push({ from, to: ensureNode({ id: DONE_ID, label: 'done', kind: 'done' }), handoff: 'pass' });
+      }
+      return;
+    }
+
+    const handoff = then.scatter ? 'scatter' : 'pass';
+    if (defaultTarget) {
+      graph.edges.push({ from, to: targetId(scope, defaultTarget), handoff });
+    }
+    for (const rule of then.route ?? []) {
+      const to =
+        rule.target === 'done'
+          ? ensureNode({ id: DONE_ID, label: 'done', kind: 'done' })
+          : targetId(scope, rule.target);
+      const label = rule.where ? describeCondition(rule.where) : 'otherwise';
+      graph.edges.push({ from, to, handoff, label });
+    }
+  }
+
+  function addScopeEdges(scope: Scope): void {
+    for (const [name, step] of Object.entries(scope.workflow.flow)) {
+      const subScope = scope.subScopes.get(name);
+      if (subScope) {
+        addScopeEdges(subScope);
+      } else {
+        addHandoffEdges(scope, step.then, nodeId(`${scope.prefix}${name}`));
+      }
+    }
+  }
+
+  addNode(graph, { id: START_ID, label: 'start', kind: 'start' });
+  const root = createScope(workflow, '', graph, []);
+  graph.edges.push({ from: START_ID, to: targetId(root, workflow.entry), handoff: 'pass' });
+  addScopeEdges(root);
+
+  return graph;
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+function nodeLabel(node: GraphNode): string {
+  return node.ref ? `${node.label}\n${node.ref}` : node.label;
+}
+
+function edgeLabel(edge: GraphEdge): string | undefined {
+  if (edge.handoff !== 'scatter') return edge.label;
+  return edge.label ? `scatter: ${edge.label}` : 'scatter';
+}
+
+function allNodes(container: { nodes: GraphNode[]; clusters: GraphCluster[] }): GraphNode[] {
+  return [...container.nodes, ...container.clusters.flatMap(allNodes)];
+}
+
+/**
+ * Render a graph as a Mermaid flowchart
+ */
+export function renderMermaid(graph: WorkflowGraph): string {
+  const lines = ['flowchart TD'];
+  const text = (value: string) => `"${value.replace(/"/g, '#quot;').replace(/\n/g, '<br/>')}"`;
+
+  const renderNode = (node: GraphNode, indent: string) => {
+    const label = text(nodeLabel(node));
+    const shape = {
+      start: `([${label}])`,
+      done: `((${label}))`,
+      klados: `[${label}]`,
+      rhiza: `[[${label}]]`,
+      missing: `{{${label}}}`,
+    }[node.kind];
+    lines.push(`${indent}${node.id}${shape}`);
+  };
+
+  const renderCluster = (cluster: GraphCluster, indent: string) => {
+    lines.push(`${indent}subgraph ${cluster.id} [${text(cluster.label)}]`);
+    cluster.nodes.forEach((n) => renderNode(n, `${indent}  `));
+    cluster.clusters.forEach((c) => renderCluster(c, `${indent}  `));
+    lines.push(`${indent}end`);
+  };
+
+  graph.nodes.forEach((n) => renderNode(n, '  '));
+  graph.clusters.forEach((c) => renderCluster(c, '  '));
+
+  for (const edge of graph.edges) {
+    const arrow = edge.handoff === 'scatter' ? '==>' : '-->';
+    const label = edgeLabel(edge);
+    lines.push(`  ${edge.from} ${arrow}${label ? `|${text(label)}|` : ''} ${edge.to}`);
+  }
+
+  const missing = allNodes(graph).filter((n) => n.kind === 'missing');
+  if (missing.length > 0) {
+    lines.push('  classDef missing stroke:#d33,stroke-dasharray:4 2');
+    lines.push(`  class ${missing.map((n) => n.id).join(',')} missing`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Render a graph as Graphviz DOT
+ */
+export function renderDot(graph: WorkflowGraph): string {
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  const lines = [
+    `digraph ${quote(graph.label)} {`,
+    '  rankdir=TB;',
+    '  node [shape=box, style=rounded, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  const renderNode = (node: GraphNode, indent: string) => {
+    const attrs = {
+      start: 'shape=oval',
+      done: 'shape=doublecircle',
+      klados: '',
+      rhiza: 'shape=box, peripheries=2',
+      missing: 'color="#d33", style="rounded,dashed"',
+    }[node.kind];
+    lines.push(`${indent}${quote(node.id)} [label=${quote(nodeLabel(node))}${attrs ? `, ${attrs}` : ''}];`);
+  };
+
+  const renderCluster = (cluster: GraphCluster, indent: string) => {
+    lines.push(`${indent}subgraph ${quote(cluster.id)} {`);
+    lines.push(`${indent}  label=${quote(cluster.label)};`);
+    lines.push(`${indent}  style=dashed;`);
+    cluster.nodes.forEach((n) => renderNode(n, `${indent}  `));
+    cluster.clusters.forEach((c) => renderCluster(c, `${indent}  `));
+    lines.push(`${indent}}`);
+  };
+
+  graph.nodes.forEach((n) => renderNode(n, '  '));
+  graph.clusters.forEach((c) => renderCluster(c, '  '));
+
+  for (const edge of graph.edges) {
+    const attrs: string[] = [];
+    if (edge.handoff === 'scatter') attrs.push('style=bold', 'arrowhead=crow');
+    const label = edgeLabel(edge);
+    if (label) attrs.push(`label=${quote(label)}`);
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attrs.length ? ` [${attrs.join(', ')}]` : ''};`);
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Render a workflow in the given format
+ */
+export function renderWorkflowGraph(
+  workflow: RhizaWorkflow,
+  format: GraphFormat,
+  resolveRhiza?: RhizaResolver
+): string {
+  const graph = buildWorkflowGraph(workflow, resolveRhiza);
+  return format === 'dot' ? renderDot(graph) : renderMermaid(graph);
+}
@@ -0,0 +1,78 @@
+/**
+ * Local tooling for rhiza workflow definitions
+ */
+
+export {
+  runWorkflowLocally,
+  type LocalRunTarget,
+  type LocalRunOptions,
+  type LocalRunResult,
+} from './executor.js';
+export { buildWorkflowLogTree } from './tree.js';
+export { loadWorkflow, workflowPath, referenceName, isRhizaStep } from './workflow.js';
+export {
+  discoverRepo,
+  listPackageDirs,
+  findRepoRoot,
+  kladosReferenceName,
+  rhizaReferenceName,
+  resolveRhizaFile,
+  type Loader,
+  type RepoPackages,
+  type RepoPackageDirs,
+  type KladosPackageDir,
+  type RhizaPackageDir,
+} from './discover.js';
+export {
+  buildWorkflowGraph,
+  renderWorkflowGraph,
+  renderMermaid,
+  renderDot,
+  type GraphFormat,
+  type GraphNode,
+  type GraphEdge,
+  type GraphCluster,
+  type WorkflowGraph,
+  type RhizaResolver,
+} from './graph.js';
+export { matchesCondition, conditionIssues, describeCondition, CONDITION_OPERATORS } from 'klados-runtime';
+export {
+  buildWorkflowTrace,
+  traceSpans,
+  formatTraceText,
+  toChromeTrace,
+  renderTrace,
+  type TraceFormat,
+  type TraceLogEntry,
+  type TraceLogNode,
+  type TraceLogTree,
+  type TraceHandoff,
+  type TraceSpan,
+  type WorkflowTrace,
+  type ChromeTraceEvent,
+} from './trace.js';
+export {
+  validateWorkflow,
+  validateWorkflowFile,
+  repoValidationContext,
+  formatIssue,
+  type ValidationContext,
+} from './validate.js';
+export { runLocalCommand, validateCommand, visualizeCommand } from './cli.js';
+export type {
+  RhizaWorkflow,
+  WorkflowStep,
+  StepReference,
+  ThenSpec,
+  RouteRule,
+  RouteCondition,
+  PropertyCondition,
+  RouteValue,
+  WorkflowLogNode,
+  WorkflowLogTree,
+  AgentManifest,
+  Cardinality,
+  WorkflowIssue,
+  IssueSeverity,
+  IssueCode,
+} from './types.js';
@@ -0,0 +1,378 @@
+/**
+ * Workflow Trace Reports
+ *
+ * Turns a finished (or timed-out) WorkflowLogTree into a trace of spans, one
+ * per klados log, nested along the parent_logs edges the tree was built from:
+ * - timings come from the log entity's `created_at` / `updated_at`
+ * - outputs, handoffs and errors come from `log_data.entry`
+ *
+ * The input types are structural, so trees from `waitForWorkflowTree` in the
+ * E2E tests report the same way as trees from `runWorkflowLocally`.
+ */
+
+export type TraceFormat = 'text' | 'json' | 'chrome';
+
+/**
+ * The parts of a klados log entity a trace reads
+ */
+export interface TraceLogEntry {
+  id: string;
+  properties: object;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface TraceLogNode {
+  log: TraceLogEntry;
+  children: TraceLogNode[];
+  step?: string;
+  path?: string[];
+  ref?: string;
+  expectedChildren?: number;
+}
+
+export interface TraceLogTree {
+  logs: Map<string, TraceLogEntry>;
+  root?: TraceLogNode;
+  isComplete: boolean;
+  hasErrors: boolean;
+}
+
+export interface TraceHandoff {
+  type: string;
+  target: string;
+  invocations: number;
+}
+
+/**
+ * One klados log in a trace
+ */
+export interface TraceSpan {
+  logId: string;
+  parentLogId?: string;
+
+  /** Step name, or the klados ID when the node carries no path */
+  step: string;
+  path: string[];
+  kladosId: string;
+  ref?: string;
+  status: string;
+
+  start?: string;
+  end?: string;
+
+  /** Milliseconds from the start of the trace */
+  offsetMs?: number;
+
+  /** Milliseconds from the log's creation to its last update; unset while running */
+  durationMs?: number;
+
+  outputs: number;
+  handoffs: TraceHandoff[];
+  expectedChildren?: number;
+  error?: string;
+  children: TraceSpan[];
+}
+
+export interface WorkflowTrace {
+  start?: string;
+  end?: string;
+  durationMs?: number;
+  isComplete: boolean;
+  hasErrors: boolean;
+  logCount: number;
+  errorCount: number;
+  root?: TraceSpan;
+
+  /** Logs in the tree's log map that no parent_logs edge reaches */
+  orphanLogIds: string[];
+}
+
+interface LogEntryData {
+  outputs?: unknown[];
+  handoffs?: Array<{ type?: string; target?: string; invocations?: unknown[] }>;
+  error?: string | { message?: string };
+}
+
+interface LogMessage {
+  level?: string;
+  message?: string;
+}
+
+const FINISHED_STATUSES = new Set(['done', 'error']);
+
+function time(value: string | undefined): number | undefined {
+  const ms = value ? Date.parse(value) : NaN;
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+function errorMessage(entry: LogEntryData | undefined, messages: LogMessage[] | undefined): string | undefined {
+  const error = entry?.error;
+  if (typeof error === 'string') return error;
+  if (error?.message) return error.message;
+  return messages?.filter((m) => m.level === 'error').pop()?.message;
+}
+
+// =============================================================================
+// Building
+// =============================================================================
+
+/**
+ * Build a trace from a workflow log tree
+ */
+export function buildWorkflowTrace(tree: TraceLogTree): WorkflowTrace {
+  const spans: TraceSpan[] = [];
+  const seen = new Set<string>();
+
+  const toSpan = (node: TraceLogNode, parentLogId?: string): TraceSpan => {
+    const props = node.log.properties as Record<string, unknown>;
+    const logData = props.log_data as { entry?: LogEntryData; messages?: LogMessage[] } | undefined;
+    const entry = logData?.entry;
+    const status = String(props.status ?? 'unknown');
+    const kladosId = String(props.klados_id ?? '');
+    const path = node.path ?? [];
+
+    const start = time(node.log.created_at);
+    const end = FINISHED_STATUSES.has(status) ? time(node.log.updated_at) : undefined;
+
+    seen.add(node.log.id);
+    const span: TraceSpan = {
+      logId: node.log.id,
+      parentLogId,
+      step: node.step ?? path[path.length - 1] ?? kladosId,
+      path,
+      kladosId,
+      ref: node.ref,
+      status,
+      start: node.log.created_at,
+      end: end !== undefined ? node.log.updated_at : undefined,
+      durationMs: start !== undefined && end !== undefined ? end - start : undefined,
+      outputs: entry?.outputs?.length ?? 0,
+      handoffs: (entry?.handoffs ?? []).map((h) => ({
+        type: h.type ?? 'unknown',
+        target: h.target ?? '',
+        invocations: h.invocations?.length ?? 0,
+      })),
+      expectedChildren: node.expectedChildren,
+      error: status === 'error' ? errorMessage(entry, logData?.messages) : undefined,
+      children: [],
+    };
+    spans.push(span);
+
+    span.children = node.children.map((child) => toSpan(child, node.log.id));
+    return span;
+  };
+
+  const root = tree.root ? toSpan(tree.root) : undefined;
+
+  const starts = spans.map((s) => time(s.start)).filter((t): t is number => t !== undefined);
+  const ends = spans.map((s) => time(s.end)).filter((t): t is number => t !== undefined);
+  const traceStart = starts.length > 0 ? Math.min(...starts) : undefined;
+  const traceEnd = ends.length > 0 ? Math.max(...ends) : undefined;
+
+  for (const span of spans) {
+    const start = time(span.start);
+    if (start !== undefined && traceStart !== undefined) span.offsetMs = start - traceStart;
+  }
+
+  return {
+    start: traceStart !== undefined ? new Date(traceStart).toISOString() : undefined,
+    end: traceEnd !== undefined ? new Date(traceEnd).toISOString() : undefined,
+    durationMs: traceStart !== undefined && traceEnd !== undefined ? traceEnd - traceStart : undefined,
+    isComplete: tree.isComplete,
+    hasErrors: tree.hasErrors,
+    logCount: tree.logs.size,
+    errorCount: spans.filter((s) => s.status === 'error').length,
+    root,
+    orphanLogIds: [...tree.logs.keys()].filter((id) => !seen.has(id)),
+  };
+}
+
+/**
+ * Every span in the trace, depth-first
+ */
+export function traceSpans(trace: WorkflowTrace): TraceSpan[] {
+  const spans: TraceSpan[] = [];
+  const visit = (span: TraceSpan) => {
+    spans.push(span);
+    span.children.forEach(visit);
+  };
+  if (trace.root) visit(trace.root);
+  return spans;
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+function formatMs(ms: number | undefined): string {
+  if (ms === undefined) return '?';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(ms < 10_000 ? 2 : 1)}s`;
+}
+
+/**
+ * Render a trace as an indented plain-text report
+ *
+ * Each line shows the span's offset from the start of the run, its
+ * duration, step, status and handoffs. A summary of the slowest spans and
+ * every error follows the tree.
+ */
+export function formatTraceText(trace: WorkflowTrace, options: { slowest?: number } = {}): string {
+  const lines: string[] = [];
+
+  const renderSpan = (span: TraceSpan, depth: number) => {
+    const timing = `+${formatMs(span.offsetMs)}`.padStart(9) + ` ${formatMs(span.durationMs).padStart(7)}`;
+    const ref = span.ref ? ` [${span.ref}]` : '';
+    let detail = '';
+    if (span.status === 'error') {
+      detail = ` ✗ ${span.error ?? 'no error message'}`;
+    } else {
+      const handoffs = span.handoffs.map((h) => `${h.type} ${h.invocations} → ${h.target}`).join(', ');
+      detail = ` → ${span.outputs} outputs${handoffs ? `, ${handoffs}` : ''}`;
+    }
+    const missing =
+      span.expectedChildren !== undefined && span.children.length < span.expectedChildren
+        ? ` (${span.children.length}/${span.expectedChildren} children found)`
+        : '';
+    lines.push(`${timing}  ${'  '.repeat(depth)}${span.step}${ref} ${span.status}${detail}${missing}`);
+    span.children.forEach((child) => renderSpan(child, depth + 1));
+  };
+
+  if (trace.root) {
+    renderSpan(trace.root, 0);
+  } else {
+    lines.push('(no root log)');
+  }
+
+  const spans = traceSpans(trace);
+  lines.push('');
+  lines.push(
+    `Logs: ${trace.logCount}, duration: ${formatMs(trace.durationMs)}, complete: ${trace.isComplete}, errors: ${trace.errorCount}`
+  );
+
+  const slowest = spans
+    .filter((s) => s.durationMs !== undefined)
+    .sort((a, b) => b.durationMs! - a.durationMs!)
+    .slice(0, options.slowest ?? 5);
+  if (slowest.length > 1) {
+    lines.push('Slowest:');
+    for (const span of slowest) {
+      lines.push(`  ${formatMs(span.durationMs).padStart(7)}  ${span.path.join(' / ') || span.step} (${span.logId})`);
+    }
+  }
+
+  const errors = spans.filter((s) => s.status === 'error');
+  if (errors.length > 0) {
+    lines.push('Errors:');
+    for (const span of errors) {
+      lines.push(`  ${span.path.join(' / ') || span.step} (${span.logId}): ${span.error ?? 'no error message'}`);
+    }
+  }
+
+  if (trace.orphanLogIds.length > 0) {
+    lines.push(`Not linked to the tree: ${trace.orphanLogIds.join(', ')}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * An event in the Chrome trace-event format
+ */
+export interface ChromeTraceEvent {
+  name: string;
+  cat?: string;
+  ph: 'X' | 'M' | 's' | 'f';
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  id?: string;
+  bp?: 'e';
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Convert a trace to Chrome trace-event JSON, for chrome://tracing or Perfetto
+ *
+ * Spans are complete (`X`) events. Concurrent spans are spread over lanes
+ * (threads) so they don't hide each other, and each parent_logs edge is a
+ * flow arrow from parent to child. Spans without timings are left out.
+ */
+export function toChromeTrace(trace: WorkflowTrace, label = 'workflow'): { traceEvents: ChromeTraceEvent[] } {
+  const pid = 1;
+  const origin = time(trace.start) ?? 0;
+  const micros = (iso: string | undefined) => ((time(iso) ?? origin) - origin) * 1000;
+
+  const events: ChromeTraceEvent[] = [
+    { name: 'process_name', ph: 'M', ts: 0, pid, tid: 0, args: { name: label } },
+  ];
+
+  const timed = traceSpans(trace)
+    .filter((s) => time(s.start) !== undefined)
+    .sort((a, b) => time(a.start)! - time(b.start)!);
+
+  // Greedy lane assignment: a span goes to the first lane that is free at its start
+  const laneEnds: number[] = [];
+  const lanes = new Map<string, number>();
+  for (const span of timed) {
+    const start = micros(span.start);
+    const end = span.end ? micros(span.end) : start;
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start);
+    if (lane === -1) lane = laneEnds.push(end) - 1;
+    laneEnds[lane] = Math.max(end, start);
+    lanes.set(span.logId, lane + 1);
+
+    events.push({
+      name: span.step,
+      cat: span.status,
+      ph: 'X',
+      ts: start,
+      dur: span.end ? end - start : 0,
+      pid,
+      tid: lane + 1,
+      args: {
+        log_id: span.logId,
+        klados_id: span.kladosId,
+        path: span.path,
+        status: span.status,
+        outputs: span.outputs,
+        handoffs: span.handoffs,
+        ...(span.error ? { error: span.error } : {}),
+      },
+    });
+  }
+
+  laneEnds.forEach((_, i) => {
+    events.push({ name: 'thread_name', ph: 'M', ts: 0, pid, tid: i + 1, args: { name: `lane ${i + 1}` } });
+  });
+
+  for (const span of timed) {
+    if (!span.parentLogId || !lanes.has(span.parentLogId)) continue;
+    const parent = timed.find((s) => s.logId === span.parentLogId)!;
+    const id = `${span.parentLogId}->${span.logId}`;
+    const ts = micros(span.start);
+
+    // Parents may finish after their children start, so the arrow leaves no later than it lands
+    const from = Math.min(micros(parent.end ?? parent.start), ts);
+    events.push({ name: 'handoff', cat: 'handoff', ph: 's', ts: from, pid, tid: lanes.get(parent.logId)!, id });
+    events.push({ name: 'handoff', cat: 'handoff', ph: 'f', bp: 'e', ts, pid, tid: lanes.get(span.logId)!, id });
+  }
+
+  return { traceEvents: events };
+}
+
+/**
+ * Render a workflow log tree in the given format
+ */
+export function renderTrace(tree: TraceLogTree, format: TraceFormat, label?: string): string {
+  const trace = buildWorkflowTrace(tree);
+  switch (format) {
+    case 'text':
+      return formatTraceText(trace);
+    case 'json':
+      return `${JSON.stringify(trace, null, 2)}\n`;
+    case 'chrome':
+      return `${JSON.stringify(toChromeTrace(trace, label))}\n`;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Assembling workflow log nodes into a WorkflowLogTree
+ */
+
+import type { FakeEntity } from 'fake-arke';
+import type { WorkflowLogNode, WorkflowLogTree } from './types.js';
+
+/** Log statuses that mean the klados has finished */
+const FINISHED_STATUSES = new Set(['done', 'error']);
+
+/**
+ * Build a tree from nodes whose `children` are already linked
+ *
+ * The first node is the root. `isLeaf` is derived here, once every child
+ * has been attached.
+ */
+export function buildWorkflowLogTree(nodes: WorkflowLogNode[]): WorkflowLogTree {
+  const logs = new Map<string, FakeEntity>();
+  for (const node of nodes) {
+    node.isLeaf = node.children.length === 0;
+    logs.set(node.log.id, node.log);
+  }
+
+  const allChildrenDiscovered = nodes.every((n) => n.children.length >= n.expectedChildren);
+  const allFinished = nodes.every((n) => FINISHED_STATUSES.has(String(n.log.properties.status)));
+
+  return {
+    logs,
+    root: nodes[0],
+    leaves: nodes.filter((n) => n.isLeaf),
+    isComplete: nodes.length > 0 && allFinished && allChildrenDiscovered,
+    allChildrenDiscovered,
+    hasErrors: nodes.some((n) => n.log.properties.status === 'error'),
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Type definitions for rhiza workflow definitions and workflow log trees
+ */
+
+import type { FakeEntity } from 'fake-arke';
+import type { RouteCondition } from 'klados-runtime';
+
+// =============================================================================
+// Workflow Definitions
+// =============================================================================
+
+export type { PropertyCondition, RouteCondition, RouteValue } from 'klados-runtime';
+
+/**
+ * A per-item routing rule: items whose properties match `where` go to `target`
+ *
+ * Rules are tried in order. A `default: true` rule has no `where` and takes
+ * every item no earlier rule matched, in place of the pass/scatter target.
+ * `target: "done"` ends the branch for matching items.
+ */
+export interface RouteRule {
+  where?: RouteCondition;
+  default?: true;
+  target: string;
+}
+
+/**
+ * What happens to a step's outputs once it completes
+ */
+export interface ThenSpec {
+  /** Hand all outputs to one invocation of the target step */
+  pass?: string;
+
+  /** Invoke the target step once per output */
+  scatter?: string;
+
+  /** Per-item overrides of the pass/scatter target */
+  route?: RouteRule[];
+
+  /** End of the branch */
+  done?: boolean;
+}
+
+/**
+ * Reference to the klados (or sub-rhiza) a step runs
+ *
+ * `id` is usually a `$VAR` placeholder substituted at registration time.
+ */
+export interface StepReference {
+  id: string;
+  type?: 'klados' | 'rhiza';
+}
+
+export interface WorkflowStep {
+  klados: StepReference;
+  then: ThenSpec;
+}
+
+/**
+ * A rhiza workflow definition, as stored in `rhizai/<package>/workflows/*.json`
+ */
+export interface RhizaWorkflow {
+  label: string;
+  description?: string;
+  version: string;
+  entry: string;
+  flow: Record<string, WorkflowStep>;
+}
+
+// =============================================================================
+// Workflow Log Trees
+// =============================================================================
+
+/**
+ * One klados log in a workflow run, linked to the logs it handed off to
+ *
+ * Mirrors the node shape `waitForWorkflowTree` returns.
+ */
+export interface WorkflowLogNode {
+  log: FakeEntity;
+
+  /** Step name (last element of the rhiza path) */
+  step: string;
+
+  /** Full rhiza path, including sub-rhiza steps */
+  path: string[];
+
+  /** Reference the step's klados was resolved from (e.g. `$STAMP_KLADOS`) */
+  ref: string;
+
+  children: WorkflowLogNode[];
+
+  /** Number of invocations the step handed off */
+  expectedChildren: number;
+
+  /** No children were discovered */
+  isLeaf: boolean;
+
+  /** The step handed nothing off (done, all items routed to done, or no outputs) */
+  isTerminal: boolean;
+}
+
+/**
+ * A workflow run's logs as a tree, in the shape `waitForWorkflowTree` returns
+ */
+export interface WorkflowLogTree {
+  /** All klados logs, keyed by log entity ID */
+  logs: Map<string, FakeEntity>;
+  root?: WorkflowLogNode;
+  leaves: WorkflowLogNode[];
+
+  /** Every log finished and every expected child was discovered */
+  isComplete: boolean;
+  allChildrenDiscovered: boolean;
+  hasErrors: boolean;
+}
+
+// =============================================================================
+// Klados Manifests
+// =============================================================================
+
+export type Cardinality = 'one' | 'many';
+
+/**
+ * The parts of a klados `agent.json` the tooling reads
+ */
+export interface AgentManifest {
+  label: string;
+  accepts: { types: string[]; cardinality: Cardinality };
+  produces: { types: string[]; cardinality: Cardinality };
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+  | 'invalid-json'
+  | 'invalid-structure'
+  | 'missing-entry'
+  | 'unknown-step'
+  | 'unreachable-step'
+  | 'cycle'
+  | 'invalid-route'
+  | 'unknown-rhiza'
+  | 'cardinality-mismatch'
+  | 'type-mismatch';
+
+/**
+ * A problem found in a workflow definition
+ */
+export interface WorkflowIssue {
+  severity: IssueSeverity;
+  code: IssueCode;
+  message: string;
+
+  /** Step the issue belongs to, if any */
+  step?: string;
+}
@@ -0,0 +1,415 @@
+/**
+ * Static Workflow Validator
+ *
+ * Checks a workflow definition before it is registered:
+ * - Structure: required fields, step shape, well-formed `then` specs
+ * - Graph: missing entry, dangling handoff targets, unreachable steps, cycles
+ * - Routing: well-formed `route` rules and conditions (see klados-runtime's conditions.ts)
+ * - Cardinality: handoffs checked against the referenced kladoi's agent.json
+ *   `accepts` / `produces`, where the klados is in the repo
+ *
+ * Validation runs on the raw definition, before `$VAR` substitution, so step
+ * references can be matched to repo packages.
+ */
+
+import { conditionIssues } from 'klados-runtime';
+import { discoverRepo, findRepoRoot, type RepoPackages } from './discover.js';
+import { loadWorkflow, referenceName } from './workflow.js';
+import type {
+  AgentManifest,
+  IssueCode,
+  RhizaWorkflow,
+  ThenSpec,
+  WorkflowIssue,
+  WorkflowStep,
+} from './types.js';
+
+/** Keys allowed in a `then` spec */
+const THEN_KEYS = new Set(['pass', 'scatter', 'route', 'done']);
+
+/** Route target that ends an item's branch */
+const DONE_TARGET = 'done';
+
+/**
+ * What the validator knows about the rest of the repo
+ */
+export interface ValidationContext {
+  /** Klados manifests keyed by reference name, e.g. `STAMP_KLADOS` */
+  agents?: Record<string, AgentManifest>;
+
+  /** Sub-workflows keyed by reference name, e.g. `STAMP_CHAIN_RHIZA` */
+  rhizai?: Record<string, RhizaWorkflow>;
+}
+
+type Handoff = 'pass' | 'scatter';
+
+interface Edge {
+  from: string;
+  to: string;
+  handoff: Handoff;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * Build the validation context for the repo a directory belongs to
+ */
+export function repoValidationContext(repo: RepoPackages = discoverRepo(findRepoRoot())): ValidationContext {
+  const rhizai: Record<string, RhizaWorkflow> = {};
+  for (const [name, file] of Object.entries(repo.workflowFiles)) {
+    try {
+      rhizai[name] = loadWorkflow(file);
+    } catch {
+      // Reported when that workflow itself is validated
+    }
+  }
+  return { agents: repo.agents, rhizai };
+}
+
+/**
+ * One-line description of an issue, e.g. `error   [unknown-step] stamp: ...`
+ */
+export function formatIssue(issue: WorkflowIssue): string {
+  const where = issue.step ? `${issue.step}: ` : '';
+  return `${issue.severity.padEnd(7)} [${issue.code}] ${where}${issue.message}`;
+}
+
+// =============================================================================
+// Validator
+// =============================================================================
+
+/**
+ * Validate a raw workflow definition, returning every issue found
+ */
+export function validateWorkflow(raw: unknown, context: ValidationContext = {}): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = [];
+
+  const report = (severity: WorkflowIssue['severity'], code: IssueCode, message: string, step?: string) => {
+    issues.push(step === undefined ? { severity, code, message } : { severity, code, message, step });
+  };
+  const error = (code: IssueCode, message: string, step?: string) => report('error', code, message, step);
+  const warning = (code: IssueCode, message: string, step?: string) => report('warning', code, message, step);
+
+  // ===========================================================================
+  // Structure
+  // ===========================================================================
+
+  if (!isObject(raw)) {
+    error('invalid-structure', 'Workflow must be a JSON object');
+    return issues;
+  }
+
+  for (const field of ['label', 'version']) {
+    if (!isNonEmptyString(raw[field])) {
+      error('invalid-structure', `"${field}" must be a non-empty string`);
+    }
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    error('invalid-structure', '"description" must be a string');
+  }
+
+  if (!isObject(raw.flow) || Object.keys(raw.flow).length === 0) {
+    error('invalid-structure', '"flow" must be an object with at least one step');
+    return issues;
+  }
+  const flow = raw.flow;
+
+  if (!isNonEmptyString(raw.entry)) {
+    error('missing-entry', 'Workflow has no "entry" step');
+  } else if (!(raw.entry in flow)) {
+    error('missing-entry', `Entry step "${raw.entry}" is not defined in flow`);
+  }
+
+  if (DONE_TARGET in flow) {
+    error('invalid-structure', `"${DONE_TARGET}" is reserved as a route target and cannot be a step name`, DONE_TARGET);
+  }
+
+  const steps: Record<string, WorkflowStep> = {};
+  for (const [name, step] of Object.entries(flow)) {
+    if (validateStep(name, step)) {
+      steps[name] = step as WorkflowStep;
+    }
+  }
+
+  function validateStep(name: string, step: unknown): boolean {
+    const before = issues.length;
+
+    if (!isObject(step)) {
+      error('invalid-structure', 'Step must be an object with "klados" and "then"', name);
+      return false;
+    }
+
+    if (!isObject(step.klados) || !isNonEmptyString(step.klados.id)) {
+      error('invalid-structure', '"klados.id" must be a non-empty string', name);
+    } else if (step.klados.type !== undefined && step.klados.type !== 'klados' && step.klados.type !== 'rhiza') {
+      error('invalid-structure', `"klados.type" must be "klados" or "rhiza", got ${JSON.stringify(step.klados.type)}`, name);
+    }
+
+    if (!isObject(step.then)) {
+      error('invalid-structure', '"then" must be an object', name);
+      return false;
+    }
+    validateThen(name, step.then);
+
+    return issues.slice(before).every((i) => i.severity !== 'error');
+  }
+
+  function validateThen(name: string, then: Record<string, unknown>): void {
+    for (const key of Object.keys(then)) {
+      if (!THEN_KEYS.has(key)) {
+        error('invalid-structure', `Unknown handoff "${key}" in "then" (expected pass, scatter, route or done)`, name);
+      }
+    }
+
+    const has = (key: string) => then[key] !== undefined;
+
+    if (has('done')) {
+      if (then.done !== true) {
+        error('invalid-structure', '"done" must be true', name);
+      }
+      if (has('pass') || has('scatter') || has('route')) {
+        error('invalid-structure', '"done" cannot be combined with pass, scatter or route', name);
+      }
+      return;
+    }
+
+    if (has('pass') && has('scatter')) {
+      error('invalid-structure', '"then" cannot have both pass and scatter', name);
+    }
+    if (!has('pass') && !has('scatter') && !has('route')) {
+      error('invalid-structure', '"then" must specify pass, scatter, route or done', name);
+    }
+    for (const key of ['pass', 'scatter']) {
+      if (has(key) && !isNonEmptyString(then[key])) {
+        error('invalid-structure', `"${key}" must be a step name`, name);
+      }
+    }
+    if (has('route')) {
+      validateRoute(name, then.route, (then.scatter ?? then.pass) as string | undefined);
+    }
+  }
+
+  function validateRoute(name: string, route: unknown, defaultTarget: string | undefined): void {
+    if (!Array.isArray(route) || route.length === 0) {
+      error('invalid-route', '"route" must be a non-empty array of rules', name);
+      return;
+    }
+
+    const seen = new Set<string>();
+    let fallback: number | undefined;
+    // With a default rule, pass/scatter only sets the handoff and its target is routed to like any other
+    const hasDefault = route.some((rule) => isObject(rule) && rule.default === true);
+    route.forEach((rule: unknown, index) => {
+      const label = `route[${index}]`;
+      if (!isObject(rule)) {
+        error('invalid-route', `${label} must be an object with "where" and "target"`, name);
+        return;
+      }
+      if (!isNonEmptyString(rule.target)) {
+        error('invalid-route', `${label}.target must be a step name or "${DONE_TARGET}"`, name);
+      }
+      for (const key of Object.keys(rule)) {
+        if (key !== 'where' && key !== 'target' && key !== 'default') {
+          error('invalid-route', `${label} has unknown key "${key}"`, name);
+        }
+      }
+
+      if (fallback !== undefined) {
+        warning('invalid-route', `${label} comes after the default rule route[${fallback}] and will never match`, name);
+      }
+
+      if (rule.default !== undefined) {
+        if (rule.default !== true) {
+          error('invalid-route', `${label}.default must be true`, name);
+        } else if (rule.where !== undefined) {
+          error('invalid-route', `${label} cannot have both "where" and "default"`, name);
+        }
+        fallback ??= index;
+      } else if (!isObject(rule.where)) {
+        error('invalid-route', `${label}.where must be an object (or use "default": true)`, name);
+        return;
+      } else {
+        for (const message of conditionIssues(rule.where, `${label}.where`)) {
+          error('invalid-route', message, name);
+        }
+
+        const key = JSON.stringify(rule.where);
+        if (seen.has(key)) {
+          warning('invalid-route', `${label} repeats an earlier condition and will never match`, name);
+        }
+        seen.add(key);
+      }
+
+      if (rule.target === defaultTarget && !hasDefault) {
+        warning('invalid-route', `${label} targets the default step "${defaultTarget}" and has no effect`, name);
+      }
+    });
+  }
+
+  // ===========================================================================
+  // Graph
+  // ===========================================================================
+
+  const edges: Edge[] = [];
+  for (const [name, step] of Object.entries(steps)) {
+    const then: ThenSpec = step.then;
+    const handoff: Handoff = then.scatter ? 'scatter' : 'pass';
+    const targets = new Set<string>();
+    if (then.pass) targets.add(then.pass);
+    if (then.scatter) targets.add(then.scatter);
+    for (const rule of then.route ?? []) {
+      if (rule.target !== DONE_TARGET) targets.add(rule.target);
+    }
+
+    for (const target of targets) {
+      if (!(target in flow)) {
+        error('unknown-step', `Hands off to undefined step "${target}"`, name);
+      } else if (target in steps) {
+        edges.push({ from: name, to: target, handoff });
+      }
+    }
+  }
+
+  const entry = isNonEmptyString(raw.entry) && raw.entry in steps ? raw.entry : undefined;
+  if (entry) {
+    const reachable = new Set([entry]);
+    const queue = [entry];
+    while (queue.length > 0) {
+      const from = queue.shift()!;
+      for (const edge of edges.filter((e) => e.from === from && !reachable.has(e.to))) {
+        reachable.add(edge.to);
+        queue.push(edge.to);
+      }
+    }
+    for (const name of Object.keys(flow)) {
+      if (!reachable.has(name)) {
+        warning('unreachable-step', `Step is not reachable from entry "${entry}"`, name);
+      }
+    }
+  }
+
+  for (const cycle of findCycles(Object.keys(steps), edges)) {
+    error('cycle', `Flow loops back on itself: ${cycle.join(' → ')}`, cycle[0]);
+  }
+
+  // ===========================================================================
+  // Sub-rhizai and Cardinality
+  // ===========================================================================
+
+  const agentFor = (step: WorkflowStep): AgentManifest | undefined => {
+    if (step.klados.type !== 'rhiza') {
+      return context.agents?.[referenceName(step.klados.id)];
+    }
+    // A sub-rhiza accepts what its entry klados accepts
+    const sub = context.rhizai?.[referenceName(step.klados.id)];
+    const subEntry = sub?.flow?.[sub.entry];
+    return subEntry && subEntry.klados.type !== 'rhiza'
+      ? context.agents?.[referenceName(subEntry.klados.id)]
+      : undefined;
+  };
+
+  if (context.rhizai) {
+    for (const [name, step] of Object.entries(steps)) {
+      if (step.klados.type === 'rhiza' && step.klados.id.startsWith('$') && !context.rhizai[referenceName(step.klados.id)]) {
+        warning('unknown-rhiza', `Sub-rhiza ${step.klados.id} does not match a workflow in the repo`, name);
+      }
+    }
+  }
+
+  for (const edge of edges) {
+    const fromStep = steps[edge.from];
+    // A sub-rhiza's outputs come from whichever of its steps finishes last
+    const producer = fromStep.klados.type === 'rhiza' ? undefined : agentFor(fromStep);
+    const consumer = agentFor(steps[edge.to]);
+    if (!producer || !consumer) continue;
+
+    const fromRef = fromStep.klados.id;
+    const toRef = steps[edge.to].klados.id;
+
+    if (edge.handoff === 'pass' && producer.produces.cardinality === 'many' && consumer.accepts.cardinality === 'one') {
+      error(
+        'cardinality-mismatch',
+        `Passes many outputs from ${fromRef} to "${edge.to}", but ${toRef} accepts one (use scatter)`,
+        edge.from
+      );
+    }
+    if (edge.handoff === 'scatter' && producer.produces.cardinality === 'one') {
+      warning(
+        'cardinality-mismatch',
+        `Scatters to "${edge.to}", but ${fromRef} produces one output (use pass)`,
+        edge.from
+      );
+    }
+
+    const produced = producer.produces.types;
+    const accepted = consumer.accepts.types;
+    if (!produced.includes('*') && !accepted.includes('*') && !produced.some((t) => accepted.includes(t))) {
+      error(
+        'type-mismatch',
+        `${fromRef} produces [${produced.join(', ')}] but "${edge.to}" (${toRef}) accepts [${accepted.join(', ')}]`,
+        edge.from
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Find each elementary cycle once, as a path that starts and ends on the same step
+ */
+function findCycles(nodes: string[], edges: Edge[]): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (node: string) => {
+    state.set(node, 'visiting');
+    stack.push(node);
+
+    for (const edge of edges.filter((e) => e.from === node)) {
+      if (state.get(edge.to) === 'visiting') {
+        const cycle = [...stack.slice(stack.indexOf(edge.to)), edge.to];
+        const key = [...cycle.slice(0, -1)].sort().join('|');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!state.has(edge.to)) {
+        visit(edge.to);
+      }
+    }
+
+    stack.pop();
+    state.set(node, 'done');
+  };
+
+  for (const node of nodes) {
+    if (!state.has(node)) visit(node);
+  }
+  return cycles;
+}
+
+/**
+ * Validate a workflow file, reporting unreadable JSON as an issue
+ */
+export function validateWorkflowFile(file: string, context: ValidationContext = {}): WorkflowIssue[] {
+  let workflow: unknown;
+  try {
+    workflow = loadWorkflow(file);
+  } catch (error) {
+    return [{ severity: 'error', code: 'invalid-json', message: (error as Error).message }];
+  }
+  return validateWorkflow(workflow, context);
+}
@@ -0,0 +1,47 @@
+/**
+ * Loading workflow definitions and reading step references
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RhizaWorkflow, WorkflowStep } from './types.js';
+
+/**
+ * Load a workflow definition from a JSON file
+ */
+export function loadWorkflow(file: string): RhizaWorkflow {
+  const raw = fs.readFileSync(file, 'utf-8');
+  try {
+    return JSON.parse(raw) as RhizaWorkflow;
+  } catch (error) {
+    throw new Error(`Invalid workflow JSON in ${file}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Path of a named workflow inside a rhizai package
+ *
+ * Accepts `nested-scatter-test`, `nested-scatter-test.json` or a path.
+ */
+export function workflowPath(packageDir: string, name: string): string {
+  if (name.includes('/') || name.includes(path.sep)) {
+    return path.resolve(name);
+  }
+  return path.join(packageDir, 'workflows', `${name.replace(/\.json$/, '')}.json`);
+}
+
+/**
+ * Name a step reference resolves by: `$STAMP_KLADOS` → `STAMP_KLADOS`
+ *
+ * Literal klados IDs are returned unchanged.
+ */
+export function referenceName(id: string): string {
+  return id.startsWith('$') ? id.slice(1) : id;
+}
+
+/**
+ * Whether a step invokes a sub-rhiza rather than a klados
+ */
+export function isRhizaStep(step: WorkflowStep): boolean {
+  return step.klados.type === 'rhiza';
+}
@@ -0,0 +1,52 @@
+/**
+ * Tests for repo discovery and reference naming
+ */
+
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect } from 'vitest';
+import { discoverRepo, findRepoRoot, kladosReferenceName, listPackageDirs, rhizaReferenceName } from '../src';
+
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../..');
+
+describe('reference names', () => {
+  it('should derive klados references from worker package names', () => {
+    expect(kladosReferenceName('stamp-worker')).toBe('STAMP_KLADOS');
+    expect(kladosReferenceName('scatter-worker')).toBe('SCATTER_KLADOS');
+    expect(kladosReferenceName('text-chunker')).toBe('TEXT_CHUNKER_KLADOS');
+  });
+
+  it('should derive rhiza references from workflow names', () => {
+    expect(rhizaReferenceName('stamp-chain.json')).toBe('STAMP_CHAIN_RHIZA');
+    expect(rhizaReferenceName('nested-scatter-test')).toBe('NESTED_SCATTER_TEST_RHIZA');
+  });
+});
+
+describe('discoverRepo', () => {
+  it('should find the repo root from a nested directory', () => {
+    expect(findRepoRoot(path.join(REPO_ROOT, 'rhizai', 'scatter-test', 'workflows'))).toBe(REPO_ROOT);
+  });
+
+  it('should list the in-repo workers and workflows', async () => {
+    const repo = discoverRepo(REPO_ROOT);
+
+    expect(Object.keys(repo.kladoi)).toEqual(expect.arrayContaining(['STAMP_KLADOS', 'SCATTER_KLADOS']));
+    expect(Object.keys(repo.rhizai)).toEqual(
+      expect.arrayContaining(['STAMP_CHAIN_RHIZA', 'NESTED_SCATTER_TEST_RHIZA', 'SUB_RHIZA_TEST_RHIZA'])
+    );
+
+    const stampChain = await repo.rhizai.STAMP_CHAIN_RHIZA();
+    expect(stampChain.entry).toBe('first_stamp');
+  });
+
+  it('should list package directories in kladoi/ and rhizai/', () => {
+    const packages = listPackageDirs(REPO_ROOT);
+
+    expect(packages.kladoi.map((pkg) => pkg.name)).toEqual(['gather-worker', 'scatter-worker', 'stamp-worker']);
+    expect(packages.rhizai.find((pkg) => pkg.name === 'stamp-chain')).toEqual({
+      name: 'stamp-chain',
+      dir: path.join(REPO_ROOT, 'rhizai', 'stamp-chain'),
+      workflowFiles: [path.join(REPO_ROOT, 'rhizai', 'stamp-chain', 'workflows', 'stamp-chain.json')],
+    });
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Tests for the local rhiza executor
+ *
+ * Uses minimal Hono workers that write a klados_log with canned outputs,
+ * so the flow semantics are tested independently of the real workers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { createFakeArke, type FakeArke, type WorkerHandler } from 'fake-arke';
+import { runWorkflowLocally, type RhizaWorkflow } from '../src';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface ReceivedRequest {
+  target_entity?: string;
+  target_entities?: string[];
+  api_base: string;
+  job_id: string;
+  job_collection: string;
+  rhiza?: { id: string; path: string[]; parent_logs: string[] };
+}
+
+/**
+ * A worker that logs `produce(request)` as its outputs
+ */
+function mockWorker(
+  produce: (req: ReceivedRequest) => unknown[],
+  received: ReceivedRequest[] = [],
+  status = 'done'
+): WorkerHandler {
+  const app = new Hono<{ Bindings: Record<string, string> }>();
+  app.post('/process', async (c) => {
+    const req = await c.req.json<ReceivedRequest>();
+    received.push(req);
+    c.executionCtx.waitUntil(
+      fetch(`${req.api_base}/entities`, {
+        method: 'POST',
+        headers: { Authorization: `ApiKey ${c.env.ARKE_AGENT_KEY}` },
+        body: JSON.stringify({
+          type: 'klados_log',
+          collection: req.job_collection,
+          properties: { klados_id: c.env.AGENT_ID, status, log_data: { entry: { outputs: produce(req) } } },
+        }),
+      })
+    );
+    return c.json({ accepted: true });
+  });
+  return app;
+}
+
+/**
+ * A worker that creates `count` new entities and scatters them
+ */
+function copyWorker(fake: FakeArke, count: number, classify?: (i: number) => string): WorkerHandler {
+  return mockWorker(() =>
+    Array.from({ length: count }, (_, i) => {
+      const id = fake.store.create({ type: 'test_entity' }).id;
+      return classify ? { entity_id: id, entity_class: classify(i) } : id;
+    })
+  );
+}
+
+const echoWorker = (received?: ReceivedRequest[]) =>
+  mockWorker((req) => [req.target_entity], received);
+
+function setup() {
+  const fake = createFakeArke();
+  const collection = fake.store.create({ type: 'collection' });
+  const entity = fake.store.create({ type: 'test_entity', collection: collection.id });
+  return { fake, target: { targetEntity: entity.id, targetCollection: collection.id } };
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('runWorkflowLocally', () => {
+  it('should pass outputs along a chain', async () => {
+    const { fake, target } = setup();
+    const received: ReceivedRequest[] = [];
+    const workflow: RhizaWorkflow = {
+      label: 'Chain',
+      version: '1.0',
+      entry: 'first',
+      flow: {
+        first: { klados: { id: '$ECHO_KLADOS' }, then: { pass: 'second' } },
+        second: { klados: { id: '$ECHO_KLADOS' }, then: { done: true } },
+      },
+    };
+
+    const { tree, jobId } = await runWorkflowLocally(workflow, target, {
+      fake,
+      kladoi: { ECHO_KLADOS: echoWorker(received) },
+    });
+
+    expect(tree.isComplete).toBe(true);
+    expect(tree.logs.size).toBe(2);
+    expect(tree.root!.children).toHaveLength(1);
+    expect(tree.root!.children[0].isTerminal).toBe(true);
+
+    expect(received.map((r) => r.rhiza?.path)).toEqual([['first'], ['second']]);
+    expect(received.every((r) => r.job_id === jobId && r.target_entity === target.targetEntity)).toBe(true);
+    expect(received[1].rhiza?.parent_logs).toEqual([tree.root!.log.id]);
+  });
+
+  it('should build the nested scatter tree', async () => {
+    const { fake, target } = setup();
+    const workflow: RhizaWorkflow = {
+      label: 'Nested Scatter',
+      version: '1.0',
+      entry: 'scatter1',
+      flow: {
+        scatter1: { klados: { id: '$SCATTER_KLADOS' }, then: { scatter: 'scatter2' } },
+        scatter2: { klados: { id: '$SCATTER_KLADOS' }, then: { scatter: 'stamp' } },
+        stamp: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+      },
+    };
+
+    const { tree, kladoi } = await runWorkflowLocally(workflow, target, {
+      fake,
+      kladoi: { SCATTER_KLADOS: copyWorker(fake, 3), STAMP_KLADOS: echoWorker() },
+    });
+
+    expect(tree.isComplete).toBe(true);
+    expect(tree.allChildrenDiscovered).toBe(true);
+    expect(tree.hasErrors).toBe(false);
+    expect(tree.logs.size).toBe(13);
+    expect(tree.leaves).toHaveLength(9);
+    expect(tree.root!.expectedChildren).toBe(3);
+
+    for (const level2 of tree.root!.children) {
+      expect(level2.log.properties.klados_id).toBe(kladoi.SCATTER_KLADOS);
+      expect(level2.children).toHaveLength(3);
+      for (const stamp of level2.children) {
+        expect(stamp.isLeaf).toBe(true);
+        expect(stamp.isTerminal).toBe(true);
+        expect(stamp.expectedChildren).toBe(0);
+
+        const received = (stamp.log.properties.log_data as { entry: { received: { from_logs: string[] } } }).entry
+          .received;
+        expect(received.from_logs).toEqual([level2.log.id]);
+      }
+    }
+  });
+
+  it('should route scattered items and record the handoffs', async () => {
+    const { fake, target } = setup();
+    const workflow: RhizaWorkflow = {
+      label: 'Routing',
+      version: '1.0',
+      entry: 'scatter',
+      flow: {
+        scatter: {
+          klados: { id: '$SCATTER_KLADOS' },
+          then: {
+            scatter: 'stamp_canonical',
+            route: [{ where: { property: 'entity_class', equals: 'mention' }, target: 'stamp_mention' }],
+          },
+        },
+        stamp_canonical: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+        stamp_mention: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+      },
+    };
+
+    const { tree } = await runWorkflowLocally(workflow, target, {
+      fake,
+      kladoi: {
+        SCATTER_KLADOS: copyWorker(fake, 4, (i) => (i % 2 === 0 ? 'canonical' : 'mention')),
+        STAMP_KLADOS: echoWorker(),
+      },
+    });
+
+    expect(tree.root!.children.map((c) => c.step).sort()).toEqual([
+      'stamp_canonical',
+      'stamp_canonical',
+      'stamp_mention',
+      'stamp_mention',
+    ]);
+
+    const handoffs = (tree.root!.log.properties.log_data as {
+      entry: { handoffs: Array<{ invocations: Array<{ request: { rhiza: { path: string[] } } }> }> };
+    }).entry.handoffs;
+    expect(handoffs[0].invocations.map((i) => i.request.rhiza.path.at(-1))).toEqual([
+      'stamp_canonical',
+      'stamp_mention',
+      'stamp_canonical',
+      'stamp_mention',
+    ]);
+  });
+
+  it('should end routed branches that target done', async () => {
+    const { fake, target } = setup();
+    const workflow: RhizaWorkflow = {
+      label: 'Route to done',
+      version: '1.0',
+      entry: 'scatter',
+      flow: {
+        scatter: {
+          klados: { id: '$SCATTER_KLADOS' },
+          then: {
+            scatter: 'stamp',
+            route: [{ where: { property: 'entity_class', equals: 'mention' }, target: 'done' }],
+          },
+        },
+        stamp: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+      },
+    };
+
+    const { tree } = await runWorkflowLocally(workflow, target, {
+      fake,
+      kladoi: {
+        SCATTER_KLADOS: copyWorker(fake, 4, (i) => (i % 2 === 0 ? 'canonical' : 'mention')),
+        STAMP_KLADOS: echoWorker(),
+      },
+    });
+
+    expect(tree.root!.expectedChildren).toBe(2);
+    expect(tree.logs.size).toBe(3);
+    expect(tree.isComplete).toBe(true);
+  });
+
+  it('should route by composed conditions and fall back to the default rule', async () => {
+    const { fake, target } = setup();
+    const items = [
+      { pages: 250, title: 'Chapter 1' },
+      { pages: 40, title: 'Appendix' },
+      { pages: 40, title: 'Chapter 2', draft: true },
+      { title: 'Index' },
+    ].map((properties) => ({ entity_id: fake.store.create({ type: 'test_entity' }).id, ...properties }));
+
+    const workflow: RhizaWorkflow = {
+      label: 'Conditions',
+      version: '1.0',
+      entry: 'scatter',
+      flow: {
+        scatter: {
+          klados: { id: '$SCATTER_KLADOS' },
+          then: {
+            scatter: 'stamp',
+            route: [
+              { where: { property: 'pages', gte: 100 }, target: 'large' },
+              {
+                where: {
+                  and: [
+                    { property: 'title', matches: '^Chapter \\d+$' },
+                    { not: { property: 'draft', exists: true } },
+                  ],
+                },
+                target: 'chapter',
+              },
+              { where: { property: 'pages', exists: false }, target: 'done' },
+              { default: true, target: 'review' },
+            ],
+          },
+        },
+        stamp: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+        large: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+        chapter: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+        review: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+      },
+    };
+
+    const received: ReceivedRequest[] = [];
+    const { tree } = await runWorkflowLocally(workflow, target, {
+      fake,
+      kladoi: {
+        SCATTER_KLADOS: mockWorker(() => items),
+        STAMP_KLADOS: echoWorker(received),
+      },
+    });
+
+    expect(tree.isComplete).toBe(true);
+    expect(received.map((r) => [r.target_entity, r.rhiza?.path.at(-1)])).toEqual([
+      [items[0].entity_id, 'large'],
+      [items[1].entity_id, 'review'],
+      [items[2].entity_id, 'review'],
+    ]);
+  });
+
+  it('should run sub-rhiza steps inside the parent tree', async () => {
+    const { fake, target } = setup();
+    const received: ReceivedRequest[] = [];
+    const stampChain: RhizaWorkflow = {
+      label: 'Stamp Chain',
+      version: '1.0',
+      entry: 'first_stamp',
+      flow: {
+        first_stamp: { klados: { id: '$STAMP_KLADOS' }, then: { pass: 'second_stamp' } },
+        second_stamp: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+      },
+    };
+    const workflow: RhizaWorkflow = {
+      label: 'Sub-Rhiza',
+      version: '1.0',
+      entry: 'scatter',
+      flow: {
+        scatter: { klados: { id: '$SCATTER_KLADOS' }, then: { scatter: 'process' } },
+        process: { klados: { id: '$STAMP_CHAIN_RHIZA', type: 'rhiza' }, then: { pass: 'final' } },
+        final: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+      },
+    };
+
+    const { tree } = await runWorkflowLocally(workflow, target, {
+      fake,
+      kladoi: { SCATTER_KLADOS: copyWorker(fake, 3), STAMP_KLADOS: echoWorker(received) },
+      rhizai: { STAMP_CHAIN_RHIZA: async () => stampChain },
+    });
+
+    // 1 scatter + 3 × (2 stamp-chain steps + final)
+    expect(tree.logs.size).toBe(10);
+    expect(tree.isComplete).toBe(true);
+    expect(tree.root!.children.map((c) => c.step)).toEqual(['first_stamp', 'first_stamp', 'first_stamp']);
+    expect(received.map((r) => r.rhiza?.path).slice(0, 3)).toEqual([
+      ['process', 'first_stamp'],
+      ['process', 'first_stamp'],
+      ['process', 'first_stamp'],
+    ]);
+    expect(received.at(-1)?.rhiza?.path).toEqual(['final']);
+  });
+
+  it('should reject sub-rhizai whose entries lead back to each other', async () => {
+    const { fake, target } = setup();
+    const ping: RhizaWorkflow = {
+      label: 'Ping',
+      version: '1.0',
+      entry: 'pong',
+      flow: { pong: { klados: { id: '$PONG_RHIZA', type: 'rhiza' }, then: { done: true } } },
+    };
+    const pong: RhizaWorkflow = {
+      label: 'Pong',
+      version: '1.0',
+      entry: 'ping',
+      flow: { ping: { klados: { id: '$PING_RHIZA', type: 'rhiza' }, then: { done: true } } },
+    };
+
+    await expect(
+      runWorkflowLocally(ping, target, {
+        fake,
+        kladoi: {},
+        rhizai: { PING_RHIZA: async () => ping, PONG_RHIZA: async () => pong },
+      })
+    ).rejects.toThrow('Sub-rhiza $PONG_RHIZA leads back to itself without running a klados');
+  });
+
+  it('should stop a branch at a failed step', async () => {
+    const { fake, target } = setup();
+    const workflow: RhizaWorkflow = {
+      label: 'Failing',
+      version: '1.0',
+      entry: 'first',
+      flow: {
+        first: { klados: { id: '$FAILING_KLADOS' }, then: { pass: 'second' } },
+        second: { klados: { id: '$FAILING_KLADOS' }, then: { done: true } },
+      },
+    };
+
+    const { tree } = await runWorkflowLocally(workflow, target, {
+      fake,
+      kladoi: { FAILING_KLADOS: mockWorker(() => [], [], 'error') },
+    });
+
+    expect(tree.logs.size).toBe(1);
+    expect(tree.hasErrors).toBe(true);
+    expect(tree.root!.children).toEqual([]);
+  });
+
+  it('should reject unresolved klados references', async () => {
+    const { fake, target } = setup();
+    const workflow: RhizaWorkflow = {
+      label: 'Unresolved',
+      version: '1.0',
+      entry: 'only',
+      flow: { only: { klados: { id: '$MISSING_KLADOS' }, then: { done: true } } },
+    };
+
+    await expect(runWorkflowLocally(workflow, target, { fake, kladoi: {} })).rejects.toThrow(
+      'No worker for klados reference $MISSING_KLADOS'
+    );
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for workflow graph export
+ */
+
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect } from 'vitest';
+import {
+  buildWorkflowGraph,
+  discoverRepo,
+  loadWorkflow,
+  renderDot,
+  renderMermaid,
+  resolveRhizaFile,
+  type RhizaWorkflow,
+} from '../src';
+
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../..');
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const routing: RhizaWorkflow = {
+  label: 'Routing',
+  version: '1.0',
+  entry: 'scatter',
+  flow: {
+    scatter: {
+      klados: { id: '$SCATTER_KLADOS' },
+      then: {
+        scatter: 'stamp',
+        route: [{ where: { property: 'entity_class', equals: 'mention' }, target: 'done' }],
+      },
+    },
+    stamp: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+  },
+};
+
+const stampChain: RhizaWorkflow = {
+  label: 'Stamp Chain',
+  version: '2.0',
+  entry: 'first_stamp',
+  flow: {
+    first_stamp: { klados: { id: '$STAMP_KLADOS' }, then: { pass: 'second_stamp' } },
+    second_stamp: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+  },
+};
+
+const subRhiza: RhizaWorkflow = {
+  label: 'Sub-Rhiza',
+  version: '1.0',
+  entry: 'scatter',
+  flow: {
+    scatter: { klados: { id: '$SCATTER_KLADOS' }, then: { scatter: 'process' } },
+    process: { klados: { id: '$STAMP_CHAIN_RHIZA', type: 'rhiza' }, then: { pass: 'final' } },
+    final: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+  },
+};
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('buildWorkflowGraph', () => {
+  it('should render scatter, route and done edges as Mermaid', () => {
+    expect(renderMermaid(buildWorkflowGraph(routing))).toBe(
+      [
+        'flowchart TD',
+        '  __start__(["start"])',
+        '  scatter["scatter<br/>$SCATTER_KLADOS"]',
+        '  stamp["stamp<br/>$STAMP_KLADOS"]',
+        '  __done__(("done"))',
+        '  __start__ --> scatter',
+        '  scatter ==>|"scatter"| stamp',
+        '  scatter ==>|"scatter: entity_class = mention"| __done__',
+        '  stamp --> __done__',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should label edges with composed conditions and the default rule', () => {
+    const graph = buildWorkflowGraph({
+      ...routing,
+      flow: {
+        ...routing.flow,
+        scatter: {
+          klados: { id: '$SCATTER_KLADOS' },
+          then: {
+            route: [
+              {
+                where: {
+                  or: [
+                    { property: 'entity_class', in: ['mention', 'alias'] },
+                    { and: [{ property: 'pages', gte: 10, lt: 100 }, { not: { property: 'draft', equals: true } }] },
+                  ],
+                },
+                target: 'done',
+              },
+              { default: true, target: 'stamp' },
+            ],
+          },
+        },
+      },
+    });
+
+    expect(graph.edges.filter((e) => e.from === 'scatter').map((e) => e.label)).toEqual([
+      'entity_class in [mention, alias] or (pages >= 10 and pages < 100 and not (draft = true))',
+      'otherwise',
+    ]);
+  });
+
+  it('should expand sub-rhizai inline', () => {
+    const graph = buildWorkflowGraph(subRhiza, (ref) => (ref === '$STAMP_CHAIN_RHIZA' ? stampChain : undefined));
+
+    expect(graph.clusters).toHaveLength(1);
+    expect(graph.clusters[0].label).toBe('process: Stamp Chain ($STAMP_CHAIN_RHIZA)');
+    expect(graph.clusters[0].nodes.map((n) => n.id)).toEqual(['process__first_stamp', 'process__second_stamp']);
+
+    expect(graph.edges.map((e) => `${e.from} -${e.handoff}-> ${e.to}`)).toEqual([
+      '__start__ -pass-> scatter',
+      'scatter -scatter-> process__first_stamp',
+      'process__first_stamp -pass-> process__second_stamp',
+      // The sub-rhiza's done continues with the invoking step's then
+      'process__second_stamp -pass-> final',
+      'final -pass-> __done__',
+    ]);
+  });
+
+  it('should stop expanding a sub-rhiza that invokes itself', () => {
+    const outer: RhizaWorkflow = {
+      label: 'Outer',
+      version: '1.0',
+      entry: 'inner',
+      flow: { inner: { klados: { id: '$INNER_RHIZA', type: 'rhiza' }, then: { done: true } } },
+    };
+    const inner: RhizaWorkflow = {
+      label: 'Inner',
+      version: '1.0',
+      entry: 'again',
+      flow: { again: { klados: { id: '$INNER_RHIZA', type: 'rhiza' }, then: { done: true } } },
+    };
+
+    // A fresh definition per call, as loading from a file gives
+    const graph = buildWorkflowGraph(outer, (ref) => (ref === '$INNER_RHIZA' ? structuredClone(inner) : undefined));
+
+    expect(graph.clusters).toHaveLength(1);
+    expect(graph.clusters[0].nodes).toEqual([
+      { id: 'inner__again', label: 'again', ref: '$INNER_RHIZA', kind: 'rhiza' },
+    ]);
+  });
+
+  it('should not expand the root workflow inside itself', () => {
+    const looping: RhizaWorkflow = {
+      label: 'Looping',
+      version: '1.0',
+      entry: 'stamp',
+      flow: {
+        stamp: { klados: { id: '$STAMP_KLADOS' }, then: { pass: 'again' } },
+        again: { klados: { id: '$LOOPING_RHIZA', type: 'rhiza' }, then: { done: true } },
+      },
+    };
+
+    const graph = buildWorkflowGraph(looping, () => looping);
+
+    expect(graph.clusters).toEqual([]);
+    expect(graph.nodes.find((n) => n.id === 'again')?.kind).toBe('rhiza');
+  });
+
+  it('should keep unresolved sub-rhizai and dangling targets as nodes', () => {
+    const graph = buildWorkflowGraph({
+      ...subRhiza,
+      flow: { ...subRhiza.flow, final: { klados: { id: '$STAMP_KLADOS' }, then: { pass: 'publish' } } },
+    });
+
+    expect(graph.nodes.find((n) => n.id === 'process')?.kind).toBe('rhiza');
+    expect(graph.nodes.find((n) => n.id === 'publish')?.kind).toBe('missing');
+    expect(renderMermaid(graph)).toContain('  class publish missing');
+  });
+
+  it('should render clusters and edge styles as DOT', () => {
+    const dot = renderDot(buildWorkflowGraph(subRhiza, () => stampChain));
+
+    expect(dot).toContain('digraph "Sub-Rhiza" {');
+    expect(dot).toContain('subgraph "cluster_process" {');
+    expect(dot).toContain('label="process: Stamp Chain ($STAMP_CHAIN_RHIZA)";');
+    expect(dot).toContain('"process__first_stamp" [label="first_stamp\\n$STAMP_KLADOS"];');
+    expect(dot).toContain('"scatter" -> "process__first_stamp" [style=bold, arrowhead=crow, label="scatter"];');
+    expect(dot).toContain('"__done__" [label="done", shape=doublecircle];');
+  });
+});
+
+describe('resolveRhizaFile', () => {
+  const repo = discoverRepo(REPO_ROOT);
+  const stampChainFile = path.join(REPO_ROOT, 'rhizai', 'stamp-chain', 'workflows', 'stamp-chain.json');
+
+  it('should resolve registered rhiza IDs through state files', () => {
+    const rhizaId = 'IIKHMTD0269PNQH9HGFETRJDMD'; // rhizai/stamp-chain/.rhiza-state-stamp-chain.json
+
+    expect(resolveRhizaFile('$PARENT_RHIZA', repo, { PARENT_RHIZA: rhizaId })).toBe(stampChainFile);
+    expect(resolveRhizaFile(rhizaId, repo, {})).toBe(stampChainFile);
+  });
+
+  it('should fall back to the naming convention', () => {
+    expect(resolveRhizaFile('$STAMP_CHAIN_RHIZA', repo, {})).toBe(stampChainFile);
+    expect(resolveRhizaFile('$UNKNOWN_RHIZA', repo, {})).toBeUndefined();
+  });
+
+  it('should expand the repo sub-rhiza-test workflow', () => {
+    const workflow = loadWorkflow(path.join(REPO_ROOT, 'rhizai', 'sub-rhiza-test', 'workflows', 'sub-rhiza-test.json'));
+    const graph = buildWorkflowGraph(workflow, (ref) => {
+      const file = resolveRhizaFile(ref, repo, {});
+      return file ? loadWorkflow(file) : undefined;
+    });
+
+    expect(graph.clusters[0].nodes.map((n) => n.label)).toEqual(['first_stamp', 'second_stamp']);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for workflow trace reports
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildWorkflowTrace,
+  formatTraceText,
+  renderTrace,
+  toChromeTrace,
+  type TraceLogNode,
+  type TraceLogTree,
+} from '../src';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const T0 = Date.parse('2026-01-01T00:00:00.000Z');
+const at = (ms: number) => new Date(T0 + ms).toISOString();
+
+function node(
+  id: string,
+  path: string[],
+  timing: [number, number],
+  properties: Record<string, unknown>,
+  children: TraceLogNode[] = []
+): TraceLogNode {
+  return {
+    log: { id, properties: { klados_id: `klados_${path[path.length - 1]}`, ...properties }, created_at: at(timing[0]), updated_at: at(timing[1]) },
+    step: path[path.length - 1],
+    path,
+    children,
+    expectedChildren: children.length,
+  };
+}
+
+function tree(root: TraceLogNode, extraLogs: string[] = []): TraceLogTree {
+  const logs = new Map<string, TraceLogNode['log']>();
+  const visit = (n: TraceLogNode) => {
+    logs.set(n.log.id, n.log);
+    n.children.forEach(visit);
+  };
+  visit(root);
+  for (const id of extraLogs) logs.set(id, { id, properties: { status: 'done' } });
+
+  return { logs, root, isComplete: true, hasErrors: [...logs.values()].some((l) => (l.properties as { status?: string }).status === 'error') };
+}
+
+/**
+ * scatter (0–100ms) hands off to two stamps; the second fails after 2.5s
+ */
+function fanOut(): TraceLogTree {
+  return tree(
+    node(
+      'log_scatter',
+      ['scatter'],
+      [0, 100],
+      {
+        status: 'done',
+        log_data: {
+          entry: {
+            outputs: ['a', 'b'],
+            handoffs: [{ type: 'scatter', target: 'stamp', invocations: [{}, {}] }],
+          },
+        },
+      },
+      [
+        node('log_stamp_a', ['scatter', 'stamp'], [80, 300], { status: 'done', log_data: { entry: { outputs: ['a'] } } }),
+        node('log_stamp_b', ['scatter', 'stamp'], [90, 2590], {
+          status: 'error',
+          log_data: { entry: { error: { message: 'Target not found' } } },
+        }),
+      ]
+    )
+  );
+}
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('buildWorkflowTrace', () => {
+  it('should nest spans along the tree with timings, handoffs and errors', () => {
+    const trace = buildWorkflowTrace(fanOut());
+
+    expect(trace.start).toBe(at(0));
+    expect(trace.end).toBe(at(2590));
+    expect(trace.durationMs).toBe(2590);
+    expect(trace.errorCount).toBe(1);
+
+    const [a, b] = trace.root!.children;
+    expect(trace.root).toMatchObject({
+      step: 'scatter',
+      outputs: 2,
+      durationMs: 100,
+      handoffs: [{ type: 'scatter', target: 'stamp', invocations: 2 }],
+    });
+    expect(a).toMatchObject({ parentLogId: 'log_scatter', offsetMs: 80, durationMs: 220, path: ['scatter', 'stamp'] });
+    expect(b).toMatchObject({ status: 'error', error: 'Target not found', durationMs: 2500 });
+  });
+
+  it('should leave running logs open and report unlinked logs', () => {
+    const running = node('log_root', ['scatter'], [0, 50], { status: 'running' });
+    const trace = buildWorkflowTrace({ ...tree(running, ['log_orphan']), isComplete: false });
+
+    expect(trace.root!.durationMs).toBeUndefined();
+    expect(trace.end).toBeUndefined();
+    expect(trace.orphanLogIds).toEqual(['log_orphan']);
+  });
+
+  it('should fall back to the klados ID and error messages for bare nodes', () => {
+    const trace = buildWorkflowTrace(
+      tree({
+        log: {
+          id: 'log_1',
+          properties: {
+            klados_id: 'klados_x',
+            status: 'error',
+            log_data: { messages: [{ level: 'info', message: 'starting' }, { level: 'error', message: 'boom' }] },
+          },
+        },
+        children: [],
+      })
+    );
+
+    expect(trace.root).toMatchObject({ step: 'klados_x', path: [], error: 'boom' });
+    expect(trace.root!.offsetMs).toBeUndefined();
+  });
+});
+
+describe('formatTraceText', () => {
+  it('should render the tree, slowest spans and errors', () => {
+    expect(formatTraceText(buildWorkflowTrace(fanOut()))).toBe(
+      [
+        '     +0ms   100ms  scatter done → 2 outputs, scatter 2 → stamp',
+        '    +80ms   220ms    stamp done → 1 outputs',
+        '    +90ms   2.50s    stamp error ✗ Target not found',
+        '',
+        'Logs: 3, duration: 2.59s, complete: true, errors: 1',
+        'Slowest:',
+        '    2.50s  scatter / stamp (log_stamp_b)',
+        '    220ms  scatter / stamp (log_stamp_a)',
+        '    100ms  scatter (log_scatter)',
+        'Errors:',
+        '  scatter / stamp (log_stamp_b): Target not found',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should flag undiscovered children', () => {
+    const root = node('log_root', ['scatter'], [0, 10], { status: 'done' });
+    root.expectedChildren = 3;
+
+    expect(formatTraceText(buildWorkflowTrace(tree(root)))).toContain('scatter done → 0 outputs (0/3 children found)');
+  });
+});
+
+describe('toChromeTrace', () => {
+  it('should emit complete events on separate lanes with handoff flows', () => {
+    const { traceEvents } = toChromeTrace(buildWorkflowTrace(fanOut()), 'Fan-out');
+    const spans = traceEvents.filter((e) => e.ph === 'X');
+
+    expect(traceEvents[0]).toMatchObject({ ph: 'M', name: 'process_name', args: { name: 'Fan-out' } });
+    expect(spans.map((e) => [e.args!.log_id, e.ts, e.dur, e.tid])).toEqual([
+      ['log_scatter', 0, 100_000, 1],
+      ['log_stamp_a', 80_000, 220_000, 2],
+      ['log_stamp_b', 90_000, 2_500_000, 3],
+    ]);
+
+    const flows = traceEvents.filter((e) => e.ph === 's' || e.ph === 'f');
+    expect(flows).toHaveLength(4);
+    expect(flows[0]).toMatchObject({ ph: 's', ts: 80_000, tid: 1, id: 'log_scatter->log_stamp_a' });
+    expect(flows[1]).toMatchObject({ ph: 'f', ts: 80_000, tid: 2, id: 'log_scatter->log_stamp_a' });
+  });
+});
+
+describe('renderTrace', () => {
+  it('should render JSON', () => {
+    const json = JSON.parse(renderTrace(fanOut(), 'json'));
+    expect(json.root.children).toHaveLength(2);
+    expect(json.errorCount).toBe(1);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Tests for the static workflow validator
+ */
+
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, it, expect } from 'vitest';
+import {
+  discoverRepo,
+  repoValidationContext,
+  validateWorkflow,
+  validateWorkflowFile,
+  type AgentManifest,
+  type WorkflowIssue,
+} from '../src';
+
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../..');
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function agent(accepts: 'one' | 'many', produces: 'one' | 'many', types = ['*']): AgentManifest {
+  return {
+    label: 'Test',
+    accepts: { types, cardinality: accepts },
+    produces: { types, cardinality: produces },
+  };
+}
+
+function workflow(flow: Record<string, unknown>, entry = Object.keys(flow)[0]) {
+  return { label: 'Test', version: '1.0', entry, flow };
+}
+
+const codes = (issues: WorkflowIssue[]) => issues.map((i) => `${i.severity}:${i.code}:${i.step ?? ''}`);
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('validateWorkflow', () => {
+  it('should accept every workflow in the repo', () => {
+    const repo = discoverRepo(REPO_ROOT);
+    const context = repoValidationContext(repo);
+
+    for (const file of Object.values(repo.workflowFiles)) {
+      const errors = validateWorkflowFile(file, context).filter((i) => i.severity === 'error');
+      expect(errors, file).toEqual([]);
+    }
+  });
+
+  it('should report structural errors', () => {
+    const issues = validateWorkflow({
+      version: 1,
+      entry: 'a',
+      flow: {
+        a: { klados: { id: '' }, then: { pass: 'b', scatter: 'b' } },
+        b: { klados: { id: '$X', type: 'agent' }, then: { done: false } },
+        c: { klados: { id: '$X' }, then: { gather: 'a' } },
+      },
+    });
+
+    expect(codes(issues)).toEqual(
+      expect.arrayContaining([
+        'error:invalid-structure:',
+        'error:invalid-structure:a',
+        'error:invalid-structure:b',
+        'error:invalid-structure:c',
+      ])
+    );
+    expect(issues.map((i) => i.message)).toEqual(
+      expect.arrayContaining([
+        '"label" must be a non-empty string',
+        '"version" must be a non-empty string',
+        '"klados.id" must be a non-empty string',
+        '"then" cannot have both pass and scatter',
+        '"klados.type" must be "klados" or "rhiza", got "agent"',
+        '"done" must be true',
+        'Unknown handoff "gather" in "then" (expected pass, scatter, route or done)',
+      ])
+    );
+  });
+
+  it('should report a missing entry step', () => {
+    const issues = validateWorkflow(workflow({ a: { klados: { id: '$X' }, then: { done: true } } }, 'start'));
+    expect(issues).toContainEqual({
+      severity: 'error',
+      code: 'missing-entry',
+      message: 'Entry step "start" is not defined in flow',
+    });
+  });
+
+  it('should report dangling and unreachable steps', () => {
+    const issues = validateWorkflow(
+      workflow({
+        scatter: { klados: { id: '$X' }, then: { scatter: 'stmap' } },
+        stamp: { klados: { id: '$X' }, then: { done: true } },
+      })
+    );
+
+    expect(codes(issues)).toEqual(['error:unknown-step:scatter', 'warning:unreachable-step:stamp']);
+    expect(issues[0].message).toBe('Hands off to undefined step "stmap"');
+  });
+
+  it('should report cycles once', () => {
+    const issues = validateWorkflow(
+      workflow({
+        a: { klados: { id: '$X' }, then: { pass: 'b' } },
+        b: { klados: { id: '$X' }, then: { pass: 'a' } },
+      })
+    );
+
+    expect(codes(issues)).toEqual(['error:cycle:a']);
+    expect(issues[0].message).toBe('Flow loops back on itself: a → b → a');
+  });
+
+  it('should check route rules', () => {
+    const issues = validateWorkflow(
+      workflow({
+        scatter: {
+          klados: { id: '$X' },
+          then: {
+            scatter: 'stamp',
+            route: [
+              { where: { property: 'entity_class', equals: 'mention' }, target: 'done' },
+              { where: { property: 'entity_class', equals: 'mention' }, target: 'stamp' },
+              { where: { property: '', equals: { nested: true } }, target: 'stamp' },
+              { where: { property: 'kind', equals: 'x', near: 'x' }, target: 'missing' },
+              { target: 'stamp' },
+            ],
+          },
+        },
+        stamp: { klados: { id: '$X' }, then: { done: true } },
+      })
+    );
+
+    expect(issues.map((i) => i.message)).toEqual([
+      'route[1] repeats an earlier condition and will never match',
+      'route[1] targets the default step "stamp" and has no effect',
+      'route[2].where.property must be a non-empty string',
+      'route[2].where.equals must be a string, number, boolean or null',
+      'route[2] targets the default step "stamp" and has no effect',
+      'route[3].where has unknown key "near"',
+      'route[4].where must be an object (or use "default": true)',
+    ]);
+  });
+
+  it('should check composed conditions and the default rule', () => {
+    const issues = validateWorkflow(
+      workflow({
+        scatter: {
+          klados: { id: '$X' },
+          then: {
+            route: [
+              {
+                where: {
+                  and: [
+                    { property: 'pages', gte: 10, lt: '100' },
+                    { or: [] },
+                    { not: { property: 'title', matches: '([a-z' } },
+                  ],
+                },
+                target: 'stamp',
+              },
+              { where: { not: { property: 'kind', in: [] }, property: 'kind' }, target: 'stamp' },
+              { where: { property: 'kind', exists: 'yes' }, default: true, target: 'stamp' },
+              { default: true, target: 'stamp' },
+              { where: { property: 'kind', not_equals: null }, target: 'done' },
+            ],
+          },
+        },
+        stamp: { klados: { id: '$X' }, then: { done: true } },
+      })
+    );
+
+    expect(issues.map((i) => i.message)).toEqual([
+      'route[0].where.and[0].lt must be a number',
+      'route[0].where.and[1].or must be a non-empty array of conditions',
+      expect.stringMatching(/^route\[0\]\.where\.and\[2\]\.not\.matches is not a valid regular expression/),
+      'route[1].where must have "not" as its only key',
+      'route[2] cannot have both "where" and "default"',
+      'route[3] comes after the default rule route[2] and will never match',
+      'route[4] comes after the default rule route[2] and will never match',
+    ]);
+  });
+
+  it('should accept every condition operator', () => {
+    const issues = validateWorkflow(
+      workflow({
+        scatter: {
+          klados: { id: '$X' },
+          then: {
+            scatter: 'stamp',
+            route: [
+              { where: { property: 'kind', in: ['a', 'b'] }, target: 'done' },
+              { where: { property: 'kind', not_equals: 'c' }, target: 'done' },
+              { where: { property: 'pages', gt: 1, gte: 2, lt: 10, lte: 9 }, target: 'done' },
+              { where: { property: 'title', matches: '^Chapter \\d+$' }, target: 'done' },
+              { where: { or: [{ property: 'a', exists: true }, { not: { property: 'b', equals: null } }] }, target: 'done' },
+              { default: true, target: 'done' },
+            ],
+          },
+        },
+        stamp: { klados: { id: '$X' }, then: { done: true } },
+      })
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should check handoffs against agent cardinality', () => {
+    const context = {
+      agents: {
+        SCATTER_KLADOS: agent('many', 'many'),
+        STAMP_KLADOS: agent('one', 'one'),
+      },
+    };
+
+    const passMany = validateWorkflow(
+      workflow({
+        scatter: { klados: { id: '$SCATTER_KLADOS' }, then: { pass: 'stamp' } },
+        stamp: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } },
+      }),
+      context
+    );
+    expect(codes(passMany)).toEqual(['error:cardinality-mismatch:scatter']);
+    expect(passMany[0].message).toBe(
+      'Passes many outputs from $SCATTER_KLADOS to "stamp", but $STAMP_KLADOS accepts one (use scatter)'
+    );
+
+    const scatterOne = validateWorkflow(
+      workflow({
+        stamp: { klados: { id: '$STAMP_KLADOS' }, then: { scatter: 'scatter' } },
+        scatter: { klados: { id: '$SCATTER_KLADOS' }, then: { done: true } },
+      }),
+      context
+    );
+    expect(codes(scatterOne)).toEqual(['warning:cardinality-mismatch:stamp']);
+  });
+
+  it('should check handoffs against agent types', () => {
+    const issues = validateWorkflow(
+      workflow({
+        chunk: { klados: { id: '$CHUNKER_KLADOS' }, then: { scatter: 'extract' } },
+        extract: { klados: { id: '$EXTRACTOR_KLADOS' }, then: { done: true } },
+      }),
+      {
+        agents: {
+          CHUNKER_KLADOS: agent('one', 'many', ['text_chunk']),
+          EXTRACTOR_KLADOS: agent('one', 'many', ['document']),
+        },
+      }
+    );
+
+    expect(codes(issues)).toEqual(['error:type-mismatch:chunk']);
+  });
+
+  it('should check sub-rhiza steps against the sub-workflow entry', () => {
+    const context = {
+      agents: { SCATTER_KLADOS: agent('many', 'many'), STAMP_KLADOS: agent('one', 'one') },
+      rhizai: {
+        STAMP_CHAIN_RHIZA: workflow({ first: { klados: { id: '$STAMP_KLADOS' }, then: { done: true } } }),
+      },
+    };
+
+    const issues = validateWorkflow(
+      workflow({
+        scatter: { klados: { id: '$SCATTER_KLADOS' }, then: { pass: 'process' } },
+        process: { klados: { id: '$STAMP_CHAIN_RHIZA', type: 'rhiza' }, then: { done: true } },
+        missing: { klados: { id: '$OTHER_RHIZA', type: 'rhiza' }, then: { done: true } },
+      }),
+      context
+    );
+
+    expect(codes(issues)).toEqual([
+      'warning:unreachable-step:missing',
+      'warning:unknown-rhiza:missing',
+      'error:cardinality-mismatch:scatter',
+    ]);
+  });
+});